@@ -4,12 +4,27 @@ import { View } from 'react-native';
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import RootNavigator from './src/navigation/RootNavigator';
 import { offlineCache } from './src/database/offlineCache';
+import { localLibrary } from './src/database/localLibrary';
+import { loadLibraryMode } from './src/api/dataSource';
 import { ThemeProvider } from './src/contexts/ThemeContext';
 import { SettingsProvider } from './src/contexts/SettingsContext';
-import { QueryProvider } from './src/providers/QueryProvider';
+import { QueryProvider, queryClient } from './src/providers/QueryProvider';
+import { QueryCachePersister } from './src/services/QueryCachePersister';
 import { NetworkProvider } from './src/providers/NetworkProvider';
+import { SyncProvider } from './src/providers/SyncProvider';
+import { DownloadProvider } from './src/providers/DownloadProvider';
 import { LoadingState, ErrorState, ErrorBoundary } from './src/components';
 
+async function initializeDatabases(): Promise<void> {
+  // Initialize offline cache database
+  await offlineCache.initialize();
+
+  // Open the local library up front so migrations run before the first query
+  if ((await loadLibraryMode()) === 'local') {
+    await localLibrary.initialize();
+  }
+}
+
 export default function App() {
   const [isReady, setIsReady] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -18,9 +33,10 @@ export default function App() {
     async function initializeApp() {
       try {
         if (__DEV__) console.log('Starting app initialization...');
-        // Initialize offline cache database
-        await offlineCache.initialize();
-        if (__DEV__) console.log('Offline cache initialized successfully');
+        await initializeDatabases();
+        if (__DEV__) console.log('Databases initialized successfully');
+        // Show the last known catalog while the first requests are in flight
+        await QueryCachePersister.restore(queryClient);
         setIsReady(true);
       } catch (err: any) {
         if (__DEV__) console.error('Failed to initialize app:', err);
@@ -41,8 +57,7 @@ export default function App() {
             onRetry={() => {
               setError(null);
               setIsReady(false);
-              offlineCache
-                .initialize()
+              initializeDatabases()
                 .then(() => setIsReady(true))
                 .catch((err) => setError(err.message || 'Failed to initialize app'));
             }}
@@ -65,12 +80,16 @@ export default function App() {
       <ErrorBoundary>
         <QueryProvider>
           <NetworkProvider>
-            <SettingsProvider>
-              <GestureHandlerRootView style={{ flex: 1 }}>
-                <RootNavigator />
-                <StatusBar style="auto" />
-              </GestureHandlerRootView>
-            </SettingsProvider>
+            <SyncProvider>
+              <SettingsProvider>
+                <DownloadProvider>
+                  <GestureHandlerRootView style={{ flex: 1 }}>
+                    <RootNavigator />
+                    <StatusBar style="auto" />
+                  </GestureHandlerRootView>
+                </DownloadProvider>
+              </SettingsProvider>
+            </SyncProvider>
           </NetworkProvider>
         </QueryProvider>
       </ErrorBoundary>
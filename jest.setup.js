@@ -55,6 +55,11 @@ jest.mock('expo-sqlite', () => {
   };
 });
 
+// Mock AsyncStorage with the package's in-memory implementation
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
 // Mock expo-secure-store
 jest.mock('expo-secure-store', () => ({
   getItemAsync: jest.fn(),
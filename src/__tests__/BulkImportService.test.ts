@@ -0,0 +1,237 @@
+import { strToU8, zipSync } from 'fflate';
+import { Directory } from 'expo-file-system/next';
+import { BulkImportService, ImportEntry } from '../services/BulkImportService';
+import { localLibrary } from '@/database/localLibrary';
+import type { Guide } from '@/types';
+
+jest.mock('@/database/localLibrary');
+
+const mockFiles: Record<string, string | Uint8Array> = {};
+const mockStrToU8 = strToU8;
+jest.mock('expo-file-system/next', () => {
+  class MockFile {
+    uri: string;
+    constructor(uri: string) {
+      this.uri = uri;
+    }
+    get name() {
+      return this.uri.split('/').pop();
+    }
+    async bytes() {
+      const data = mockFiles[this.uri];
+      return typeof data === 'string' ? mockStrToU8(data) : data;
+    }
+  }
+  class MockDirectory {
+    name: string;
+    children: unknown[];
+    constructor(dirName: string, children: unknown[]) {
+      this.name = dirName;
+      this.children = children;
+    }
+    list() {
+      return this.children;
+    }
+  }
+  return { File: MockFile, Directory: MockDirectory };
+});
+
+const mockLocalLibrary = localLibrary as jest.Mocked<typeof localLibrary>;
+
+const entry = (
+  path: string,
+  content: string | Uint8Array,
+  uri = `file:///imports/${path}`
+): ImportEntry => ({
+  path,
+  uri,
+  read: async () => (typeof content === 'string' ? strToU8(content) : content),
+});
+
+describe('BulkImportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockLocalLibrary.getImportedFilePaths.mockResolvedValue(new Set());
+    mockLocalLibrary.addGuide.mockImplementation(
+      async (parsed, filePath) => ({ id: `id:${filePath}`, title: parsed.title }) as Guide
+    );
+  });
+
+  describe('listZipEntries', () => {
+    it('should list files and inflate them on read', async () => {
+      const archive = zipSync({
+        'snes/563538-chrono-trigger/faqs/walkthrough.txt': strToU8('Chrono Trigger FAQ'),
+        'snes/563538-chrono-trigger/faqs/': new Uint8Array(0),
+      });
+
+      const entries = BulkImportService.listZipEntries(
+        archive,
+        'GameFAQs',
+        'file:///cache/GameFAQs.zip'
+      );
+
+      expect(entries.map(e => e.path)).toEqual([
+        'GameFAQs/snes/563538-chrono-trigger/faqs/walkthrough.txt',
+      ]);
+      expect(entries[0].uri).toBe(
+        'file:///cache/GameFAQs.zip!/snes/563538-chrono-trigger/faqs/walkthrough.txt'
+      );
+      await expect(entries[0].read()).resolves.toEqual(strToU8('Chrono Trigger FAQ'));
+    });
+  });
+
+  describe('collectEntries', () => {
+    it('should expand ZIP archives among picked files', async () => {
+      mockFiles['file:///cache/guides.zip'] = zipSync({ 'zelda.txt': strToU8('Zelda') });
+      mockFiles['file:///cache/mario.md'] = '# Mario';
+
+      const entries = await BulkImportService.collectEntries({
+        type: 'files',
+        files: [
+          { uri: 'file:///cache/guides.zip', name: 'guides.zip' },
+          { uri: 'file:///cache/mario.md', name: 'mario.md' },
+        ],
+      });
+
+      expect(entries.map(e => e.path)).toEqual(['guides/zelda.txt', 'mario.md']);
+      expect(entries.map(e => e.uri)).toEqual([
+        'file:///cache/guides.zip!/zelda.txt',
+        'file:///cache/mario.md',
+      ]);
+      await expect(entries[1].read()).resolves.toEqual(strToU8('# Mario'));
+    });
+
+    it('should walk folders recursively', async () => {
+      const { File } = jest.requireMock('expo-file-system/next');
+      const MockDirectory = Directory as unknown as new (
+        name: string,
+        children: unknown[]
+      ) => Directory;
+      mockFiles['file:///guides/faq.txt'] = 'FAQ';
+      const directory = new MockDirectory('Guides', [
+        new MockDirectory('nes', [new File('file:///guides/faq.txt')]),
+      ]);
+
+      const entries = await BulkImportService.collectEntries({ type: 'folder', directory });
+
+      expect(entries.map(e => e.path)).toEqual(['Guides/nes/faq.txt']);
+      expect(entries[0].uri).toBe('file:///guides/faq.txt');
+    });
+  });
+
+  describe('importEntries', () => {
+    it('should infer game and platform from the archive path and add auto-tags', async () => {
+      const summary = await BulkImportService.importEntries([
+        entry(
+          'GameFAQs/snes/563538-chrono-trigger/faqs/walkthrough.txt',
+          'CHRONO TRIGGER WALKTHROUGH\n\nBoss strategies inside.'
+        ),
+      ]);
+
+      expect(summary.imported).toEqual([
+        {
+          path: 'GameFAQs/snes/563538-chrono-trigger/faqs/walkthrough.txt',
+          guideId: 'id:file:///imports/GameFAQs/snes/563538-chrono-trigger/faqs/walkthrough.txt',
+          title: expect.any(String),
+        },
+      ]);
+      const metadata = mockLocalLibrary.addGuide.mock.calls[0][2]!;
+      expect(metadata).toEqual(
+        expect.objectContaining({
+          platform: 'SNES',
+          gameName: 'Chrono Trigger',
+          gamefaqsId: '563538',
+        })
+      );
+      expect(metadata.tags).toEqual(expect.arrayContaining(['Walkthrough', 'Boss Guide']));
+    });
+
+    it('should skip unsupported, duplicate and empty files and ignore system files', async () => {
+      mockLocalLibrary.getImportedFilePaths.mockResolvedValueOnce(
+        new Set(['file:///imports/guides/old.txt'])
+      );
+
+      const summary = await BulkImportService.importEntries([
+        entry('guides/map.png', ''),
+        entry('guides/old.txt', 'Old guide'),
+        entry('guides/blank.txt', '   \n'),
+        entry('__MACOSX/guides/._new.txt', 'junk'),
+        entry('guides/.DS_Store', 'junk'),
+        entry('guides/new.txt', 'New guide'),
+      ]);
+
+      expect(summary.imported.map(i => i.path)).toEqual(['guides/new.txt']);
+      expect(summary.skipped).toEqual([
+        { path: 'guides/map.png', reason: 'Unsupported file type' },
+        { path: 'guides/old.txt', reason: 'Already in library' },
+        { path: 'guides/blank.txt', reason: 'Empty file' },
+      ]);
+      expect(summary.failed).toEqual([]);
+    });
+
+    it('should tell apart files that share a name', async () => {
+      const summary = await BulkImportService.importEntries([
+        entry('walkthrough.txt', 'Zelda walkthrough', 'file:///zelda/walkthrough.txt'),
+        entry('walkthrough.txt', 'Metroid walkthrough', 'file:///metroid/walkthrough.txt'),
+        entry('walkthrough.txt', 'Zelda walkthrough', 'file:///zelda/walkthrough.txt'),
+      ]);
+
+      expect(summary.imported.map(i => i.guideId)).toEqual([
+        'id:file:///zelda/walkthrough.txt',
+        'id:file:///metroid/walkthrough.txt',
+      ]);
+      expect(summary.skipped).toEqual([{ path: 'walkthrough.txt', reason: 'Already in library' }]);
+    });
+
+    it('should detect legacy encodings and record them in metadata', async () => {
+      // "║ Items ║" framed with CP437 double box lines
+      const cp437 = new Uint8Array([
+        0xba,
+        0x20,
+        ...strToU8('Items'),
+        0x20,
+        0xba,
+        0x0a,
+        0xc8,
+        0xcd,
+        0xcd,
+        0xbc,
+      ]);
+
+      await BulkImportService.importEntries([entry('guides/dos.txt', cp437)]);
+
+      const [parsed, , metadata] = mockLocalLibrary.addGuide.mock.calls[0];
+      expect(parsed.content).toContain('║ Items ║');
+      expect(metadata?.encoding).toBe('cp437');
+    });
+
+    it('should record failures and keep going', async () => {
+      const summary = await BulkImportService.importEntries([
+        {
+          path: 'guides/broken.txt',
+          uri: 'file:///imports/guides/broken.txt',
+          read: () => Promise.reject(new Error('Read error')),
+        },
+        entry('guides/ok.txt', 'Fine'),
+      ]);
+
+      expect(summary.failed).toEqual([{ path: 'guides/broken.txt', error: 'Read error' }]);
+      expect(summary.imported).toHaveLength(1);
+    });
+
+    it('should report progress for each file', async () => {
+      const onProgress = jest.fn();
+
+      await BulkImportService.importEntries(
+        [entry('a.txt', 'A guide'), entry('b.txt', 'B guide')],
+        onProgress
+      );
+
+      expect(onProgress.mock.calls.map(([progress]) => progress)).toEqual([
+        { completed: 0, total: 2, currentPath: 'a.txt' },
+        { completed: 1, total: 2, currentPath: 'b.txt' },
+        { completed: 2, total: 2, currentPath: null },
+      ]);
+    });
+  });
+});
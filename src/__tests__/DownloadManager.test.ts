@@ -1,14 +1,21 @@
 import { DownloadManager, DownloadProgress } from '../services/DownloadManager';
+import { DownloadQueue } from '../services/DownloadQueue';
 import { guidesApi } from '@/api/endpoints/guides';
+import { gamesApi } from '@/api/endpoints/games';
 import { offlineCache } from '@/database/offlineCache';
+import type { GuideSummary } from '@/api/types';
 import type { Guide } from '@/types';
 
 // Mock dependencies
 jest.mock('@/api/endpoints/guides');
+jest.mock('@/api/endpoints/games');
 jest.mock('@/database/offlineCache');
+jest.mock('../services/DownloadQueue');
 
 const mockGuidesApi = guidesApi as jest.Mocked<typeof guidesApi>;
+const mockGamesApi = gamesApi as jest.Mocked<typeof gamesApi>;
 const mockOfflineCache = offlineCache as jest.Mocked<typeof offlineCache>;
+const mockDownloadQueue = DownloadQueue as jest.Mocked<typeof DownloadQueue>;
 
 describe('DownloadManager', () => {
   beforeEach(() => {
@@ -113,87 +120,78 @@ describe('DownloadManager', () => {
     });
   });
 
-  describe('downloadMultiple', () => {
-    it('should download multiple guides', async () => {
-      mockGuidesApi.getById.mockImplementation(async (id) => ({
-        data: createMockGuide(id),
-      }));
-      mockOfflineCache.saveGuide.mockResolvedValue(undefined);
-
-      const result = await DownloadManager.downloadMultiple([
-        'guide-a',
-        'guide-b',
-        'guide-c',
-      ]);
+  describe('bulk downloads', () => {
+    const createSummary = (id: string, contentLength: number): GuideSummary => ({
+      id,
+      title: `Guide ${id}`,
+      format: 'txt',
+      file_path: `/path/${id}.txt`,
+      game_id: null,
+      last_read_position: null,
+      metadata: null,
+      created_at: 1,
+      updated_at: 1,
+      content_length: contentLength,
+    });
 
-      expect(result.success).toEqual(['guide-a', 'guide-b', 'guide-c']);
-      expect(result.failed).toEqual([]);
+    const page = (data: GuideSummary[], pageNumber: number, totalPages: number) => ({
+      data,
+      pagination: { page: pageNumber, limit: 100, total: totalPages * 100, totalPages },
     });
 
-    it('should track failed downloads', async () => {
-      mockGuidesApi.getById.mockImplementation(async (id) => {
-        if (id === 'guide-fail') {
-          throw new Error('Failed');
-        }
-        return { data: createMockGuide(id) };
-      });
-      mockOfflineCache.saveGuide.mockResolvedValue(undefined);
+    it('should page through every guide matching the filters', async () => {
+      const filters = { platform: 'SNES', tags: ['RPG'], tagMatch: 'all' as const };
+      mockGuidesApi.getAll
+        .mockResolvedValueOnce(page([createSummary('g1', 100)], 1, 2))
+        .mockResolvedValueOnce(page([createSummary('g2', 200)], 2, 2));
 
-      const result = await DownloadManager.downloadMultiple([
-        'guide-ok',
-        'guide-fail',
-      ]);
+      const guides = await DownloadManager.collectGuides({ filters });
 
-      expect(result.success).toEqual(['guide-ok']);
-      expect(result.failed).toEqual(['guide-fail']);
+      expect(guides.map((guide) => guide.id)).toEqual(['g1', 'g2']);
+      expect(mockGuidesApi.getAll).toHaveBeenNthCalledWith(1, 1, 100, filters);
+      expect(mockGuidesApi.getAll).toHaveBeenNthCalledWith(2, 2, 100, filters);
     });
 
-    it('should call progress callback with completed count', async () => {
-      mockGuidesApi.getById.mockImplementation(async (id) => ({
-        data: createMockGuide(id),
-      }));
-      mockOfflineCache.saveGuide.mockResolvedValue(undefined);
-
-      const onProgress = jest.fn();
+    it("should collect a game's guides", async () => {
+      mockGamesApi.getGuides.mockResolvedValue({ data: [createSummary('g1', 100)] });
 
-      await DownloadManager.downloadMultiple(
-        ['guide-1', 'guide-2', 'guide-3'],
-        onProgress
-      );
+      const guides = await DownloadManager.collectGuides({ gameId: 'game-1' });
 
-      expect(onProgress).toHaveBeenCalledTimes(3);
-      expect(onProgress).toHaveBeenCalledWith(1, 3);
-      expect(onProgress).toHaveBeenCalledWith(2, 3);
-      expect(onProgress).toHaveBeenCalledWith(3, 3);
+      expect(mockGamesApi.getGuides).toHaveBeenCalledWith('game-1');
+      expect(guides).toHaveLength(1);
     });
 
-    it('should call progress even on failures', async () => {
-      mockGuidesApi.getById.mockRejectedValue(new Error('All fail'));
-
-      const onProgress = jest.fn();
+    it('should plan only guides not yet downloaded and estimate their size', async () => {
+      mockGamesApi.getGuides.mockResolvedValue({
+        data: [createSummary('g1', 1000), createSummary('g2', 2000), createSummary('g3', 500)],
+      });
+      mockOfflineCache.getDownloadedGuideIds.mockResolvedValue(['g2']);
 
-      await DownloadManager.downloadMultiple(['guide-1', 'guide-2'], onProgress);
+      const plan = await DownloadManager.planBulkDownload({ gameId: 'game-1' });
 
-      expect(onProgress).toHaveBeenCalledWith(1, 2);
-      expect(onProgress).toHaveBeenCalledWith(2, 2);
+      expect(plan.guides.map((guide) => guide.id)).toEqual(['g1', 'g3']);
+      expect(plan.alreadyDownloaded).toBe(1);
+      expect(plan.totalBytes).toBe(1500);
     });
 
-    it('should return empty arrays for empty input', async () => {
-      const result = await DownloadManager.downloadMultiple([]);
+    it('should count a guide repeated across pages once', async () => {
+      mockGuidesApi.getAll
+        .mockResolvedValueOnce(page([createSummary('g1', 100)], 1, 2))
+        .mockResolvedValueOnce(page([createSummary('g1', 100)], 2, 2));
+      mockOfflineCache.getDownloadedGuideIds.mockResolvedValue([]);
 
-      expect(result.success).toEqual([]);
-      expect(result.failed).toEqual([]);
-    });
+      const plan = await DownloadManager.planBulkDownload({ filters: { platform: 'SNES' } });
 
-    it('should work without progress callback', async () => {
-      mockGuidesApi.getById.mockImplementation(async (id) => ({
-        data: createMockGuide(id),
-      }));
-      mockOfflineCache.saveGuide.mockResolvedValue(undefined);
+      expect(plan.guides).toHaveLength(1);
+      expect(plan.totalBytes).toBe(100);
+    });
 
-      const result = await DownloadManager.downloadMultiple(['guide-1']);
+    it('should hand guides to the download queue', async () => {
+      mockDownloadQueue.enqueue.mockResolvedValue(2);
+      const guides = [{ id: 'g1', title: 'One' }, { id: 'g2' }];
 
-      expect(result.success).toEqual(['guide-1']);
+      expect(await DownloadManager.queueDownloads(guides)).toBe(2);
+      expect(mockDownloadQueue.enqueue).toHaveBeenCalledWith(guides);
     });
   });
 
@@ -0,0 +1,222 @@
+import {
+  DownloadQueue,
+  DOWNLOAD_RETRY_DELAY,
+  MAX_DOWNLOAD_ATTEMPTS,
+} from '../services/DownloadQueue';
+import { guidesApi } from '@/api/endpoints/guides';
+import { offlineCache, type DownloadQueueRow } from '@/database/offlineCache';
+import type { Guide } from '@/types';
+
+jest.mock('@/api/endpoints/guides');
+jest.mock('@/database/offlineCache');
+
+const mockGuidesApi = guidesApi as jest.Mocked<typeof guidesApi>;
+const mockOfflineCache = offlineCache as jest.Mocked<typeof offlineCache>;
+
+const queueRow = (guideId: string, overrides?: Partial<DownloadQueueRow>): DownloadQueueRow => ({
+  guide_id: guideId,
+  title: `Guide ${guideId}`,
+  status: 'pending',
+  attempts: 0,
+  last_error: null,
+  next_attempt_at: 0,
+  created_at: 1,
+  ...overrides,
+});
+
+const guide = (id: string): Guide => ({
+  id,
+  title: `Guide ${id}`,
+  content: 'Content',
+  format: 'txt',
+  file_path: '',
+  game_id: null,
+  last_read_position: null,
+  metadata: null,
+  created_at: 1,
+  updated_at: 1,
+});
+
+// Let the downloads and the promises they chain run
+async function flush(): Promise<void> {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+describe('DownloadQueue', () => {
+  let rows: DownloadQueueRow[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    DownloadQueue.reset();
+    rows = [];
+    mockOfflineCache.getDownloadedGuideIds.mockResolvedValue([]);
+    mockOfflineCache.getDownloadQueue.mockImplementation(async () => rows);
+    mockOfflineCache.addToDownloadQueue.mockImplementation(async guides => {
+      rows = [...rows, ...guides.map(added => queueRow(added.id, { title: added.title }))];
+    });
+    mockGuidesApi.getById.mockImplementation(async id => ({ data: guide(id) }));
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should skip guides that are downloaded or already queued', async () => {
+    mockOfflineCache.getDownloadedGuideIds.mockResolvedValue(['g1']);
+
+    expect(await DownloadQueue.enqueue([{ id: 'g1' }, { id: 'g2' }])).toBe(1);
+    expect(await DownloadQueue.enqueue([{ id: 'g2' }])).toBe(0);
+
+    expect(mockOfflineCache.addToDownloadQueue).toHaveBeenCalledTimes(1);
+    expect(DownloadQueue.getItems().map(item => item.guideId)).toEqual(['g2']);
+  });
+
+  it('should not download while offline', async () => {
+    await DownloadQueue.enqueue([{ id: 'g1' }]);
+    await flush();
+
+    expect(mockGuidesApi.getById).not.toHaveBeenCalled();
+  });
+
+  it('should download queued guides and report progress', async () => {
+    const events: string[] = [];
+    DownloadQueue.subscribe(progress => events.push(`${progress.guideId}:${progress.status}`));
+    DownloadQueue.setOnline(true);
+
+    await DownloadQueue.enqueue([{ id: 'g1' }]);
+    await flush();
+
+    expect(mockOfflineCache.saveGuide).toHaveBeenCalledWith(guide('g1'));
+    expect(mockOfflineCache.removeFromDownloadQueue).toHaveBeenCalledWith('g1');
+    expect(events).toEqual(['g1:pending', 'g1:downloading', 'g1:complete']);
+    expect(DownloadQueue.getItems()).toEqual([]);
+  });
+
+  it('should run no more downloads at once than the concurrency allows', async () => {
+    mockGuidesApi.getById.mockImplementation(() => new Promise(() => {}));
+    DownloadQueue.setConcurrency(2);
+    DownloadQueue.setOnline(true);
+
+    await DownloadQueue.enqueue([{ id: 'g1' }, { id: 'g2' }, { id: 'g3' }]);
+
+    expect(mockGuidesApi.getById).toHaveBeenCalledTimes(2);
+    expect(DownloadQueue.getItems().map(item => item.status)).toEqual([
+      'downloading',
+      'downloading',
+      'pending',
+    ]);
+  });
+
+  it('should carry on with the queue saved by the last session', async () => {
+    rows = [queueRow('g1'), queueRow('g2', { status: 'paused' })];
+    DownloadQueue.setOnline(true);
+
+    await DownloadQueue.initialize();
+    await flush();
+
+    expect(mockGuidesApi.getById).toHaveBeenCalledTimes(1);
+    expect(mockGuidesApi.getById).toHaveBeenCalledWith('g1');
+  });
+
+  it('should keep guides queued while the saved queue loads', async () => {
+    let loadSaved: (saved: DownloadQueueRow[]) => void = () => {};
+    mockOfflineCache.getDownloadQueue.mockImplementationOnce(
+      () => new Promise(resolve => (loadSaved = resolve))
+    );
+    const loading = DownloadQueue.initialize();
+
+    await DownloadQueue.enqueue([{ id: 'g2' }]);
+    loadSaved([queueRow('g1')]);
+    await loading;
+
+    expect(DownloadQueue.getItems().map(item => item.guideId)).toEqual(['g1', 'g2']);
+  });
+
+  it('should retry a failed download after a delay', async () => {
+    mockGuidesApi.getById.mockRejectedValueOnce(new Error('Network request failed'));
+    DownloadQueue.setOnline(true);
+
+    await DownloadQueue.enqueue([{ id: 'g1' }]);
+    await flush();
+
+    const [guideId, error, nextAttemptAt] = mockOfflineCache.recordDownloadFailure.mock.calls[0];
+    expect([guideId, error]).toEqual(['g1', 'Network request failed']);
+    expect(nextAttemptAt).toBeGreaterThanOrEqual(Date.now() + DOWNLOAD_RETRY_DELAY);
+
+    jest.advanceTimersByTime(DOWNLOAD_RETRY_DELAY);
+    await flush();
+
+    expect(mockOfflineCache.saveGuide).toHaveBeenCalledWith(guide('g1'));
+  });
+
+  it('should mark a download as failed once out of attempts', async () => {
+    rows = [queueRow('g1', { attempts: MAX_DOWNLOAD_ATTEMPTS - 1 })];
+    mockGuidesApi.getById.mockRejectedValue(new Error('Not found'));
+    DownloadQueue.setOnline(true);
+
+    await DownloadQueue.initialize();
+    await flush();
+
+    expect(mockOfflineCache.recordDownloadFailure).toHaveBeenCalledWith('g1', 'Not found', null);
+    expect(DownloadQueue.getItems()[0]).toMatchObject({ status: 'error', error: 'Not found' });
+  });
+
+  it('should keep a download paused mid-flight', async () => {
+    let finish: () => void = () => {};
+    mockGuidesApi.getById.mockImplementationOnce(
+      id => new Promise(resolve => (finish = () => resolve({ data: guide(id) })))
+    );
+    DownloadQueue.setOnline(true);
+    await DownloadQueue.enqueue([{ id: 'g1' }]);
+
+    await DownloadQueue.pause('g1');
+    finish();
+    await flush();
+
+    expect(mockOfflineCache.setDownloadStatus).toHaveBeenCalledWith('g1', 'paused');
+    expect(mockOfflineCache.saveGuide).toHaveBeenCalledWith(guide('g1'));
+    expect(mockOfflineCache.removeFromDownloadQueue).toHaveBeenCalledWith('g1');
+    expect(DownloadQueue.getItems()).toEqual([]);
+  });
+
+  it('should not keep a download cancelled mid-flight', async () => {
+    let finish: () => void = () => {};
+    mockGuidesApi.getById.mockImplementationOnce(
+      id => new Promise(resolve => (finish = () => resolve({ data: guide(id) })))
+    );
+    DownloadQueue.setOnline(true);
+    await DownloadQueue.enqueue([{ id: 'g1' }]);
+
+    await DownloadQueue.cancel('g1');
+    finish();
+    await flush();
+
+    expect(mockOfflineCache.deleteGuide).toHaveBeenCalledWith('g1');
+    expect(DownloadQueue.getItems()).toEqual([]);
+  });
+
+  it('should download a resumed guide', async () => {
+    rows = [queueRow('g1', { status: 'error', attempts: 3, last_error: 'Not found' })];
+    DownloadQueue.setOnline(true);
+    await DownloadQueue.initialize();
+
+    await DownloadQueue.resume('g1');
+    await flush();
+
+    expect(mockOfflineCache.setDownloadStatus).toHaveBeenCalledWith('g1', 'pending');
+    expect(mockOfflineCache.saveGuide).toHaveBeenCalledWith(guide('g1'));
+  });
+
+  it('should drop a cancelled download', async () => {
+    const onProgress = jest.fn();
+    DownloadQueue.subscribe(onProgress);
+    await DownloadQueue.enqueue([{ id: 'g1' }]);
+
+    await DownloadQueue.cancel('g1');
+
+    expect(mockOfflineCache.removeFromDownloadQueue).toHaveBeenCalledWith('g1');
+    expect(onProgress).toHaveBeenLastCalledWith({ guideId: 'g1', status: 'cancelled' });
+    expect(DownloadQueue.getItems()).toEqual([]);
+  });
+});
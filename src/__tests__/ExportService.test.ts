@@ -0,0 +1,266 @@
+import { ExportService, GuideAnnotations } from '../services/ExportService';
+import { guidesApi } from '@/api/endpoints/guides';
+import { bookmarksApi } from '@/api/endpoints/bookmarks';
+import { notesApi } from '@/api/endpoints/notes';
+import { offlineCache } from '@/database/offlineCache';
+import * as Sharing from 'expo-sharing';
+import type { Bookmark, Guide, Note } from '@/types';
+
+// Mock dependencies
+jest.mock('@/api/endpoints/guides');
+jest.mock('@/api/endpoints/bookmarks');
+jest.mock('@/api/endpoints/notes');
+jest.mock('@/database/offlineCache');
+jest.mock('expo-sharing', () => ({
+  isAvailableAsync: jest.fn(),
+  shareAsync: jest.fn(),
+}));
+
+const mockWrittenFiles: Record<string, string> = {};
+jest.mock('expo-file-system/next', () => ({
+  Paths: { cache: { uri: 'file:///cache/' } },
+  File: class File {
+    uri: string;
+    constructor(directory: { uri: string }, name: string) {
+      this.uri = `${directory.uri}${name}`;
+    }
+    create() {}
+    write(content: string) {
+      mockWrittenFiles[this.uri] = content;
+    }
+  },
+}));
+
+const mockGuidesApi = guidesApi as jest.Mocked<typeof guidesApi>;
+const mockBookmarksApi = bookmarksApi as jest.Mocked<typeof bookmarksApi>;
+const mockNotesApi = notesApi as jest.Mocked<typeof notesApi>;
+const mockOfflineCache = offlineCache as jest.Mocked<typeof offlineCache>;
+const mockSharing = Sharing as jest.Mocked<typeof Sharing>;
+
+const content = [
+  'ZELDA WALKTHROUGH',
+  '',
+  'Level 1: Eagle',
+  'Go north two rooms.',
+  'Take the key.',
+  '',
+  'Level 2: Moon',
+].join('\n');
+
+const createGuide = (overrides: Partial<Guide> = {}): Guide => ({
+  id: 'guide-1',
+  title: 'Zelda Walkthrough',
+  content,
+  format: 'txt',
+  file_path: '/guides/zelda.txt',
+  created_at: 0,
+  updated_at: 0,
+  ...overrides,
+});
+
+const createBookmark = (overrides: Partial<Bookmark> = {}): Bookmark => ({
+  id: 'bookmark-1',
+  guide_id: 'guide-1',
+  position: 19, // Offset of "Level 1: Eagle"
+  line_index: 2,
+  fingerprint: 'Level 1: Eagle',
+  name: 'Eagle',
+  page_reference: null,
+  is_last_read: false,
+  created_at: 0,
+  ...overrides,
+});
+
+const createNote = (overrides: Partial<Note> = {}): Note => ({
+  id: 'note-1',
+  guide_id: 'guide-1',
+  position: 34, // Offset of "Go north two rooms."
+  content: 'Bring bombs',
+  created_at: 0,
+  updated_at: Date.UTC(2024, 0, 15),
+  ...overrides,
+});
+
+describe('ExportService', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('buildGuideAnnotations', () => {
+    it('should resolve lines and quote surrounding passages', () => {
+      const result = ExportService.buildGuideAnnotations(
+        createGuide(),
+        [createBookmark()],
+        [createNote()]
+      );
+
+      expect(result.bookmarks).toEqual([
+        expect.objectContaining({
+          name: 'Eagle',
+          line: 3,
+          quote: 'Level 1: Eagle\nGo north two rooms.\nTake the key.',
+        }),
+      ]);
+      expect(result.notes).toEqual([
+        expect.objectContaining({
+          content: 'Bring bombs',
+          line: 4,
+          quote: 'Go north two rooms.\nTake the key.',
+        }),
+      ]);
+    });
+
+    it('should prefer page_reference as the bookmark quote', () => {
+      const result = ExportService.buildGuideAnnotations(
+        createGuide(),
+        [createBookmark({ page_reference: 'Boss: Moldorm' })],
+        []
+      );
+
+      expect(result.bookmarks[0].quote).toBe('Boss: Moldorm');
+    });
+
+    it('should skip the last-read bookmark and keep whole-guide notes unanchored', () => {
+      const result = ExportService.buildGuideAnnotations(
+        createGuide(),
+        [createBookmark({ is_last_read: true })],
+        [createNote({ position: null })]
+      );
+
+      expect(result.bookmarks).toHaveLength(0);
+      expect(result.notes[0]).toEqual(expect.objectContaining({ line: null, quote: null }));
+    });
+
+    it('should leave bookmark lines unknown without the guide content', () => {
+      const result = ExportService.buildGuideAnnotations(
+        createGuide({ content: '' }),
+        [createBookmark()],
+        []
+      );
+
+      expect(result.bookmarks[0]).toEqual(expect.objectContaining({ line: null, quote: null }));
+      expect(ExportService.format([result], 'md')).toContain('- **Eagle** (Line unknown)');
+    });
+
+    it('should migrate legacy pixel bookmark positions', () => {
+      const result = ExportService.buildGuideAnnotations(
+        createGuide(),
+        [createBookmark({ position: 66, line_index: null, fingerprint: null })], // 66px / 11px
+        []
+      );
+
+      expect(result.bookmarks[0].line).toBe(7);
+    });
+  });
+
+  describe('formatters', () => {
+    const guides: GuideAnnotations[] = [
+      {
+        guideId: 'guide-1',
+        title: 'Zelda Walkthrough',
+        bookmarks: [{ id: 'b1', name: 'Eagle', line: 3, quote: 'Level 1: Eagle', created_at: 0 }],
+        notes: [
+          {
+            id: 'n1',
+            content: 'Bring bombs',
+            line: null,
+            quote: null,
+            created_at: 0,
+            updated_at: Date.UTC(2024, 0, 15),
+          },
+        ],
+      },
+    ];
+
+    it('should format Markdown with quoted passages', () => {
+      const markdown = ExportService.format(guides, 'md');
+
+      expect(markdown).toContain('## Zelda Walkthrough');
+      expect(markdown).toContain('- **Eagle** (Line 3)\n\n  > Level 1: Eagle');
+      expect(markdown).toContain('- **Whole guide** (2024-01-15)\n\n  Bring bombs');
+    });
+
+    it('should format plain text', () => {
+      const text = ExportService.format(guides, 'txt');
+
+      expect(text).toContain('Zelda Walkthrough\n=================');
+      expect(text).toContain('* Eagle [Line 3]\n    | Level 1: Eagle');
+      expect(text).toContain('* [Whole guide] 2024-01-15\n    Bring bombs');
+    });
+
+    it('should format JSON', () => {
+      const json = JSON.parse(ExportService.format(guides, 'json'));
+
+      expect(json.guides).toEqual(guides);
+      expect(typeof json.exported_at).toBe('string');
+    });
+  });
+
+  describe('exportGuide', () => {
+    it('should use the downloaded guide, write the file and share it', async () => {
+      mockBookmarksApi.getByGuide.mockResolvedValue({ data: [createBookmark()] });
+      mockNotesApi.getByGuide.mockResolvedValue({ data: [createNote()] });
+      mockOfflineCache.getGuide.mockResolvedValue(createGuide());
+      mockSharing.isAvailableAsync.mockResolvedValue(true);
+
+      const result = await ExportService.exportGuide('guide-1', 'md');
+
+      expect(mockGuidesApi.getById).not.toHaveBeenCalled();
+      expect(result).toEqual({
+        uri: 'file:///cache/zelda-walkthrough-annotations.md',
+        guideCount: 1,
+        bookmarkCount: 1,
+        noteCount: 1,
+      });
+      expect(mockWrittenFiles[result.uri]).toContain('## Zelda Walkthrough');
+      expect(mockSharing.shareAsync).toHaveBeenCalledWith(
+        result.uri,
+        expect.objectContaining({ mimeType: 'text/markdown' })
+      );
+    });
+
+    it('should fetch the guide when it is not downloaded', async () => {
+      mockBookmarksApi.getByGuide.mockResolvedValue({ data: [] });
+      mockNotesApi.getByGuide.mockResolvedValue({ data: [] });
+      mockOfflineCache.getGuide.mockResolvedValue(null);
+      mockGuidesApi.getById.mockResolvedValue({ data: createGuide() });
+      mockSharing.isAvailableAsync.mockResolvedValue(false);
+
+      const result = await ExportService.exportGuide('guide-1', 'txt');
+
+      expect(mockGuidesApi.getById).toHaveBeenCalledWith('guide-1');
+      expect(mockSharing.shareAsync).not.toHaveBeenCalled();
+      expect(result.uri).toBe('file:///cache/zelda-walkthrough-annotations.txt');
+    });
+  });
+
+  describe('exportLibrary', () => {
+    it('should page through the library and only include annotated guides', async () => {
+      mockGuidesApi.getAll
+        .mockResolvedValueOnce({
+          data: [{ ...createGuide(), content_length: 100 }],
+          pagination: { page: 1, limit: 100, total: 2, totalPages: 2 },
+        })
+        .mockResolvedValueOnce({
+          data: [{ ...createGuide({ id: 'guide-2', title: 'Empty Guide' }), content_length: 10 }],
+          pagination: { page: 2, limit: 100, total: 2, totalPages: 2 },
+        });
+      mockBookmarksApi.getByGuide.mockImplementation(async guideId => ({
+        data: guideId === 'guide-1' ? [createBookmark()] : [],
+      }));
+      mockNotesApi.getByGuide.mockResolvedValue({ data: [] });
+      mockOfflineCache.getGuide.mockResolvedValue(null);
+      mockGuidesApi.getById.mockResolvedValue({ data: createGuide() });
+      mockSharing.isAvailableAsync.mockResolvedValue(true);
+      const onProgress = jest.fn();
+
+      const result = await ExportService.exportLibrary('json', onProgress);
+
+      expect(mockGuidesApi.getAll).toHaveBeenCalledTimes(2);
+      expect(mockGuidesApi.getById).toHaveBeenCalledTimes(1);
+      expect(onProgress).toHaveBeenLastCalledWith(2, 2);
+      expect(result.guideCount).toBe(1);
+      expect(JSON.parse(mockWrittenFiles[result.uri]).guides[0].title).toBe('Zelda Walkthrough');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { localLibrary } from '../database/localLibrary';
+import { GameMatchingService } from '../services/GameMatchingService';
+import { RetroAchievementsService } from '../services/RetroAchievementsService';
+import GuideParserService from '../services/GuideParserService';
+import type { GuideMetadata } from '../types';
+
+jest.mock('../services/GuideParserService', () => ({
+  __esModule: true,
+  default: { parseGuide: jest.fn() },
+}));
+
+const mockParseGuide = GuideParserService.parseGuide as jest.MockedFunction<
+  typeof GuideParserService.parseGuide
+>;
+
+const importGuide = async (title: string, metadata: GuideMetadata = {}) => {
+  mockParseGuide.mockResolvedValueOnce({
+    title,
+    content: '',
+    format: 'txt',
+    metadata,
+    outline: [],
+  });
+  return localLibrary.importGuide(`/imports/${title}.txt`);
+};
+
+describe('GameMatchingService', () => {
+  beforeEach(async () => {
+    jest.spyOn(RetroAchievementsService, 'isConnected').mockResolvedValue(false);
+    const { data } = await localLibrary.getGuides(1, 1000);
+    for (const guide of data) {
+      await localLibrary.deleteGuide(guide.id);
+    }
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should create a game from the guide metadata and link it', async () => {
+    const guide = await importGuide('Super Metroid FAQ', {
+      gameName: 'Super Metroid',
+      platform: 'SNES',
+      gamefaqsId: '588741',
+    });
+    const [match] = await GameMatchingService.getGuideMatches();
+
+    const game = await GameMatchingService.createGameForGuide(match.matchable);
+
+    expect(game).toMatchObject({ title: 'Super Metroid', platform: 'SNES' });
+    expect(JSON.parse(game.metadata!)).toEqual({ external_id: '588741' });
+    expect((await localLibrary.getGuide(guide.id)).data.game_id).toBe(game.id);
+  });
+
+  it('should only auto-link confident matches', async () => {
+    const megaMan = await importGuide('Mega Man 2 Walkthrough', { platform: 'NES' });
+    const fantasy = await importGuide('Final Fantasy VI FAQ');
+    const { data: game } = await localLibrary.createGame({
+      title: 'Mega Man 2',
+      platform: 'NES',
+    });
+    await localLibrary.createGame({ title: 'Final Fantasy VII' });
+
+    const linked = await GameMatchingService.autoLinkGuides();
+
+    expect(linked).toBe(1);
+    expect((await localLibrary.getGuide(megaMan.id)).data.game_id).toBe(game.id);
+    expect((await localLibrary.getGuide(fantasy.id)).data.game_id).toBeFalsy();
+  });
+
+  it('should only auto-link the guides asked for', async () => {
+    const unlinked = await importGuide('Mega Man 2 Walkthrough', { platform: 'NES' });
+    const imported = await importGuide('Mega Man 2 FAQ', { platform: 'NES' });
+    await localLibrary.createGame({ title: 'Mega Man 2', platform: 'NES' });
+
+    const linked = await GameMatchingService.autoLinkGuides([imported.id]);
+
+    expect(linked).toBe(1);
+    expect((await localLibrary.getGuide(imported.id)).data.game_id).toBeTruthy();
+    expect((await localLibrary.getGuide(unlinked.id)).data.game_id).toBeFalsy();
+  });
+
+  it('should unlink a guide and suggest the game again', async () => {
+    const guide = await importGuide('Chrono Trigger Guide');
+    const { data: game } = await localLibrary.createGame({ title: 'Chrono Trigger' });
+    await localLibrary.setGuideGame(guide.id, game.id);
+
+    await GameMatchingService.unlinkGuide(guide.id);
+
+    const match = (await GameMatchingService.getGuideMatches()).find(m => m.guide.id === guide.id);
+    expect(match?.linkedGame).toBeNull();
+    expect(match?.suggestions.map(s => s.candidate.gameId)).toContain(game.id);
+  });
+});
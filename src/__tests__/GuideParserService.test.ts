@@ -7,6 +7,7 @@ jest.mock('expo-file-system/next', () => ({
   File: jest.fn().mockImplementation((filePath: string) => ({
     filePath,
     text: mockFileText,
+    bytes: async () => new TextEncoder().encode(await mockFileText()),
   })),
 }));
 
@@ -174,6 +175,20 @@ describe('GuideParserService', () => {
     });
   });
 
+  describe('parseGuideContent', () => {
+    it('should parse text without reading the file', () => {
+      const result = GuideParserService.parseGuideContent(
+        '<html><head><title>Zelda Maps</title></head><body><p>Level 1</p></body></html>',
+        'archive/zelda/maps.html'
+      );
+
+      expect(mockFileText).not.toHaveBeenCalled();
+      expect(result.format).toBe('html');
+      expect(result.title).toBe('Zelda Maps');
+      expect(result.content).toContain('Level 1');
+    });
+  });
+
   describe('extractTitleFromFilename', () => {
     it('should remove ID prefix from filename', async () => {
       mockFileText.mockResolvedValue('');
@@ -692,4 +707,153 @@ Regular content follows...
       expect(result.content).not.toContain('steal');
     });
   });
+
+  describe('extractOutline', () => {
+    const guideWithSearchCodes = [
+      'Chrono Trigger Walkthrough',
+      '',
+      'TABLE OF CONTENTS',
+      '1. Introduction .................... [INT00]',
+      '2. Walkthrough ..................... [WLK00]',
+      '   2.1 Truce Village ............... [WLK01]',
+      '   2.2 Guardia Forest .............. [WLK02]',
+      '3. Boss Strategies ................. [BSS00]',
+      '',
+      '==========================================',
+      '1. Introduction                    [INT00]',
+      '==========================================',
+      'Welcome to the guide.',
+      '',
+      '2. Walkthrough                     [WLK00]',
+      '2.1 Truce Village                  [WLK01]',
+      'Head north. See [WLK02] for the forest.',
+      '2.2 Guardia Forest                 [WLK02]',
+      'Watch for the shiny spot.',
+      '3. Boss Strategies                 [BSS00]',
+      'Use Cyclone.',
+    ].join('\n');
+
+    it('should extract sections from a contents block with search codes', () => {
+      const outline = GuideParserService.extractOutline(guideWithSearchCodes);
+
+      expect(outline.map(s => s.searchCode)).toEqual([
+        'INT00',
+        'WLK00',
+        'WLK01',
+        'WLK02',
+        'BSS00',
+      ]);
+      expect(outline[0].title).toBe('Introduction');
+      expect(outline[2].title).toBe('Truce Village');
+    });
+
+    it('should point at the section body rather than the contents entry', () => {
+      const outline = GuideParserService.extractOutline(guideWithSearchCodes);
+
+      const truce = outline.find(s => s.searchCode === 'WLK01');
+      expect(truce?.tocLineIndex).toBe(5);
+      expect(truce?.lineIndex).toBe(15);
+
+      const boss = outline.find(s => s.searchCode === 'BSS00');
+      expect(boss?.lineIndex).toBe(19);
+    });
+
+    it('should derive nesting level from section numbering', () => {
+      const outline = GuideParserService.extractOutline(guideWithSearchCodes);
+
+      expect(outline.map(s => s.level)).toEqual([1, 1, 2, 2, 1]);
+    });
+
+    it('should match numbered contents entries without search codes', () => {
+      const content = [
+        'Contents',
+        '  1. Controls',
+        '  2. Items',
+        '  2.1 Weapons',
+        '',
+        '1. CONTROLS',
+        'Press A to jump.',
+        '2. ITEMS',
+        '2.1 WEAPONS',
+        'The sword is best.',
+      ].join('\n');
+
+      const outline = GuideParserService.extractOutline(content);
+
+      expect(outline).toHaveLength(3);
+      expect(outline.map(s => s.lineIndex)).toEqual([5, 7, 8]);
+      expect(outline[2].level).toBe(2);
+      expect(outline[2].searchCode).toBeNull();
+    });
+
+    it('should use indentation for levels when entries are not numbered', () => {
+      const content = [
+        'Walkthrough ........ [WLK]',
+        '    Forest ......... [FRS]',
+        'Secrets ............ [SCR]',
+        '',
+        'Walkthrough [WLK]',
+        'Forest [FRS]',
+        'Secrets [SCR]',
+      ].join('\n');
+
+      const outline = GuideParserService.extractOutline(content);
+
+      expect(outline.map(s => s.level)).toEqual([1, 2, 1]);
+    });
+
+    it('should fall back to body headings when there is no contents block', () => {
+      const content = [
+        '=====================',
+        '1. Getting Started',
+        '=====================',
+        '1. Go north to the cave.',
+        'Boss Fight [BOSS1]',
+        'Use fire magic.',
+      ].join('\n');
+
+      const outline = GuideParserService.extractOutline(content);
+
+      expect(outline.map(s => s.title)).toEqual(['Getting Started', 'Boss Fight']);
+      expect(outline[0].tocLineIndex).toBeNull();
+    });
+
+    it('should ignore ordinary numbered list items', () => {
+      const content = 'Steps:\n1. Talk to the king.\n2. Buy a potion\nI went north.';
+
+      expect(GuideParserService.extractOutline(content)).toEqual([]);
+    });
+
+    it('should handle Windows line endings', () => {
+      const content = 'A [AAA]\r\nB [BBB]\r\n\r\nA [AAA]\r\nB [BBB]';
+
+      const outline = GuideParserService.extractOutline(content);
+
+      expect(outline.map(s => s.lineIndex)).toEqual([3, 4]);
+    });
+
+    it('should use headings for markdown guides', () => {
+      const content = '# Guide\n\n## Chapter 1\n```\n# not a heading\n```\n### Boss';
+
+      const outline = GuideParserService.extractOutline(content, 'md');
+
+      expect(outline.map(s => [s.title, s.level, s.lineIndex])).toEqual([
+        ['Guide', 1, 0],
+        ['Chapter 1', 2, 2],
+        ['Boss', 3, 6],
+      ]);
+    });
+
+    it('should return an empty outline for empty content', () => {
+      expect(GuideParserService.extractOutline('')).toEqual([]);
+    });
+
+    it('should include the outline when parsing a guide', async () => {
+      mockFileText.mockResolvedValue(guideWithSearchCodes);
+
+      const result = await GuideParserService.parseGuide('/path/to/guide.txt');
+
+      expect(result.outline).toHaveLength(5);
+    });
+  });
 });
@@ -0,0 +1,117 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { QueryClient } from '@tanstack/react-query';
+import {
+  QueryCachePersister,
+  QUERY_CACHE_STORAGE_KEY,
+  QUERY_CACHE_MAX_AGE,
+  PERSIST_THROTTLE_MS,
+} from '../services/QueryCachePersister';
+import { getLibraryMode } from '@/api/dataSource';
+import { queryKeys } from '@/api/queryKeys';
+
+jest.mock('@/api/dataSource', () => ({
+  getLibraryMode: jest.fn(),
+}));
+
+const mockGetLibraryMode = getLibraryMode as jest.MockedFunction<typeof getLibraryMode>;
+
+const catalog = { data: [{ id: 'guide-1', title: 'Walkthrough' }] };
+
+async function savedCache() {
+  const stored = await AsyncStorage.getItem(QUERY_CACHE_STORAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+describe('QueryCachePersister', () => {
+  let client: QueryClient;
+
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    mockGetLibraryMode.mockReturnValue('server');
+    client = new QueryClient();
+  });
+
+  afterEach(() => {
+    client.clear();
+  });
+
+  it('should restore a saved cache into a new client', async () => {
+    client.setQueryData(queryKeys.guides.lists(), catalog);
+    await QueryCachePersister.persist(client);
+
+    const restored = new QueryClient();
+    expect(await QueryCachePersister.restore(restored)).toBe(true);
+
+    expect(restored.getQueryData(queryKeys.guides.lists())).toEqual(catalog);
+    expect(restored.getQueryState(queryKeys.guides.lists())?.dataUpdatedAt).toBe(
+      client.getQueryState(queryKeys.guides.lists())?.dataUpdatedAt
+    );
+    restored.clear();
+  });
+
+  it('should only save catalog queries', async () => {
+    client.setQueryData(queryKeys.guides.filters(), { platforms: ['SNES'], tags: [] });
+    client.setQueryData(queryKeys.bookmarks.byGuide('guide-1'), { data: [] });
+    client.setQueryData(queryKeys.guides.detail('guide-1'), { data: { content: 'Long' } });
+    client.setQueryData(queryKeys.guides.search('zelda'), { results: [] });
+    client.setQueryData(queryKeys.health.status(), { ok: true });
+
+    await QueryCachePersister.persist(client);
+
+    const keys = (await savedCache()).state.queries.map(
+      (query: { queryKey: unknown[] }) => query.queryKey
+    );
+    expect(keys).toEqual([queryKeys.guides.filters(), queryKeys.bookmarks.byGuide('guide-1')]);
+  });
+
+  it('should drop a cache that has expired', async () => {
+    client.setQueryData(queryKeys.games.lists(), catalog);
+    await QueryCachePersister.persist(client);
+    const cache = await savedCache();
+    await AsyncStorage.setItem(
+      QUERY_CACHE_STORAGE_KEY,
+      JSON.stringify({ ...cache, timestamp: Date.now() - QUERY_CACHE_MAX_AGE - 1 })
+    );
+
+    const restored = new QueryClient();
+    expect(await QueryCachePersister.restore(restored)).toBe(false);
+
+    expect(restored.getQueryData(queryKeys.games.lists())).toBeUndefined();
+    expect(await savedCache()).toBeNull();
+  });
+
+  it('should drop a cache saved for the other library source', async () => {
+    client.setQueryData(queryKeys.guides.lists(), catalog);
+    await QueryCachePersister.persist(client);
+    mockGetLibraryMode.mockReturnValue('local');
+
+    const restored = new QueryClient();
+    expect(await QueryCachePersister.restore(restored)).toBe(false);
+
+    expect(restored.getQueryData(queryKeys.guides.lists())).toBeUndefined();
+  });
+
+  it('should ignore a cache that cannot be read', async () => {
+    await AsyncStorage.setItem(QUERY_CACHE_STORAGE_KEY, '{not json');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    expect(await QueryCachePersister.restore(client)).toBe(false);
+    expect(await savedCache()).toBeNull();
+  });
+
+  it('should save changes once per throttle period', async () => {
+    jest.useFakeTimers();
+    const persist = jest.spyOn(QueryCachePersister, 'persist').mockResolvedValue();
+    const unsubscribe = QueryCachePersister.subscribe(client);
+
+    client.setQueryData(queryKeys.guides.lists(), catalog);
+    client.setQueryData(queryKeys.games.lists(), catalog);
+    jest.advanceTimersByTime(PERSIST_THROTTLE_MS);
+
+    expect(persist).toHaveBeenCalledTimes(1);
+
+    unsubscribe();
+    persist.mockRestore();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,247 @@
+import http from 'http';
+import type { AddressInfo } from 'net';
+import * as SecureStore from 'expo-secure-store';
+import {
+  RetroAchievementsService,
+  RetroAchievementsError,
+  RA_DEFAULT_BASE_URL,
+} from '../services/RetroAchievementsService';
+import { localLibrary } from '../database/localLibrary';
+
+const mockGetItemAsync = SecureStore.getItemAsync as jest.Mock;
+const mockSetItemAsync = SecureStore.setItemAsync as jest.Mock;
+const mockDeleteItemAsync = SecureStore.deleteItemAsync as jest.Mock;
+
+const USERNAME = 'Samus';
+const API_KEY = 'secret-key';
+
+// Local stand-in for the RetroAchievements Web API
+const fixtures: Record<string, unknown> = {
+  '/API_GetUserSummary.php': { User: USERNAME, TotalPoints: 1234, Rank: 567 },
+  '/API_GetUserRecentlyPlayedGames.php': [
+    {
+      GameID: 1446,
+      Title: 'Super Metroid',
+      ConsoleName: 'SNES',
+      ImageIcon: '/Images/066719.png',
+      NumPossibleAchievements: 2,
+      NumAchieved: 1,
+    },
+    {
+      GameID: 9999,
+      Title: 'Broken Game',
+      ConsoleName: 'NES',
+      ImageIcon: '/Images/000001.png',
+      NumPossibleAchievements: 0,
+      NumAchieved: 0,
+    },
+  ],
+  '/API_GetGameInfoAndUserProgress.php?g=1446': {
+    ID: 1446,
+    Title: 'Super Metroid',
+    ConsoleName: 'SNES',
+    ImageIcon: '/Images/066719.png',
+    NumAchievements: 2,
+    NumAwardedToUser: 1,
+    UserCompletion: '50.00%',
+    Achievements: {
+      '1': {
+        ID: 1,
+        Title: 'Morph Ball',
+        Description: 'Collect the Morph Ball',
+        Points: 5,
+        BadgeName: '12345',
+        DateEarned: '2024-01-02 03:04:05',
+      },
+      '2': {
+        ID: 2,
+        Title: 'Ridley',
+        Description: 'Defeat Ridley',
+        Points: 25,
+        BadgeName: '12346',
+      },
+    },
+  },
+};
+
+let server: http.Server;
+let baseUrl: string;
+let requests: URL[];
+
+beforeAll(async () => {
+  server = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    requests.push(url);
+
+    if (url.searchParams.get('y') !== API_KEY) {
+      res.writeHead(401, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ message: 'Unauthenticated.' }));
+      return;
+    }
+
+    const gameId = url.searchParams.get('g');
+    const key =
+      url.pathname === '/API_GetGameInfoAndUserProgress.php'
+        ? `${url.pathname}?g=${gameId}`
+        : url.pathname;
+    const body = fixtures[key];
+    res.writeHead(body ? 200 : 500, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body ?? {}));
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise(resolve => server.close(resolve));
+});
+
+// Secure store backed by a plain object
+let store: Record<string, string>;
+
+beforeEach(() => {
+  jest.clearAllMocks();
+  requests = [];
+  store = { raBaseUrl: baseUrl, raUsername: USERNAME, raApiKey: API_KEY };
+  mockGetItemAsync.mockImplementation(async (key: string) => store[key] ?? null);
+  mockSetItemAsync.mockImplementation(async (key: string, value: string) => {
+    store[key] = value;
+  });
+  mockDeleteItemAsync.mockImplementation(async (key: string) => {
+    delete store[key];
+  });
+  RetroAchievementsService.clearCache();
+});
+
+describe('RetroAchievementsService', () => {
+  describe('getBaseUrl', () => {
+    it('should default to the RetroAchievements API', async () => {
+      delete store.raBaseUrl;
+
+      expect(await RetroAchievementsService.getBaseUrl()).toBe(RA_DEFAULT_BASE_URL);
+    });
+
+    it('should use the configured base URL', async () => {
+      await RetroAchievementsService.setBaseUrl('http://fixtures.local/API/');
+
+      expect(await RetroAchievementsService.getBaseUrl()).toBe('http://fixtures.local/API');
+    });
+  });
+
+  describe('connect', () => {
+    it('should verify and store the credentials', async () => {
+      store = { raBaseUrl: baseUrl };
+
+      const user = await RetroAchievementsService.connect(` ${USERNAME} `, API_KEY);
+
+      expect(user).toEqual({ username: USERNAME, points: 1234, rank: 567 });
+      expect(store.raUsername).toBe(USERNAME);
+      expect(store.raApiKey).toBe(API_KEY);
+      expect(requests[0].searchParams.get('u')).toBe(USERNAME);
+    });
+
+    it('should not store rejected credentials', async () => {
+      store = { raBaseUrl: baseUrl };
+
+      await expect(RetroAchievementsService.connect(USERNAME, 'wrong')).rejects.toThrow(
+        RetroAchievementsError
+      );
+      expect(store.raUsername).toBeUndefined();
+      expect(store.raApiKey).toBeUndefined();
+    });
+
+    it('should require a username and API key', async () => {
+      await expect(RetroAchievementsService.connect('', ' ')).rejects.toThrow(
+        'Username and API key are required'
+      );
+      expect(requests).toHaveLength(0);
+    });
+  });
+
+  describe('disconnect', () => {
+    it('should remove the stored credentials', async () => {
+      await RetroAchievementsService.disconnect();
+
+      expect(await RetroAchievementsService.isConnected()).toBe(false);
+      await expect(RetroAchievementsService.getUserSummary()).rejects.toThrow('not connected');
+    });
+  });
+
+  describe('getRecentlyPlayedGames', () => {
+    it('should map games with absolute artwork URLs', async () => {
+      const games = await RetroAchievementsService.getRecentlyPlayedGames(5);
+
+      expect(requests[0].searchParams.get('c')).toBe('5');
+      expect(games[0]).toEqual({
+        id: '1446',
+        title: 'Super Metroid',
+        console: 'SNES',
+        imageIcon: 'https://media.retroachievements.org/Images/066719.png',
+        numAchievements: 2,
+        numAwardedToUser: 1,
+        userCompletion: '50.00%',
+      });
+    });
+  });
+
+  describe('getGameProgress', () => {
+    it('should map achievements with unlock state', async () => {
+      const { game, achievements } = await RetroAchievementsService.getGameProgress('1446');
+
+      expect(game.userCompletion).toBe('50.00%');
+      expect(achievements).toEqual([
+        {
+          ra_achievement_id: '1',
+          title: 'Morph Ball',
+          description: 'Collect the Morph Ball',
+          points: 5,
+          badge_url: 'https://media.retroachievements.org/Badge/12345.png',
+          is_unlocked: true,
+          unlock_time: Date.UTC(2024, 0, 2, 3, 4, 5),
+        },
+        expect.objectContaining({ ra_achievement_id: '2', is_unlocked: false, unlock_time: null }),
+      ]);
+    });
+  });
+
+  describe('syncRecentGames', () => {
+    it('should save games and achievements and report failures', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      const result = await RetroAchievementsService.syncRecentGames();
+
+      expect(result).toEqual({ games: 1, achievements: 2, failed: ['9999'] });
+
+      const { data: games } = await localLibrary.getGamesWithGuides();
+      const game = games.find(g => g.ra_game_id === '1446')!;
+      expect(game).toMatchObject({
+        title: 'Super Metroid',
+        platform: 'SNES',
+        status: 'in_progress',
+        completion_percentage: 50,
+      });
+
+      const { data: achievements } = await localLibrary.getAchievements(game.id);
+      expect(achievements.map(a => [a.title, a.is_unlocked])).toEqual([
+        ['Morph Ball', true],
+        ['Ridley', false],
+      ]);
+    });
+
+    it('should keep user progress when syncing again', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => {});
+
+      await RetroAchievementsService.syncRecentGames();
+      const { data: games } = await localLibrary.getGamesWithGuides();
+      const game = games.find(g => g.ra_game_id === '1446')!;
+      await localLibrary.updateGameCompletion(game.id, 80);
+
+      await RetroAchievementsService.syncRecentGames();
+
+      const { data: after } = await localLibrary.getGamesWithGuides();
+      expect(after.filter(g => g.ra_game_id === '1446')).toHaveLength(1);
+      expect((await localLibrary.getGame(game.id)).data.completion_percentage).toBe(80);
+      expect((await localLibrary.getAchievements(game.id)).data).toHaveLength(2);
+    });
+  });
+});
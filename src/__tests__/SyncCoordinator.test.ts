@@ -0,0 +1,162 @@
+import { SyncCoordinator, SYNC_DEBOUNCE_MS } from '../services/SyncCoordinator';
+import { SyncManager, type SyncResult } from '../services/SyncManager';
+
+jest.mock('../services/SyncManager');
+
+const mockSyncManager = SyncManager as jest.Mocked<typeof SyncManager>;
+
+const syncResult = (overrides?: Partial<SyncResult>): SyncResult => ({
+  success: 1,
+  failed: 0,
+  deadLettered: 0,
+  conflicts: 0,
+  errors: [],
+  guideIds: ['guide-1'],
+  ...overrides,
+});
+
+// Let the debounced sync and the promises it chains run
+async function flushDebounce(): Promise<void> {
+  jest.advanceTimersByTime(SYNC_DEBOUNCE_MS);
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+}
+
+describe('SyncCoordinator', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.clearAllMocks();
+    SyncCoordinator.reset();
+    mockSyncManager.getPendingCount.mockResolvedValue(2);
+    mockSyncManager.getFailedCount.mockResolvedValue(0);
+    mockSyncManager.syncAll.mockResolvedValue(syncResult());
+    mockSyncManager.getNextAttemptAt.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should sync after coming online', async () => {
+    SyncCoordinator.setOnline(true);
+    await flushDebounce();
+
+    expect(mockSyncManager.syncAll).toHaveBeenCalledTimes(1);
+  });
+
+  it('should debounce bursts of requests into one sync', async () => {
+    SyncCoordinator.setOnline(true);
+    SyncCoordinator.requestSync();
+    jest.advanceTimersByTime(SYNC_DEBOUNCE_MS / 2);
+    SyncCoordinator.requestSync();
+    await flushDebounce();
+
+    expect(mockSyncManager.syncAll).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not sync while offline', async () => {
+    SyncCoordinator.requestSync();
+    await flushDebounce();
+
+    expect(await SyncCoordinator.syncNow()).toBeNull();
+    expect(mockSyncManager.syncAll).not.toHaveBeenCalled();
+  });
+
+  it('should skip the sync when nothing is pending', async () => {
+    mockSyncManager.getPendingCount.mockResolvedValue(0);
+    SyncCoordinator.setOnline(true);
+
+    expect(await SyncCoordinator.syncNow()).toBeNull();
+    expect(mockSyncManager.syncAll).not.toHaveBeenCalled();
+  });
+
+  it('should share one run between overlapping sync calls', async () => {
+    SyncCoordinator.setOnline(true);
+    jest.clearAllTimers();
+
+    const [first, second] = await Promise.all([
+      SyncCoordinator.syncNow(),
+      SyncCoordinator.syncNow(),
+    ]);
+
+    expect(first).toBe(second);
+    expect(mockSyncManager.syncAll).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sync again when a request arrives during a run', async () => {
+    let finish: (result: SyncResult) => void = () => {};
+    mockSyncManager.syncAll.mockImplementationOnce(
+      () => new Promise(resolve => (finish = resolve))
+    );
+    SyncCoordinator.setOnline(true);
+    jest.clearAllTimers();
+
+    const running = SyncCoordinator.syncNow();
+    SyncCoordinator.requestSync();
+    await flushDebounce();
+    finish(syncResult());
+    await running;
+    await flushDebounce();
+
+    expect(mockSyncManager.syncAll).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report status and completed runs', async () => {
+    const states: string[] = [];
+    const onComplete = jest.fn();
+    SyncCoordinator.subscribe(status => states.push(status.state));
+    SyncCoordinator.onSyncComplete(onComplete);
+    SyncCoordinator.setOnline(true);
+    jest.clearAllTimers();
+
+    await SyncCoordinator.syncNow();
+
+    expect(states).toContain('syncing');
+    expect(SyncCoordinator.getStatus()).toMatchObject({ state: 'idle', pendingCount: 2 });
+    expect(SyncCoordinator.getStatus().lastSyncedAt).not.toBeNull();
+    expect(onComplete).toHaveBeenCalledWith(syncResult());
+  });
+
+  it('should report failures', async () => {
+    mockSyncManager.syncAll.mockResolvedValue(
+      syncResult({ success: 0, failed: 1, errors: ['Server error'] })
+    );
+    SyncCoordinator.setOnline(true);
+    jest.clearAllTimers();
+
+    await SyncCoordinator.syncNow();
+
+    expect(SyncCoordinator.getStatus()).toMatchObject({
+      state: 'error',
+      lastError: 'Server error',
+    });
+  });
+
+  it('should queue a change and schedule a sync', async () => {
+    SyncCoordinator.setOnline(true);
+    jest.clearAllTimers();
+    const change = { type: 'position' as const, action: 'update' as const, payload: {} };
+
+    await SyncCoordinator.queueChange(change);
+    await flushDebounce();
+
+    expect(mockSyncManager.queueChange).toHaveBeenCalledWith(change);
+    expect(mockSyncManager.syncAll).toHaveBeenCalledTimes(1);
+  });
+
+  it('should sync again when a change held back by a retry delay comes due', async () => {
+    const retryAt = Date.now() + 30000;
+    mockSyncManager.getNextAttemptAt.mockResolvedValueOnce(retryAt);
+    SyncCoordinator.setOnline(true);
+    jest.clearAllTimers();
+
+    await SyncCoordinator.syncNow();
+    // Up to just before the retry is due
+    jest.advanceTimersByTime(retryAt - Date.now() - SYNC_DEBOUNCE_MS - 1);
+    await flushDebounce();
+    expect(mockSyncManager.syncAll).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1);
+    await flushDebounce();
+    expect(mockSyncManager.syncAll).toHaveBeenCalledTimes(2);
+  });
+});
@@ -1,8 +1,10 @@
 import { SyncManager, SyncQueueItem } from '../services/SyncManager';
-import { offlineCache } from '@/database/offlineCache';
+import { offlineCache, isTempId, type SyncQueueRow } from '@/database/offlineCache';
 import { guidesApi } from '@/api/endpoints/guides';
 import { bookmarksApi } from '@/api/endpoints/bookmarks';
 import { notesApi } from '@/api/endpoints/notes';
+import { ApiError } from '@/api/client';
+import { MAX_SYNC_ATTEMPTS } from '@/utils/syncQueue';
 
 // Mock dependencies
 jest.mock('@/database/offlineCache');
@@ -14,10 +16,22 @@ const mockOfflineCache = offlineCache as jest.Mocked<typeof offlineCache>;
 const mockGuidesApi = guidesApi as jest.Mocked<typeof guidesApi>;
 const mockBookmarksApi = bookmarksApi as jest.Mocked<typeof bookmarksApi>;
 const mockNotesApi = notesApi as jest.Mocked<typeof notesApi>;
+// Queue rows that have never failed
+const retryState = {
+  attempts: 0,
+  last_error: null,
+  next_attempt_at: 0,
+  failed_at: null,
+  conflict: null,
+};
+
+const mockIsTempId = isTempId as jest.MockedFunction<typeof isTempId>;
 
 describe('SyncManager', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    mockIsTempId.mockImplementation((id) => id.startsWith('temp_'));
+    mockOfflineCache.getSyncQueue.mockResolvedValue([]);
   });
 
   describe('queueChange', () => {
@@ -59,6 +73,7 @@ describe('SyncManager', () => {
           action: 'update',
           payload: { guideId: 'g1', position: 100 },
           created_at: Date.now(),
+          ...retryState,
         },
         {
           id: 2,
@@ -66,6 +81,7 @@ describe('SyncManager', () => {
           action: 'update',
           payload: { guideId: 'g2', position: 200 },
           created_at: Date.now(),
+          ...retryState,
         },
       ]);
       mockGuidesApi.updatePosition.mockResolvedValue({ success: true });
@@ -76,6 +92,7 @@ describe('SyncManager', () => {
       expect(result.success).toBe(2);
       expect(result.failed).toBe(0);
       expect(result.errors).toHaveLength(0);
+      expect(result.guideIds).toEqual(['g1', 'g2']);
     });
 
     it('should track failures', async () => {
@@ -86,6 +103,7 @@ describe('SyncManager', () => {
           action: 'update',
           payload: { guideId: 'g1', position: 100 },
           created_at: Date.now(),
+          ...retryState,
         },
         {
           id: 2,
@@ -93,6 +111,7 @@ describe('SyncManager', () => {
           action: 'update',
           payload: { guideId: 'g2', position: 200 },
           created_at: Date.now(),
+          ...retryState,
         },
       ]);
       mockGuidesApi.updatePosition
@@ -115,6 +134,7 @@ describe('SyncManager', () => {
           action: 'update',
           payload: { guideId: 'g1', position: 100 },
           created_at: Date.now(),
+          ...retryState,
         },
       ]);
       mockGuidesApi.updatePosition.mockResolvedValue({ success: true });
@@ -133,6 +153,7 @@ describe('SyncManager', () => {
           action: 'update',
           payload: { guideId: 'g1', position: 100 },
           created_at: Date.now(),
+          ...retryState,
         },
       ]);
       mockGuidesApi.updatePosition.mockRejectedValue(new Error('Failed'));
@@ -160,6 +181,7 @@ describe('SyncManager', () => {
           action: 'update',
           payload: { guideId: 'g1', position: 100 },
           created_at: Date.now(),
+          ...retryState,
         },
       ]);
       mockGuidesApi.updatePosition.mockRejectedValue('String error');
@@ -171,6 +193,320 @@ describe('SyncManager', () => {
     });
   });
 
+  describe('syncAll retries', () => {
+    const positionRow = (overrides: Partial<SyncQueueRow>): SyncQueueRow => ({
+      id: 7,
+      type: 'position',
+      action: 'update',
+      payload: { guideId: 'g1', position: 100 },
+      created_at: 1,
+      ...retryState,
+      ...overrides,
+    });
+
+    it('should back off after a temporary failure', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([positionRow({ attempts: 2 })]);
+      mockGuidesApi.updatePosition.mockRejectedValue(new Error('Network request failed'));
+      const before = Date.now();
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.deadLettered).toBe(0);
+      const [id, error, nextAttemptAt] = mockOfflineCache.recordSyncFailure.mock.calls[0];
+      expect(id).toBe(7);
+      expect(error).toBe('Network request failed');
+      // Third failure waits four times the first delay
+      expect(nextAttemptAt).toBeGreaterThanOrEqual(before + 120 * 1000);
+    });
+
+    it.each([404, 409, 422])('should give up on a %d response', async (status) => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([positionRow({})]);
+      mockGuidesApi.updatePosition.mockRejectedValue(new ApiError(status, 'ERROR', 'Rejected'));
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.deadLettered).toBe(1);
+      expect(mockOfflineCache.recordSyncFailure).toHaveBeenCalledWith(7, 'Rejected', null);
+    });
+
+    it('should give up once out of attempts', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        positionRow({ attempts: MAX_SYNC_ATTEMPTS - 1 }),
+      ]);
+      mockGuidesApi.updatePosition.mockRejectedValue(new ApiError(500, 'ERROR', 'Server error'));
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.deadLettered).toBe(1);
+      expect(mockOfflineCache.recordSyncFailure).toHaveBeenCalledWith(7, 'Server error', null);
+    });
+
+    it('should skip changes that are failed or not yet due', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        positionRow({ next_attempt_at: Date.now() + 60 * 1000 }),
+        { ...positionRow({ failed_at: 1 }), id: 8, payload: { guideId: 'g2', position: 5 } },
+      ]);
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.success + result.failed).toBe(0);
+      expect(mockGuidesApi.updatePosition).not.toHaveBeenCalled();
+    });
+
+    it('should not count waiting for a create as a failed attempt', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        {
+          id: 1,
+          type: 'note',
+          action: 'create',
+          payload: { guideId: 'g1', localId: 'temp_1', content: 'Hi' },
+          created_at: 1,
+          ...retryState,
+          // Not due yet, so the delete has to keep waiting for it
+          next_attempt_at: Date.now() + 60000,
+        },
+        {
+          id: 2,
+          type: 'note',
+          action: 'delete',
+          payload: { guideId: 'g1', noteId: 'temp_1' },
+          created_at: 2,
+          ...retryState,
+        },
+      ]);
+      mockOfflineCache.getSyncIdMapping.mockResolvedValue(null);
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.failed).toBe(0);
+      expect(mockOfflineCache.recordSyncFailure).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('failed items', () => {
+    it('should put a failed item back in the queue', async () => {
+      mockOfflineCache.getFailedSyncItems.mockResolvedValue([]);
+
+      await SyncManager.retryFailedItem(3);
+
+      expect(mockOfflineCache.resetSyncQueueItem).toHaveBeenCalledWith(3);
+    });
+
+    it('should retry the changes set aside with a create', async () => {
+      mockOfflineCache.getFailedSyncItems.mockResolvedValue([
+        {
+          id: 3,
+          type: 'note',
+          action: 'create',
+          payload: { guideId: 'g1', localId: 'temp_1', content: 'Hi' },
+          created_at: 1,
+          ...retryState,
+          failed_at: 2,
+        },
+        {
+          id: 4,
+          type: 'note',
+          action: 'update',
+          payload: { guideId: 'g1', noteId: 'temp_1', content: 'Hey' },
+          created_at: 3,
+          ...retryState,
+          failed_at: 4,
+        },
+        {
+          id: 5,
+          type: 'note',
+          action: 'update',
+          payload: { guideId: 'g1', noteId: 'note-2', content: 'Other' },
+          created_at: 5,
+          ...retryState,
+          failed_at: 6,
+        },
+      ]);
+
+      await SyncManager.retryFailedItem(3);
+
+      expect(mockOfflineCache.resetSyncQueueItem).toHaveBeenCalledTimes(2);
+      expect(mockOfflineCache.resetSyncQueueItem).toHaveBeenCalledWith(3);
+      expect(mockOfflineCache.resetSyncQueueItem).toHaveBeenCalledWith(4);
+    });
+
+    it('should discard a failed item', async () => {
+      mockOfflineCache.getFailedSyncItems.mockResolvedValue([]);
+
+      await SyncManager.discardFailedItem(3);
+
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledWith(3);
+    });
+
+    it('should drop the offline copy when discarding a create', async () => {
+      const create = {
+        id: 3,
+        type: 'note',
+        action: 'create',
+        payload: { guideId: 'g1', localId: 'temp_1', content: 'Hi' },
+        created_at: 1,
+        ...retryState,
+        failed_at: 2,
+      };
+      const update = {
+        id: 4,
+        type: 'note',
+        action: 'update',
+        payload: { guideId: 'g1', noteId: 'temp_1', content: 'Hey' },
+        created_at: 3,
+        ...retryState,
+      };
+      mockOfflineCache.getFailedSyncItems.mockResolvedValue([create]);
+      mockOfflineCache.getSyncQueue.mockResolvedValue([create, update]);
+
+      await SyncManager.discardFailedItem(3);
+
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledWith(3);
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledWith(4);
+      expect(mockOfflineCache.deleteNote).toHaveBeenCalledWith('temp_1');
+    });
+  });
+
+  describe('conflicts', () => {
+    const serverNote = {
+      id: 'note-1',
+      guide_id: 'g1',
+      position: 10,
+      content: 'Their edit',
+      created_at: 1,
+      updated_at: 200,
+    };
+    const noteRow = (overrides: Partial<SyncQueueRow>): SyncQueueRow => ({
+      id: 4,
+      type: 'note',
+      action: 'update',
+      payload: { guideId: 'g1', noteId: 'note-1', content: 'My edit', baseUpdatedAt: 100 },
+      created_at: 1,
+      ...retryState,
+      ...overrides,
+    });
+
+    it('should set aside a note edited on another device', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([noteRow({})]);
+      mockNotesApi.getByGuide.mockResolvedValue({ data: [serverNote] });
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.conflicts).toBe(1);
+      expect(mockNotesApi.update).not.toHaveBeenCalled();
+      expect(mockOfflineCache.recordSyncConflict).toHaveBeenCalledWith(
+        4,
+        'Edited on another device',
+        serverNote
+      );
+    });
+
+    it('should send the edit when the note is unchanged on the server', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([noteRow({})]);
+      mockNotesApi.getByGuide.mockResolvedValue({ data: [{ ...serverNote, updated_at: 100 }] });
+      mockNotesApi.update.mockResolvedValue({ data: { ...serverNote, content: 'My edit' } });
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.success).toBe(1);
+      expect(mockOfflineCache.saveNote).toHaveBeenCalledWith({ ...serverNote, content: 'My edit' });
+    });
+
+    it('should treat a 409 response as a conflict', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        noteRow({ payload: { guideId: 'g1', noteId: 'note-1', content: 'My edit' } }),
+      ]);
+      mockNotesApi.update.mockRejectedValue(new ApiError(409, 'CONFLICT', 'Conflict'));
+      mockNotesApi.getByGuide.mockResolvedValue({ data: [serverNote] });
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.conflicts).toBe(1);
+      expect(result.deadLettered).toBe(0);
+    });
+
+    it('should leave the server to keep the latest position', async () => {
+      mockGuidesApi.updatePosition.mockResolvedValue({ success: true });
+
+      await SyncManager.processQueueItem({
+        id: 1,
+        type: 'position',
+        action: 'update',
+        payload: { guideId: 'g1', position: 100, savedAt: 100 },
+      });
+
+      expect(mockGuidesApi.updatePosition).toHaveBeenCalledWith('g1', 100, undefined, 100);
+      expect(mockBookmarksApi.getByGuide).not.toHaveBeenCalled();
+    });
+
+    it('should keep their version', async () => {
+      mockOfflineCache.getFailedSyncItems.mockResolvedValue([noteRow({ conflict: serverNote })]);
+
+      await SyncManager.resolveConflict(4, 'theirs');
+
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledWith(4);
+      expect(mockOfflineCache.saveNote).toHaveBeenCalledWith(serverNote);
+    });
+
+    it('should resend my version on top of theirs', async () => {
+      mockOfflineCache.getFailedSyncItems.mockResolvedValue([noteRow({ conflict: serverNote })]);
+
+      await SyncManager.resolveConflict(4, 'mine');
+
+      expect(mockOfflineCache.updateSyncQueueItem).toHaveBeenCalledWith(4, {
+        guideId: 'g1',
+        noteId: 'note-1',
+        content: 'My edit',
+        baseUpdatedAt: 200,
+      });
+      expect(mockOfflineCache.resetSyncQueueItem).toHaveBeenCalledWith(4);
+      expect(mockOfflineCache.updateNote).not.toHaveBeenCalled();
+      // Later edits are made on top of theirs
+      expect(mockOfflineCache.setNoteServerUpdatedAt).toHaveBeenCalledWith('note-1', 200);
+    });
+
+    it('should send a merged version', async () => {
+      mockOfflineCache.getFailedSyncItems.mockResolvedValue([noteRow({ conflict: serverNote })]);
+
+      await SyncManager.resolveConflict(4, { content: 'Both edits' });
+
+      expect(mockOfflineCache.updateNote).toHaveBeenCalledWith('note-1', { content: 'Both edits' });
+      expect(mockOfflineCache.updateSyncQueueItem).toHaveBeenCalledWith(
+        4,
+        expect.objectContaining({ content: 'Both edits', baseUpdatedAt: 200 })
+      );
+    });
+  });
+
+  describe('syncAll coalescing', () => {
+    it('should replay only the latest position and store the folded queue', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        { id: 1, type: 'position', action: 'update', payload: { guideId: 'g1', position: 10 }, created_at: 1, ...retryState },
+        { id: 2, type: 'note', action: 'update', payload: { guideId: 'g1', noteId: 'n1', position: 3 }, created_at: 2, ...retryState },
+        { id: 3, type: 'position', action: 'update', payload: { guideId: 'g1', position: 20 }, created_at: 3, ...retryState },
+        { id: 4, type: 'note', action: 'update', payload: { guideId: 'g1', noteId: 'n1', content: 'Hi' }, created_at: 4, ...retryState },
+      ]);
+      mockGuidesApi.updatePosition.mockResolvedValue({ success: true });
+      mockNotesApi.update.mockResolvedValue({ data: {} as never });
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.success).toBe(2);
+      expect(mockGuidesApi.updatePosition).toHaveBeenCalledTimes(1);
+      expect(mockGuidesApi.updatePosition).toHaveBeenCalledWith('g1', 20, undefined, undefined);
+      expect(mockNotesApi.update).toHaveBeenCalledTimes(1);
+      expect(mockNotesApi.update).toHaveBeenCalledWith('g1', 'n1', { position: 3, content: 'Hi' });
+      expect(mockOfflineCache.updateSyncQueueItem).toHaveBeenCalledWith(4, {
+        guideId: 'g1',
+        noteId: 'n1',
+        position: 3,
+        content: 'Hi',
+      });
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledWith(1);
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledWith(2);
+    });
+  });
+
   describe('processQueueItem', () => {
     describe('position type', () => {
       it('should update position via API', async () => {
@@ -185,7 +521,55 @@ describe('SyncManager', () => {
 
         expect(mockGuidesApi.updatePosition).toHaveBeenCalledWith(
           'guide-123',
-          500
+          500,
+          undefined,
+          undefined
+        );
+      });
+
+      it('should send the content anchor when present', async () => {
+        mockGuidesApi.updatePosition.mockResolvedValue({ success: true });
+
+        await SyncManager.processQueueItem({
+          id: 1,
+          type: 'position',
+          action: 'update',
+          payload: { guideId: 'guide-123', position: 120, line_index: 4, fingerprint: 'Chapter 1' },
+        });
+
+        expect(mockOfflineCache.getGuide).not.toHaveBeenCalled();
+        expect(mockGuidesApi.updatePosition).toHaveBeenCalledWith(
+          'guide-123',
+          120,
+          { line_index: 4, fingerprint: 'Chapter 1' },
+          undefined
+        );
+      });
+
+      it('should migrate legacy pixel positions using the downloaded guide', async () => {
+        mockGuidesApi.updatePosition.mockResolvedValue({ success: true });
+        mockOfflineCache.getGuide.mockResolvedValueOnce({
+          id: 'guide-123',
+          title: 'Guide',
+          content: 'line 0\nline 1\nline 2\nChapter 3',
+          format: 'txt',
+          file_path: '',
+          created_at: 0,
+          updated_at: 0,
+        });
+
+        await SyncManager.processQueueItem({
+          id: 1,
+          type: 'position',
+          action: 'update',
+          payload: { guideId: 'guide-123', position: 35 }, // 35px / 11px line height = line 3
+        });
+
+        expect(mockGuidesApi.updatePosition).toHaveBeenCalledWith(
+          'guide-123',
+          21,
+          { line_index: 3, fingerprint: 'Chapter 3' },
+          undefined
         );
       });
     });
@@ -201,6 +585,7 @@ describe('SyncManager', () => {
             page_reference: null,
             is_last_read: false,
             created_at: Date.now(),
+            ...retryState,
           },
         });
 
@@ -225,6 +610,28 @@ describe('SyncManager', () => {
         });
       });
 
+      it('should swap the offline copy for the created bookmark', async () => {
+        const created = {
+          id: 'bookmark-1',
+          guide_id: 'guide-1',
+          position: 100,
+          is_last_read: false,
+          created_at: Date.now(),
+          ...retryState,
+        };
+        mockBookmarksApi.create.mockResolvedValue({ data: created });
+
+        await SyncManager.processQueueItem({
+          id: 1,
+          type: 'bookmark',
+          action: 'create',
+          payload: { guideId: 'guide-1', localId: 'temp_1', position: 100 },
+        });
+
+        expect(mockBookmarksApi.create).toHaveBeenCalledWith('guide-1', { position: 100 });
+        expect(mockOfflineCache.replaceBookmarkId).toHaveBeenCalledWith('temp_1', created);
+      });
+
       it('should delete bookmark via API', async () => {
         mockBookmarksApi.delete.mockResolvedValue({ success: true });
 
@@ -254,6 +661,7 @@ describe('SyncManager', () => {
             position: 200,
             content: 'My note',
             created_at: Date.now(),
+            ...retryState,
             updated_at: Date.now(),
           },
         });
@@ -275,6 +683,28 @@ describe('SyncManager', () => {
         });
       });
 
+      it('should swap the offline copy for the created note', async () => {
+        const created = {
+          id: 'note-1',
+          guide_id: 'guide-1',
+          position: null,
+          content: 'My note',
+          created_at: Date.now(),
+          ...retryState,
+          updated_at: Date.now(),
+        };
+        mockNotesApi.create.mockResolvedValue({ data: created });
+
+        await SyncManager.processQueueItem({
+          id: 1,
+          type: 'note',
+          action: 'create',
+          payload: { guideId: 'guide-1', localId: 'temp_2', content: 'My note' },
+        });
+
+        expect(mockOfflineCache.replaceNoteId).toHaveBeenCalledWith('temp_2', created);
+      });
+
       it('should update note via API', async () => {
         mockNotesApi.update.mockResolvedValue({
           data: {
@@ -305,6 +735,54 @@ describe('SyncManager', () => {
         });
       });
 
+      it('should move edits queued meanwhile onto the updated copy', async () => {
+        mockNotesApi.getByGuide.mockResolvedValue({ data: [] });
+        mockNotesApi.update.mockResolvedValue({
+          data: {
+            id: 'note-1',
+            guide_id: 'guide-1',
+            position: null,
+            content: 'First',
+            created_at: 100,
+            updated_at: 300,
+          },
+        });
+        mockOfflineCache.getSyncQueue.mockResolvedValue([
+          {
+            id: 2,
+            type: 'note',
+            action: 'update',
+            payload: {
+              guideId: 'guide-1',
+              noteId: 'note-1',
+              content: 'Second',
+              baseUpdatedAt: 200,
+            },
+            created_at: 2,
+            ...retryState,
+          },
+        ]);
+
+        await SyncManager.processQueueItem({
+          id: 1,
+          type: 'note',
+          action: 'update',
+          payload: {
+            guideId: 'guide-1',
+            noteId: 'note-1',
+            content: 'First',
+            baseUpdatedAt: 200,
+          },
+        });
+
+        expect(mockOfflineCache.updateSyncQueueItem).toHaveBeenCalledWith(2, {
+          guideId: 'guide-1',
+          noteId: 'note-1',
+          content: 'Second',
+          baseUpdatedAt: 300,
+        });
+      });
+
       it('should delete note via API', async () => {
         mockNotesApi.delete.mockResolvedValue({ success: true });
 
@@ -336,6 +814,191 @@ describe('SyncManager', () => {
     });
   });
 
+  describe('temporary IDs', () => {
+    const queued = (
+      id: number,
+      type: string,
+      action: string,
+      payload: Record<string, unknown>
+    ) => ({ id, type, action, payload, created_at: id, ...retryState });
+
+    it('should cancel a queued create when the record is deleted', async () => {
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        queued(1, 'note', 'create', { guideId: 'g1', localId: 'temp_1', content: 'Hi' }),
+        queued(2, 'note', 'update', { guideId: 'g1', noteId: 'temp_1', content: 'Hey' }),
+        queued(3, 'note', 'create', { guideId: 'g1', localId: 'temp_2', content: 'Other' }),
+      ]);
+
+      await SyncManager.queueChange({
+        type: 'note',
+        action: 'delete',
+        payload: { guideId: 'g1', noteId: 'temp_1' },
+      });
+
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledTimes(2);
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledWith(1);
+      expect(mockOfflineCache.removeSyncQueueItem).toHaveBeenCalledWith(2);
+      expect(mockOfflineCache.addToSyncQueue).not.toHaveBeenCalled();
+    });
+
+    it('should queue the delete once the create has synced', async () => {
+      await SyncManager.queueChange({
+        type: 'bookmark',
+        action: 'delete',
+        payload: { guideId: 'g1', bookmarkId: 'temp_1' },
+      });
+
+      expect(mockOfflineCache.addToSyncQueue).toHaveBeenCalledWith('bookmark', 'delete', {
+        guideId: 'g1',
+        bookmarkId: 'temp_1',
+      });
+    });
+
+    it('should rewrite queued changes after the create succeeds', async () => {
+      mockBookmarksApi.create.mockResolvedValue({
+        data: {
+          id: 'bookmark-9',
+          guide_id: 'g1',
+          position: 10,
+          is_last_read: false,
+          created_at: 0,
+        },
+      });
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        queued(2, 'bookmark', 'delete', { guideId: 'g1', bookmarkId: 'temp_1' }),
+        queued(3, 'note', 'delete', { guideId: 'g1', noteId: 'temp_1' }),
+      ]);
+
+      await SyncManager.processQueueItem({
+        id: 1,
+        type: 'bookmark',
+        action: 'create',
+        payload: { guideId: 'g1', localId: 'temp_1', position: 10 },
+      });
+
+      expect(mockOfflineCache.saveSyncIdMapping).toHaveBeenCalledWith('temp_1', 'bookmark-9');
+      expect(mockOfflineCache.updateSyncQueueItem).toHaveBeenCalledTimes(1);
+      expect(mockOfflineCache.updateSyncQueueItem).toHaveBeenCalledWith(2, {
+        guideId: 'g1',
+        bookmarkId: 'bookmark-9',
+      });
+    });
+
+    it('should send changes to the mapped server ID', async () => {
+      mockOfflineCache.getSyncIdMapping.mockResolvedValue('note-9');
+      mockNotesApi.update.mockResolvedValue({ data: {} as never });
+
+      await SyncManager.processQueueItem({
+        id: 1,
+        type: 'note',
+        action: 'update',
+        payload: { guideId: 'g1', noteId: 'temp_1', content: 'Edited' },
+      });
+
+      expect(mockNotesApi.update).toHaveBeenCalledWith('g1', 'note-9', {
+        position: undefined,
+        content: 'Edited',
+      });
+    });
+
+    it('should hold changes until the create has synced', async () => {
+      mockOfflineCache.getSyncIdMapping.mockResolvedValue(null);
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        queued(1, 'note', 'create', { guideId: 'g1', localId: 'temp_1', content: 'Hi' }),
+      ]);
+
+      await expect(
+        SyncManager.processQueueItem({
+          id: 2,
+          type: 'note',
+          action: 'delete',
+          payload: { guideId: 'g1', noteId: 'temp_1' },
+        })
+      ).rejects.toThrow('Waiting for note temp_1 to be created');
+      expect(mockNotesApi.delete).not.toHaveBeenCalled();
+    });
+
+    it('should set changes aside with a create that was given up on', async () => {
+      mockOfflineCache.getSyncIdMapping.mockResolvedValue(null);
+      mockOfflineCache.getSyncQueue.mockResolvedValue([
+        { ...queued(1, 'note', 'create', { guideId: 'g1', localId: 'temp_1' }), failed_at: 5 },
+        queued(2, 'note', 'update', { guideId: 'g1', noteId: 'temp_1', content: 'Hey' }),
+      ]);
+
+      const result = await SyncManager.syncAll();
+
+      expect(result.deadLettered).toBe(1);
+      expect(mockOfflineCache.recordSyncFailure).toHaveBeenCalledWith(
+        2,
+        'The note this changes could not be created',
+        null
+      );
+      expect(mockNotesApi.update).not.toHaveBeenCalled();
+    });
+
+    it('should drop changes to records that were never created', async () => {
+      mockOfflineCache.getSyncIdMapping.mockResolvedValue(null);
+
+      await SyncManager.processQueueItem({
+        id: 2,
+        type: 'bookmark',
+        action: 'delete',
+        payload: { guideId: 'g1', bookmarkId: 'temp_1' },
+      });
+
+      expect(mockBookmarksApi.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('editing while syncing', () => {
+    const { offlineCache: realCache } = jest.requireActual<
+      typeof import('@/database/offlineCache')
+    >('@/database/offlineCache');
+
+    beforeEach(async () => {
+      // Run the queue on the real cache, backed by the in-memory SQLite mock
+      for (const method of Object.keys(realCache) as Array<keyof typeof realCache>) {
+        (mockOfflineCache[method] as jest.Mock).mockImplementation(
+          (realCache[method] as (...args: unknown[]) => unknown).bind(realCache)
+        );
+      }
+      await realCache.initialize();
+      await realCache.clearSyncQueue();
+    });
+
+    afterEach(() => {
+      jest.resetAllMocks();
+    });
+
+    it('should keep a note edit queued while an earlier one is being sent', async () => {
+      let finishUpdate: () => void = () => {};
+      mockNotesApi.update.mockImplementationOnce(
+        () => new Promise((resolve) => (finishUpdate = () => resolve({ data: null as never })))
+      );
+      await realCache.addToSyncQueue('note', 'update', {
+        guideId: 'g1',
+        noteId: 'n1',
+        content: 'Old',
+      });
+
+      const syncing = SyncManager.syncAll();
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      expect(mockNotesApi.update).toHaveBeenCalledWith('g1', 'n1', { content: 'Old' });
+
+      await SyncManager.queueChange({
+        type: 'note',
+        action: 'update',
+        payload: { guideId: 'g1', noteId: 'n1', content: 'New' },
+      });
+      finishUpdate();
+      await syncing;
+
+      const queue = await realCache.getSyncQueue();
+      expect(queue).toHaveLength(1);
+      expect(queue[0].payload.content).toBe('New');
+    });
+  });
+
   describe('clearQueue', () => {
     it('should clear the sync queue', async () => {
       mockOfflineCache.clearSyncQueue.mockResolvedValue(undefined);
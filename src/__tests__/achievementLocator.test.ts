@@ -0,0 +1,78 @@
+import { findAchievementPassages, getAchievementTerms } from '../utils/achievementLocator';
+
+const guide = [
+  'SUPER METROID WALKTHROUGH',
+  '',
+  '[BRN1] Brinstar',
+  'Head left from the elevator to find a Missile Expansion.',
+  '',
+  '[NOR1] Norfair',
+  'Kraid waits in his lair below Brinstar. Use Missiles on his mouth.',
+  'Beat Kraid to collect the Varia Suit.',
+  '',
+  '[MAR1] Maridia',
+  'Draygon is the boss of Maridia. Grapple the turrets to defeat it quickly.',
+  'Draygon drops nothing but opens the way to the Space Jump.',
+];
+
+describe('achievementLocator', () => {
+  describe('getAchievementTerms', () => {
+    it('should keep distinctive description words', () => {
+      expect(
+        getAchievementTerms({ title: 'Fashion Forward', description: 'Obtain the Varia Suit' })
+      ).toEqual({ title: 'fashion forward', terms: ['varia', 'suit'] });
+    });
+
+    it('should drop possessives and words already in the title', () => {
+      expect(
+        getAchievementTerms({ title: "Kraid's Lair", description: "Defeat Kraid's guardian" }).terms
+      ).toEqual(['defeat', 'guardian']);
+    });
+  });
+
+  describe('findAchievementPassages', () => {
+    it('should rank passages covering more terms first', () => {
+      const passages = findAchievementPassages(guide, {
+        title: 'Fashion Forward',
+        description: 'Defeat Kraid and collect the Varia Suit',
+      });
+
+      expect(passages[0].lineIndex).toBe(7);
+      expect(passages[0].matchedTerms).toEqual(['kraid', 'collect', 'varia', 'suit']);
+    });
+
+    it('should find the title and keep passages apart', () => {
+      const passages = findAchievementPassages(guide, {
+        title: 'Draygon',
+        description: 'Defeat the boss of Maridia',
+      });
+
+      expect(passages).toHaveLength(1);
+      expect(passages[0]).toMatchObject({ lineIndex: 10, titleMatch: true, score: 1 });
+    });
+
+    it('should only match the title as whole words', () => {
+      const passages = findAchievementPassages(
+        ['Bring the key here during spring.', '', '', '', '', 'The Ring is in the chest.'],
+        { title: 'Ring', description: 'Obtain it' }
+      );
+
+      expect(passages.map(p => p.lineIndex)).toEqual([5]);
+    });
+
+    it('should ignore lines matching only a single term', () => {
+      const passages = findAchievementPassages(guide, {
+        title: 'Sharpshooter',
+        description: 'Find every Missile Expansion in Crateria',
+      });
+
+      expect(passages.map(p => p.lineIndex)).toEqual([3]);
+    });
+
+    it('should return nothing when no passage mentions the achievement', () => {
+      expect(
+        findAchievementPassages(guide, { title: 'Speedrunner', description: 'Finish in 3 hours' })
+      ).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  AUTO_LINK_CONFIDENCE,
+  MIN_MATCH_CONFIDENCE,
+  normalizeTitle,
+  rankCandidates,
+  scoreCandidate,
+  titleSimilarity,
+  type GameCandidate,
+} from '../utils/gameMatching';
+
+const candidate = (title: string, overrides: Partial<GameCandidate> = {}): GameCandidate => ({
+  key: `library:${title}`,
+  gameId: title,
+  title,
+  source: 'library',
+  ...overrides,
+});
+
+describe('gameMatching', () => {
+  describe('normalizeTitle', () => {
+    it('should drop articles, guide words and punctuation', () => {
+      expect(normalizeTitle('The Legend of Zelda: FAQ/Walkthrough')).toBe('legend of zelda');
+    });
+
+    it('should keep "by" in game titles', () => {
+      expect(normalizeTitle('Bound by Flame')).toBe('bound by flame');
+    });
+
+    it('should make sequel numerals numeric and strip accents', () => {
+      expect(normalizeTitle('Final Fantasy VII')).toBe('final fantasy 7');
+      expect(normalizeTitle('Pokémon Red & Blue')).toBe('pokemon red and blue');
+    });
+  });
+
+  describe('titleSimilarity', () => {
+    it('should treat differently written titles as identical', () => {
+      expect(titleSimilarity('Final Fantasy VII', 'final fantasy 7 guide')).toBe(1);
+    });
+
+    it('should penalize different sequel numbers', () => {
+      expect(titleSimilarity('Final Fantasy VII', 'Final Fantasy VI')).toBeLessThan(
+        MIN_MATCH_CONFIDENCE
+      );
+    });
+
+    it('should score unrelated titles low', () => {
+      expect(titleSimilarity('Super Metroid', 'Chrono Trigger')).toBeLessThan(0.2);
+    });
+  });
+
+  describe('scoreCandidate', () => {
+    const guide = { id: 'g1', title: 'Walkthrough', gameName: 'Chrono Trigger', platform: 'SNES' };
+
+    it('should be certain when the GameFAQs IDs match', () => {
+      expect(
+        scoreCandidate(
+          { ...guide, gamefaqsId: '563538' },
+          candidate('CT', { gamefaqsId: '563538' })
+        )
+      ).toBe(1);
+    });
+
+    it('should fall back to the filename when the title says nothing', () => {
+      const score = scoreCandidate(
+        { id: 'g2', title: 'FAQ', filePath: '/guides/super-metroid-faq.txt' },
+        candidate('Super Metroid')
+      );
+      expect(score).toBe(1);
+    });
+
+    it('should ignore the author credit in guide titles and filenames', () => {
+      expect(
+        scoreCandidate(
+          { id: 'g3', title: 'Bound by Flame FAQ by Someone' },
+          candidate('Bound by Flame')
+        )
+      ).toBe(1);
+      expect(
+        scoreCandidate(
+          { id: 'g4', title: 'FAQ', filePath: '/guides/super-metroid-faq-by-someone.txt' },
+          candidate('Super Metroid')
+        )
+      ).toBe(1);
+    });
+
+    it('should treat RetroAchievements console names as the same platform', () => {
+      const score = scoreCandidate(
+        guide,
+        candidate('Chrono Trigger', { platform: 'SNES/Super Famicom', source: 'retroachievements' })
+      );
+      expect(score).toBeGreaterThanOrEqual(AUTO_LINK_CONFIDENCE);
+      expect(
+        scoreCandidate(
+          { ...guide, platform: 'Super Nintendo' },
+          candidate('Chrono Trigger', { platform: 'SNES' })
+        )
+      ).toBe(1);
+    });
+
+    it('should prefer candidates on the same platform', () => {
+      const snes = scoreCandidate(guide, candidate('Chrono Trigger', { platform: 'SNES' }));
+      const ds = scoreCandidate(guide, candidate('Chrono Trigger', { platform: 'Nintendo DS' }));
+      expect(snes).toBe(1);
+      expect(ds).toBeLessThan(AUTO_LINK_CONFIDENCE);
+    });
+  });
+
+  describe('rankCandidates', () => {
+    it('should return confident candidates best first', () => {
+      const ranked = rankCandidates({ id: 'g1', title: 'Chrono Trigger DS Guide' }, [
+        candidate('Super Metroid'),
+        candidate('Chrono Trigger'),
+        candidate('Chrono Trigger DS'),
+      ]);
+
+      expect(ranked.map(r => r.candidate.title)).toEqual(['Chrono Trigger DS', 'Chrono Trigger']);
+      expect(ranked[0].confidence).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,35 @@
+import { formatCompletion, groupGamesByStatus } from '../utils/games';
+import type { Game } from '../types';
+
+const game = (id: string, status: Game['status'], completion_percentage = 0): Game => ({
+  id,
+  title: id,
+  status,
+  completion_percentage,
+  created_at: 0,
+  updated_at: 0,
+});
+
+describe('games utils', () => {
+  describe('groupGamesByStatus', () => {
+    it('should group by status in backlog order and skip empty groups', () => {
+      const groups = groupGamesByStatus([
+        game('zelda', 'not_started'),
+        game('metroid', 'in_progress', 20),
+        game('mario', 'not_started'),
+        game('chrono', 'in_progress', 80),
+      ]);
+
+      expect(groups.map(g => [g.title, g.data.map(d => d.id)])).toEqual([
+        ['In Progress', ['chrono', 'metroid']],
+        ['Not Started', ['zelda', 'mario']],
+      ]);
+    });
+  });
+
+  describe('formatCompletion', () => {
+    it('should round to a whole percentage', () => {
+      expect(formatCompletion(33.333)).toBe('33%');
+    });
+  });
+});
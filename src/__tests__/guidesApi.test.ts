@@ -176,5 +176,16 @@ describe('guidesApi', () => {
         body: JSON.stringify({ position: 500 }),
       });
     });
+
+    it('should send when a position synced late was saved', async () => {
+      mockApiClient.mockResolvedValue({ success: true });
+
+      await guidesApi.updatePosition('guide123', 500, { line_index: 12 }, 1700000000000);
+
+      expect(mockApiClient).toHaveBeenCalledWith('/guides/guide123/position', {
+        method: 'PUT',
+        body: JSON.stringify({ position: 500, line_index: 12, saved_at: 1700000000000 }),
+      });
+    });
   });
 });
@@ -0,0 +1,299 @@
+import { zipSync } from 'fflate';
+import { localLibrary } from '../database/localLibrary';
+import GuideParserService from '../services/GuideParserService';
+import type { GuideMetadata } from '../types';
+import { decodeText } from '../utils/textEncoding';
+
+jest.mock('../services/GuideParserService', () => ({
+  __esModule: true,
+  default: { parseGuide: jest.fn(), parseGuideBytes: jest.fn() },
+}));
+
+// Imported files that are still on disk, by path
+const mockFiles = new Map<string, Uint8Array>();
+
+jest.mock('expo-file-system/next', () => ({
+  File: class File {
+    constructor(private mockPath: string) {}
+    get exists() {
+      return mockFiles.has(this.mockPath);
+    }
+    async bytes() {
+      return mockFiles.get(this.mockPath);
+    }
+  },
+}));
+
+const mockParseGuide = GuideParserService.parseGuide as jest.MockedFunction<
+  typeof GuideParserService.parseGuide
+>;
+const mockParseGuideBytes = GuideParserService.parseGuideBytes as jest.MockedFunction<
+  typeof GuideParserService.parseGuideBytes
+>;
+
+const importGuide = async (
+  title: string,
+  content: string,
+  metadata: GuideMetadata = {}
+) => {
+  mockParseGuide.mockResolvedValueOnce({ title, content, format: 'txt', metadata, outline: [] });
+  return localLibrary.importGuide(`/imports/${title}.txt`);
+};
+
+describe('localLibrary', () => {
+  // The database is shared across tests, so remove anything imported by the previous one
+  beforeEach(async () => {
+    const { data } = await localLibrary.getGuides(1, 1000);
+    for (const guide of data) {
+      await localLibrary.deleteGuide(guide.id);
+    }
+  });
+
+  describe('importGuide', () => {
+    it('should parse the file and store the guide', async () => {
+      const imported = await importGuide('Zelda', 'Go north.', { platform: 'NES' });
+
+      const { data } = await localLibrary.getGuide(imported.id);
+
+      expect(mockParseGuide).toHaveBeenCalledWith('/imports/Zelda.txt');
+      expect(data.title).toBe('Zelda');
+      expect(data.content).toBe('Go north.');
+      expect(JSON.parse(data.metadata!)).toEqual({ platform: 'NES' });
+    });
+
+    it('should reject when the guide does not exist', async () => {
+      await expect(localLibrary.getGuide('missing')).rejects.toThrow('Guide not found');
+    });
+  });
+
+  describe('getGuides', () => {
+    it('should paginate guides sorted by title with content length', async () => {
+      await importGuide('Metroid', 'abc');
+      await importGuide('castlevania', 'abcdef');
+      await importGuide('Zelda', 'a');
+
+      const firstPage = await localLibrary.getGuides(1, 2);
+      const secondPage = await localLibrary.getGuides(2, 2);
+
+      expect(firstPage.data.map(guide => guide.title)).toEqual(['castlevania', 'Metroid']);
+      expect(firstPage.data[0].content_length).toBe(6);
+      expect(firstPage.data[0]).not.toHaveProperty('content');
+      expect(firstPage.pagination).toEqual({ page: 1, limit: 2, total: 3, totalPages: 2 });
+      expect(secondPage.data.map(guide => guide.title)).toEqual(['Zelda']);
+    });
+
+    it('should filter by platform and tags', async () => {
+      await importGuide('Zelda', 'a', { platform: 'NES', tags: ['walkthrough', 'maps'] });
+      await importGuide('Mario', 'b', { platform: 'NES', tags: ['walkthrough'] });
+      await importGuide('Sonic', 'c', { platform: 'Genesis', tags: ['maps'] });
+
+      const nes = await localLibrary.getGuides(1, 20, { platform: 'NES' });
+      const anyTag = await localLibrary.getGuides(1, 20, { tags: ['maps', 'walkthrough'] });
+      const allTags = await localLibrary.getGuides(1, 20, {
+        tags: ['maps', 'walkthrough'],
+        tagMatch: 'all',
+      });
+
+      expect(nes.data.map(guide => guide.title)).toEqual(['Mario', 'Zelda']);
+      expect(anyTag.pagination.total).toBe(3);
+      expect(allTags.data.map(guide => guide.title)).toEqual(['Zelda']);
+    });
+  });
+
+  it('should list distinct platforms and tags', async () => {
+    await importGuide('Zelda', 'a', { platform: 'NES', tags: ['walkthrough', 'maps'] });
+    await importGuide('Sonic', 'b', { platform: 'Genesis', tags: ['maps'] });
+    await importGuide('Untagged', 'c');
+
+    await expect(localLibrary.getFilters()).resolves.toEqual({
+      platforms: ['Genesis', 'NES'],
+      tags: ['maps', 'walkthrough'],
+    });
+  });
+
+  it('should search titles and content separately', async () => {
+    await importGuide('Dragon Warrior', 'Level up before the castle.');
+    await importGuide('Final Fantasy', 'Bring antidotes to the dragon cave.');
+
+    const results = await localLibrary.searchGuides('drag');
+
+    expect(results.guides.map(guide => guide.title)).toEqual(['Dragon Warrior']);
+    expect(results.content.map(guide => guide.title)).toEqual(['Final Fantasy']);
+    expect(results.total).toBe(2);
+  });
+
+  it('should order search results by relevance', async () => {
+    await importGuide('Dragon Quest Monsters Joker Two Professional', 'Slime taming tips.');
+    await importGuide('Dragon Warrior', 'A dragon guards the princess.');
+    await importGuide('Breath of Fire', 'A dragon clan story. Dragon powers. Dragon forms.');
+
+    const results = await localLibrary.searchGuides('dragon');
+
+    expect(results.guides.map(guide => guide.title)).toEqual([
+      'Dragon Warrior',
+      'Dragon Quest Monsters Joker Two Professional',
+    ]);
+    expect(results.content.map(guide => guide.title)).toEqual(['Breath of Fire']);
+  });
+
+  it('should keep a single last-read bookmark per guide', async () => {
+    const guide = await importGuide('Zelda', 'Line one\nLine two');
+
+    await localLibrary.updatePosition(guide.id, 0, { line_index: 0, fingerprint: 'Line one' });
+    await localLibrary.updatePosition(guide.id, 9, { line_index: 1, fingerprint: 'Line two' });
+    await localLibrary.createBookmark(guide.id, { position: 0, line_index: 0, name: 'Start' });
+
+    const { data } = await localLibrary.getBookmarks(guide.id);
+    const lastRead = data.filter(bookmark => bookmark.is_last_read);
+
+    expect(data).toHaveLength(2);
+    expect(lastRead).toEqual([
+      expect.objectContaining({ position: 9, line_index: 1, fingerprint: 'Line two' }),
+    ]);
+    expect(data.find(bookmark => !bookmark.is_last_read)?.name).toBe('Start');
+  });
+
+  it('should create, update and delete notes', async () => {
+    const guide = await importGuide('Zelda', 'Go north.');
+
+    const { data: created } = await localLibrary.createNote(guide.id, { content: 'Bombs' });
+    await localLibrary.updateNote(guide.id, created.id, { content: 'More bombs', position: 0 });
+
+    expect((await localLibrary.getNotes(guide.id)).data).toEqual([
+      expect.objectContaining({ id: created.id, content: 'More bombs', position: 0 }),
+    ]);
+
+    await localLibrary.deleteNote(guide.id, created.id);
+    expect((await localLibrary.getNotes(guide.id)).data).toEqual([]);
+  });
+
+  it('should remove bookmarks and notes with their guide', async () => {
+    const guide = await importGuide('Zelda', 'Go north.');
+    await localLibrary.createBookmark(guide.id, { position: 0, name: 'Start' });
+    await localLibrary.createNote(guide.id, { content: 'Bombs' });
+
+    await localLibrary.deleteGuide(guide.id);
+
+    expect((await localLibrary.getBookmarks(guide.id)).data).toEqual([]);
+    expect((await localLibrary.getNotes(guide.id)).data).toEqual([]);
+  });
+
+  it('should update title and metadata', async () => {
+    const guide = await importGuide('zelda', 'Go north.', { platform: 'NES' });
+
+    await localLibrary.updateGuideMetadata(guide.id, {
+      title: 'The Legend of Zelda',
+      tags: ['walkthrough'],
+    });
+
+    const { data } = await localLibrary.getGuide(guide.id);
+    expect(data.title).toBe('The Legend of Zelda');
+    expect(JSON.parse(data.metadata!)).toEqual({ platform: 'NES', tags: ['walkthrough'] });
+    expect((await localLibrary.searchGuides('legend')).guides).toHaveLength(1);
+  });
+
+  it('should re-decode content when the encoding is overridden', async () => {
+    // CP437 box-drawing bytes misread as Latin-1
+    const guide = await importGuide('dos', 'ÉÍ» Items', { encoding: 'windows-1252' });
+
+    await localLibrary.updateGuideMetadata(guide.id, { encoding: 'cp437' });
+
+    const { data } = await localLibrary.getGuide(guide.id);
+    expect(data.content).toBe('╔═╗ Items');
+    expect(JSON.parse(data.metadata!).encoding).toBe('cp437');
+  });
+
+  it('should re-decode from the imported file while it is still there', async () => {
+    // "Items" in Shift-JIS, which reads as replacement characters in UTF-8
+    const bytes = new Uint8Array([0x83, 0x41, 0x83, 0x43, 0x83, 0x65, 0x83, 0x80]);
+    mockFiles.set('/imports/sjis.txt', bytes);
+    mockParseGuideBytes.mockImplementation((data, _path, encoding) => ({
+      title: 'sjis',
+      content: decodeText(data, encoding!),
+      format: 'txt',
+      metadata: { encoding },
+      outline: [],
+    }));
+    const guide = await importGuide('sjis', decodeText(bytes, 'utf-8'), { encoding: 'utf-8' });
+
+    await localLibrary.updateGuideMetadata(guide.id, { encoding: 'shift_jis' });
+
+    const { data } = await localLibrary.getGuide(guide.id);
+    expect(mockParseGuideBytes).toHaveBeenCalledWith(bytes, '/imports/sjis.txt', 'shift_jis');
+    expect(data.content).toBe('アイテム');
+    mockFiles.clear();
+  });
+
+  it('should re-decode an archive member from its archive', async () => {
+    const bytes = new Uint8Array([0x83, 0x41, 0x83, 0x43, 0x83, 0x65, 0x83, 0x80]);
+    mockFiles.set('/imports/guides.zip', zipSync({ 'sjis.txt': bytes }));
+    mockParseGuideBytes.mockImplementation((data, _path, encoding) => ({
+      title: 'sjis',
+      content: decodeText(data, encoding!),
+      format: 'txt',
+      metadata: { encoding },
+      outline: [],
+    }));
+    mockParseGuide.mockResolvedValueOnce({
+      title: 'sjis',
+      content: decodeText(bytes, 'utf-8'),
+      format: 'txt',
+      metadata: { encoding: 'utf-8' },
+      outline: [],
+    });
+    const guide = await localLibrary.importGuide('/imports/guides.zip!/sjis.txt');
+
+    await localLibrary.updateGuideMetadata(guide.id, { encoding: 'shift_jis' });
+
+    expect((await localLibrary.getGuide(guide.id)).data.content).toBe('アイテム');
+    mockFiles.clear();
+  });
+});
+
+describe('localLibrary achievements', () => {
+  const gameInfo = {
+    id: '355',
+    title: 'The Legend of Zelda: A Link to the Past',
+    console: 'SNES',
+    imageIcon: 'https://media.retroachievements.org/Images/000001.png',
+    numAchievements: 2,
+    numAwardedToUser: 0,
+    userCompletion: '0.00%',
+  };
+
+  const achievement = (id: string, is_unlocked = false) => ({
+    ra_achievement_id: id,
+    title: `Achievement ${id}`,
+    description: `Do thing ${id}`,
+    points: 10,
+    badge_url: null,
+    is_unlocked,
+    unlock_time: is_unlocked ? 1000 : null,
+  });
+
+  it('should reuse the game linked to a RetroAchievements ID', async () => {
+    const first = await localLibrary.upsertRetroAchievementsGame(gameInfo);
+    const second = await localLibrary.upsertRetroAchievementsGame({
+      ...gameInfo,
+      title: 'Renamed',
+    });
+
+    expect(second.id).toBe(first.id);
+    expect(first.status).toBe('not_started');
+  });
+
+  it('should keep pins when achievements are synced again', async () => {
+    const game = await localLibrary.upsertRetroAchievementsGame(gameInfo);
+    await localLibrary.saveAchievements(game.id, [achievement('1'), achievement('2')]);
+    const [first] = (await localLibrary.getAchievements(game.id)).data;
+
+    await localLibrary.setAchievementPinned(first.id, true);
+    await localLibrary.saveAchievements(game.id, [achievement('1', true), achievement('2')]);
+
+    const { data } = await localLibrary.getAchievementsByRaGameId('355');
+    expect(data.map(a => [a.ra_achievement_id, a.is_pinned, a.is_unlocked])).toEqual([
+      ['1', true, true],
+      ['2', false, false],
+    ]);
+  });
+});
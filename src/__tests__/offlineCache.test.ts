@@ -1,5 +1,6 @@
-import { offlineCache } from '../database/offlineCache';
-import type { Guide } from '@/types';
+import { createTempId, offlineCache } from '../database/offlineCache';
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START } from '../utils/textSearch';
+import type { Bookmark, Guide, Note } from '@/types';
 
 describe('offlineCache', () => {
   // Reset database before each test by reinitializing
@@ -9,6 +10,7 @@ describe('offlineCache', () => {
     await offlineCache.initialize();
     await offlineCache.deleteAllGuides();
     await offlineCache.clearSyncQueue();
+    await offlineCache.clearDownloadQueue();
   });
 
   const createTestGuide = (id: string, overrides?: Partial<Guide>): Guide => ({
@@ -262,6 +264,243 @@ describe('offlineCache', () => {
     });
   });
 
+  describe('searchGuides', () => {
+    it('should rank title matches before content matches', async () => {
+      await offlineCache.saveGuide(
+        createTestGuide('content', { title: 'Zelda FAQ', content: 'Use the hookshot on Ganon.' })
+      );
+      await offlineCache.saveGuide(
+        createTestGuide('title', { title: 'Ganon Boss Guide', content: 'Strategies.' })
+      );
+
+      const results = await offlineCache.searchGuides('ganon');
+
+      expect(results.guides.map((g) => g.id)).toEqual(['title']);
+      expect(results.content.map((g) => g.id)).toEqual(['content']);
+      expect(results.total).toBe(2);
+    });
+
+    it('should return a snippet with the matched term marked', async () => {
+      await offlineCache.saveGuide(
+        createTestGuide('guide-1', { content: 'First find the hookshot in the dungeon.' })
+      );
+
+      const [result] = (await offlineCache.searchGuides('hook')).content;
+
+      expect(result.snippet).toContain(`${SNIPPET_MATCH_START}hookshot${SNIPPET_MATCH_END}`);
+      expect(result.content_length).toBe(39);
+    });
+
+    it('should keep the index in step with saves and deletes', async () => {
+      await offlineCache.saveGuide(createTestGuide('guide-1', { content: 'Old walkthrough' }));
+      await offlineCache.saveGuide(createTestGuide('guide-1', { content: 'New walkthrough' }));
+
+      expect((await offlineCache.searchGuides('walkthrough')).total).toBe(1);
+      expect((await offlineCache.searchGuides('old')).total).toBe(0);
+
+      await offlineCache.deleteGuide('guide-1');
+
+      expect((await offlineCache.searchGuides('walkthrough')).total).toBe(0);
+    });
+
+    it('should treat search syntax in the query as plain text', async () => {
+      await offlineCache.saveGuide(createTestGuide('guide-1', { content: 'Boss: Kraid' }));
+
+      await expect(offlineCache.searchGuides('kraid AND "NEAR(')).resolves.toMatchObject({
+        total: 0,
+      });
+      expect((await offlineCache.searchGuides('   ')).total).toBe(0);
+    });
+  });
+
+  describe('bookmark mirror', () => {
+    const bookmark = (id: string, guideId: string, overrides?: Partial<Bookmark>): Bookmark => ({
+      id,
+      guide_id: guideId,
+      position: 100,
+      line_index: 4,
+      fingerprint: 'Chapter 1',
+      name: `Bookmark ${id}`,
+      page_reference: null,
+      is_last_read: false,
+      created_at: 1000,
+      ...overrides,
+    });
+
+    it('should replace server bookmarks but keep ones created offline', async () => {
+      const offline = bookmark(createTempId(), 'mirror-1');
+      await offlineCache.saveBookmark(offline);
+      await offlineCache.saveBookmarks('mirror-1', [bookmark('b1', 'mirror-1')]);
+
+      await offlineCache.saveBookmarks('mirror-1', [
+        bookmark('b2', 'mirror-1', { position: 50, is_last_read: true }),
+      ]);
+
+      const bookmarks = await offlineCache.getBookmarks('mirror-1');
+      expect(bookmarks.map((b) => b.id)).toEqual(['b2', offline.id]);
+      expect(bookmarks[0].is_last_read).toBe(true);
+    });
+
+    it('should not bring back a bookmark deleted offline', async () => {
+      await offlineCache.saveBookmarks('mirror-5', [bookmark('b5', 'mirror-5')]);
+      await offlineCache.deleteBookmark('b5');
+      await offlineCache.addToSyncQueue('bookmark', 'delete', {
+        guideId: 'mirror-5',
+        bookmarkId: 'b5',
+      });
+
+      await offlineCache.saveBookmarks('mirror-5', [bookmark('b5', 'mirror-5')]);
+
+      expect(await offlineCache.getBookmarks('mirror-5')).toEqual([]);
+    });
+
+    it('should swap a temporary ID for the server one', async () => {
+      await offlineCache.saveBookmark(bookmark('temp_1', 'mirror-2'));
+
+      await offlineCache.replaceBookmarkId('temp_1', bookmark('server-1', 'mirror-2'));
+
+      const bookmarks = await offlineCache.getBookmarks('mirror-2');
+      expect(bookmarks.map((b) => b.id)).toEqual(['server-1']);
+    });
+
+    it('should move the existing last-read bookmark', async () => {
+      await offlineCache.saveBookmarks('mirror-3', [
+        bookmark('last', 'mirror-3', { is_last_read: true, name: null }),
+      ]);
+
+      await offlineCache.saveLastReadPosition('mirror-3', 900, 30, 'Boss fight');
+      await offlineCache.saveLastReadPosition('mirror-4', 10, 1, null);
+
+      expect(await offlineCache.getBookmarks('mirror-3')).toEqual([
+        expect.objectContaining({ id: 'last', position: 900, line_index: 30, is_last_read: true }),
+      ]);
+      expect(await offlineCache.getBookmarks('mirror-4')).toEqual([
+        expect.objectContaining({ position: 10, is_last_read: true }),
+      ]);
+    });
+  });
+
+  describe('note mirror', () => {
+    const note = (id: string, guideId: string): Note => ({
+      id,
+      guide_id: guideId,
+      position: null,
+      content: `Note ${id}`,
+      created_at: 1000,
+      updated_at: 1000,
+    });
+
+    it('should update and delete notes locally', async () => {
+      await offlineCache.saveNotes('notes-1', [note('n1', 'notes-1'), note('n2', 'notes-1')]);
+
+      const updated = await offlineCache.updateNote('n1', { content: 'Edited' });
+      await offlineCache.deleteNote('n2');
+
+      expect(updated?.updated_at).toBeGreaterThan(1000);
+      expect((await offlineCache.getNotes('notes-1')).map((n) => n.content)).toEqual(['Edited']);
+      expect(await offlineCache.updateNote('missing', { content: 'x' })).toBeNull();
+    });
+
+    it('should keep the server version of a note through local edits', async () => {
+      await offlineCache.saveNote(note('n5', 'notes-3'));
+      await offlineCache.saveNote(note('temp_5', 'notes-3'));
+
+      await offlineCache.updateNote('n5', { content: 'Edited' });
+
+      expect(await offlineCache.getNoteServerUpdatedAt('n5')).toBe(1000);
+      expect(await offlineCache.getNoteServerUpdatedAt('temp_5')).toBeNull();
+
+      await offlineCache.setNoteServerUpdatedAt('n5', 2000);
+
+      expect(await offlineCache.getNoteServerUpdatedAt('n5')).toBe(2000);
+      expect((await offlineCache.getNote('n5'))?.content).toBe('Edited');
+    });
+
+    it('should keep edits and deletes that have not synced when refreshed', async () => {
+      const notes = [note('n6', 'notes-4'), note('n7', 'notes-4'), note('n8', 'notes-4')];
+      await offlineCache.saveNotes('notes-4', notes);
+      await offlineCache.updateNote('n6', { content: 'Edited' });
+      await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n6', content: 'Edited' });
+      await offlineCache.deleteNote('n7');
+      await offlineCache.addToSyncQueue('note', 'delete', { guideId: 'notes-4', noteId: 'n7' });
+
+      await offlineCache.saveNotes('notes-4', notes);
+
+      expect((await offlineCache.getNotes('notes-4')).map((n) => n.content)).toEqual([
+        'Edited',
+        'Note n8',
+      ]);
+    });
+
+    it('should keep notes created offline when the server copy is refreshed', async () => {
+      await offlineCache.saveNote(note('temp_3', 'notes-2'));
+      await offlineCache.saveNotes('notes-2', [note('n3', 'notes-2')]);
+
+      await offlineCache.replaceNoteId('temp_3', note('n4', 'notes-2'));
+
+      expect((await offlineCache.getNotes('notes-2')).map((n) => n.id).sort()).toEqual([
+        'n3',
+        'n4',
+      ]);
+    });
+  });
+
+  describe('download queue', () => {
+    it('should queue guides in order without duplicates', async () => {
+      await offlineCache.addToDownloadQueue([{ id: 'g1', title: 'First' }, { id: 'g2' }]);
+      await offlineCache.addToDownloadQueue([{ id: 'g1', title: 'Again' }]);
+
+      const queue = await offlineCache.getDownloadQueue();
+
+      expect(queue.map((item) => [item.guide_id, item.title, item.status])).toEqual([
+        ['g1', 'First', 'pending'],
+        ['g2', null, 'pending'],
+      ]);
+    });
+
+    it('should retry failed downloads until given up on', async () => {
+      await offlineCache.addToDownloadQueue([{ id: 'g1' }]);
+
+      await offlineCache.recordDownloadFailure('g1', 'Timeout', 5000);
+      expect((await offlineCache.getDownloadQueue())[0]).toMatchObject({
+        status: 'pending',
+        attempts: 1,
+        next_attempt_at: 5000,
+      });
+
+      await offlineCache.recordDownloadFailure('g1', 'Not found', null);
+      expect((await offlineCache.getDownloadQueue())[0]).toMatchObject({
+        status: 'error',
+        attempts: 2,
+        last_error: 'Not found',
+      });
+    });
+
+    it('should start a resumed download over', async () => {
+      await offlineCache.addToDownloadQueue([{ id: 'g1' }]);
+      await offlineCache.recordDownloadFailure('g1', 'Timeout', 5000);
+      await offlineCache.setDownloadStatus('g1', 'paused');
+      expect((await offlineCache.getDownloadQueue())[0].status).toBe('paused');
+
+      await offlineCache.setDownloadStatus('g1', 'pending');
+
+      expect((await offlineCache.getDownloadQueue())[0]).toMatchObject({
+        status: 'pending',
+        attempts: 0,
+        last_error: null,
+        next_attempt_at: 0,
+      });
+    });
+
+    it('should remove a guide from the queue', async () => {
+      await offlineCache.addToDownloadQueue([{ id: 'g1' }, { id: 'g2' }]);
+
+      await offlineCache.removeFromDownloadQueue('g1');
+
+      expect((await offlineCache.getDownloadQueue()).map((item) => item.guide_id)).toEqual(['g2']);
+    });
+  });
+
   describe('sync queue operations', () => {
     describe('addToSyncQueue', () => {
       it('should add item to sync queue', async () => {
@@ -293,6 +532,65 @@ describe('offlineCache', () => {
       });
     });
 
+    describe('coalescing', () => {
+      it('should keep only the latest queued position per guide', async () => {
+        await offlineCache.addToSyncQueue('position', 'update', { guideId: 'g1', position: 10 });
+        await offlineCache.addToSyncQueue('position', 'update', { guideId: 'g2', position: 5 });
+        await offlineCache.addToSyncQueue('position', 'update', { guideId: 'g1', position: 20 });
+
+        const queue = await offlineCache.getSyncQueue();
+
+        expect(queue.map((item) => item.payload)).toEqual([
+          { guideId: 'g2', position: 5 },
+          { guideId: 'g1', position: 20 },
+        ]);
+      });
+
+      it('should merge consecutive updates to a note', async () => {
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n1', position: 4 });
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n1', content: 'Edited' });
+
+        const queue = await offlineCache.getSyncQueue();
+
+        expect(queue).toHaveLength(1);
+        expect(queue[0].payload).toEqual({ noteId: 'n1', position: 4, content: 'Edited' });
+      });
+
+      it('should not merge a note update while a sync is sending the queue', async () => {
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n1', content: 'Old' });
+        offlineCache.setSyncInProgress(true);
+        try {
+          await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n1', content: 'New' });
+        } finally {
+          offlineCache.setSyncInProgress(false);
+        }
+
+        const queue = await offlineCache.getSyncQueue();
+
+        expect(queue.map((item) => item.payload.content)).toEqual(['Old', 'New']);
+      });
+
+      it('should keep the version a merged note edit started from', async () => {
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n1', baseUpdatedAt: 1 });
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n1', baseUpdatedAt: 2 });
+
+        const [item] = await offlineCache.getSyncQueue();
+
+        expect(item.payload.baseUpdatedAt).toBe(1);
+      });
+
+      it('should not merge a note update into its create', async () => {
+        await offlineCache.addToSyncQueue('note', 'create', { localId: 'temp_1', content: 'a' });
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'temp_1', content: 'b' });
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'temp_1', content: 'c' });
+
+        const queue = await offlineCache.getSyncQueue();
+
+        expect(queue.map((item) => item.action)).toEqual(['create', 'update']);
+        expect(queue[1].payload.content).toBe('c');
+      });
+    });
+
     describe('getSyncQueue', () => {
       it('should return empty array when queue is empty', async () => {
         const queue = await offlineCache.getSyncQueue();
@@ -363,6 +661,118 @@ describe('offlineCache', () => {
       });
     });
 
+    describe('updateSyncQueueItem', () => {
+      it('should replace the payload of a queued item', async () => {
+        await offlineCache.addToSyncQueue('note', 'delete', { noteId: 'temp_1' });
+        const [item] = await offlineCache.getSyncQueue();
+
+        await offlineCache.updateSyncQueueItem(item.id, { noteId: 'note-1' });
+
+        const queue = await offlineCache.getSyncQueue();
+        expect(queue).toHaveLength(1);
+        expect(queue[0].payload).toEqual({ noteId: 'note-1' });
+      });
+    });
+
+    describe('failed items', () => {
+      it('should count attempts and schedule the next one', async () => {
+        await offlineCache.addToSyncQueue('position', 'update', { guideId: 'g1', position: 1 });
+        const [item] = await offlineCache.getSyncQueue();
+
+        await offlineCache.recordSyncFailure(item.id, 'Timeout', 5000);
+        await offlineCache.recordSyncFailure(item.id, 'Timeout again', 9000);
+
+        const [retried] = await offlineCache.getSyncQueue();
+        expect(retried).toMatchObject({
+          attempts: 2,
+          last_error: 'Timeout again',
+          next_attempt_at: 9000,
+          failed_at: null,
+        });
+        expect(await offlineCache.getSyncQueueCount()).toBe(1);
+      });
+
+      it('should set aside items that are given up on until reset', async () => {
+        await offlineCache.addToSyncQueue('note', 'delete', { noteId: 'n1' });
+        const [item] = await offlineCache.getSyncQueue();
+
+        await offlineCache.recordSyncFailure(item.id, 'Not found', null);
+
+        expect(await offlineCache.getSyncQueueCount()).toBe(0);
+        expect(await offlineCache.getFailedSyncCount()).toBe(1);
+        const [failed] = await offlineCache.getFailedSyncItems();
+        expect(failed.last_error).toBe('Not found');
+        expect(failed.failed_at).not.toBeNull();
+
+        await offlineCache.resetSyncQueueItem(item.id);
+
+        expect(await offlineCache.getFailedSyncCount()).toBe(0);
+        expect((await offlineCache.getSyncQueue())[0]).toMatchObject({
+          attempts: 0,
+          last_error: null,
+          failed_at: null,
+        });
+      });
+
+      it('should keep the server copy of a conflicting note until reset', async () => {
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n3', content: 'Mine' });
+        const [item] = await offlineCache.getSyncQueue();
+        const serverCopy: Note = {
+          id: 'n3',
+          guide_id: 'g1',
+          position: null,
+          content: 'Theirs',
+          created_at: 100,
+          updated_at: 200,
+        };
+
+        await offlineCache.recordSyncConflict(item.id, 'Edited on another device', serverCopy);
+
+        const [failed] = await offlineCache.getFailedSyncItems();
+        expect(failed.conflict).toEqual(serverCopy);
+        expect(failed.failed_at).not.toBeNull();
+
+        await offlineCache.resetSyncQueueItem(item.id);
+
+        expect((await offlineCache.getSyncQueue())[0].conflict).toBeNull();
+      });
+
+      it('should report when the earliest delayed change comes due', async () => {
+        await offlineCache.addToSyncQueue('position', 'update', { guideId: 'g1', position: 1 });
+        await offlineCache.addToSyncQueue('position', 'update', { guideId: 'g2', position: 1 });
+        await offlineCache.addToSyncQueue('note', 'delete', { noteId: 'n1' });
+        const [first, second, third] = await offlineCache.getSyncQueue();
+
+        expect(await offlineCache.getNextSyncAttemptAt(1000)).toBeNull();
+
+        await offlineCache.recordSyncFailure(first.id, 'Timeout', 9000);
+        await offlineCache.recordSyncFailure(second.id, 'Timeout', 5000);
+        await offlineCache.recordSyncFailure(third.id, 'Not found', null);
+
+        expect(await offlineCache.getNextSyncAttemptAt(1000)).toBe(5000);
+        expect(await offlineCache.getNextSyncAttemptAt(5000)).toBe(9000);
+      });
+
+      it('should not merge a note update into a failed one', async () => {
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n2', content: 'a' });
+        const [item] = await offlineCache.getSyncQueue();
+        await offlineCache.recordSyncFailure(item.id, 'Conflict', null);
+
+        await offlineCache.addToSyncQueue('note', 'update', { noteId: 'n2', content: 'b' });
+
+        expect(await offlineCache.getSyncQueue()).toHaveLength(2);
+      });
+    });
+
+    describe('sync ID mappings', () => {
+      it('should return the server ID saved for a temporary ID', async () => {
+        await offlineCache.saveSyncIdMapping('temp_map_1', 'bookmark-1');
+
+        expect(await offlineCache.getSyncIdMapping('temp_map_1')).toBe('bookmark-1');
+        expect(await offlineCache.getSyncIdMapping('temp_map_2')).toBeNull();
+      });
+    });
+
     describe('clearSyncQueue', () => {
       it('should remove all items from queue', async () => {
         await offlineCache.addToSyncQueue('position', 'update', {});
@@ -0,0 +1,119 @@
+import {
+  LEGACY_LINE_HEIGHT,
+  splitLines,
+  getLineOffsets,
+  getFingerprint,
+  lineIndexForOffset,
+  createAnchor,
+  resolveAnchor,
+  isLegacyPosition,
+  migrateLegacyPosition,
+  resolveStoredPosition,
+  toStoredPosition,
+} from '../utils/readingPosition';
+
+const content = [
+  'FINAL FANTASY VI WALKTHROUGH',
+  '',
+  'Chapter 1: Narshe',
+  'Head north through the mines.',
+  '',
+  'Chapter 2: Figaro',
+  'Talk to Edgar in the throne room.',
+].join('\r\n');
+
+describe('readingPosition', () => {
+  const lines = splitLines(content);
+
+  describe('splitLines', () => {
+    it('should normalize CRLF and CR line endings', () => {
+      expect(splitLines('a\r\nb\rc\nd')).toEqual(['a', 'b', 'c', 'd']);
+    });
+
+    it('should return a single empty line for empty content', () => {
+      expect(splitLines('')).toEqual(['']);
+    });
+  });
+
+  describe('getLineOffsets', () => {
+    it('should return the character offset of each line start', () => {
+      expect(getLineOffsets(['ab', '', 'cde'])).toEqual([0, 3, 4]);
+    });
+  });
+
+  describe('getFingerprint', () => {
+    it('should use the first non-blank line at or after the index', () => {
+      expect(getFingerprint(lines, 1)).toBe('Chapter 1: Narshe');
+    });
+
+    it('should collapse whitespace and truncate long lines', () => {
+      const fingerprint = getFingerprint(['   a    b   ' + 'x'.repeat(100)], 0);
+
+      expect(fingerprint?.startsWith('a b x')).toBe(true);
+      expect(fingerprint).toHaveLength(40);
+    });
+
+    it('should return null when only blank lines follow', () => {
+      expect(getFingerprint(['', '  ', ''], 0)).toBeNull();
+    });
+  });
+
+  describe('lineIndexForOffset', () => {
+    it('should find the line containing an offset', () => {
+      const offsets = getLineOffsets(lines);
+
+      expect(lineIndexForOffset(lines, 0)).toBe(0);
+      expect(lineIndexForOffset(lines, offsets[3])).toBe(3);
+      expect(lineIndexForOffset(lines, offsets[3] + 5)).toBe(3);
+    });
+
+    it('should clamp offsets past the end', () => {
+      expect(lineIndexForOffset(lines, 1_000_000)).toBe(lines.length - 1);
+    });
+  });
+
+  describe('createAnchor / resolveAnchor', () => {
+    it('should resolve an anchor to its own line in unchanged content', () => {
+      const anchor = createAnchor(lines, 5);
+
+      expect(anchor.lineIndex).toBe(5);
+      expect(anchor.fingerprint).toBe('Chapter 2: Figaro');
+      expect(resolveAnchor(lines, anchor)).toBe(5);
+    });
+
+    it('should relocate an anchor when lines shift', () => {
+      const anchor = createAnchor(lines, 5);
+      const edited = ['New intro line', 'Another new line', ...lines];
+
+      expect(resolveAnchor(edited, anchor)).toBe(7);
+    });
+
+    it('should fall back to the character offset when the fingerprint is gone', () => {
+      const anchor = { lineIndex: 99, offset: getLineOffsets(lines)[3], fingerprint: 'missing' };
+
+      expect(resolveAnchor(lines, anchor)).toBe(3);
+    });
+  });
+
+  describe('legacy positions', () => {
+    it('should treat positions without a line index as legacy', () => {
+      expect(isLegacyPosition({ position: 500 })).toBe(true);
+      expect(isLegacyPosition({ position: 500, line_index: null })).toBe(true);
+      expect(isLegacyPosition({ position: 500, line_index: 3 })).toBe(false);
+    });
+
+    it('should convert pixel offsets using the legacy line height', () => {
+      const anchor = migrateLegacyPosition(lines, LEGACY_LINE_HEIGHT * 3 + 4);
+
+      expect(anchor.lineIndex).toBe(3);
+      expect(anchor.fingerprint).toBe('Head north through the mines.');
+    });
+
+    it('should resolve legacy and anchored stored positions', () => {
+      const stored = toStoredPosition(createAnchor(lines, 6));
+
+      expect(resolveStoredPosition(lines, stored)).toBe(6);
+      expect(resolveStoredPosition(lines, { position: LEGACY_LINE_HEIGHT * 2 })).toBe(2);
+    });
+  });
+});
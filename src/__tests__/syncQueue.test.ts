@@ -0,0 +1,101 @@
+import {
+  BASE_RETRY_DELAY,
+  MAX_RETRY_DELAY,
+  coalesceSyncQueue,
+  getRetryDelay,
+  mergeNoteContents,
+  type QueuedChange,
+} from '../utils/syncQueue';
+
+const change = (
+  id: number,
+  type: string,
+  action: string,
+  payload: Record<string, unknown>
+): QueuedChange => ({ id, type, action, payload });
+
+describe('coalesceSyncQueue', () => {
+  it('should keep only the latest position per guide', () => {
+    const { items, superseded } = coalesceSyncQueue([
+      change(1, 'position', 'update', { guideId: 'g1', position: 10 }),
+      change(2, 'position', 'update', { guideId: 'g2', position: 5 }),
+      change(3, 'position', 'update', { guideId: 'g1', position: 20 }),
+      change(4, 'position', 'update', { guideId: 'g1', position: 30 }),
+    ]);
+
+    expect(items.map(item => item.id)).toEqual([2, 4]);
+    expect(superseded.sort()).toEqual([1, 3]);
+  });
+
+  it('should merge consecutive updates to the same note', () => {
+    const { items, superseded, merged } = coalesceSyncQueue([
+      change(1, 'note', 'update', { guideId: 'g1', noteId: 'n1', content: 'a', position: 4 }),
+      change(2, 'note', 'update', { guideId: 'g1', noteId: 'n2', content: 'other' }),
+      change(3, 'note', 'update', { guideId: 'g1', noteId: 'n1', content: 'b' }),
+      change(4, 'note', 'update', { guideId: 'g1', noteId: 'n1', content: 'c' }),
+    ]);
+
+    expect(items.map(item => item.id)).toEqual([2, 4]);
+    expect(superseded.sort()).toEqual([1, 3]);
+    expect(merged).toEqual([
+      change(4, 'note', 'update', { guideId: 'g1', noteId: 'n1', content: 'c', position: 4 }),
+    ]);
+    expect(items[1].payload.position).toBe(4);
+  });
+
+  it('should keep the version the first update started from', () => {
+    const { items } = coalesceSyncQueue([
+      change(1, 'note', 'update', { noteId: 'n1', content: 'a', baseUpdatedAt: 10 }),
+      change(2, 'note', 'update', { noteId: 'n1', content: 'b', baseUpdatedAt: 20 }),
+    ]);
+
+    expect(items[0].payload).toEqual({ noteId: 'n1', content: 'b', baseUpdatedAt: 10 });
+  });
+
+  it('should not merge updates across a create or delete', () => {
+    const queue = [
+      change(1, 'note', 'create', { guideId: 'g1', localId: 'temp_1', content: 'a' }),
+      change(2, 'note', 'update', { guideId: 'g1', noteId: 'temp_1', content: 'b' }),
+      change(3, 'note', 'delete', { guideId: 'g1', noteId: 'n1' }),
+      change(4, 'note', 'update', { guideId: 'g1', noteId: 'n1', content: 'c' }),
+    ];
+
+    const { items, superseded, merged } = coalesceSyncQueue(queue);
+
+    expect(items).toEqual(queue);
+    expect(superseded).toEqual([]);
+    expect(merged).toEqual([]);
+  });
+
+  it('should leave bookmarks untouched', () => {
+    const queue = [
+      change(1, 'bookmark', 'create', { guideId: 'g1', position: 10 }),
+      change(2, 'bookmark', 'create', { guideId: 'g1', position: 10 }),
+    ];
+
+    expect(coalesceSyncQueue(queue).items).toEqual(queue);
+  });
+});
+
+describe('mergeNoteContents', () => {
+  it('should put both versions together', () => {
+    expect(mergeNoteContents('Mine\n', 'Theirs\n')).toBe('Theirs\n\nMine\n');
+  });
+
+  it('should keep the version that already contains the other', () => {
+    expect(mergeNoteContents('Boss at level 3', 'Boss')).toBe('Boss at level 3');
+    expect(mergeNoteContents('Boss', 'Boss at level 3')).toBe('Boss at level 3');
+  });
+});
+
+describe('getRetryDelay', () => {
+  it('should double the delay with each attempt', () => {
+    expect(getRetryDelay(1)).toBe(BASE_RETRY_DELAY);
+    expect(getRetryDelay(2)).toBe(BASE_RETRY_DELAY * 2);
+    expect(getRetryDelay(4)).toBe(BASE_RETRY_DELAY * 8);
+  });
+
+  it('should not exceed the maximum delay', () => {
+    expect(getRetryDelay(30)).toBe(MAX_RETRY_DELAY);
+  });
+});
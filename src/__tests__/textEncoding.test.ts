@@ -0,0 +1,71 @@
+import { strToU8 } from 'fflate';
+import { decodeText, detectEncoding, encodeText } from '../utils/textEncoding';
+
+// "ゲーム攻略" (game walkthrough) in Shift-JIS
+const SHIFT_JIS_SAMPLE = new Uint8Array([
+  0x83, 0x51, 0x81, 0x5b, 0x83, 0x80, 0x8d, 0x55, 0x97, 0xaa,
+]);
+
+describe('textEncoding', () => {
+  describe('detectEncoding', () => {
+    it('should detect UTF-8 text and BOMs', () => {
+      expect(detectEncoding(strToU8('Pokémon FAQ'))).toBe('utf-8');
+      expect(detectEncoding(new Uint8Array([0xff, 0xfe, 0x41, 0x00]))).toBe('utf-16le');
+      expect(detectEncoding(new Uint8Array([0xfe, 0xff, 0x00, 0x41]))).toBe('utf-16be');
+    });
+
+    it('should detect UTF-16 without a BOM', () => {
+      const bytes = new Uint8Array([0x46, 0x00, 0x41, 0x00, 0x51, 0x00, 0x0a, 0x00]);
+      expect(detectEncoding(bytes)).toBe('utf-16le');
+    });
+
+    it('should detect CP437 box drawing', () => {
+      // ╔═══╗ / ║ A ║ / ╚═══╝
+      const bytes = new Uint8Array([
+        0xc9, 0xcd, 0xcd, 0xcd, 0xbb, 0x0a, 0xba, 0x20, 0x41, 0x20, 0xba, 0x0a, 0xc8, 0xcd, 0xcd,
+        0xcd, 0xbc,
+      ]);
+      expect(detectEncoding(bytes)).toBe('cp437');
+    });
+
+    it('should detect Shift-JIS', () => {
+      expect(detectEncoding(new Uint8Array([...strToU8('FAQ '), ...SHIFT_JIS_SAMPLE]))).toBe(
+        'shift_jis'
+      );
+    });
+
+    it('should fall back to Windows-1252 for Latin-1 text', () => {
+      // "Café Señor" in Latin-1
+      const bytes = new Uint8Array([...strToU8('Caf'), 0xe9, ...strToU8(' Se'), 0xf1, 0x6f, 0x72]);
+      expect(detectEncoding(bytes)).toBe('windows-1252');
+    });
+  });
+
+  describe('decodeText', () => {
+    it('should decode each encoding', () => {
+      expect(decodeText(strToU8('Pokémon'), 'utf-8')).toBe('Pokémon');
+      expect(decodeText(new Uint8Array([0xc9, 0xcd, 0xbb, 0xb0]), 'cp437')).toBe('╔═╗░');
+      expect(decodeText(new Uint8Array([0x93, 0x41, 0x94, 0xe9]), 'windows-1252')).toBe('“A”é');
+      expect(decodeText(SHIFT_JIS_SAMPLE, 'shift_jis')).toBe('ゲーム攻略');
+      expect(decodeText(new Uint8Array([0xff, 0xfe, 0x41, 0x00, 0x42, 0x00]), 'utf-16le')).toBe(
+        'AB'
+      );
+    });
+
+    it('should replace invalid UTF-8 bytes', () => {
+      expect(decodeText(new Uint8Array([0x41, 0xff, 0x42]), 'utf-8')).toBe('A�B');
+    });
+  });
+
+  describe('encodeText', () => {
+    it('should round-trip text so guides can be re-decoded', () => {
+      const bytes = new Uint8Array(128).map((_, i) => i + 0x80);
+
+      for (const encoding of ['cp437', 'windows-1252'] as const) {
+        expect(encodeText(decodeText(bytes, encoding), encoding)).toEqual(bytes);
+      }
+      expect(encodeText('ゲーム攻略', 'shift_jis')).toEqual(SHIFT_JIS_SAMPLE);
+      expect(encodeText('Pokémon', 'utf-8')).toEqual(strToU8('Pokémon'));
+    });
+  });
+});
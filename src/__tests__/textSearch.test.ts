@@ -0,0 +1,173 @@
+import { getLineOffsets, splitLines } from '../utils/readingPosition';
+import {
+  buildSearchPattern,
+  findMatches,
+  getLineHighlights,
+  getMatchLines,
+  groupSearchResults,
+  parseSnippet,
+  DEFAULT_SEARCH_OPTIONS,
+  SNIPPET_MATCH_END,
+  SNIPPET_MATCH_START,
+  type SearchOptions,
+} from '../utils/textSearch';
+
+const search = (content: string, query: string, options: Partial<SearchOptions> = {}) => {
+  const { pattern } = buildSearchPattern(query, { ...DEFAULT_SEARCH_OPTIONS, ...options });
+  return pattern
+    ? findMatches(content, pattern).matches.map(({ start, end }) => content.slice(start, end))
+    : [];
+};
+
+describe('textSearch', () => {
+  const content = 'Fire Rod\nThe Firewall fired FIRE.\n[WLK01] Walkthrough';
+
+  describe('buildSearchPattern', () => {
+    it('should return no pattern for an empty query', () => {
+      expect(buildSearchPattern('  ', DEFAULT_SEARCH_OPTIONS)).toEqual({
+        pattern: null,
+        error: null,
+      });
+    });
+
+    it('should report invalid regular expressions', () => {
+      const result = buildSearchPattern('(fire', { ...DEFAULT_SEARCH_OPTIONS, regex: true });
+
+      expect(result.pattern).toBeNull();
+      expect(result.error).toEqual(expect.any(String));
+    });
+
+    it('should treat regex characters literally outside regex mode', () => {
+      expect(buildSearchPattern('(fire', DEFAULT_SEARCH_OPTIONS).error).toBeNull();
+    });
+  });
+
+  describe('findMatches', () => {
+    it('should match case-insensitively by default', () => {
+      expect(search(content, 'fire')).toEqual(['Fire', 'Fire', 'fire', 'FIRE']);
+    });
+
+    it('should respect case sensitivity', () => {
+      expect(search(content, 'Fire', { caseSensitive: true })).toEqual(['Fire', 'Fire']);
+    });
+
+    it('should only match whole words', () => {
+      expect(search(content, 'fire', { wholeWord: true })).toEqual(['Fire', 'FIRE']);
+      expect(search(content, '[WLK01]', { wholeWord: true })).toEqual(['[WLK01]']);
+    });
+
+    it('should support regular expressions with line anchors', () => {
+      expect(search(content, 'fire\\w+', { regex: true })).toEqual(['Firewall', 'fired']);
+      expect(search(content, '^\\w+', { regex: true })).toEqual(['Fire', 'The']);
+    });
+
+    it('should skip empty matches', () => {
+      expect(search('abc', 'x*', { regex: true })).toEqual([]);
+    });
+
+    it('should stop at the match limit', () => {
+      const { pattern } = buildSearchPattern('a', DEFAULT_SEARCH_OPTIONS);
+
+      expect(findMatches('aaaa', pattern!, 3)).toEqual({
+        matches: [
+          { start: 0, end: 1 },
+          { start: 1, end: 2 },
+          { start: 2, end: 3 },
+        ],
+        truncated: true,
+      });
+      expect(findMatches('aaa', pattern!, 3).truncated).toBe(false);
+    });
+
+    it('should stop once out of time', () => {
+      const { pattern } = buildSearchPattern('a', DEFAULT_SEARCH_OPTIONS);
+      const now = jest.spyOn(Date, 'now');
+      now.mockReturnValueOnce(0).mockReturnValueOnce(0).mockReturnValue(1000);
+
+      const result = findMatches('aaaa', pattern!, 10, 500);
+
+      expect(result).toEqual({ matches: [{ start: 0, end: 1 }], truncated: true });
+      now.mockRestore();
+    });
+  });
+
+  describe('getLineHighlights', () => {
+    it('should split matches into per-line ranges', () => {
+      const lines = splitLines(content);
+      const { pattern } = buildSearchPattern('rod\\nthe', {
+        ...DEFAULT_SEARCH_OPTIONS,
+        regex: true,
+      });
+      const { matches } = findMatches(content, pattern!);
+
+      const highlights = getLineHighlights(matches, getLineOffsets(lines), lines);
+
+      expect(highlights.get(0)).toEqual([{ start: 5, end: 8, matchIndex: 0 }]);
+      expect(highlights.get(1)).toEqual([{ start: 0, end: 3, matchIndex: 0 }]);
+      expect(highlights.has(2)).toBe(false);
+    });
+  });
+
+  describe('getMatchLines', () => {
+    it('should map each match to the line it starts on', () => {
+      const lines = splitLines(content);
+      const { pattern } = buildSearchPattern('fire', DEFAULT_SEARCH_OPTIONS);
+
+      expect(getMatchLines(findMatches(content, pattern!).matches, getLineOffsets(lines))).toEqual([
+        0, 1, 1, 1,
+      ]);
+    });
+  });
+
+  describe('groupSearchResults', () => {
+    it('should group matches by section with context lines', () => {
+      const guide = 'Intro key\n\nBOSSES\nGet the key\nfrom the chest\nITEMS\nKey item';
+      const lines = splitLines(guide);
+      const outline = [
+        { title: 'Items', level: 1, lineIndex: 5 },
+        { title: 'Bosses', level: 1, lineIndex: 2 },
+      ];
+      const { pattern } = buildSearchPattern('key', DEFAULT_SEARCH_OPTIONS);
+
+      const groups = groupSearchResults(
+        findMatches(guide, pattern!).matches,
+        lines,
+        getLineOffsets(lines),
+        outline
+      );
+
+      expect(groups.map(g => [g.title, g.data.length])).toEqual([
+        ['Introduction', 1],
+        ['Bosses', 1],
+        ['Items', 1],
+      ]);
+      expect(groups[1].data[0]).toEqual({
+        matchIndex: 1,
+        lineIndex: 3,
+        line: 'Get the key',
+        before: 'BOSSES',
+        after: 'from the chest',
+        highlightStart: 8,
+        highlightEnd: 11,
+      });
+      expect(groups[0].data[0].after).toBeNull();
+    });
+  });
+
+  describe('parseSnippet', () => {
+    const mark = (text: string) => `${SNIPPET_MATCH_START}${text}${SNIPPET_MATCH_END}`;
+
+    it('should split matched and plain text', () => {
+      expect(parseSnippet(`…find the ${mark('hookshot')} in\nthe ${mark('dungeon')}`)).toEqual([
+        { text: '…find the ', match: false },
+        { text: 'hookshot', match: true },
+        { text: ' in the ', match: false },
+        { text: 'dungeon', match: true },
+      ]);
+    });
+
+    it('should return plain snippets whole', () => {
+      expect(parseSnippet('no matches here')).toEqual([{ text: 'no matches here', match: false }]);
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { guidesApi } from './endpoints/guides';
+import { bookmarksApi } from './endpoints/bookmarks';
+import { notesApi } from './endpoints/notes';
+import { gamesApi } from './endpoints/games';
+import { localLibrary } from '@/database/localLibrary';
+import type { Game } from '@/types';
+import type {
+  CreateBookmarkInput,
+  CreateNoteInput,
+  GuideFilters,
+  PositionAnchorInput,
+  UpdateNoteInput,
+} from './types';
+
+const LIBRARY_MODE_STORAGE_KEY = '@library_mode';
+
+/**
+ * Where guides, games, bookmarks and notes come from:
+ * 'server' uses the companion server, 'local' the on-device library
+ */
+export type LibraryMode = 'server' | 'local';
+
+let libraryMode: LibraryMode = 'server';
+
+export async function loadLibraryMode(): Promise<LibraryMode> {
+  try {
+    const stored = await AsyncStorage.getItem(LIBRARY_MODE_STORAGE_KEY);
+    libraryMode = stored === 'local' ? 'local' : 'server';
+  } catch (error) {
+    if (__DEV__) console.error('Failed to load library mode:', error);
+  }
+  return libraryMode;
+}
+
+export async function setLibraryMode(mode: LibraryMode): Promise<void> {
+  libraryMode = mode;
+  await AsyncStorage.setItem(LIBRARY_MODE_STORAGE_KEY, mode);
+}
+
+export function getLibraryMode(): LibraryMode {
+  return libraryMode;
+}
+
+export function isLocalLibrary(): boolean {
+  return libraryMode === 'local';
+}
+
+// Same signatures as the endpoint modules, routed by library mode
+
+export const guidesSource = {
+  getAll: (page = 1, limit = 20, filters?: GuideFilters) =>
+    isLocalLibrary()
+      ? localLibrary.getGuides(page, limit, filters)
+      : guidesApi.getAll(page, limit, filters),
+
+  getFilters: () => (isLocalLibrary() ? localLibrary.getFilters() : guidesApi.getFilters()),
+
+  getById: (id: string) => (isLocalLibrary() ? localLibrary.getGuide(id) : guidesApi.getById(id)),
+
+  search: (query: string, limit = 50) =>
+    isLocalLibrary() ? localLibrary.searchGuides(query, limit) : guidesApi.search(query, limit),
+
+  updatePosition: (id: string, position: number, anchor?: PositionAnchorInput) =>
+    isLocalLibrary()
+      ? localLibrary.updatePosition(id, position, anchor)
+      : guidesApi.updatePosition(id, position, anchor),
+};
+
+export const bookmarksSource = {
+  getByGuide: (guideId: string) =>
+    isLocalLibrary() ? localLibrary.getBookmarks(guideId) : bookmarksApi.getByGuide(guideId),
+
+  create: (guideId: string, data: CreateBookmarkInput) =>
+    isLocalLibrary()
+      ? localLibrary.createBookmark(guideId, data)
+      : bookmarksApi.create(guideId, data),
+
+  delete: (guideId: string, bookmarkId: string) =>
+    isLocalLibrary()
+      ? localLibrary.deleteBookmark(guideId, bookmarkId)
+      : bookmarksApi.delete(guideId, bookmarkId),
+};
+
+export const notesSource = {
+  getByGuide: (guideId: string) =>
+    isLocalLibrary() ? localLibrary.getNotes(guideId) : notesApi.getByGuide(guideId),
+
+  create: (guideId: string, data: CreateNoteInput) =>
+    isLocalLibrary() ? localLibrary.createNote(guideId, data) : notesApi.create(guideId, data),
+
+  update: (guideId: string, noteId: string, data: UpdateNoteInput) =>
+    isLocalLibrary()
+      ? localLibrary.updateNote(guideId, noteId, data)
+      : notesApi.update(guideId, noteId, data),
+
+  delete: (guideId: string, noteId: string) =>
+    isLocalLibrary() ? localLibrary.deleteNote(guideId, noteId) : notesApi.delete(guideId, noteId),
+};
+
+export const gamesSource = {
+  getWithGuides: () =>
+    isLocalLibrary() ? localLibrary.getGamesWithGuides() : gamesApi.getWithGuides(),
+
+  getById: (id: string) => (isLocalLibrary() ? localLibrary.getGame(id) : gamesApi.getById(id)),
+
+  getGuides: (id: string) =>
+    isLocalLibrary() ? localLibrary.getGameGuides(id) : gamesApi.getGuides(id),
+
+  updateStatus: (id: string, status: Game['status']) =>
+    isLocalLibrary()
+      ? localLibrary.updateGameStatus(id, status)
+      : gamesApi.updateStatus(id, status),
+
+  updateCompletion: (id: string, percentage: number) =>
+    isLocalLibrary()
+      ? localLibrary.updateGameCompletion(id, percentage)
+      : gamesApi.updateCompletion(id, percentage),
+};
+
+// Achievements are synced from RetroAchievements into the local database in
+// both modes, so server games are matched to them by RetroAchievements game ID
+export const achievementsSource = {
+  getByGame: (game: Pick<Game, 'id' | 'ra_game_id'>) =>
+    isLocalLibrary() || !game.ra_game_id
+      ? localLibrary.getAchievements(game.id)
+      : localLibrary.getAchievementsByRaGameId(game.ra_game_id),
+
+  setPinned: (achievementId: string, pinned: boolean) =>
+    localLibrary.setAchievementPinned(achievementId, pinned),
+};
@@ -5,6 +5,7 @@ import type {
   GameResponse,
   SuccessResponse,
   GuideSummary,
+  GameWithGuideCount,
 } from '../types';
 
 export const gamesApi = {
@@ -14,7 +15,7 @@ export const gamesApi = {
   getById: (id: string) => apiClient<GameResponse>(`/games/${id}`),
 
   getWithGuides: () =>
-    apiClient<{ data: Array<Game & { guide_count: number }> }>(
+    apiClient<{ data: GameWithGuideCount[] }>(
       '/games/with-guides'
     ),
 
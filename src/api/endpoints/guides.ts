@@ -6,6 +6,7 @@ import type {
   SuccessResponse,
   GuideFilters,
   GuidesFiltersResponse,
+  PositionAnchorInput,
 } from '../types';
 
 export const guidesApi = {
@@ -36,9 +37,18 @@ export const guidesApi = {
       `/guides/search?q=${encodeURIComponent(query)}&limit=${limit}`
     ),
 
-  updatePosition: (id: string, position: number) =>
+  /**
+   * savedAt is when a position synced late was read; the server keeps it
+   * only if no later position was saved in the meantime
+   */
+  updatePosition: (
+    id: string,
+    position: number,
+    anchor?: PositionAnchorInput,
+    savedAt?: number
+  ) =>
     apiClient<SuccessResponse>(`/guides/${id}/position`, {
       method: 'PUT',
-      body: JSON.stringify({ position }),
+      body: JSON.stringify({ position, ...anchor, saved_at: savedAt }),
     }),
 };
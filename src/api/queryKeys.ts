@@ -11,8 +11,8 @@ export const queryKeys = {
     filters: () => [...queryKeys.guides.all, 'filters'] as const,
     details: () => [...queryKeys.guides.all, 'detail'] as const,
     detail: (id: string) => [...queryKeys.guides.details(), id] as const,
-    search: (query: string, limit?: number) =>
-      [...queryKeys.guides.all, 'search', { query, limit }] as const,
+    search: (query: string, limit?: number, offline = false) =>
+      [...queryKeys.guides.all, 'search', { query, limit, offline }] as const,
   },
   games: {
     all: ['games'] as const,
@@ -25,6 +25,12 @@ export const queryKeys = {
     search: (query: string) =>
       [...queryKeys.games.all, 'search', { query }] as const,
     guides: (id: string) => [...queryKeys.games.detail(id), 'guides'] as const,
+    matches: () => [...queryKeys.games.all, 'matches'] as const,
+  },
+  achievements: {
+    all: ['achievements'] as const,
+    byGame: (gameId: string) =>
+      [...queryKeys.achievements.all, 'game', gameId] as const,
   },
   bookmarks: {
     all: ['bookmarks'] as const,
@@ -40,6 +46,10 @@ export const queryKeys = {
     all: ['health'] as const,
     status: () => [...queryKeys.health.all, 'status'] as const,
   },
+  sync: {
+    all: ['sync'] as const,
+    failed: () => [...queryKeys.sync.all, 'failed'] as const,
+  },
   downloads: {
     all: ['downloads'] as const,
     list: () => [...queryKeys.downloads.all, 'list'] as const,
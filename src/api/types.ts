@@ -1,4 +1,4 @@
-import type { Guide, Game, Bookmark, Note } from '@/types';
+import type { Guide, Game, GameMetadata, Bookmark, Note, Achievement } from '@/types';
 
 export interface PaginatedResponse<T> {
   data: T[];
@@ -19,12 +19,17 @@ export interface SuccessResponse {
 }
 
 export interface SearchResults {
-  guides: GuideSummary[];
-  content: GuideSummary[];
+  guides: SearchResultGuide[];
+  content: SearchResultGuide[];
   query: string;
   total: number;
 }
 
+// Offline search results carry a snippet of the matching content
+export type SearchResultGuide = GuideSummary & {
+  snippet?: string;
+};
+
 export type GuideSummary = Omit<Guide, 'content'> & {
   content_length: number;
 };
@@ -33,6 +38,7 @@ export type GuideResponse = SingleResponse<Guide>;
 export type GuidesResponse = PaginatedResponse<GuideSummary>;
 export type GameResponse = SingleResponse<Game>;
 export type GamesResponse = PaginatedResponse<Game>;
+export type GameWithGuideCount = Game & { guide_count: number };
 export type BookmarksResponse = SingleResponse<Bookmark[]>;
 export type BookmarkResponse = SingleResponse<Bookmark>;
 export type NotesResponse = SingleResponse<Note[]>;
@@ -48,6 +54,8 @@ export interface HealthResponse {
 
 export interface CreateBookmarkInput {
   position: number;
+  line_index?: number | null;
+  fingerprint?: string | null;
   name?: string | null;
   page_reference?: string | null;
   is_last_read?: boolean;
@@ -63,6 +71,24 @@ export interface UpdateNoteInput {
   content?: string;
 }
 
+export interface CreateGameInput {
+  title: string;
+  platform?: string | null;
+  ra_game_id?: string | null;
+  artwork_url?: string | null;
+  metadata?: GameMetadata;
+}
+
+export type AchievementInput = Omit<
+  Achievement,
+  'id' | 'game_id' | 'is_pinned' | 'created_at' | 'updated_at'
+>;
+
+export interface PositionAnchorInput {
+  line_index: number;
+  fingerprint?: string | null;
+}
+
 export interface GuideFilters {
   platform?: string;
   tags?: string[];
@@ -0,0 +1,43 @@
+/**
+ * CompletionBar - Thin progress bar for game completion
+ *
+ * Flat bar in the primary color; turns green at 100%.
+ */
+
+import React from 'react';
+import { View, StyleSheet, ViewStyle } from 'react-native';
+import { useTheme } from '../contexts/ThemeContext';
+
+export interface CompletionBarProps {
+  percentage: number;
+  height?: number;
+  style?: ViewStyle;
+}
+
+export const CompletionBar: React.FC<CompletionBarProps> = ({ percentage, height = 6, style }) => {
+  const { theme } = useTheme();
+  const clamped = Math.min(Math.max(percentage, 0), 100);
+
+  return (
+    <View
+      style={[styles.track, { height, backgroundColor: theme.colors.border }, style]}
+      accessibilityRole="progressbar"
+      accessibilityValue={{ min: 0, max: 100, now: Math.round(clamped) }}
+    >
+      <View
+        style={{
+          width: `${clamped}%`,
+          height,
+          backgroundColor: clamped >= 100 ? theme.colors.success : theme.colors.primary,
+        }}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  track: {
+    borderRadius: 2,
+    overflow: 'hidden',
+  },
+});
@@ -0,0 +1,122 @@
+/**
+ * ExportDialog - Pick a format for exporting notes and bookmarks
+ *
+ * Wraps Dialog with one row per export format.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Dialog } from './Dialog';
+import { useTheme } from '../contexts/ThemeContext';
+import type { ExportFormat } from '../services/ExportService';
+
+export interface ExportDialogProps {
+  visible: boolean;
+  title?: string;
+  message?: string;
+  onClose: () => void;
+  onSelectFormat: (format: ExportFormat) => void;
+}
+
+const FORMAT_OPTIONS: Array<{
+  format: ExportFormat;
+  label: string;
+  description: string;
+  icon: 'logo-markdown' | 'document-text-outline' | 'code-slash';
+}> = [
+  {
+    format: 'md',
+    label: 'Markdown',
+    description: 'For wikis and note apps',
+    icon: 'logo-markdown',
+  },
+  {
+    format: 'txt',
+    label: 'Plain Text',
+    description: 'Readable anywhere',
+    icon: 'document-text-outline',
+  },
+  {
+    format: 'json',
+    label: 'JSON',
+    description: 'For spreadsheets and scripts',
+    icon: 'code-slash',
+  },
+];
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({
+  visible,
+  title = 'Export Annotations',
+  message = 'Export notes and bookmarks with their quoted passages',
+  onClose,
+  onSelectFormat,
+}) => {
+  const { theme } = useTheme();
+
+  return (
+    <Dialog
+      visible={visible}
+      title={title}
+      message={message}
+      onDismiss={onClose}
+      actions={[{ label: 'Cancel', onPress: onClose, variant: 'secondary' as const }]}
+    >
+      <View style={styles.options} accessibilityRole="list">
+        {FORMAT_OPTIONS.map(option => (
+          <TouchableOpacity
+            key={option.format}
+            style={[styles.option, { borderColor: theme.colors.border }]}
+            onPress={() => onSelectFormat(option.format)}
+            accessibilityRole="button"
+            accessibilityLabel={`Export as ${option.label}`}
+            accessibilityHint={option.description}
+          >
+            <Ionicons name={option.icon} size={22} color={theme.colors.link} />
+            <View style={styles.optionText}>
+              <Text
+                style={[
+                  styles.optionLabel,
+                  { color: theme.colors.link, fontSize: theme.typography.fontSize.sm },
+                ]}
+              >
+                {option.label}
+              </Text>
+              <Text
+                style={{
+                  color: theme.colors.textSecondary,
+                  fontSize: theme.typography.fontSize.xs,
+                }}
+              >
+                {option.description}
+              </Text>
+            </View>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </Dialog>
+  );
+};
+
+const styles = StyleSheet.create({
+  options: {
+    marginTop: 16,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    marginBottom: 8,
+    minHeight: 44,
+  },
+  optionText: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  optionLabel: {
+    fontWeight: '600',
+  },
+});
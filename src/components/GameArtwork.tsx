@@ -0,0 +1,67 @@
+/**
+ * GameArtwork - Box art thumbnail with a placeholder
+ *
+ * Falls back to a game controller icon when there's no artwork or it fails to load.
+ */
+
+import React, { useState } from 'react';
+import { View, Image, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+
+export interface GameArtworkProps {
+  uri?: string | null;
+  size?: number;
+}
+
+export const GameArtwork: React.FC<GameArtworkProps> = ({ uri, size = 56 }) => {
+  const { theme } = useTheme();
+  const [failed, setFailed] = useState(false);
+
+  if (!uri || failed) {
+    return (
+      <View
+        style={[
+          styles.placeholder,
+          {
+            width: size,
+            height: size,
+            backgroundColor: theme.colors.surface,
+            borderColor: theme.colors.border,
+          },
+        ]}
+        accessibilityElementsHidden
+        importantForAccessibility="no-hide-descendants"
+      >
+        <Ionicons
+          name="game-controller-outline"
+          size={size / 2}
+          color={theme.colors.textSecondary}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <Image
+      source={{ uri }}
+      style={[styles.image, { width: size, height: size, borderColor: theme.colors.border }]}
+      resizeMode="cover"
+      onError={() => setFailed(true)}
+      accessibilityIgnoresInvertColors
+    />
+  );
+};
+
+const styles = StyleSheet.create({
+  placeholder: {
+    borderWidth: 1,
+    borderRadius: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  image: {
+    borderWidth: 1,
+    borderRadius: 4,
+  },
+});
@@ -0,0 +1,180 @@
+/**
+ * GamePickerDialog - Choose the game a guide belongs to
+ *
+ * Lists known games ranked by how well they match the guide, filterable by
+ * title, with an option to create a new game instead.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { Dialog } from './Dialog';
+import { useTheme } from '../contexts/ThemeContext';
+import {
+  formatConfidence,
+  normalizeTitle,
+  scoreCandidate,
+  type GameCandidate,
+  type MatchableGuide,
+} from '../utils/gameMatching';
+
+export interface GamePickerDialogProps {
+  visible: boolean;
+  guide: MatchableGuide | null;
+  candidates: GameCandidate[];
+  onSelect: (candidate: GameCandidate) => void;
+  onCreate: (title: string) => void;
+  onClose: () => void;
+}
+
+// Rows rendered at once; filtering narrows the rest
+const MAX_VISIBLE_CANDIDATES = 30;
+
+export const GamePickerDialog: React.FC<GamePickerDialogProps> = ({
+  visible,
+  guide,
+  candidates,
+  onSelect,
+  onCreate,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [query, setQuery] = useState('');
+
+  useEffect(() => {
+    if (visible) setQuery('');
+  }, [visible]);
+
+  const ranked = useMemo(() => {
+    if (!guide) return [];
+    const filter = normalizeTitle(query);
+    return candidates
+      .filter(candidate => !filter || normalizeTitle(candidate.title).includes(filter))
+      .map(candidate => ({ candidate, confidence: scoreCandidate(guide, candidate) }))
+      .sort(
+        (a, b) => b.confidence - a.confidence || a.candidate.title.localeCompare(b.candidate.title)
+      )
+      .slice(0, MAX_VISIBLE_CANDIDATES);
+  }, [guide, candidates, query]);
+
+  const newTitle = query.trim() || guide?.gameName || guide?.title || '';
+
+  return (
+    <Dialog
+      visible={visible}
+      title="Choose Game"
+      message={guide ? `For "${guide.title}"` : undefined}
+      onDismiss={onClose}
+      actions={[{ label: 'Cancel', onPress: onClose, variant: 'secondary' as const }]}
+    >
+      <TextInput
+        style={[
+          styles.input,
+          {
+            color: theme.colors.text,
+            borderColor: theme.colors.border,
+            fontSize: theme.typography.fontSize.sm,
+          },
+        ]}
+        value={query}
+        onChangeText={setQuery}
+        placeholder="Filter games"
+        placeholderTextColor={theme.colors.textSecondary}
+        autoCorrect={false}
+        accessibilityLabel="Filter games"
+      />
+
+      <View accessibilityRole="list">
+        {ranked.map(({ candidate, confidence }) => (
+          <TouchableOpacity
+            key={candidate.key}
+            style={[styles.option, { borderColor: theme.colors.border }]}
+            onPress={() => onSelect(candidate)}
+            accessibilityRole="button"
+            accessibilityLabel={`Link to ${candidate.title}, ${formatConfidence(confidence)} match`}
+          >
+            <View style={styles.optionText}>
+              <Text
+                style={[
+                  styles.optionLabel,
+                  { color: theme.colors.link, fontSize: theme.typography.fontSize.sm },
+                ]}
+                numberOfLines={2}
+              >
+                {candidate.title}
+              </Text>
+              <Text
+                style={{
+                  color: theme.colors.textSecondary,
+                  fontSize: theme.typography.fontSize.xs,
+                }}
+              >
+                {[
+                  candidate.platform,
+                  candidate.source === 'retroachievements' ? 'RetroAchievements' : null,
+                ]
+                  .filter(Boolean)
+                  .join(' · ')}
+              </Text>
+            </View>
+            <Text
+              style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}
+            >
+              {formatConfidence(confidence)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+
+        {newTitle ? (
+          <TouchableOpacity
+            style={[styles.option, { borderColor: theme.colors.border }]}
+            onPress={() => onCreate(newTitle)}
+            accessibilityRole="button"
+            accessibilityLabel={`Create game ${newTitle}`}
+          >
+            <Ionicons name="add-circle-outline" size={20} color={theme.colors.link} />
+            <Text
+              style={[
+                styles.optionLabel,
+                styles.optionText,
+                { color: theme.colors.link, fontSize: theme.typography.fontSize.sm },
+              ]}
+              numberOfLines={2}
+            >
+              {`Create "${newTitle}"`}
+            </Text>
+          </TouchableOpacity>
+        ) : null}
+      </View>
+    </Dialog>
+  );
+};
+
+const styles = StyleSheet.create({
+  input: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 12,
+    marginBottom: 8,
+    minHeight: 44,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginBottom: 8,
+    minHeight: 44,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionLabel: {
+    fontWeight: '600',
+  },
+});
@@ -1,6 +1,9 @@
 import React, { useMemo, useCallback, forwardRef, useImperativeHandle, useRef } from 'react';
-import { View, Text, StyleSheet, useColorScheme } from 'react-native';
-import { FlashList, FlashListRef } from '@shopify/flash-list';
+import { View, Text, TouchableOpacity, StyleSheet, useColorScheme } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { FlashList, FlashListRef, ViewToken } from '@shopify/flash-list';
+import { splitLines, getLineOffsets } from '../utils/readingPosition';
+import { getLineHighlights, type SearchMatch } from '../utils/textSearch';
 
 // Shared constant for line height calculation - must match across components
 export const LINE_HEIGHT_MULTIPLIER = 1.4;
@@ -8,17 +11,23 @@ export const LINE_HEIGHT_MULTIPLIER = 1.4;
 interface GuideContentProps {
   content: string;
   fontSize?: number;
-  searchQuery?: string;
+  searchMatches?: SearchMatch[];
   currentMatchIndex?: number;
   onScroll?: (position: number) => void;
+  onVisibleLineChange?: (lineIndex: number) => void;
+  noteLines?: Set<number>;
+  onNoteMarkerPress?: (lineIndex: number) => void;
   contentPadding?: number;
+  showsScrollIndicator?: boolean;
 }
 
 export interface GuideContentRef {
-  scrollToPosition: (position: number, animated?: boolean) => void;
+  scrollToLine: (lineIndex: number, animated?: boolean) => void;
   scrollToEnd: (animated?: boolean) => void;
 }
 
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 50 };
+
 /**
  * Component for rendering guide content with proper formatting
  * Preserves ASCII art and supports monospace font
@@ -27,10 +36,14 @@ export interface GuideContentRef {
 const GuideContent = forwardRef<GuideContentRef, GuideContentProps>(({
   content,
   fontSize = 14,
-  searchQuery,
+  searchMatches,
   currentMatchIndex = 0,
   onScroll,
+  onVisibleLineChange,
+  noteLines,
+  onNoteMarkerPress,
   contentPadding = 16,
+  showsScrollIndicator = true,
 }, ref) => {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
@@ -38,25 +51,46 @@ const GuideContent = forwardRef<GuideContentRef, GuideContentProps>(({
 
   const lineHeight = Math.round(fontSize * LINE_HEIGHT_MULTIPLIER);
 
-  // Expose scroll methods to parent
+  // Normalize line endings and split into lines
+  const lines = useMemo(() => splitLines(content), [content]);
+  const lineOffsets = useMemo(() => getLineOffsets(lines), [lines]);
+
+  // Search matches split into per-line ranges
+  const lineHighlights = useMemo(
+    () => (searchMatches?.length ? getLineHighlights(searchMatches, lineOffsets, lines) : null),
+    [searchMatches, lineOffsets, lines]
+  );
+
+  // Expose scroll methods to parent - positions are line indexes so they
+  // stay valid across font sizes, padding and line wrapping
   useImperativeHandle(ref, () => ({
-    scrollToPosition: (position: number, animated = true) => {
-      const lineIndex = Math.floor(position / lineHeight);
-      listRef.current?.scrollToIndex({ index: lineIndex, animated });
+    scrollToLine: (lineIndex: number, animated = true) => {
+      if (lines.length === 0) return;
+      const index = Math.min(Math.max(0, lineIndex), lines.length - 1);
+      listRef.current?.scrollToIndex({ index, animated });
     },
     scrollToEnd: (animated = true) => {
       listRef.current?.scrollToEnd({ animated });
     },
-  }), [lineHeight]);
-
-  // Normalize line endings and split into lines
-  const lines = useMemo(() => {
-    const normalized = content?.replace(/\r\n/g, '\n').replace(/\r/g, '\n') || '';
-    return normalized.split('\n');
-  }, [content]);
+  }), [lines.length]);
+
+  // Report the first visible line; FlashList needs a stable callback
+  const onVisibleLineChangeRef = useRef(onVisibleLineChange);
+  onVisibleLineChangeRef.current = onVisibleLineChange;
+  const handleViewableItemsChanged = useCallback(
+    ({ viewableItems }: { viewableItems: ViewToken<string>[] }) => {
+      const indexes = viewableItems
+        .map((token) => token.index)
+        .filter((index): index is number => typeof index === 'number');
+      if (indexes.length > 0) {
+        onVisibleLineChangeRef.current?.(Math.min(...indexes));
+      }
+    },
+    []
+  );
 
   // Render a line with optional search highlighting
-  const renderLine = useCallback(({ item: line, index }: { item: string; index: number }) => {
+  const renderLineText = useCallback((line: string, index: number) => {
     const textStyle = {
       fontSize,
       lineHeight,
@@ -70,44 +104,38 @@ const GuideContent = forwardRef<GuideContentRef, GuideContentProps>(({
       );
     }
 
-    if (!searchQuery || searchQuery.trim() === '') {
+    const highlights = lineHighlights?.get(index);
+    if (!highlights) {
       return (
         <Text style={[styles.content, textStyle]}>{line}</Text>
       );
     }
 
-    // Search highlighting
+    // Search highlighting; the current match stands out from the rest
     const parts: React.ReactNode[] = [];
-    const lowerLine = line.toLowerCase();
-    const lowerQuery = searchQuery.toLowerCase();
     let lastIndex = 0;
-    let matchCount = 0;
 
-    let idx = lowerLine.indexOf(lowerQuery);
-    while (idx !== -1) {
-      if (idx > lastIndex) {
-        parts.push(line.substring(lastIndex, idx));
+    for (const { start, end, matchIndex } of highlights) {
+      if (start > lastIndex) {
+        parts.push(line.substring(lastIndex, start));
       }
 
-      const matchText = line.substring(idx, idx + searchQuery.length);
       parts.push(
         <Text
-          key={`match-${index}-${matchCount}`}
+          key={`match-${index}-${start}`}
           style={[
             styles.highlight,
             {
-              backgroundColor: '#FFD700',
+              backgroundColor: matchIndex === currentMatchIndex ? '#FF9900' : '#FFD700',
               color: '#000000',
             },
           ]}
         >
-          {matchText}
+          {line.substring(start, end)}
         </Text>
       );
 
-      matchCount++;
-      lastIndex = idx + searchQuery.length;
-      idx = lowerLine.indexOf(lowerQuery, lastIndex);
+      lastIndex = end;
     }
 
     if (lastIndex < line.length) {
@@ -119,7 +147,30 @@ const GuideContent = forwardRef<GuideContentRef, GuideContentProps>(({
         {parts.length > 0 ? parts : line}
       </Text>
     );
-  }, [fontSize, lineHeight, isDark, searchQuery]);
+  }, [fontSize, lineHeight, isDark, lineHighlights, currentMatchIndex]);
+
+  // Lines with notes get a marker in the right margin
+  const renderLine = useCallback(({ item: line, index }: { item: string; index: number }) => {
+    const text = renderLineText(line, index);
+    if (!noteLines?.has(index)) return text;
+
+    const markerSize = Math.max(12, Math.min(lineHeight, 18));
+    return (
+      <View>
+        {text}
+        <TouchableOpacity
+          style={[styles.noteMarker, { right: -contentPadding, width: contentPadding }]}
+          onPress={() => onNoteMarkerPress?.(index)}
+          hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          accessibilityRole="button"
+          accessibilityLabel={`Note on line ${index + 1}`}
+          accessibilityHint="Double tap to open this note"
+        >
+          <Ionicons name="chatbox-ellipses" size={markerSize} color="#FF9900" />
+        </TouchableOpacity>
+      </View>
+    );
+  }, [renderLineText, noteLines, onNoteMarkerPress, lineHeight, contentPadding]);
 
   const keyExtractor = useCallback((_item: string, index: number) => `line-${index}`, []);
 
@@ -140,9 +191,12 @@ const GuideContent = forwardRef<GuideContentRef, GuideContentProps>(({
         data={lines}
         renderItem={renderLine}
         keyExtractor={keyExtractor}
-        showsVerticalScrollIndicator={true}
+        extraData={noteLines}
+        showsVerticalScrollIndicator={showsScrollIndicator}
         onScroll={handleScroll}
         scrollEventThrottle={16}
+        onViewableItemsChanged={handleViewableItemsChanged}
+        viewabilityConfig={VIEWABILITY_CONFIG}
         contentContainerStyle={{
           paddingHorizontal: contentPadding,
           paddingTop: contentPadding,
@@ -169,4 +223,9 @@ const styles = StyleSheet.create({
     fontFamily: 'Courier',
     fontWeight: '700',
   },
+  noteMarker: {
+    position: 'absolute',
+    top: 0,
+    alignItems: 'center',
+  },
 });
@@ -0,0 +1,120 @@
+/**
+ * ImportProgressDialog - Bulk import progress and summary
+ *
+ * Shows the file being imported while running, then counts of imported,
+ * skipped and failed files with the reasons.
+ */
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Dialog } from './Dialog';
+import { useTheme } from '../contexts/ThemeContext';
+import type { ImportProgress, ImportSummary } from '../services/BulkImportService';
+
+export interface ImportProgressDialogProps {
+  progress: ImportProgress | null;
+  summary: ImportSummary | null;
+  onClose: () => void;
+}
+
+// Failures listed individually before collapsing into a count
+const MAX_LISTED_FAILURES = 10;
+
+export const ImportProgressDialog: React.FC<ImportProgressDialogProps> = ({
+  progress,
+  summary,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+
+  // Group skipped files by reason, e.g. "Unsupported file type: 12"
+  const skippedReasons = useMemo(() => {
+    const counts = new Map<string, number>();
+    for (const { reason } of summary?.skipped ?? []) {
+      counts.set(reason, (counts.get(reason) ?? 0) + 1);
+    }
+    return Array.from(counts.entries());
+  }, [summary]);
+
+  const secondaryText = {
+    color: theme.colors.textSecondary,
+    fontSize: theme.typography.fontSize.xs,
+  };
+
+  if (progress) {
+    return (
+      <Dialog
+        visible
+        title="Importing Guides"
+        message={
+          progress.total > 0
+            ? `${progress.completed} of ${progress.total} files`
+            : 'Reading files...'
+        }
+        onDismiss={() => {}}
+        dismissable={false}
+      >
+        {progress.currentPath && (
+          <Text style={[styles.currentPath, secondaryText]} numberOfLines={2}>
+            {progress.currentPath}
+          </Text>
+        )}
+      </Dialog>
+    );
+  }
+
+  if (!summary) return null;
+
+  return (
+    <Dialog
+      visible
+      title="Import Complete"
+      message={`Imported ${summary.imported.length}, skipped ${summary.skipped.length}, failed ${summary.failed.length}`}
+      onDismiss={onClose}
+      actions={[{ label: 'Done', onPress: onClose, variant: 'primary' as const }]}
+    >
+      {skippedReasons.length > 0 && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.text }]}>Skipped</Text>
+          {skippedReasons.map(([reason, count]) => (
+            <Text key={reason} style={secondaryText}>
+              {reason}: {count}
+            </Text>
+          ))}
+        </View>
+      )}
+
+      {summary.failed.length > 0 && (
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: theme.colors.error }]}>Failed</Text>
+          {summary.failed.slice(0, MAX_LISTED_FAILURES).map(failure => (
+            <Text key={failure.path} style={[styles.failure, secondaryText]} numberOfLines={2}>
+              {failure.path}: {failure.error}
+            </Text>
+          ))}
+          {summary.failed.length > MAX_LISTED_FAILURES && (
+            <Text style={secondaryText}>
+              and {summary.failed.length - MAX_LISTED_FAILURES} more
+            </Text>
+          )}
+        </View>
+      )}
+    </Dialog>
+  );
+};
+
+const styles = StyleSheet.create({
+  currentPath: {
+    marginTop: 12,
+  },
+  section: {
+    marginTop: 16,
+  },
+  sectionTitle: {
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  failure: {
+    marginBottom: 4,
+  },
+});
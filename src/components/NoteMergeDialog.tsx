@@ -0,0 +1,76 @@
+/**
+ * NoteMergeDialog - Combine two versions of a note by hand
+ *
+ * Starts from both versions joined together, to be edited down into the
+ * one that is kept.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { TextInput, StyleSheet } from 'react-native';
+import { Dialog } from './Dialog';
+import { useTheme } from '../contexts/ThemeContext';
+import { mergeNoteContents } from '../utils/syncQueue';
+
+export interface NoteMergeDialogProps {
+  visible: boolean;
+  mine: string;
+  theirs: string;
+  onSave: (content: string) => void;
+  onClose: () => void;
+}
+
+export const NoteMergeDialog: React.FC<NoteMergeDialogProps> = ({
+  visible,
+  mine,
+  theirs,
+  onSave,
+  onClose,
+}) => {
+  const { theme } = useTheme();
+  const [content, setContent] = useState('');
+
+  useEffect(() => {
+    if (visible) setContent(mergeNoteContents(mine, theirs));
+  }, [visible, mine, theirs]);
+
+  return (
+    <Dialog
+      visible={visible}
+      title="Merge Note"
+      message="Edit both versions into the one to keep."
+      onDismiss={onClose}
+      actions={[
+        { label: 'Cancel', onPress: onClose, variant: 'secondary' as const },
+        { label: 'Save', onPress: () => onSave(content), variant: 'primary' as const },
+      ]}
+    >
+      <TextInput
+        style={[
+          styles.input,
+          {
+            color: theme.colors.text,
+            borderColor: theme.colors.border,
+            fontSize: theme.typography.fontSize.sm,
+          },
+        ]}
+        value={content}
+        onChangeText={setContent}
+        multiline
+        textAlignVertical="top"
+        accessibilityLabel="Merged note"
+      />
+    </Dialog>
+  );
+};
+
+const styles = StyleSheet.create({
+  input: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 12,
+    minHeight: 160,
+    maxHeight: 320,
+  },
+});
@@ -0,0 +1,87 @@
+/**
+ * SyncStatusIndicator - Header badge for offline changes
+ *
+ * Spins while syncing, counts changes still waiting to be sent, and flags
+ * changes that failed. Tapping syncs now, or opens the failed changes.
+ */
+
+import React from 'react';
+import { Text, TouchableOpacity, ActivityIndicator, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useNavigation } from '@react-navigation/native';
+import type { StackNavigationProp } from '@react-navigation/stack';
+import { useSyncStatus } from '../providers/SyncProvider';
+import { useNetworkStatus } from '../providers/NetworkProvider';
+import type { RootStackParamList } from '../types/navigation';
+
+export interface SyncStatusIndicatorProps {
+  color?: string;
+}
+
+export const SyncStatusIndicator: React.FC<SyncStatusIndicatorProps> = ({ color = '#FFFFFF' }) => {
+  const navigation = useNavigation<StackNavigationProp<RootStackParamList>>();
+  const { state, pendingCount, failedCount, syncNow } = useSyncStatus();
+  const { isOnline } = useNetworkStatus();
+
+  if (state === 'syncing') {
+    return (
+      <ActivityIndicator
+        style={styles.container}
+        color={color}
+        accessibilityLabel="Syncing offline changes"
+      />
+    );
+  }
+
+  if (failedCount > 0) {
+    return (
+      <TouchableOpacity
+        style={styles.container}
+        onPress={() => navigation.navigate('FailedSync')}
+        accessibilityRole="button"
+        accessibilityLabel={`${failedCount} changes failed to sync`}
+        accessibilityHint="Double tap to review failed changes"
+      >
+        <Ionicons name="alert-circle" size={20} color={color} />
+        <Text style={[styles.count, { color }]}>{failedCount}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  if (pendingCount > 0) {
+    return (
+      <TouchableOpacity
+        style={styles.container}
+        onPress={() => syncNow()}
+        disabled={!isOnline}
+        accessibilityRole="button"
+        accessibilityLabel={`${pendingCount} changes waiting to sync`}
+        accessibilityHint={isOnline ? 'Double tap to sync now' : 'Syncs when back online'}
+        accessibilityState={{ disabled: !isOnline }}
+      >
+        <Ionicons
+          name={isOnline ? 'cloud-upload-outline' : 'cloud-offline-outline'}
+          size={20}
+          color={color}
+        />
+        <Text style={[styles.count, { color }]}>{pendingCount}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return null;
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 16,
+    minHeight: 44,
+  },
+  count: {
+    fontSize: 13,
+    fontWeight: '700',
+  },
+});
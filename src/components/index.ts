@@ -14,6 +14,13 @@ export { ErrorState } from './ErrorState';
 export { ErrorBoundary } from './ErrorBoundary';
 export { Dialog } from './Dialog';
 export { Toast } from './Toast';
+export { ExportDialog } from './ExportDialog';
+export { ImportProgressDialog } from './ImportProgressDialog';
+export { CompletionBar } from './CompletionBar';
+export { GameArtwork } from './GameArtwork';
+export { GamePickerDialog } from './GamePickerDialog';
+export { SyncStatusIndicator } from './SyncStatusIndicator';
+export { NoteMergeDialog } from './NoteMergeDialog';
 export { default as GuideContent, LINE_HEIGHT_MULTIPLIER } from './GuideContent';
 export type { GuideContentRef } from './GuideContent';
 
@@ -22,8 +29,14 @@ export { FontControls } from './reader/FontControls';
 export { ReaderToolbar } from './reader/ReaderToolbar';
 export { BookmarkBottomSheet } from './reader/BookmarkBottomSheet';
 export { SearchBar } from './reader/SearchBar';
+export { SearchResultsList } from './reader/SearchResultsList';
+export { ReaderScrubber } from './reader/ReaderScrubber';
 export { BookmarkDialog } from './reader/BookmarkDialog';
 export { MetadataDialog } from './reader/MetadataDialog';
+export { TableOfContentsSheet } from './reader/TableOfContentsSheet';
+export { NotesBottomSheet } from './reader/NotesBottomSheet';
+export { AchievementPanel } from './reader/AchievementPanel';
+export { AchievementPassagesSheet } from './reader/AchievementPassagesSheet';
 
 export type { ButtonProps } from './Button';
 export type { LinkButtonProps } from './LinkButton';
@@ -36,11 +49,24 @@ export type { LoadingStateProps } from './LoadingState';
 export type { ErrorStateProps } from './ErrorState';
 export type { DialogProps } from './Dialog';
 export type { ToastProps } from './Toast';
+export type { ExportDialogProps } from './ExportDialog';
+export type { ImportProgressDialogProps } from './ImportProgressDialog';
+export type { CompletionBarProps } from './CompletionBar';
+export type { GameArtworkProps } from './GameArtwork';
+export type { GamePickerDialogProps } from './GamePickerDialog';
+export type { SyncStatusIndicatorProps } from './SyncStatusIndicator';
+export type { NoteMergeDialogProps } from './NoteMergeDialog';
 
 // Reader component types
 export type { FontControlsProps } from './reader/FontControls';
 export type { ReaderToolbarProps } from './reader/ReaderToolbar';
 export type { BookmarkBottomSheetProps } from './reader/BookmarkBottomSheet';
 export type { SearchBarProps } from './reader/SearchBar';
+export type { SearchResultsListProps } from './reader/SearchResultsList';
+export type { ReaderScrubberProps } from './reader/ReaderScrubber';
 export type { BookmarkDialogProps } from './reader/BookmarkDialog';
 export type { MetadataDialogProps } from './reader/MetadataDialog';
+export type { TableOfContentsSheetProps } from './reader/TableOfContentsSheet';
+export type { NotesBottomSheetProps } from './reader/NotesBottomSheet';
+export type { AchievementPanelProps } from './reader/AchievementPanel';
+export type { AchievementPassagesSheetProps } from './reader/AchievementPassagesSheet';
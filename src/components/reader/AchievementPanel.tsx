@@ -0,0 +1,204 @@
+/**
+ * AchievementPanel - Collapsible achievement tracker above the guide content
+ *
+ * Collapsed, it shows the unlock count and any pinned achievements so they
+ * stay in view while reading. Expanded, it lists every achievement for the
+ * guide's game with its unlock state, a pin toggle and a button to find the
+ * passages in the guides that cover it.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, FlatList, Image, StyleSheet } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { Achievement } from '../../types';
+
+export interface AchievementPanelProps {
+  achievements: Achievement[];
+  unlockedCount: number;
+  expanded: boolean;
+  onToggleExpanded: () => void;
+  onTogglePin: (achievement: Achievement) => void;
+  onLocate: (achievement: Achievement) => void;
+}
+
+const BADGE_SIZE = 32;
+
+export const AchievementPanel: React.FC<AchievementPanelProps> = ({
+  achievements,
+  unlockedCount,
+  expanded,
+  onToggleExpanded,
+  onTogglePin,
+  onLocate,
+}) => {
+  const { theme } = useTheme();
+
+  const pinned = achievements.filter(achievement => achievement.is_pinned);
+
+  const renderAchievement = (achievement: Achievement) => (
+    <View
+      key={achievement.id}
+      style={[styles.row, { borderTopColor: theme.colors.border }]}
+      accessible
+      accessibilityLabel={`${achievement.title}, ${achievement.is_unlocked ? 'unlocked' : 'locked'}${
+        achievement.points ? `, ${achievement.points} points` : ''
+      }. ${achievement.description}`}
+    >
+      {achievement.badge_url ? (
+        <Image
+          source={{ uri: achievement.badge_url }}
+          style={[styles.badge, !achievement.is_unlocked && styles.lockedBadge]}
+          accessibilityIgnoresInvertColors
+        />
+      ) : (
+        <View style={[styles.badge, { backgroundColor: theme.colors.border }]} />
+      )}
+      <View style={styles.info}>
+        <Text
+          style={[
+            styles.title,
+            { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+          ]}
+          numberOfLines={1}
+        >
+          {achievement.title}
+        </Text>
+        <Text
+          style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}
+          numberOfLines={2}
+        >
+          {achievement.description}
+        </Text>
+      </View>
+      {achievement.points ? (
+        <Text style={[styles.points, { color: theme.colors.textSecondary }]}>
+          {achievement.points}
+        </Text>
+      ) : null}
+      <Ionicons
+        name={achievement.is_unlocked ? 'checkmark-circle' : 'lock-closed'}
+        size={18}
+        color={achievement.is_unlocked ? theme.colors.success : theme.colors.textSecondary}
+      />
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => onLocate(achievement)}
+        accessibilityRole="button"
+        accessibilityLabel={`Find ${achievement.title} in guides`}
+      >
+        <Ionicons name="search" size={18} color={theme.colors.textSecondary} />
+      </TouchableOpacity>
+      <TouchableOpacity
+        style={styles.iconButton}
+        onPress={() => onTogglePin(achievement)}
+        accessibilityRole="button"
+        accessibilityLabel={`${achievement.is_pinned ? 'Unpin' : 'Pin'} ${achievement.title}`}
+        accessibilityState={{ selected: achievement.is_pinned }}
+      >
+        <Ionicons
+          name={achievement.is_pinned ? 'pin' : 'pin-outline'}
+          size={20}
+          color={achievement.is_pinned ? theme.colors.primary : theme.colors.textSecondary}
+        />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View
+      style={[
+        styles.container,
+        expanded && styles.expanded,
+        { backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border },
+      ]}
+    >
+      <TouchableOpacity
+        style={styles.header}
+        onPress={onToggleExpanded}
+        accessibilityRole="button"
+        accessibilityLabel={`Achievements, ${unlockedCount} of ${achievements.length} unlocked`}
+        accessibilityState={{ expanded }}
+      >
+        <Ionicons name="trophy" size={18} color={theme.colors.warning} />
+        <Text
+          style={[
+            styles.headerText,
+            { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+          ]}
+        >
+          Achievements {unlockedCount}/{achievements.length}
+        </Text>
+        <Ionicons
+          name={expanded ? 'chevron-up' : 'chevron-down'}
+          size={18}
+          color={theme.colors.textSecondary}
+        />
+      </TouchableOpacity>
+
+      {expanded ? (
+        <FlatList
+          data={achievements}
+          renderItem={({ item }) => renderAchievement(item)}
+          keyExtractor={item => item.id}
+          initialNumToRender={15}
+        />
+      ) : (
+        pinned.map(renderAchievement)
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    borderBottomWidth: 1,
+  },
+  expanded: {
+    maxHeight: '45%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    minHeight: 44,
+  },
+  headerText: {
+    flex: 1,
+    fontWeight: '600',
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingLeft: 16,
+    paddingVertical: 4,
+    borderTopWidth: 1,
+  },
+  badge: {
+    width: BADGE_SIZE,
+    height: BADGE_SIZE,
+    borderRadius: 4,
+  },
+  lockedBadge: {
+    opacity: 0.35,
+  },
+  info: {
+    flex: 1,
+  },
+  title: {
+    fontWeight: '600',
+  },
+  points: {
+    fontWeight: '700',
+    minWidth: 20,
+    textAlign: 'right',
+  },
+  iconButton: {
+    width: 44,
+    height: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+});
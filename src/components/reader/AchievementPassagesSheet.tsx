@@ -0,0 +1,312 @@
+/**
+ * AchievementPassagesSheet - Animated bottom sheet of passages about an achievement
+ *
+ * Lists the best passages in this guide first, then in the other guides for
+ * the same game. Tapping a passage jumps to it.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  SectionList,
+  StyleSheet,
+  Animated,
+  Modal,
+  ActivityIndicator,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { Achievement } from '../../types';
+import type { AchievementPassage } from '../../utils/achievementLocator';
+import type { AchievementPassageGroup } from '../../hooks/useAchievementPassages';
+
+export interface AchievementPassagesSheetProps {
+  visible: boolean;
+  achievement: Achievement | null;
+  groups: AchievementPassageGroup[];
+  loading: boolean;
+  onClose: () => void;
+  onPassagePress: (guideId: string, lineIndex: number) => void;
+}
+
+export const AchievementPassagesSheet: React.FC<AchievementPassagesSheetProps> = ({
+  visible,
+  achievement,
+  groups,
+  loading,
+  onClose,
+  onPassagePress,
+}) => {
+  const { theme } = useTheme();
+  const slideAnim = useRef(new Animated.Value(1)).current; // Start at 1 (off-screen)
+  const [isModalVisible, setIsModalVisible] = React.useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      setIsModalVisible(true);
+      setTimeout(() => {
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 65,
+          friction: 11,
+          useNativeDriver: true,
+        }).start();
+      }, 10);
+    } else {
+      Animated.timing(slideAnim, {
+        toValue: 1,
+        duration: 250,
+        useNativeDriver: true,
+      }).start(() => {
+        setIsModalVisible(false);
+      });
+    }
+  }, [visible, slideAnim]);
+
+  const renderPassage = ({
+    item,
+    section,
+  }: {
+    item: AchievementPassage;
+    section: AchievementPassageGroup;
+  }) => (
+    <TouchableOpacity
+      style={[styles.passage, { borderBottomColor: theme.colors.border }]}
+      onPress={() => onPassagePress(section.guideId, item.lineIndex)}
+      accessibilityRole="button"
+      accessibilityLabel={`Line ${item.lineIndex + 1}: ${item.line.trim()}`}
+      accessibilityHint={
+        section.isCurrentGuide
+          ? 'Double tap to jump to this passage'
+          : `Double tap to open ${section.title} at this passage`
+      }
+    >
+      <Text
+        style={[
+          styles.passageMeta,
+          { color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs },
+        ]}
+      >
+        line {item.lineIndex + 1} · {Math.round(item.score * 100)}%
+        {item.titleMatch ? ' · title' : ''}
+        {item.matchedTerms.length > 0 ? ` · ${item.matchedTerms.join(', ')}` : ''}
+      </Text>
+      <Text
+        style={[
+          styles.passageText,
+          { color: theme.colors.text, fontSize: theme.typography.fontSize.xs },
+        ]}
+        numberOfLines={2}
+      >
+        {item.line.trim()}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderSectionHeader = ({ section }: { section: AchievementPassageGroup }) => (
+    <View
+      style={[
+        styles.sectionHeader,
+        { backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border },
+      ]}
+    >
+      <Ionicons
+        name={section.isCurrentGuide ? 'book' : 'document-text-outline'}
+        size={16}
+        color={theme.colors.textSecondary}
+      />
+      <Text
+        style={[
+          styles.sectionTitle,
+          { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+        ]}
+        numberOfLines={1}
+        accessibilityRole="header"
+      >
+        {section.isCurrentGuide ? 'This guide' : section.title}
+      </Text>
+      <Text style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}>
+        {section.data.length}
+      </Text>
+    </View>
+  );
+
+  if (!isModalVisible) {
+    return null;
+  }
+
+  return (
+    <Modal
+      visible={isModalVisible}
+      transparent
+      animationType="none"
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <View style={{ flex: 1 }}>
+        {/* Backdrop */}
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={onClose}
+          accessibilityRole="button"
+          accessibilityLabel="Close achievement passages"
+        >
+          <Animated.View
+            style={[
+              styles.bottomSheet,
+              {
+                backgroundColor: theme.colors.background,
+                transform: [
+                  {
+                    translateY: slideAnim.interpolate({
+                      inputRange: [0, 1],
+                      outputRange: [0, 1000],
+                    }),
+                  },
+                ],
+              },
+            ]}
+            onStartShouldSetResponder={() => true} // Prevent backdrop close when tapping sheet
+          >
+            <SafeAreaView style={{ flex: 1 }} edges={['bottom']}>
+              {/* Header */}
+              <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+                <View style={styles.headerText}>
+                  <Text
+                    style={[
+                      styles.headerTitle,
+                      { color: theme.colors.text, fontSize: theme.typography.fontSize.lg },
+                    ]}
+                    numberOfLines={1}
+                    accessibilityRole="header"
+                  >
+                    {achievement?.title}
+                  </Text>
+                  <Text
+                    style={{
+                      color: theme.colors.textSecondary,
+                      fontSize: theme.typography.fontSize.xs,
+                    }}
+                    numberOfLines={2}
+                  >
+                    {achievement?.description}
+                  </Text>
+                </View>
+                <TouchableOpacity
+                  onPress={onClose}
+                  accessibilityRole="button"
+                  accessibilityLabel="Close achievement passages"
+                >
+                  <Ionicons name="close" size={24} color={theme.colors.text} />
+                </TouchableOpacity>
+              </View>
+
+              {groups.length === 0 ? (
+                <View style={styles.emptyState}>
+                  {loading ? (
+                    <ActivityIndicator color={theme.colors.primary} />
+                  ) : (
+                    <Text
+                      style={[
+                        styles.emptyText,
+                        {
+                          color: theme.colors.textSecondary,
+                          fontSize: theme.typography.fontSize.sm,
+                        },
+                      ]}
+                    >
+                      No passages mention this achievement
+                    </Text>
+                  )}
+                </View>
+              ) : (
+                <SectionList
+                  sections={groups}
+                  renderItem={renderPassage}
+                  renderSectionHeader={renderSectionHeader}
+                  keyExtractor={(item, index) => `${item.lineIndex}-${index}`}
+                  stickySectionHeadersEnabled
+                  ListFooterComponent={
+                    loading ? (
+                      <ActivityIndicator style={styles.footer} color={theme.colors.primary} />
+                    ) : null
+                  }
+                  contentContainerStyle={styles.listContent}
+                />
+              )}
+            </SafeAreaView>
+          </Animated.View>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    justifyContent: 'flex-end',
+  },
+  bottomSheet: {
+    height: '67%', // 2/3 of screen
+    width: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 2,
+  },
+  headerText: {
+    flex: 1,
+  },
+  headerTitle: {
+    fontWeight: '700',
+  },
+  listContent: {
+    paddingBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontWeight: '700',
+  },
+  passage: {
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    borderBottomWidth: 1,
+    minHeight: 44,
+  },
+  passageMeta: {
+    marginBottom: 2,
+  },
+  passageText: {
+    fontFamily: 'Courier',
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 24,
+  },
+  emptyText: {
+    textAlign: 'center',
+  },
+  footer: {
+    padding: 16,
+  },
+});
@@ -18,13 +18,13 @@ import {
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
-import type { Bookmark } from '../../types';
+import type { AnchoredBookmark } from '../../types';
 
 export interface BookmarkBottomSheetProps {
   visible: boolean;
-  bookmarks: Bookmark[];
+  bookmarks: AnchoredBookmark[];
   onClose: () => void;
-  onBookmarkPress: (position: number) => void;
+  onBookmarkPress: (lineIndex: number) => void;
   onDeleteBookmark: (bookmarkId: string) => void;
 }
 
@@ -64,7 +64,7 @@ export const BookmarkBottomSheet: React.FC<BookmarkBottomSheetProps> = ({
     }
   }, [visible, slideAnim]);
 
-  const renderBookmarkItem = ({ item }: { item: Bookmark }) => (
+  const renderBookmarkItem = ({ item }: { item: AnchoredBookmark }) => (
     <View
       style={[
         styles.bookmarkItem,
@@ -76,11 +76,11 @@ export const BookmarkBottomSheet: React.FC<BookmarkBottomSheetProps> = ({
       <TouchableOpacity
         style={styles.bookmarkContent}
         onPress={() => {
-          onBookmarkPress(item.position);
+          onBookmarkPress(item.lineIndex);
           onClose();
         }}
         accessibilityRole="button"
-        accessibilityLabel={`Bookmark: ${item.name || 'Unnamed'} at position ${item.position}`}
+        accessibilityLabel={`Bookmark: ${item.name || 'Unnamed'} at line ${item.lineIndex + 1}`}
         accessibilityHint="Double tap to navigate to this bookmark"
       >
         <Text
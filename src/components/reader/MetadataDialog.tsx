@@ -4,6 +4,7 @@
  * Modal for editing guide title, author, platform, and tags.
  * Uses custom Dialog component with classic GameFAQs styling.
  * Includes "Fix with AI" button to auto-fill metadata using Ollama.
+ * Local library guides can also be re-decoded with a different text encoding.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -20,7 +21,8 @@ import { Ionicons } from '@expo/vector-icons';
 import { Dialog } from '../Dialog';
 import { useTheme } from '../../contexts/ThemeContext';
 import { aiApi } from '@/api/endpoints/ai';
-import type { Guide } from '../../types';
+import { TEXT_ENCODINGS } from '../../utils/textEncoding';
+import type { Guide, TextEncoding } from '../../types';
 
 export interface MetadataDialogProps {
   visible: boolean;
@@ -31,8 +33,10 @@ export interface MetadataDialogProps {
     author?: string;
     platform?: string;
     tags?: string;
+    encoding?: TextEncoding;
   }) => void;
   onAiSuccess?: (message: string) => void;
+  allowEncodingOverride?: boolean;
 }
 
 export const MetadataDialog: React.FC<MetadataDialogProps> = ({
@@ -41,12 +45,15 @@ export const MetadataDialog: React.FC<MetadataDialogProps> = ({
   onClose,
   onSave,
   onAiSuccess,
+  allowEncodingOverride = false,
 }) => {
   const { theme } = useTheme();
   const [title, setTitle] = useState('');
   const [author, setAuthor] = useState('');
   const [platform, setPlatform] = useState('');
   const [tags, setTags] = useState('');
+  const [encoding, setEncoding] = useState<TextEncoding>('utf-8');
+  const [originalEncoding, setOriginalEncoding] = useState<TextEncoding>('utf-8');
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
 
@@ -62,11 +69,15 @@ export const MetadataDialog: React.FC<MetadataDialogProps> = ({
         setTags(
           Array.isArray(metadata.tags) ? metadata.tags.join(', ') : ''
         );
+        setEncoding(metadata.encoding || 'utf-8');
+        setOriginalEncoding(metadata.encoding || 'utf-8');
       } catch (error) {
         if (__DEV__) console.error('Failed to parse guide metadata:', error);
         setAuthor('');
         setPlatform('');
         setTags('');
+        setEncoding('utf-8');
+        setOriginalEncoding('utf-8');
       }
     }
   }, [guide]);
@@ -77,6 +88,7 @@ export const MetadataDialog: React.FC<MetadataDialogProps> = ({
       author: author.trim() || undefined,
       platform: platform.trim() || undefined,
       tags: tags.trim() || undefined,
+      encoding: encoding !== originalEncoding ? encoding : undefined,
     });
     onClose();
   };
@@ -98,6 +110,7 @@ export const MetadataDialog: React.FC<MetadataDialogProps> = ({
         setTags('');
       }
     }
+    setEncoding(originalEncoding);
     setAiError(null);
     onClose();
   };
@@ -361,6 +374,64 @@ export const MetadataDialog: React.FC<MetadataDialogProps> = ({
             Separate multiple tags with commas
           </Text>
         </View>
+
+        {/* Encoding Picker */}
+        {allowEncodingOverride && (
+          <View style={styles.field}>
+            <Text
+              style={[
+                styles.label,
+                {
+                  color: theme.colors.text,
+                  fontSize: theme.typography.fontSize.sm,
+                },
+              ]}
+            >
+              Text Encoding
+            </Text>
+            <View style={styles.chips}>
+              {TEXT_ENCODINGS.map(option => {
+                const selected = option.value === encoding;
+                return (
+                  <TouchableOpacity
+                    key={option.value}
+                    style={[
+                      styles.chip,
+                      {
+                        borderColor: selected ? theme.colors.primary : theme.colors.border,
+                        backgroundColor: selected ? theme.colors.primary : 'transparent',
+                      },
+                    ]}
+                    onPress={() => setEncoding(option.value)}
+                    accessibilityRole="radio"
+                    accessibilityState={{ selected }}
+                    accessibilityLabel={option.label}
+                  >
+                    <Text
+                      style={{
+                        color: selected ? '#FFFFFF' : theme.colors.text,
+                        fontSize: theme.typography.fontSize.xs,
+                      }}
+                    >
+                      {option.label}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+            <Text
+              style={[
+                styles.hint,
+                {
+                  color: theme.colors.textSecondary,
+                  fontSize: theme.typography.fontSize.xs,
+                },
+              ]}
+            >
+              Change this if the guide shows garbled characters
+            </Text>
+          </View>
+        )}
       </ScrollView>
     </Dialog>
   );
@@ -413,4 +484,15 @@ const styles = StyleSheet.create({
   hint: {
     marginTop: 4,
   },
+  chips: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+  },
+  chip: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
 });
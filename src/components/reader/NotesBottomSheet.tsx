@@ -0,0 +1,501 @@
+/**
+ * NotesBottomSheet - Animated bottom sheet for guide notes
+ *
+ * Lists guide-level notes and notes attached to a line, with a composer
+ * for new notes and an inline editor. Opening with selectedNoteId (e.g.
+ * from a margin marker) jumps straight into editing that note.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+  Animated,
+  Modal,
+  KeyboardAvoidingView,
+  Platform,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { Button } from '../Button';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { AnchoredNote } from '../../types';
+
+export interface NotesBottomSheetProps {
+  visible: boolean;
+  notes: AnchoredNote[];
+  currentLine: number;
+  selectedNoteId?: string | null;
+  onClose: () => void;
+  onCreateNote: (content: string, lineIndex: number | null) => void;
+  onUpdateNote: (noteId: string, content: string) => void;
+  onDeleteNote: (noteId: string) => void;
+  onNotePress: (lineIndex: number) => void;
+  onExportPress?: () => void;
+}
+
+const getNoteLocation = (note: AnchoredNote) =>
+  note.lineIndex === null ? 'Whole guide' : `Line ${note.lineIndex + 1}`;
+
+interface NoteEditorProps {
+  note: AnchoredNote;
+  onSave: (content: string) => void;
+  onDelete: () => void;
+  onCancel: () => void;
+}
+
+// Keyed by note id so the draft resets whenever a different note is opened
+const NoteEditor: React.FC<NoteEditorProps> = ({ note, onSave, onDelete, onCancel }) => {
+  const { theme } = useTheme();
+  const [draft, setDraft] = useState(note.content);
+  const canSave = draft.trim().length > 0 && draft.trim() !== note.content;
+
+  return (
+    <View style={[styles.composer, { borderBottomColor: theme.colors.border }]}>
+      <Text
+        style={[
+          styles.composerLabel,
+          { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+        ]}
+      >
+        Edit note · {getNoteLocation(note)}
+      </Text>
+      <TextInput
+        style={[
+          styles.input,
+          {
+            borderColor: theme.colors.border,
+            color: theme.colors.text,
+            fontSize: theme.typography.fontSize.sm,
+          },
+        ]}
+        value={draft}
+        onChangeText={setDraft}
+        multiline
+        textAlignVertical="top"
+        autoFocus
+        accessibilityLabel="Note text"
+      />
+      <View style={styles.actions}>
+        <Button title="Delete" variant="danger" size="small" onPress={onDelete} />
+        <View style={styles.actionsRight}>
+          <Button title="Cancel" variant="secondary" size="small" onPress={onCancel} />
+          <Button
+            title="Save"
+            size="small"
+            disabled={!canSave}
+            onPress={() => onSave(draft.trim())}
+            style={styles.actionSpacing}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+export const NotesBottomSheet: React.FC<NotesBottomSheetProps> = ({
+  visible,
+  notes,
+  currentLine,
+  selectedNoteId,
+  onClose,
+  onCreateNote,
+  onUpdateNote,
+  onDeleteNote,
+  onNotePress,
+  onExportPress,
+}) => {
+  const { theme } = useTheme();
+  const slideAnim = useRef(new Animated.Value(1)).current; // Start at 1 (off-screen)
+  const [isModalVisible, setIsModalVisible] = useState(false);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [attachToLine, setAttachToLine] = useState(true);
+
+  useEffect(() => {
+    if (visible) {
+      setEditingNoteId(selectedNoteId ?? null);
+      // Show modal first, then animate
+      setIsModalVisible(true);
+      // Small delay to ensure modal is mounted before animation
+      setTimeout(() => {
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 65,
+          friction: 11,
+          useNativeDriver: true,
+        }).start();
+      }, 10);
+    } else {
+      // Animate out, then hide modal
+      Animated.timing(slideAnim, {
+        toValue: 1,
+        duration: 250,
+        useNativeDriver: true,
+      }).start(() => {
+        setIsModalVisible(false);
+      });
+    }
+  }, [visible, selectedNoteId, slideAnim]);
+
+  const editingNote = notes.find(note => note.id === editingNoteId) ?? null;
+
+  const handleCreate = () => {
+    const content = draft.trim();
+    if (!content) return;
+    onCreateNote(content, attachToLine ? currentLine : null);
+    setDraft('');
+  };
+
+  const renderAttachOption = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      onPress={onPress}
+      style={[
+        styles.attachOption,
+        {
+          borderColor: selected ? theme.colors.primary : theme.colors.border,
+          backgroundColor: selected ? theme.colors.primary : 'transparent',
+        },
+      ]}
+      accessibilityRole="radio"
+      accessibilityState={{ selected }}
+      accessibilityLabel={`Attach note to ${label}`}
+    >
+      <Text
+        style={{
+          color: selected ? '#FFFFFF' : theme.colors.text,
+          fontSize: theme.typography.fontSize.xs,
+        }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderNoteItem = ({ item }: { item: AnchoredNote }) => (
+    <View
+      style={[
+        styles.noteItem,
+        {
+          borderBottomColor: theme.colors.border,
+          backgroundColor: item.id === editingNoteId ? theme.colors.highlight : 'transparent',
+        },
+      ]}
+    >
+      <TouchableOpacity
+        style={styles.noteContent}
+        onPress={() => setEditingNoteId(item.id)}
+        accessibilityRole="button"
+        accessibilityLabel={`Note, ${getNoteLocation(item)}: ${item.content}`}
+        accessibilityHint="Double tap to edit this note"
+      >
+        <Text
+          style={[
+            styles.noteLocation,
+            {
+              color: item.id === editingNoteId ? '#000000' : theme.colors.textSecondary,
+              fontSize: theme.typography.fontSize.xs,
+            },
+          ]}
+        >
+          {getNoteLocation(item)}
+        </Text>
+        <Text
+          style={{
+            color: item.id === editingNoteId ? '#000000' : theme.colors.text,
+            fontSize: theme.typography.fontSize.sm,
+          }}
+          numberOfLines={3}
+        >
+          {item.content}
+        </Text>
+      </TouchableOpacity>
+
+      {item.lineIndex !== null && (
+        <TouchableOpacity
+          onPress={() => {
+            onNotePress(item.lineIndex as number);
+            onClose();
+          }}
+          style={styles.iconButton}
+          accessibilityRole="button"
+          accessibilityLabel={`Go to ${getNoteLocation(item)}`}
+          accessibilityHint="Double tap to jump to this note's line"
+        >
+          <Ionicons name="arrow-forward-circle-outline" size={22} color={theme.colors.link} />
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  if (!isModalVisible) {
+    return null;
+  }
+
+  return (
+    <Modal
+      visible={isModalVisible}
+      transparent
+      animationType="none"
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <KeyboardAvoidingView
+        style={{ flex: 1 }}
+        behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+      >
+        {/* Backdrop */}
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={onClose}
+          accessibilityRole="button"
+          accessibilityLabel="Close notes"
+        >
+          <Animated.View
+            style={[
+              styles.bottomSheet,
+              {
+                backgroundColor: theme.colors.background,
+                transform: [
+                  {
+                    translateY: slideAnim.interpolate({
+                      inputRange: [0, 1],
+                      outputRange: [0, 1000],
+                    }),
+                  },
+                ],
+              },
+            ]}
+            onStartShouldSetResponder={() => true} // Prevent backdrop close when tapping sheet
+          >
+            <SafeAreaView style={{ flex: 1 }} edges={['bottom']}>
+              {/* Header */}
+              <View style={[styles.header, { borderBottomColor: theme.colors.border }]}>
+                <Text
+                  style={[
+                    styles.headerTitle,
+                    {
+                      color: theme.colors.text,
+                      fontSize: theme.typography.fontSize.lg,
+                    },
+                  ]}
+                  accessibilityRole="header"
+                >
+                  Notes
+                </Text>
+                <View style={styles.headerActions}>
+                  {onExportPress && (
+                    <TouchableOpacity
+                      onPress={onExportPress}
+                      style={styles.headerButton}
+                      accessibilityRole="button"
+                      accessibilityLabel="Export notes and bookmarks"
+                    >
+                      <Ionicons name="share-outline" size={22} color={theme.colors.link} />
+                    </TouchableOpacity>
+                  )}
+                  <TouchableOpacity
+                    onPress={onClose}
+                    accessibilityRole="button"
+                    accessibilityLabel="Close notes"
+                  >
+                    <Ionicons name="close" size={24} color={theme.colors.text} />
+                  </TouchableOpacity>
+                </View>
+              </View>
+
+              {/* Editor or composer */}
+              {editingNote ? (
+                <NoteEditor
+                  key={editingNote.id}
+                  note={editingNote}
+                  onSave={content => {
+                    onUpdateNote(editingNote.id, content);
+                    setEditingNoteId(null);
+                  }}
+                  onDelete={() => {
+                    onDeleteNote(editingNote.id);
+                    setEditingNoteId(null);
+                  }}
+                  onCancel={() => setEditingNoteId(null)}
+                />
+              ) : (
+                <View style={[styles.composer, { borderBottomColor: theme.colors.border }]}>
+                  <TextInput
+                    style={[
+                      styles.input,
+                      {
+                        borderColor: theme.colors.border,
+                        color: theme.colors.text,
+                        fontSize: theme.typography.fontSize.sm,
+                      },
+                    ]}
+                    value={draft}
+                    onChangeText={setDraft}
+                    placeholder="Add a note..."
+                    placeholderTextColor={theme.colors.textSecondary}
+                    multiline
+                    textAlignVertical="top"
+                    accessibilityLabel="New note"
+                  />
+                  <View style={styles.actions}>
+                    <View style={styles.attachOptions} accessibilityRole="radiogroup">
+                      {renderAttachOption(`Line ${currentLine + 1}`, attachToLine, () =>
+                        setAttachToLine(true)
+                      )}
+                      {renderAttachOption('Whole guide', !attachToLine, () =>
+                        setAttachToLine(false)
+                      )}
+                    </View>
+                    <Button
+                      title="Add"
+                      size="small"
+                      disabled={draft.trim().length === 0}
+                      onPress={handleCreate}
+                    />
+                  </View>
+                </View>
+              )}
+
+              {/* Note List */}
+              {notes.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Text
+                    style={[
+                      styles.emptyText,
+                      {
+                        color: theme.colors.textSecondary,
+                        fontSize: theme.typography.fontSize.sm,
+                      },
+                    ]}
+                  >
+                    No notes yet
+                  </Text>
+                </View>
+              ) : (
+                <FlatList
+                  data={notes}
+                  renderItem={renderNoteItem}
+                  keyExtractor={item => item.id}
+                  contentContainerStyle={styles.listContent}
+                  keyboardShouldPersistTaps="handled"
+                  accessibilityRole="list"
+                />
+              )}
+            </SafeAreaView>
+          </Animated.View>
+        </TouchableOpacity>
+      </KeyboardAvoidingView>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    justifyContent: 'flex-end',
+  },
+  bottomSheet: {
+    height: '67%', // 2/3 of screen
+    width: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 2,
+  },
+  headerTitle: {
+    fontWeight: '700',
+    fontSize: 18,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    marginRight: 16,
+  },
+  composer: {
+    padding: 16,
+    borderBottomWidth: 1,
+  },
+  composerLabel: {
+    fontWeight: '600',
+    marginBottom: 8,
+  },
+  input: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    minHeight: 64,
+    maxHeight: 120,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  actionsRight: {
+    flexDirection: 'row',
+  },
+  actionSpacing: {
+    marginLeft: 8,
+  },
+  attachOptions: {
+    flexDirection: 'row',
+  },
+  attachOption: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 6,
+    marginRight: 8,
+    minHeight: 32,
+    justifyContent: 'center',
+  },
+  listContent: {
+    paddingVertical: 8,
+  },
+  noteItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 12,
+    paddingHorizontal: 16,
+    borderBottomWidth: 1,
+  },
+  noteContent: {
+    flex: 1,
+    marginRight: 8,
+  },
+  noteLocation: {
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  iconButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    textAlign: 'center',
+  },
+});
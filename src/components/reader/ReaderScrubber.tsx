@@ -0,0 +1,265 @@
+/**
+ * ReaderScrubber - Draggable position track beside the guide content
+ *
+ * Drag the thumb (or tap the track) to jump through long guides. Shows the
+ * percentage and section while dragging, with markers for bookmarks, notes,
+ * the last-read position and how densely search matches cluster.
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import { View, Text, StyleSheet, PanResponder, LayoutChangeEvent } from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { GuideSection } from '../../types';
+
+export interface ReaderScrubberProps {
+  totalLines: number;
+  currentLine: number;
+  sections: GuideSection[];
+  bookmarkLines: number[];
+  noteLines: number[];
+  lastReadLine: number | null;
+  searchMatchLines: number[];
+  onScrub: (lineIndex: number) => void;
+  onScrubEnd: (lineIndex: number) => void;
+}
+
+const TRACK_WIDTH = 20;
+const THUMB_HEIGHT = 24;
+// Height in px of each search density band
+const DENSITY_BAND_HEIGHT = 4;
+
+export const ReaderScrubber: React.FC<ReaderScrubberProps> = ({
+  totalLines,
+  currentLine,
+  sections,
+  bookmarkLines,
+  noteLines,
+  lastReadLine,
+  searchMatchLines,
+  onScrub,
+  onScrubEnd,
+}) => {
+  const { theme } = useTheme();
+  const [trackHeight, setTrackHeight] = useState(0);
+  const [dragLine, setDragLine] = useState<number | null>(null);
+  const trackTopRef = useRef(0);
+
+  // PanResponder is created once, so it reads the latest values through a ref
+  const latest = useRef({ totalLines, trackHeight, onScrub, onScrubEnd });
+  latest.current = { totalLines, trackHeight, onScrub, onScrubEnd };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderTerminationRequest: () => false,
+      onPanResponderGrant: event => {
+        // Track offset in page coordinates; it moves with the search bar and toolbars
+        const { pageY, locationY } = event.nativeEvent;
+        trackTopRef.current = pageY - locationY;
+        const line = lineForPageY(pageY);
+        setDragLine(line);
+        latest.current.onScrub(line);
+      },
+      onPanResponderMove: (_event, gesture) => {
+        const line = lineForPageY(gesture.moveY);
+        setDragLine(line);
+        latest.current.onScrub(line);
+      },
+      onPanResponderRelease: (_event, gesture) => {
+        latest.current.onScrubEnd(lineForPageY(gesture.moveY || gesture.y0));
+        setDragLine(null);
+      },
+      onPanResponderTerminate: () => {
+        setDragLine(null);
+      },
+    })
+  ).current;
+
+  function lineForPageY(pageY: number): number {
+    const { totalLines: lines, trackHeight: height } = latest.current;
+    if (height <= 0 || lines <= 1) return 0;
+    const ratio = Math.min(Math.max((pageY - trackTopRef.current) / height, 0), 1);
+    return Math.round(ratio * (lines - 1));
+  }
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    setTrackHeight(event.nativeEvent.layout.height);
+  };
+
+  const topForLine = (line: number) =>
+    totalLines > 1 ? (Math.min(line, totalLines - 1) / (totalLines - 1)) * trackHeight : 0;
+
+  // Count matches per band; opacity scales with the busiest band
+  const densityBands = useMemo(() => {
+    if (trackHeight <= 0 || totalLines <= 1 || searchMatchLines.length === 0) return [];
+    const bandCount = Math.max(1, Math.floor(trackHeight / DENSITY_BAND_HEIGHT));
+    const counts = new Array<number>(bandCount).fill(0);
+    for (const line of searchMatchLines) {
+      const band = Math.min(Math.floor((line / (totalLines - 1)) * bandCount), bandCount - 1);
+      counts[band]++;
+    }
+    const max = Math.max(...counts);
+    return counts
+      .map((count, band) => ({ band, opacity: 0.3 + 0.7 * (count / max), count }))
+      .filter(({ count }) => count > 0);
+  }, [trackHeight, totalLines, searchMatchLines]);
+
+  const displayLine = dragLine ?? currentLine;
+  const percent = totalLines > 1 ? Math.round((displayLine / (totalLines - 1)) * 100) : 0;
+
+  // Last section that starts at or before the dragged line
+  const dragSection = useMemo(() => {
+    if (dragLine === null) return null;
+    let match: GuideSection | null = null;
+    for (const section of sections) {
+      if (section.lineIndex <= dragLine && (!match || section.lineIndex >= match.lineIndex)) {
+        match = section;
+      }
+    }
+    return match;
+  }, [sections, dragLine]);
+
+  const thumbTop = Math.min(
+    Math.max(topForLine(displayLine) - THUMB_HEIGHT / 2, 0),
+    Math.max(trackHeight - THUMB_HEIGHT, 0)
+  );
+
+  const renderMarker = (line: number, color: string, key: string, width: number) => (
+    <View
+      key={key}
+      pointerEvents="none"
+      style={[
+        styles.marker,
+        {
+          top: topForLine(line) - 1,
+          width,
+          right: (TRACK_WIDTH - width) / 2,
+          backgroundColor: color,
+        },
+      ]}
+    />
+  );
+
+  if (totalLines <= 1) return null;
+
+  return (
+    <View
+      style={[styles.track, { borderLeftColor: theme.colors.border }]}
+      onLayout={handleLayout}
+      accessible
+      accessibilityRole="adjustable"
+      accessibilityLabel="Reading position"
+      accessibilityValue={{ min: 0, max: 100, now: percent, text: `${percent}%` }}
+      accessibilityActions={[{ name: 'increment' }, { name: 'decrement' }]}
+      onAccessibilityAction={event => {
+        // Step a tenth of the guide at a time
+        const step = Math.max(1, Math.round(totalLines / 10));
+        const delta = event.nativeEvent.actionName === 'increment' ? step : -step;
+        onScrubEnd(Math.min(Math.max(currentLine + delta, 0), totalLines - 1));
+      }}
+      {...panResponder.panHandlers}
+    >
+      {trackHeight > 0 && (
+        <>
+          {densityBands.map(({ band, opacity }) => (
+            <View
+              key={`density-${band}`}
+              pointerEvents="none"
+              style={[
+                styles.densityBand,
+                { top: band * DENSITY_BAND_HEIGHT, opacity, height: DENSITY_BAND_HEIGHT },
+              ]}
+            />
+          ))}
+          {noteLines.map((line, i) => renderMarker(line, theme.colors.warning, `note-${i}`, 8))}
+          {bookmarkLines.map((line, i) =>
+            renderMarker(line, theme.colors.primary, `bookmark-${i}`, 12)
+          )}
+          {lastReadLine !== null &&
+            renderMarker(lastReadLine, theme.colors.success, 'last-read', TRACK_WIDTH)}
+
+          {/* Thumb */}
+          <View
+            pointerEvents="none"
+            style={[
+              styles.thumb,
+              {
+                top: thumbTop,
+                backgroundColor: theme.colors.primary + (dragLine !== null ? 'CC' : '66'),
+              },
+            ]}
+          />
+        </>
+      )}
+
+      {/* Position bubble while dragging */}
+      {dragLine !== null && (
+        <View
+          pointerEvents="none"
+          style={[
+            styles.bubble,
+            {
+              top: Math.min(Math.max(topForLine(dragLine) - 20, 0), Math.max(trackHeight - 40, 0)),
+              backgroundColor: theme.colors.surface,
+              borderColor: theme.colors.border,
+            },
+          ]}
+        >
+          <Text
+            style={[
+              styles.bubblePercent,
+              { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+            ]}
+          >
+            {percent}%
+          </Text>
+          {dragSection && (
+            <Text
+              style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}
+              numberOfLines={1}
+            >
+              {dragSection.title}
+            </Text>
+          )}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  track: {
+    width: TRACK_WIDTH,
+    borderLeftWidth: 1,
+  },
+  marker: {
+    position: 'absolute',
+    height: 2,
+  },
+  densityBand: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    backgroundColor: '#FFD700',
+  },
+  thumb: {
+    position: 'absolute',
+    left: 2,
+    right: 2,
+    height: THUMB_HEIGHT,
+    borderRadius: 4,
+  },
+  bubble: {
+    position: 'absolute',
+    right: TRACK_WIDTH + 4,
+    width: 160,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderWidth: 1,
+    borderRadius: 4,
+  },
+  bubblePercent: {
+    fontWeight: '700',
+  },
+});
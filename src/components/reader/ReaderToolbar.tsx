@@ -1,5 +1,5 @@
 /**
- * ReaderToolbar - Top toolbar with search, edit, bookmarks buttons
+ * ReaderToolbar - Top toolbar with contents, search, edit, bookmarks, notes buttons
  *
  * Classic GameFAQs-style toolbar with simple text/icon buttons.
  */
@@ -10,18 +10,22 @@ import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
 
 export interface ReaderToolbarProps {
+  onContentsPress: () => void;
   onSearchPress: () => void;
   onEditPress: () => void;
   onBookmarksPress: () => void;
+  onNotesPress: () => void;
   onDownloadPress: () => void;
   isDownloaded: boolean;
   isDownloading: boolean;
 }
 
 export const ReaderToolbar: React.FC<ReaderToolbarProps> = ({
+  onContentsPress,
   onSearchPress,
   onEditPress,
   onBookmarksPress,
+  onNotesPress,
   onDownloadPress,
   isDownloaded,
   isDownloading,
@@ -80,9 +84,11 @@ export const ReaderToolbar: React.FC<ReaderToolbarProps> = ({
         },
       ]}
     >
+      <ToolbarButton icon="list" label="Contents" onPress={onContentsPress} />
       <ToolbarButton icon="search" label="Search" onPress={onSearchPress} />
       <ToolbarButton icon="create" label="Edit" onPress={onEditPress} />
       <ToolbarButton icon="bookmarks" label="Bookmarks" onPress={onBookmarksPress} />
+      <ToolbarButton icon="chatbox-ellipses" label="Notes" onPress={onNotesPress} />
       <ToolbarButton
         icon={downloadIcon}
         label={downloadLabel}
@@ -104,8 +110,8 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     justifyContent: 'center',
     paddingVertical: 8,
-    paddingHorizontal: 16,
-    minWidth: 80,
+    paddingHorizontal: 4,
+    minWidth: 56,
     minHeight: 44,
   },
   buttonText: {
@@ -1,7 +1,10 @@
 /**
  * SearchBar - In-guide search component
  *
- * Search input with prev/next navigation and match counter.
+ * Search input with prev/next navigation and match counter, plus toggles
+ * for case sensitive, whole word and regular expression matching. The
+ * list button expands every match grouped by section. A search that stopped
+ * early says so, since there may be more matches.
  * Classic GameFAQs styling with simple layout.
  */
 
@@ -9,6 +12,7 @@ import React from 'react';
 import { View, TextInput, TouchableOpacity, Text, StyleSheet } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useTheme } from '../../contexts/ThemeContext';
+import type { SearchOptions } from '../../utils/textSearch';
 
 export interface SearchBarProps {
   visible: boolean;
@@ -20,8 +24,20 @@ export interface SearchBarProps {
   currentMatchIndex: number;
   totalMatches: number;
   hasMatches: boolean;
+  searchOptions: SearchOptions;
+  onToggleOption: (option: keyof SearchOptions) => void;
+  searchError?: string | null;
+  searchTruncated?: boolean;
+  resultsExpanded?: boolean;
+  onToggleResults?: () => void;
 }
 
+const OPTION_TOGGLES: Array<{ option: keyof SearchOptions; label: string; name: string }> = [
+  { option: 'caseSensitive', label: 'Aa', name: 'Match case' },
+  { option: 'wholeWord', label: 'ab', name: 'Match whole word' },
+  { option: 'regex', label: '.*', name: 'Use regular expression' },
+];
+
 export const SearchBar: React.FC<SearchBarProps> = ({
   visible,
   searchQuery,
@@ -32,6 +48,12 @@ export const SearchBar: React.FC<SearchBarProps> = ({
   currentMatchIndex,
   totalMatches,
   hasMatches,
+  searchOptions,
+  onToggleOption,
+  searchError,
+  searchTruncated = false,
+  resultsExpanded = false,
+  onToggleResults,
 }) => {
   const { theme } = useTheme();
 
@@ -86,6 +108,40 @@ export const SearchBar: React.FC<SearchBarProps> = ({
             />
           </TouchableOpacity>
         )}
+
+        {/* Search Mode Toggles */}
+        {OPTION_TOGGLES.map(({ option, label, name }) => {
+          const active = searchOptions[option];
+          return (
+            <TouchableOpacity
+              key={option}
+              onPress={() => onToggleOption(option)}
+              style={[
+                styles.optionToggle,
+                {
+                  borderColor: active ? theme.colors.primary : 'transparent',
+                  backgroundColor: active ? theme.colors.primary + '20' : 'transparent',
+                },
+              ]}
+              accessibilityRole="switch"
+              accessibilityState={{ checked: active }}
+              accessibilityLabel={name}
+            >
+              <Text
+                style={[
+                  styles.optionLabel,
+                  {
+                    color: active ? theme.colors.primary : theme.colors.textSecondary,
+                    fontSize: theme.typography.fontSize.xs,
+                    textDecorationLine: option === 'wholeWord' ? 'underline' : 'none',
+                  },
+                ]}
+              >
+                {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
       </View>
 
       {/* Match Counter and Navigation */}
@@ -101,15 +157,50 @@ export const SearchBar: React.FC<SearchBarProps> = ({
             ]}
             accessibilityLiveRegion="polite"
             accessibilityLabel={
-              hasMatches
-                ? `Match ${currentMatchIndex + 1} of ${totalMatches}`
-                : 'No matches found'
+              searchError
+                ? `Invalid pattern: ${searchError}`
+                : hasMatches && searchTruncated
+                  ? `Match ${currentMatchIndex + 1} of the first ${totalMatches}. ` +
+                    'Too many matches, refine the search'
+                  : hasMatches
+                    ? `Match ${currentMatchIndex + 1} of ${totalMatches}`
+                    : searchTruncated
+                      ? 'Search took too long, refine the search'
+                      : 'No matches found'
             }
           >
-            {hasMatches ? `${currentMatchIndex + 1}/${totalMatches}` : 'No matches'}
+            {searchError
+              ? 'Invalid pattern'
+              : hasMatches && searchTruncated
+                ? `${currentMatchIndex + 1}/${totalMatches}+\nToo many matches`
+                : hasMatches
+                  ? `${currentMatchIndex + 1}/${totalMatches}`
+                  : searchTruncated
+                    ? 'Search stopped'
+                    : 'No matches'}
           </Text>
 
           <View style={styles.navigationButtons}>
+            {onToggleResults && (
+              <TouchableOpacity
+                onPress={onToggleResults}
+                disabled={!hasMatches}
+                style={[
+                  styles.navButton,
+                  !hasMatches && styles.navButtonDisabled,
+                ]}
+                accessibilityRole="button"
+                accessibilityLabel={resultsExpanded ? 'Hide all results' : 'Show all results'}
+                accessibilityState={{ expanded: resultsExpanded }}
+              >
+                <Ionicons
+                  name={resultsExpanded ? 'list' : 'list-outline'}
+                  size={20}
+                  color={hasMatches ? theme.colors.link : theme.colors.border}
+                />
+              </TouchableOpacity>
+            )}
+
             <TouchableOpacity
               onPress={onPrevious}
               disabled={!hasMatches}
@@ -184,6 +275,19 @@ const styles = StyleSheet.create({
     paddingVertical: 8,
     paddingHorizontal: 4,
   },
+  optionToggle: {
+    minWidth: 32,
+    minHeight: 32,
+    marginLeft: 2,
+    borderWidth: 1,
+    borderRadius: 4,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  optionLabel: {
+    fontFamily: 'Courier',
+    fontWeight: '700',
+  },
   clearButton: {
     padding: 4,
     minWidth: 44,
@@ -0,0 +1,169 @@
+/**
+ * SearchResultsList - Expandable list of in-guide search results
+ *
+ * Shows every match grouped by the section containing it, with the
+ * number of hits per section and a line of context around each match.
+ * Tapping a result jumps to it.
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, SectionList, StyleSheet } from 'react-native';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { SearchResult, SearchResultGroup } from '../../utils/textSearch';
+
+export interface SearchResultsListProps {
+  results: SearchResultGroup[];
+  currentMatchIndex: number;
+  onResultPress: (result: SearchResult) => void;
+}
+
+export const SearchResultsList: React.FC<SearchResultsListProps> = ({
+  results,
+  currentMatchIndex,
+  onResultPress,
+}) => {
+  const { theme } = useTheme();
+
+  const contextStyle = {
+    color: theme.colors.textSecondary,
+    fontSize: theme.typography.fontSize.xs,
+  };
+
+  const renderResult = ({ item }: { item: SearchResult }) => {
+    const isCurrent = item.matchIndex === currentMatchIndex;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.result,
+          {
+            borderBottomColor: theme.colors.border,
+            backgroundColor: isCurrent ? theme.colors.highlight : 'transparent',
+          },
+        ]}
+        onPress={() => onResultPress(item)}
+        accessibilityRole="button"
+        accessibilityLabel={`Match ${item.matchIndex + 1}, line ${item.lineIndex + 1}: ${item.line.trim()}`}
+        accessibilityHint="Double tap to jump to this match"
+        accessibilityState={{ selected: isCurrent }}
+      >
+        <Text style={[styles.matchNumber, contextStyle]}>
+          #{item.matchIndex + 1} · line {item.lineIndex + 1}
+        </Text>
+        {item.before !== null && (
+          <Text style={[styles.snippet, contextStyle]} numberOfLines={1}>
+            {item.before}
+          </Text>
+        )}
+        <Text
+          style={[
+            styles.snippet,
+            {
+              color: isCurrent ? '#000000' : theme.colors.text,
+              fontSize: theme.typography.fontSize.xs,
+            },
+          ]}
+          numberOfLines={2}
+        >
+          {item.line.substring(0, item.highlightStart)}
+          <Text style={styles.highlight}>
+            {item.line.substring(item.highlightStart, item.highlightEnd)}
+          </Text>
+          {item.line.substring(item.highlightEnd)}
+        </Text>
+        {item.after !== null && (
+          <Text style={[styles.snippet, contextStyle]} numberOfLines={1}>
+            {item.after}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  const renderSectionHeader = ({ section }: { section: SearchResultGroup }) => (
+    <View
+      style={[
+        styles.sectionHeader,
+        {
+          backgroundColor: theme.colors.surface,
+          borderBottomColor: theme.colors.border,
+        },
+      ]}
+    >
+      <Text
+        style={[
+          styles.sectionTitle,
+          { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+        ]}
+        numberOfLines={1}
+        accessibilityRole="header"
+      >
+        {section.title}
+      </Text>
+      <Text style={contextStyle}>
+        {section.data.length} {section.data.length === 1 ? 'hit' : 'hits'}
+      </Text>
+    </View>
+  );
+
+  return (
+    <View
+      style={[
+        styles.container,
+        {
+          backgroundColor: theme.colors.background,
+          borderBottomColor: theme.colors.border,
+        },
+      ]}
+    >
+      <SectionList
+        sections={results}
+        renderItem={renderResult}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={item => `match-${item.matchIndex}`}
+        stickySectionHeadersEnabled
+        keyboardShouldPersistTaps="handled"
+        initialNumToRender={20}
+        accessibilityRole="list"
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    maxHeight: '45%',
+    borderBottomWidth: 2,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  sectionTitle: {
+    flex: 1,
+    fontWeight: '600',
+    marginRight: 8,
+  },
+  result: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    minHeight: 44,
+  },
+  matchNumber: {
+    marginBottom: 2,
+  },
+  snippet: {
+    fontFamily: 'Courier',
+  },
+  highlight: {
+    fontFamily: 'Courier',
+    fontWeight: '700',
+    backgroundColor: '#FFD700',
+    color: '#000000',
+  },
+});
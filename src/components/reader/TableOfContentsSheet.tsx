@@ -0,0 +1,271 @@
+/**
+ * TableOfContentsSheet - Animated bottom sheet for the guide outline
+ *
+ * Lists sections extracted from the guide's contents block and jumps to
+ * the section body when tapped. Highlights the section being read.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  FlatList,
+  StyleSheet,
+  Animated,
+  Modal,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../../contexts/ThemeContext';
+import type { GuideSection } from '../../types';
+
+export interface TableOfContentsSheetProps {
+  visible: boolean;
+  sections: GuideSection[];
+  currentSection?: GuideSection | null;
+  onClose: () => void;
+  onSectionPress: (lineIndex: number) => void;
+}
+
+const LEVEL_INDENT = 16;
+
+export const TableOfContentsSheet: React.FC<TableOfContentsSheetProps> = ({
+  visible,
+  sections,
+  currentSection,
+  onClose,
+  onSectionPress,
+}) => {
+  const { theme } = useTheme();
+  const slideAnim = useRef(new Animated.Value(1)).current; // Start at 1 (off-screen)
+  const [isModalVisible, setIsModalVisible] = React.useState(false);
+
+  useEffect(() => {
+    if (visible) {
+      // Show modal first, then animate
+      setIsModalVisible(true);
+      // Small delay to ensure modal is mounted before animation
+      setTimeout(() => {
+        Animated.spring(slideAnim, {
+          toValue: 0,
+          tension: 65,
+          friction: 11,
+          useNativeDriver: true,
+        }).start();
+      }, 10);
+    } else {
+      // Animate out, then hide modal
+      Animated.timing(slideAnim, {
+        toValue: 1,
+        duration: 250,
+        useNativeDriver: true,
+      }).start(() => {
+        setIsModalVisible(false);
+      });
+    }
+  }, [visible, slideAnim]);
+
+  const renderSectionItem = ({ item }: { item: GuideSection }) => {
+    const isCurrent = currentSection === item;
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.sectionItem,
+          {
+            borderBottomColor: theme.colors.border,
+            backgroundColor: isCurrent ? theme.colors.highlight : 'transparent',
+            paddingLeft: 16 + (item.level - 1) * LEVEL_INDENT,
+          },
+        ]}
+        onPress={() => {
+          onSectionPress(item.lineIndex);
+          onClose();
+        }}
+        accessibilityRole="button"
+        accessibilityLabel={`Section: ${item.title}${item.searchCode ? `, code ${item.searchCode}` : ''}`}
+        accessibilityHint="Double tap to jump to this section"
+        accessibilityState={{ selected: isCurrent }}
+      >
+        <Text
+          style={[
+            styles.sectionTitle,
+            {
+              color: isCurrent ? '#000000' : theme.colors.link,
+              fontSize: item.level === 1 ? theme.typography.fontSize.sm : theme.typography.fontSize.xs,
+              fontWeight: item.level === 1 ? '600' : '400',
+            },
+          ]}
+          numberOfLines={2}
+        >
+          {item.title}
+        </Text>
+        {item.searchCode ? (
+          <Text
+            style={[
+              styles.searchCode,
+              {
+                color: isCurrent ? '#000000' : theme.colors.textSecondary,
+                fontSize: theme.typography.fontSize.xs,
+              },
+            ]}
+          >
+            {item.searchCode}
+          </Text>
+        ) : null}
+      </TouchableOpacity>
+    );
+  };
+
+  if (!isModalVisible) {
+    return null;
+  }
+
+  return (
+    <Modal
+      visible={isModalVisible}
+      transparent
+      animationType="none"
+      onRequestClose={onClose}
+      accessibilityViewIsModal={true}
+    >
+      <View style={{ flex: 1 }}>
+        {/* Backdrop */}
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={onClose}
+          accessibilityRole="button"
+          accessibilityLabel="Close table of contents"
+        >
+          <Animated.View
+            style={[
+              styles.bottomSheet,
+              {
+                backgroundColor: theme.colors.background,
+                transform: [
+                  {
+                    translateY: slideAnim.interpolate({
+                      inputRange: [0, 1],
+                      outputRange: [0, 1000],
+                    }),
+                  },
+                ],
+              },
+            ]}
+            onStartShouldSetResponder={() => true} // Prevent backdrop close when tapping sheet
+          >
+            <SafeAreaView style={{ flex: 1 }} edges={['bottom']}>
+              {/* Header */}
+              <View
+                style={[
+                  styles.header,
+                  {
+                    borderBottomColor: theme.colors.border,
+                  },
+                ]}
+              >
+                <Text
+                  style={[
+                    styles.headerTitle,
+                    {
+                      color: theme.colors.text,
+                      fontSize: theme.typography.fontSize.lg,
+                    },
+                  ]}
+                  accessibilityRole="header"
+                >
+                  Contents
+                </Text>
+                <TouchableOpacity
+                  onPress={onClose}
+                  accessibilityRole="button"
+                  accessibilityLabel="Close table of contents"
+                >
+                  <Ionicons name="close" size={24} color={theme.colors.text} />
+                </TouchableOpacity>
+              </View>
+
+              {/* Section List */}
+              {sections.length === 0 ? (
+                <View style={styles.emptyState}>
+                  <Text
+                    style={[
+                      styles.emptyText,
+                      {
+                        color: theme.colors.textSecondary,
+                        fontSize: theme.typography.fontSize.sm,
+                      },
+                    ]}
+                  >
+                    No table of contents found in this guide
+                  </Text>
+                </View>
+              ) : (
+                <FlatList
+                  data={sections}
+                  renderItem={renderSectionItem}
+                  keyExtractor={(item, index) => `${item.lineIndex}-${index}`}
+                  contentContainerStyle={styles.listContent}
+                  accessibilityRole="list"
+                />
+              )}
+            </SafeAreaView>
+          </Animated.View>
+        </TouchableOpacity>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    justifyContent: 'flex-end',
+  },
+  bottomSheet: {
+    height: '67%', // 2/3 of screen
+    width: '100%',
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderBottomWidth: 2,
+  },
+  headerTitle: {
+    fontWeight: '700',
+    fontSize: 18,
+  },
+  listContent: {
+    paddingVertical: 8,
+  },
+  sectionItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 10,
+    paddingRight: 16,
+    borderBottomWidth: 1,
+    minHeight: 44,
+  },
+  sectionTitle: {
+    flex: 1,
+    marginRight: 8,
+  },
+  searchCode: {
+    fontFamily: 'Courier',
+  },
+  emptyState: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingVertical: 40,
+  },
+  emptyText: {
+    textAlign: 'center',
+  },
+});
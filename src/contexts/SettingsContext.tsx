@@ -3,11 +3,14 @@
  *
  * Manages user preferences like theme, default font size, etc.
  * Server URL is stored separately in SecureStore for security.
+ * Library mode is owned by the data source, which loads it before the app renders.
  */
 
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { clearUrlCache, getBaseUrl, setBaseUrl, validateServerUrl } from '@/api/client';
+import { getLibraryMode, setLibraryMode, type LibraryMode } from '@/api/dataSource';
+import { DEFAULT_DOWNLOAD_CONCURRENCY } from '@/services/DownloadQueue';
 
 const SETTINGS_STORAGE_KEY = '@app_settings';
 
@@ -22,6 +25,8 @@ export interface Settings {
   defaultFontSize: number;
   useSystemTheme: boolean;
   serverUrl: string;
+  libraryMode: LibraryMode;
+  downloadConcurrency: number; // Guides downloaded at once
 }
 
 const DEFAULT_SETTINGS: Settings = {
@@ -29,6 +34,8 @@ const DEFAULT_SETTINGS: Settings = {
   defaultFontSize: 14,
   useSystemTheme: true,
   serverUrl: DEFAULT_SERVER_URL,
+  libraryMode: 'server',
+  downloadConcurrency: DEFAULT_DOWNLOAD_CONCURRENCY,
 };
 
 interface SettingsContextType {
@@ -66,6 +73,7 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
       // Load server URL from SecureStore (more secure for sensitive URLs)
       const serverUrl = await getBaseUrl();
       parsedSettings.serverUrl = serverUrl;
+      parsedSettings.libraryMode = getLibraryMode();
 
       setSettings(parsedSettings);
     } catch (error) {
@@ -82,13 +90,20 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
 
       // Save general settings to AsyncStorage (exclude serverUrl, it goes to SecureStore)
       const { serverUrl: _, ...settingsWithoutServerUrl } = newSettings;
-      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settingsWithoutServerUrl));
+      // Library mode is persisted by the data source
+      const generalSettings: Partial<Settings> = { ...settingsWithoutServerUrl };
+      delete generalSettings.libraryMode;
+      await AsyncStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(generalSettings));
 
       // If server URL changed, save to SecureStore
       if (updates.serverUrl !== undefined) {
         await setBaseUrl(updates.serverUrl);
         clearUrlCache();
       }
+
+      if (updates.libraryMode !== undefined) {
+        await setLibraryMode(updates.libraryMode);
+      }
     } catch (error) {
       if (__DEV__) console.error('Failed to save settings:', error);
       throw error;
@@ -97,7 +112,8 @@ export const SettingsProvider: React.FC<SettingsProviderProps> = ({ children })
 
   const resetSettings = async () => {
     try {
-      setSettings(DEFAULT_SETTINGS);
+      // Library mode is a data choice rather than a preference, so it survives a reset
+      setSettings({ ...DEFAULT_SETTINGS, libraryMode: getLibraryMode() });
       await AsyncStorage.removeItem(SETTINGS_STORAGE_KEY);
     } catch (error) {
       if (__DEV__) console.error('Failed to reset settings:', error);
@@ -0,0 +1,698 @@
+import * as SQLite from 'expo-sqlite';
+import { File } from 'expo-file-system/next';
+import { unzipSync } from 'fflate';
+import { runMigrations } from './migrations';
+import { toFtsQuery } from './schema';
+import GuideParserService, { type ParsedGuide } from '@/services/GuideParserService';
+import type {
+  Achievement,
+  Bookmark,
+  Game,
+  Guide,
+  GuideMetadata,
+  Note,
+  RetroAchievementsGameInfo,
+  TextEncoding,
+} from '@/types';
+import { decodeText, encodeText } from '@/utils/textEncoding';
+import { parseArchiveEntryUri } from '@/utils/archiveEntries';
+import type {
+  AchievementInput,
+  CreateBookmarkInput,
+  CreateGameInput,
+  CreateNoteInput,
+  GameResponse,
+  GameWithGuideCount,
+  GuideFilters,
+  GuideResponse,
+  GuideSummary,
+  GuidesFiltersResponse,
+  GuidesResponse,
+  PositionAnchorInput,
+  SearchResults,
+  SuccessResponse,
+  UpdateNoteInput,
+} from '@/api/types';
+
+const DB_NAME = 'local_library.db';
+
+// Columns returned for list views (content is replaced by its length)
+const SUMMARY_COLUMNS = `id, title, format, file_path, game_id, last_read_position, metadata,
+  created_at, updated_at, length(content) as content_length`;
+
+// SUMMARY_COLUMNS for queries joined with guides_fts, which shares some column names
+const JOINED_SUMMARY_COLUMNS = `g.id, g.title, g.format, g.file_path, g.game_id,
+  g.last_read_position, g.metadata, g.created_at, g.updated_at,
+  length(g.content) as content_length`;
+
+type BookmarkRow = Omit<Bookmark, 'is_last_read'> & { is_last_read: number };
+type AchievementRow = Omit<Achievement, 'is_pinned' | 'is_unlocked'> & {
+  is_pinned: number;
+  is_unlocked: number;
+};
+
+let db: SQLite.SQLiteDatabase | null = null;
+
+async function getDb(): Promise<SQLite.SQLiteDatabase> {
+  if (!db) {
+    db = await SQLite.openDatabaseAsync(DB_NAME);
+    await db.execAsync('PRAGMA foreign_keys = ON;');
+    runMigrations(db);
+  }
+  return db;
+}
+
+/**
+ * The bytes of an imported file, read back out of its archive for an archive
+ * member, or null when it is gone
+ */
+async function readOriginalBytes(filePath: string): Promise<Uint8Array | null> {
+  try {
+    const entry = parseArchiveEntryUri(filePath);
+    const file = new File(entry?.archiveUri ?? filePath);
+    if (!file.exists) return null;
+    const bytes = await file.bytes();
+    if (!entry) return bytes;
+    const { entryName } = entry;
+    return unzipSync(bytes, { filter: member => member.name === entryName })[entryName] ?? null;
+  } catch {
+    return null;
+  }
+}
+
+function generateId(prefix: string): string {
+  return `${prefix}_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function toBookmark(row: BookmarkRow): Bookmark {
+  return { ...row, is_last_read: row.is_last_read === 1 };
+}
+
+function toAchievement(row: AchievementRow): Achievement {
+  return { ...row, is_pinned: row.is_pinned === 1, is_unlocked: row.is_unlocked === 1 };
+}
+
+function parseMetadata(metadata: string | null | undefined): GuideMetadata {
+  if (!metadata) return {};
+  try {
+    return JSON.parse(metadata);
+  } catch {
+    return {};
+  }
+}
+
+function buildFilterClause(filters?: GuideFilters): { where: string; params: string[] } {
+  const conditions: string[] = [];
+  const params: string[] = [];
+
+  if (filters?.platform) {
+    conditions.push(`json_extract(metadata, '$.platform') = ?`);
+    params.push(filters.platform);
+  }
+
+  if (filters?.tags && filters.tags.length > 0) {
+    const tagCondition = `EXISTS (SELECT 1 FROM json_each(guides.metadata, '$.tags') WHERE value = ?)`;
+    const tagConditions = filters.tags.map(() => tagCondition);
+    conditions.push(`(${tagConditions.join(filters.tagMatch === 'all' ? ' AND ' : ' OR ')})`);
+    params.push(...filters.tags);
+  }
+
+  return {
+    where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+    params,
+  };
+}
+
+/**
+ * On-device guide library backed by the bundled schema.
+ * Responses mirror the companion server's so query hooks work unchanged.
+ */
+export const localLibrary = {
+  async initialize(): Promise<void> {
+    await getDb();
+  },
+
+  /**
+   * Parse a txt/html/md file and add it to the library
+   */
+  async importGuide(filePath: string): Promise<Guide> {
+    const parsed = await GuideParserService.parseGuide(filePath);
+    return this.addGuide(parsed, filePath);
+  },
+
+  /**
+   * Store an already parsed guide; metadata overrides what the parser extracted
+   */
+  async addGuide(parsed: ParsedGuide, filePath: string, metadata?: GuideMetadata): Promise<Guide> {
+    const database = await getDb();
+    const now = Date.now();
+
+    const guide: Guide = {
+      id: generateId('local'),
+      title: parsed.title,
+      content: parsed.content,
+      format: parsed.format,
+      file_path: filePath,
+      game_id: null,
+      last_read_position: null,
+      metadata: JSON.stringify(metadata ?? parsed.metadata),
+      created_at: now,
+      updated_at: now,
+    };
+
+    await database.runAsync(
+      `INSERT INTO guides
+       (id, title, content, format, file_path, game_id, last_read_position, metadata, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        guide.id,
+        guide.title,
+        guide.content,
+        guide.format,
+        guide.file_path,
+        null,
+        null,
+        guide.metadata ?? null,
+        guide.created_at,
+        guide.updated_at,
+      ]
+    );
+
+    return guide;
+  },
+
+  async getAllGuides(): Promise<{ data: GuideSummary[] }> {
+    const database = await getDb();
+    const data = await database.getAllAsync<GuideSummary>(
+      `SELECT ${SUMMARY_COLUMNS} FROM guides ORDER BY title COLLATE NOCASE`
+    );
+    return { data };
+  },
+
+  // Link a guide to a game, or unlink it with null
+  async setGuideGame(guideId: string, gameId: string | null): Promise<SuccessResponse> {
+    const database = await getDb();
+    await database.runAsync('UPDATE guides SET game_id = ?, updated_at = ? WHERE id = ?', [
+      gameId,
+      Date.now(),
+      guideId,
+    ]);
+    return { success: true };
+  },
+
+  async getImportedFilePaths(): Promise<Set<string>> {
+    const database = await getDb();
+    const rows = await database.getAllAsync<{ file_path: string }>('SELECT file_path FROM guides');
+    return new Set(rows.map(row => row.file_path));
+  },
+
+  async getGuides(page = 1, limit = 20, filters?: GuideFilters): Promise<GuidesResponse> {
+    const database = await getDb();
+    const { where, params } = buildFilterClause(filters);
+
+    const countResult = await database.getFirstAsync<{ count: number }>(
+      `SELECT COUNT(*) as count FROM guides ${where}`,
+      params
+    );
+    const total = countResult?.count ?? 0;
+
+    const data = await database.getAllAsync<GuideSummary>(
+      `SELECT ${SUMMARY_COLUMNS} FROM guides ${where}
+       ORDER BY title COLLATE NOCASE LIMIT ? OFFSET ?`,
+      [...params, limit, (page - 1) * limit]
+    );
+
+    return {
+      data,
+      pagination: { page, limit, total, totalPages: Math.ceil(total / limit) },
+    };
+  },
+
+  async getFilters(): Promise<GuidesFiltersResponse> {
+    const database = await getDb();
+    const platforms = await database.getAllAsync<{ value: string }>(
+      `SELECT DISTINCT json_extract(metadata, '$.platform') as value FROM guides
+       WHERE value IS NOT NULL ORDER BY value`
+    );
+    const tags = await database.getAllAsync<{ value: string }>(
+      `SELECT DISTINCT tag.value as value FROM guides, json_each(guides.metadata, '$.tags') as tag
+       ORDER BY tag.value`
+    );
+    return {
+      platforms: platforms.map(row => row.value),
+      tags: tags.map(row => row.value),
+    };
+  },
+
+  async getGuide(id: string): Promise<GuideResponse> {
+    const database = await getDb();
+    const guide = await database.getFirstAsync<Guide>('SELECT * FROM guides WHERE id = ?', [id]);
+    if (!guide) throw new Error('Guide not found');
+    return { data: guide };
+  },
+
+  /**
+   * Full-text search: title matches first, then guides matching only on content
+   */
+  async searchGuides(query: string, limit = 50): Promise<SearchResults> {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return { guides: [], content: [], query, total: 0 };
+
+    const database = await getDb();
+    // Best matches first
+    const search = (match: string) =>
+      database.getAllAsync<GuideSummary>(
+        `SELECT ${JOINED_SUMMARY_COLUMNS}
+         FROM guides_fts
+         JOIN guides g ON g.id = guides_fts.guide_id
+         WHERE guides_fts MATCH ?
+         ORDER BY rank
+         LIMIT ?`,
+        [match, limit]
+      );
+
+    const guides = await search(`title : (${ftsQuery})`);
+    const titleMatchIds = new Set(guides.map(guide => guide.id));
+    const contentMatches = await search(`content : (${ftsQuery})`);
+    const content = contentMatches.filter(guide => !titleMatchIds.has(guide.id));
+
+    return { guides, content, query, total: guides.length + content.length };
+  },
+
+  /**
+   * Save the reading position as the guide's last-read bookmark
+   */
+  async updatePosition(
+    id: string,
+    position: number,
+    anchor?: PositionAnchorInput
+  ): Promise<SuccessResponse> {
+    const database = await getDb();
+    await database.runAsync('UPDATE guides SET last_read_position = ? WHERE id = ?', [
+      position,
+      id,
+    ]);
+    await this.createBookmark(id, {
+      position,
+      line_index: anchor?.line_index ?? null,
+      fingerprint: anchor?.fingerprint ?? null,
+      is_last_read: true,
+    });
+    return { success: true };
+  },
+
+  async updateGuideMetadata(
+    id: string,
+    updates: {
+      title?: string;
+      author?: string;
+      platform?: string;
+      tags?: string[];
+      encoding?: TextEncoding;
+    }
+  ): Promise<GuideResponse> {
+    const { data: guide } = await this.getGuide(id);
+    const metadata = parseMetadata(guide.metadata);
+    if (updates.author) metadata.author = updates.author;
+    if (updates.platform) metadata.platform = updates.platform;
+    if (updates.tags) metadata.tags = updates.tags;
+
+    // Re-decode with the chosen encoding, from the imported file while it is still there.
+    // Otherwise the text is turned back into bytes, which cannot restore bytes the first
+    // decode replaced with U+FFFD. Guides imported before detection existed were read as UTF-8.
+    let content = guide.content;
+    const previousEncoding = metadata.encoding ?? 'utf-8';
+    if (updates.encoding && updates.encoding !== previousEncoding) {
+      const bytes = await readOriginalBytes(guide.file_path);
+      content = bytes
+        ? GuideParserService.parseGuideBytes(bytes, guide.file_path, updates.encoding).content
+        : decodeText(encodeText(content, previousEncoding), updates.encoding);
+      metadata.encoding = updates.encoding;
+    }
+
+    const updated: Guide = {
+      ...guide,
+      title: updates.title || guide.title,
+      content,
+      metadata: JSON.stringify(metadata),
+      updated_at: Date.now(),
+    };
+
+    const database = await getDb();
+    await database.runAsync(
+      'UPDATE guides SET title = ?, content = ?, metadata = ?, updated_at = ? WHERE id = ?',
+      [updated.title, updated.content, updated.metadata ?? null, updated.updated_at, id]
+    );
+    return { data: updated };
+  },
+
+  async deleteGuide(id: string): Promise<SuccessResponse> {
+    const database = await getDb();
+    await database.runAsync('DELETE FROM guides WHERE id = ?', [id]);
+    return { success: true };
+  },
+
+  // Game operations
+  async getGamesWithGuides(): Promise<{ data: GameWithGuideCount[] }> {
+    const database = await getDb();
+    const data = await database.getAllAsync<GameWithGuideCount>(
+      `SELECT games.*, COUNT(guides.id) as guide_count FROM games
+       LEFT JOIN guides ON guides.game_id = games.id
+       GROUP BY games.id ORDER BY games.title COLLATE NOCASE`
+    );
+    return { data };
+  },
+
+  async getGames(): Promise<{ data: Game[] }> {
+    const database = await getDb();
+    const data = await database.getAllAsync<Game>(
+      'SELECT * FROM games ORDER BY title COLLATE NOCASE'
+    );
+    return { data };
+  },
+
+  async createGame(input: CreateGameInput): Promise<{ data: Game }> {
+    const database = await getDb();
+    const now = Date.now();
+
+    const game: Game = {
+      id: generateId('game'),
+      title: input.title,
+      ra_game_id: input.ra_game_id ?? null,
+      platform: input.platform ?? null,
+      completion_percentage: 0,
+      status: 'not_started',
+      artwork_url: input.artwork_url ?? null,
+      metadata: input.metadata ? JSON.stringify(input.metadata) : null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await database.runAsync(
+      `INSERT INTO games
+       (id, title, ra_game_id, platform, completion_percentage, status, artwork_url, metadata, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        game.id,
+        game.title,
+        game.ra_game_id ?? null,
+        game.platform ?? null,
+        game.completion_percentage,
+        game.status,
+        game.artwork_url ?? null,
+        game.metadata ?? null,
+        now,
+        now,
+      ]
+    );
+
+    return { data: game };
+  },
+
+  async getGame(id: string): Promise<GameResponse> {
+    const database = await getDb();
+    const game = await database.getFirstAsync<Game>('SELECT * FROM games WHERE id = ?', [id]);
+    if (!game) throw new Error('Game not found');
+    return { data: game };
+  },
+
+  async getGameGuides(id: string): Promise<{ data: GuideSummary[] }> {
+    const database = await getDb();
+    const data = await database.getAllAsync<GuideSummary>(
+      `SELECT ${SUMMARY_COLUMNS} FROM guides WHERE game_id = ? ORDER BY title COLLATE NOCASE`,
+      [id]
+    );
+    return { data };
+  },
+
+  async updateGameStatus(id: string, status: Game['status']): Promise<SuccessResponse> {
+    const database = await getDb();
+    await database.runAsync('UPDATE games SET status = ?, updated_at = ? WHERE id = ?', [
+      status,
+      Date.now(),
+      id,
+    ]);
+    return { success: true };
+  },
+
+  async updateGameCompletion(id: string, percentage: number): Promise<SuccessResponse> {
+    const database = await getDb();
+    await database.runAsync(
+      'UPDATE games SET completion_percentage = ?, updated_at = ? WHERE id = ?',
+      [Math.min(Math.max(percentage, 0), 100), Date.now(), id]
+    );
+    return { success: true };
+  },
+
+  // Achievement operations
+  /**
+   * Find the game linked to a RetroAchievements game, creating it on first sync.
+   * Status and completion of an existing game are left to the user.
+   */
+  async upsertRetroAchievementsGame(info: RetroAchievementsGameInfo): Promise<Game> {
+    const database = await getDb();
+    const now = Date.now();
+    const existing = await database.getFirstAsync<Game>(
+      'SELECT * FROM games WHERE ra_game_id = ?',
+      [info.id]
+    );
+
+    if (existing) {
+      await database.runAsync(
+        `UPDATE games SET platform = COALESCE(platform, ?), artwork_url = COALESCE(artwork_url, ?),
+         updated_at = ? WHERE id = ?`,
+        [info.console || null, info.imageIcon || null, now, existing.id]
+      );
+      return (await this.getGame(existing.id)).data;
+    }
+
+    const game: Game = {
+      id: generateId('game'),
+      title: info.title,
+      ra_game_id: info.id,
+      platform: info.console || null,
+      completion_percentage: Math.min(Math.max(parseFloat(info.userCompletion) || 0, 0), 100),
+      status:
+        info.numAwardedToUser === 0
+          ? 'not_started'
+          : info.numAwardedToUser >= info.numAchievements
+            ? 'completed'
+            : 'in_progress',
+      artwork_url: info.imageIcon || null,
+      metadata: null,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await database.runAsync(
+      `INSERT INTO games
+       (id, title, ra_game_id, platform, completion_percentage, status, artwork_url, metadata, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        game.id,
+        game.title,
+        info.id,
+        game.platform ?? null,
+        game.completion_percentage,
+        game.status,
+        game.artwork_url ?? null,
+        null,
+        now,
+        now,
+      ]
+    );
+
+    return game;
+  },
+
+  async getAchievements(gameId: string): Promise<{ data: Achievement[] }> {
+    const database = await getDb();
+    const rows = await database.getAllAsync<AchievementRow>(
+      'SELECT * FROM achievements WHERE game_id = ? ORDER BY rowid',
+      [gameId]
+    );
+    return { data: rows.map(toAchievement) };
+  },
+
+  async getAchievementsByRaGameId(raGameId: string): Promise<{ data: Achievement[] }> {
+    const database = await getDb();
+    const rows = await database.getAllAsync<AchievementRow>(
+      `SELECT achievements.* FROM achievements
+       JOIN games ON games.id = achievements.game_id
+       WHERE games.ra_game_id = ? ORDER BY achievements.rowid`,
+      [raGameId]
+    );
+    return { data: rows.map(toAchievement) };
+  },
+
+  async setAchievementPinned(id: string, pinned: boolean): Promise<SuccessResponse> {
+    const database = await getDb();
+    await database.runAsync('UPDATE achievements SET is_pinned = ?, updated_at = ? WHERE id = ?', [
+      pinned ? 1 : 0,
+      Date.now(),
+      id,
+    ]);
+    return { success: true };
+  },
+
+  // Re-syncing refreshes unlock state but keeps what the user pinned
+  async saveAchievements(gameId: string, achievements: AchievementInput[]): Promise<void> {
+    const database = await getDb();
+    const now = Date.now();
+
+    for (const achievement of achievements) {
+      await database.runAsync(
+        `INSERT INTO achievements
+         (id, ra_achievement_id, game_id, title, description, points, badge_url, is_pinned,
+          is_unlocked, unlock_time, created_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, 0, ?, ?, ?, ?)
+         ON CONFLICT(ra_achievement_id, game_id) DO UPDATE SET
+           title = excluded.title,
+           description = excluded.description,
+           points = excluded.points,
+           badge_url = excluded.badge_url,
+           is_unlocked = excluded.is_unlocked,
+           unlock_time = excluded.unlock_time,
+           updated_at = excluded.updated_at`,
+        [
+          generateId('achievement'),
+          achievement.ra_achievement_id,
+          gameId,
+          achievement.title,
+          achievement.description,
+          achievement.points ?? null,
+          achievement.badge_url ?? null,
+          achievement.is_unlocked ? 1 : 0,
+          achievement.unlock_time ?? null,
+          now,
+          now,
+        ]
+      );
+    }
+  },
+
+  // Bookmark operations
+  async getBookmarks(guideId: string): Promise<{ data: Bookmark[] }> {
+    const database = await getDb();
+    const rows = await database.getAllAsync<BookmarkRow>(
+      'SELECT * FROM bookmarks WHERE guide_id = ? ORDER BY position ASC',
+      [guideId]
+    );
+    return { data: rows.map(toBookmark) };
+  },
+
+  async createBookmark(guideId: string, input: CreateBookmarkInput): Promise<{ data: Bookmark }> {
+    const database = await getDb();
+
+    // A guide only has one last-read position
+    if (input.is_last_read) {
+      await database.runAsync('DELETE FROM bookmarks WHERE guide_id = ? AND is_last_read = 1', [
+        guideId,
+      ]);
+    }
+
+    const bookmark: Bookmark = {
+      id: generateId('bookmark'),
+      guide_id: guideId,
+      position: input.position,
+      line_index: input.line_index ?? null,
+      fingerprint: input.fingerprint ?? null,
+      name: input.name ?? null,
+      page_reference: input.page_reference ?? null,
+      is_last_read: input.is_last_read ?? false,
+      created_at: Date.now(),
+    };
+
+    await database.runAsync(
+      `INSERT INTO bookmarks
+       (id, guide_id, position, line_index, fingerprint, name, page_reference, is_last_read, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        bookmark.id,
+        guideId,
+        bookmark.position,
+        bookmark.line_index ?? null,
+        bookmark.fingerprint ?? null,
+        bookmark.name ?? null,
+        bookmark.page_reference ?? null,
+        bookmark.is_last_read ? 1 : 0,
+        bookmark.created_at,
+      ]
+    );
+
+    return { data: bookmark };
+  },
+
+  async deleteBookmark(guideId: string, bookmarkId: string): Promise<SuccessResponse> {
+    const database = await getDb();
+    await database.runAsync('DELETE FROM bookmarks WHERE id = ? AND guide_id = ?', [
+      bookmarkId,
+      guideId,
+    ]);
+    return { success: true };
+  },
+
+  // Note operations
+  async getNotes(guideId: string): Promise<{ data: Note[] }> {
+    const database = await getDb();
+    const notes = await database.getAllAsync<Note>(
+      'SELECT * FROM notes WHERE guide_id = ? ORDER BY created_at ASC',
+      [guideId]
+    );
+    return { data: notes };
+  },
+
+  async createNote(guideId: string, input: CreateNoteInput): Promise<{ data: Note }> {
+    const database = await getDb();
+    const now = Date.now();
+    const note: Note = {
+      id: generateId('note'),
+      guide_id: guideId,
+      position: input.position ?? null,
+      content: input.content,
+      created_at: now,
+      updated_at: now,
+    };
+
+    await database.runAsync(
+      `INSERT INTO notes (id, guide_id, position, content, created_at, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?)`,
+      [note.id, guideId, note.position ?? null, note.content, note.created_at, note.updated_at]
+    );
+
+    return { data: note };
+  },
+
+  async updateNote(
+    guideId: string,
+    noteId: string,
+    input: UpdateNoteInput
+  ): Promise<{ data: Note }> {
+    const database = await getDb();
+    const existing = await database.getFirstAsync<Note>(
+      'SELECT * FROM notes WHERE id = ? AND guide_id = ?',
+      [noteId, guideId]
+    );
+    if (!existing) throw new Error('Note not found');
+
+    const note: Note = {
+      ...existing,
+      position: input.position !== undefined ? input.position : existing.position,
+      content: input.content ?? existing.content,
+      updated_at: Date.now(),
+    };
+
+    await database.runAsync(
+      'UPDATE notes SET position = ?, content = ?, updated_at = ? WHERE id = ?',
+      [note.position ?? null, note.content, note.updated_at, noteId]
+    );
+
+    return { data: note };
+  },
+
+  async deleteNote(guideId: string, noteId: string): Promise<SuccessResponse> {
+    const database = await getDb();
+    await database.runAsync('DELETE FROM notes WHERE id = ? AND guide_id = ?', [noteId, guideId]);
+    return { success: true };
+  },
+};
@@ -54,8 +54,41 @@ const migration_v1: Migration = {
   },
 };
 
+// Add a column unless it already exists (fresh installs get it from CREATE_TABLES)
+function addColumnIfMissing(
+  db: SQLiteDatabase,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const existing = db.getFirstSync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM pragma_table_info('${table}') WHERE name = ?`,
+    [column]
+  );
+  if ((existing?.count ?? 0) === 0) {
+    db.execSync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Migration v3: Content anchors for bookmarks, FTS reindex only on title/content changes
+const migration_v3: Migration = {
+  version: 3,
+  up: (db: SQLiteDatabase) => {
+    addColumnIfMissing(db, 'bookmarks', 'line_index', 'INTEGER');
+    addColumnIfMissing(db, 'bookmarks', 'fingerprint', 'TEXT');
+
+    // Saving a reading position shouldn't rewrite the guide's FTS row
+    db.execSync('DROP TRIGGER IF EXISTS guides_fts_update');
+    db.execSync(FULL_TEXT_SEARCH.guides_fts_update);
+
+    db.execSync(
+      `INSERT OR REPLACE INTO schema_version (version, applied_at) VALUES (3, ${Date.now()})`
+    );
+  },
+};
+
 // All migrations in order
-export const migrations: Migration[] = [migration_v1];
+export const migrations: Migration[] = [migration_v1, migration_v3];
 
 // Get current schema version from database
 export function getCurrentVersion(db: SQLiteDatabase): number {
@@ -1,10 +1,96 @@
 import * as SQLite from 'expo-sqlite';
-import type { Guide } from '@/types';
+import { OFFLINE_FULL_TEXT_SEARCH, toFtsQuery } from './schema';
+import { SNIPPET_MATCH_END, SNIPPET_MATCH_START } from '@/utils/textSearch';
+import type { SearchResultGuide, SearchResults } from '@/api/types';
+import type { Bookmark, Guide, Note } from '@/types';
 
 const DB_NAME = 'offline_cache.db';
 
+// Columns of a mirrored note that make up a Note
+const NOTE_COLUMNS = 'id, guide_id, position, content, created_at, updated_at';
+
+// bm25 column weights (guide_id, title, content): title hits rank well above content hits
+const SEARCH_RANK = 'bm25(downloaded_guides_fts, 0.0, 10.0, 1.0)';
+
+// Approximate number of words in a search snippet
+const SNIPPET_TOKENS = 16;
+
+/**
+ * Prefix of IDs given to bookmarks and notes created offline, until the
+ * server assigns real ones during sync
+ */
+export const TEMP_ID_PREFIX = 'temp_';
+
+export function createTempId(): string {
+  return `${TEMP_ID_PREFIX}${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export function isTempId(id: string): boolean {
+  return id.startsWith(TEMP_ID_PREFIX);
+}
+
+/**
+ * A queued offline change. Failed attempts push next_attempt_at back;
+ * failed_at is set once the change is given up on. A change that clashed
+ * with an edit made elsewhere keeps the server's copy in conflict.
+ */
+export interface SyncQueueRow {
+  id: number;
+  type: string;
+  action: string;
+  payload: Record<string, unknown>;
+  created_at: number;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: number;
+  failed_at: number | null;
+  conflict: Note | null;
+}
+
+export type DownloadQueueStatus = 'pending' | 'paused' | 'error';
+
+/**
+ * A guide waiting to be downloaded. Failed attempts push next_attempt_at
+ * back; paused and failed downloads stay queued until resumed or cancelled.
+ */
+export interface DownloadQueueRow {
+  guide_id: string;
+  title: string | null;
+  status: DownloadQueueStatus;
+  attempts: number;
+  last_error: string | null;
+  next_attempt_at: number;
+  created_at: number;
+}
+
+type BookmarkRow = Omit<Bookmark, 'is_last_read'> & { is_last_read: number };
+
+function toBookmark(row: BookmarkRow): Bookmark {
+  return { ...row, is_last_read: row.is_last_read === 1 };
+}
+
 let db: SQLite.SQLiteDatabase | null = null;
 
+/**
+ * IDs of a type's records with an edit or delete still waiting in the sync
+ * queue, which a refresh from the server must not overwrite
+ */
+async function getQueuedRecordIds(type: string, idField: string): Promise<string[]> {
+  const rows = await db!.getAllAsync<{ id: string }>(
+    `SELECT DISTINCT json_extract(payload, ?) as id FROM sync_queue
+     WHERE type = ? AND action IN ('update', 'delete') AND json_extract(payload, ?) IS NOT NULL`,
+    [`$.${idField}`, type, `$.${idField}`]
+  );
+  return rows.map((row) => row.id);
+}
+
+function placeholders(values: unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+// Set while SyncManager is sending the queue, which it read before any new edit
+let syncInProgress = false;
+
 async function getDb(): Promise<SQLite.SQLiteDatabase> {
   if (!db) {
     db = await SQLite.openDatabaseAsync(DB_NAME);
@@ -36,7 +122,12 @@ async function initializeSchema(): Promise<void> {
       type TEXT NOT NULL,
       action TEXT NOT NULL,
       payload TEXT NOT NULL,
-      created_at INTEGER NOT NULL
+      created_at INTEGER NOT NULL,
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at INTEGER NOT NULL DEFAULT 0,
+      failed_at INTEGER,
+      conflict TEXT
     );
 
     CREATE INDEX IF NOT EXISTS idx_downloaded_guides_downloaded_at
@@ -44,7 +135,91 @@ async function initializeSchema(): Promise<void> {
 
     CREATE INDEX IF NOT EXISTS idx_sync_queue_created_at
     ON sync_queue(created_at);
+
+    CREATE TABLE IF NOT EXISTS bookmarks (
+      id TEXT PRIMARY KEY,
+      guide_id TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      line_index INTEGER,
+      fingerprint TEXT,
+      name TEXT,
+      page_reference TEXT,
+      is_last_read INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS notes (
+      id TEXT PRIMARY KEY,
+      guide_id TEXT NOT NULL,
+      position INTEGER,
+      content TEXT NOT NULL,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL,
+      server_updated_at INTEGER
+    );
+
+    CREATE TABLE IF NOT EXISTS sync_id_map (
+      local_id TEXT PRIMARY KEY,
+      server_id TEXT NOT NULL,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE IF NOT EXISTS download_queue (
+      guide_id TEXT PRIMARY KEY,
+      title TEXT,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      last_error TEXT,
+      next_attempt_at INTEGER NOT NULL DEFAULT 0,
+      created_at INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_bookmarks_guide_id ON bookmarks(guide_id);
+    CREATE INDEX IF NOT EXISTS idx_notes_guide_id ON notes(guide_id);
   `);
+
+  // Queues created before retries were tracked
+  await addColumnIfMissing('sync_queue', 'attempts', 'INTEGER NOT NULL DEFAULT 0');
+  await addColumnIfMissing('sync_queue', 'last_error', 'TEXT');
+  await addColumnIfMissing('sync_queue', 'next_attempt_at', 'INTEGER NOT NULL DEFAULT 0');
+  await addColumnIfMissing('sync_queue', 'failed_at', 'INTEGER');
+  await addColumnIfMissing('sync_queue', 'conflict', 'TEXT');
+  // Notes mirrored before the server's version was kept apart from local edits
+  await addColumnIfMissing('notes', 'server_updated_at', 'INTEGER');
+
+  await database.execAsync(OFFLINE_FULL_TEXT_SEARCH.downloaded_guides_fts);
+  await database.execAsync(OFFLINE_FULL_TEXT_SEARCH.downloaded_guides_fts_insert);
+  await database.execAsync(OFFLINE_FULL_TEXT_SEARCH.downloaded_guides_fts_update);
+  await database.execAsync(OFFLINE_FULL_TEXT_SEARCH.downloaded_guides_fts_delete);
+  await database.execAsync(OFFLINE_FULL_TEXT_SEARCH.downloaded_guides_fts_backfill);
+}
+
+async function addColumnIfMissing(
+  table: string,
+  column: string,
+  definition: string
+): Promise<void> {
+  const database = db!;
+  const existing = await database.getFirstAsync<{ count: number }>(
+    `SELECT COUNT(*) as count FROM pragma_table_info('${table}') WHERE name = ?`,
+    [column]
+  );
+  if ((existing?.count ?? 0) === 0) {
+    await database.execAsync(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+type StoredSyncQueueRow = Omit<SyncQueueRow, 'payload' | 'conflict'> & {
+  payload: string;
+  conflict: string | null;
+};
+
+function toSyncQueueRow(row: StoredSyncQueueRow): SyncQueueRow {
+  return {
+    ...row,
+    payload: JSON.parse(row.payload),
+    conflict: row.conflict ? JSON.parse(row.conflict) : null,
+  };
 }
 
 export const offlineCache = {
@@ -104,6 +279,39 @@ export const offlineCache = {
     return results.map((r) => r.id);
   },
 
+  /**
+   * Full-text search over downloaded guides, best first: title matches, then
+   * guides matching only on content, each with a snippet of the content
+   */
+  async searchGuides(query: string, limit = 50): Promise<SearchResults> {
+    const ftsQuery = toFtsQuery(query);
+    if (!ftsQuery) return { guides: [], content: [], query, total: 0 };
+
+    const database = await getDb();
+    const matches = await database.getAllAsync<SearchResultGuide>(
+      `SELECT d.id, d.title, d.format, d.file_path, d.game_id, d.last_read_position, d.metadata,
+              d.created_at, d.updated_at, length(d.content) AS content_length,
+              snippet(downloaded_guides_fts, 2, ?, ?, '…', ?) AS snippet
+       FROM downloaded_guides_fts
+       JOIN downloaded_guides d ON d.id = downloaded_guides_fts.guide_id
+       WHERE downloaded_guides_fts MATCH ?
+       ORDER BY ${SEARCH_RANK}
+       LIMIT ?`,
+      [SNIPPET_MATCH_START, SNIPPET_MATCH_END, SNIPPET_TOKENS, ftsQuery, limit]
+    );
+
+    const titleMatches = await database.getAllAsync<{ guide_id: string }>(
+      'SELECT guide_id FROM downloaded_guides_fts WHERE downloaded_guides_fts MATCH ?',
+      [`title : (${ftsQuery})`]
+    );
+    const titleMatchIds = new Set(titleMatches.map((match) => match.guide_id));
+
+    const guides = matches.filter((guide) => titleMatchIds.has(guide.id));
+    const content = matches.filter((guide) => !titleMatchIds.has(guide.id));
+
+    return { guides, content, query, total: matches.length };
+  },
+
   async deleteGuide(id: string): Promise<void> {
     const database = await getDb();
     await database.runAsync('DELETE FROM downloaded_guides WHERE id = ?', [id]);
@@ -131,6 +339,208 @@ export const offlineCache = {
     return result?.count ?? 0;
   },
 
+  // Bookmark operations - a mirror of the server's bookmarks plus any created offline
+
+  async getBookmarks(guideId: string): Promise<Bookmark[]> {
+    const database = await getDb();
+    const rows = await database.getAllAsync<BookmarkRow>(
+      'SELECT * FROM bookmarks WHERE guide_id = ? ORDER BY position ASC, created_at ASC',
+      [guideId]
+    );
+    return rows.map(toBookmark);
+  },
+
+  /**
+   * Replace a guide's mirrored bookmarks with the server's, keeping the ones
+   * created offline and any deletes that haven't synced yet
+   */
+  async saveBookmarks(guideId: string, bookmarks: Bookmark[]): Promise<void> {
+    const database = await getDb();
+    const queued = await getQueuedRecordIds('bookmark', 'bookmarkId');
+    await database.runAsync(
+      `DELETE FROM bookmarks
+       WHERE guide_id = ? AND id NOT LIKE '${TEMP_ID_PREFIX}%'
+         AND id NOT IN (${placeholders(queued)})`,
+      [guideId, ...queued]
+    );
+    for (const bookmark of bookmarks) {
+      if (!queued.includes(bookmark.id)) await this.saveBookmark(bookmark);
+    }
+  },
+
+  async saveBookmark(bookmark: Bookmark): Promise<void> {
+    const database = await getDb();
+    await database.runAsync(
+      `INSERT OR REPLACE INTO bookmarks
+       (id, guide_id, position, line_index, fingerprint, name, page_reference, is_last_read, created_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+      [
+        bookmark.id,
+        bookmark.guide_id,
+        bookmark.position,
+        bookmark.line_index ?? null,
+        bookmark.fingerprint ?? null,
+        bookmark.name ?? null,
+        bookmark.page_reference ?? null,
+        bookmark.is_last_read ? 1 : 0,
+        bookmark.created_at,
+      ]
+    );
+  },
+
+  async deleteBookmark(id: string): Promise<void> {
+    const database = await getDb();
+    await database.runAsync('DELETE FROM bookmarks WHERE id = ?', [id]);
+  },
+
+  /**
+   * Swap a bookmark created offline for the one the server created from it
+   */
+  async replaceBookmarkId(tempId: string, bookmark: Bookmark): Promise<void> {
+    await this.deleteBookmark(tempId);
+    await this.saveBookmark(bookmark);
+  },
+
+  /**
+   * Move the guide's last-read bookmark, as the server does on a position update
+   */
+  async saveLastReadPosition(
+    guideId: string,
+    position: number,
+    lineIndex: number | null,
+    fingerprint: string | null
+  ): Promise<void> {
+    const database = await getDb();
+    const existing = await database.getFirstAsync<BookmarkRow>(
+      'SELECT * FROM bookmarks WHERE guide_id = ? AND is_last_read = 1',
+      [guideId]
+    );
+
+    // Not a temp ID: position updates sync through the guide, and the server's
+    // last-read bookmark replaces this one on the next refresh
+    await this.saveBookmark({
+      id: existing?.id ?? `last_read_${guideId}`,
+      guide_id: guideId,
+      position,
+      line_index: lineIndex,
+      fingerprint,
+      is_last_read: true,
+      created_at: existing?.created_at ?? Date.now(),
+    });
+  },
+
+  // Note operations - a mirror of the server's notes plus any created offline.
+  // server_updated_at keeps the server's version of a note through local
+  // edits, as the base that offline edits are checked for conflicts against.
+
+  async getNotes(guideId: string): Promise<Note[]> {
+    const database = await getDb();
+    return database.getAllAsync<Note>(
+      `SELECT ${NOTE_COLUMNS} FROM notes WHERE guide_id = ? ORDER BY created_at ASC`,
+      [guideId]
+    );
+  },
+
+  /**
+   * Replace a guide's mirrored notes with the server's, keeping the ones
+   * created offline and any edits or deletes that haven't synced yet
+   */
+  async saveNotes(guideId: string, notes: Note[]): Promise<void> {
+    const database = await getDb();
+    const queued = await getQueuedRecordIds('note', 'noteId');
+    await database.runAsync(
+      `DELETE FROM notes
+       WHERE guide_id = ? AND id NOT LIKE '${TEMP_ID_PREFIX}%'
+         AND id NOT IN (${placeholders(queued)})`,
+      [guideId, ...queued]
+    );
+    for (const note of notes) {
+      if (!queued.includes(note.id)) await this.saveNote(note);
+    }
+  },
+
+  /**
+   * Store a note as the server sent it, or one created offline, which has no
+   * server version yet
+   */
+  async saveNote(note: Note): Promise<void> {
+    const database = await getDb();
+    await database.runAsync(
+      `INSERT OR REPLACE INTO notes
+         (id, guide_id, position, content, created_at, updated_at, server_updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [
+        note.id,
+        note.guide_id,
+        note.position ?? null,
+        note.content,
+        note.created_at,
+        note.updated_at,
+        isTempId(note.id) ? null : note.updated_at,
+      ]
+    );
+  },
+
+  async getNote(id: string): Promise<Note | null> {
+    const database = await getDb();
+    return database.getFirstAsync<Note>(`SELECT ${NOTE_COLUMNS} FROM notes WHERE id = ?`, [id]);
+  },
+
+  // The server's version of a note, whatever local edits were made since
+  async getNoteServerUpdatedAt(id: string): Promise<number | null> {
+    const database = await getDb();
+    const result = await database.getFirstAsync<{ server_updated_at: number | null }>(
+      'SELECT server_updated_at FROM notes WHERE id = ?',
+      [id]
+    );
+    return result?.server_updated_at ?? null;
+  },
+
+  async setNoteServerUpdatedAt(id: string, updatedAt: number): Promise<void> {
+    const database = await getDb();
+    await database.runAsync('UPDATE notes SET server_updated_at = ? WHERE id = ?', [
+      updatedAt,
+      id,
+    ]);
+  },
+
+  /**
+   * Apply a local edit. The server version it was made against is kept.
+   */
+  async updateNote(
+    id: string,
+    updates: { position?: number | null; content?: string }
+  ): Promise<Note | null> {
+    const note = await this.getNote(id);
+    if (!note) return null;
+
+    const updated: Note = {
+      ...note,
+      position: updates.position !== undefined ? updates.position : note.position,
+      content: updates.content ?? note.content,
+      updated_at: Date.now(),
+    };
+    const database = await getDb();
+    await database.runAsync(
+      'UPDATE notes SET position = ?, content = ?, updated_at = ? WHERE id = ?',
+      [updated.position ?? null, updated.content, updated.updated_at, id]
+    );
+    return updated;
+  },
+
+  async deleteNote(id: string): Promise<void> {
+    const database = await getDb();
+    await database.runAsync('DELETE FROM notes WHERE id = ?', [id]);
+  },
+
+  /**
+   * Swap a note created offline for the one the server created from it
+   */
+  async replaceNoteId(tempId: string, note: Note): Promise<void> {
+    await this.deleteNote(tempId);
+    await this.saveNote(note);
+  },
+
   // Sync queue operations
   async addToSyncQueue(
     type: string,
@@ -138,34 +548,135 @@ export const offlineCache = {
     payload: Record<string, unknown>
   ): Promise<void> {
     const database = await getDb();
+
+    // A newer position makes any queued one for the same guide redundant
+    if (type === 'position' && action === 'update' && typeof payload.guideId === 'string') {
+      await database.runAsync(
+        `DELETE FROM sync_queue
+         WHERE type = 'position' AND action = 'update' AND json_extract(payload, '$.guideId') = ?`,
+        [payload.guideId]
+      );
+    }
+
+    // A queued note update takes in newer edits. While a sync is sending the
+    // queue it may be sending that update, so the edit is queued on its own
+    // and folded in by the next sync instead.
+    if (
+      type === 'note' &&
+      action === 'update' &&
+      typeof payload.noteId === 'string' &&
+      !syncInProgress
+    ) {
+      const previous = await database.getFirstAsync<{
+        id: number;
+        action: string;
+        payload: string;
+        failed_at: number | null;
+      }>(
+        `SELECT id, action, payload, failed_at FROM sync_queue
+         WHERE type = 'note'
+           AND (json_extract(payload, '$.noteId') = ? OR json_extract(payload, '$.localId') = ?)
+         ORDER BY created_at DESC, id DESC
+         LIMIT 1`,
+        [payload.noteId, payload.noteId]
+      );
+      if (previous?.action === 'update' && previous.failed_at === null) {
+        const merged = JSON.parse(previous.payload);
+        await this.updateSyncQueueItem(previous.id, {
+          ...merged,
+          ...payload,
+          // The edits were all made on top of the first one's server copy
+          baseUpdatedAt: merged.baseUpdatedAt ?? payload.baseUpdatedAt,
+        });
+        return;
+      }
+    }
+
     await database.runAsync(
       'INSERT INTO sync_queue (type, action, payload, created_at) VALUES (?, ?, ?, ?)',
       [type, action, JSON.stringify(payload), Date.now()]
     );
   },
 
-  async getSyncQueue(): Promise<
-    Array<{
-      id: number;
-      type: string;
-      action: string;
-      payload: Record<string, unknown>;
-      created_at: number;
-    }>
-  > {
+  /**
+   * Hold off merging new edits into queued ones while a sync sends the queue
+   */
+  setSyncInProgress(inProgress: boolean): void {
+    syncInProgress = inProgress;
+  },
+
+  // Every queued change, including ones that were given up on
+  async getSyncQueue(): Promise<SyncQueueRow[]> {
+    const database = await getDb();
+    const results = await database.getAllAsync<StoredSyncQueueRow>(
+      'SELECT * FROM sync_queue ORDER BY created_at ASC'
+    );
+
+    return results.map(toSyncQueueRow);
+  },
+
+  async getFailedSyncItems(): Promise<SyncQueueRow[]> {
+    const database = await getDb();
+    const results = await database.getAllAsync<StoredSyncQueueRow>(
+      'SELECT * FROM sync_queue WHERE failed_at IS NOT NULL ORDER BY failed_at DESC'
+    );
+
+    return results.map(toSyncQueueRow);
+  },
+
+  /**
+   * Record a failed attempt. The change is retried from nextAttemptAt, or
+   * given up on when that is null.
+   */
+  async recordSyncFailure(
+    id: number,
+    error: string,
+    nextAttemptAt: number | null
+  ): Promise<void> {
+    const database = await getDb();
+    await database.runAsync(
+      `UPDATE sync_queue
+       SET attempts = attempts + 1, last_error = ?, next_attempt_at = ?, failed_at = ?
+       WHERE id = ?`,
+      [error, nextAttemptAt ?? 0, nextAttemptAt === null ? Date.now() : null, id]
+    );
+  },
+
+  /**
+   * Set aside a change that clashed with an edit made elsewhere, keeping the
+   * server's copy to resolve it against
+   */
+  async recordSyncConflict(
+    id: number,
+    error: string,
+    serverCopy: Note
+  ): Promise<void> {
+    const database = await getDb();
+    await database.runAsync(
+      `UPDATE sync_queue
+       SET attempts = attempts + 1, last_error = ?, failed_at = ?, conflict = ?
+       WHERE id = ?`,
+      [error, Date.now(), JSON.stringify(serverCopy), id]
+    );
+  },
+
+  // Put a failed change back in the queue with a fresh set of attempts
+  async resetSyncQueueItem(id: number): Promise<void> {
     const database = await getDb();
-    const results = await database.getAllAsync<{
-      id: number;
-      type: string;
-      action: string;
-      payload: string;
-      created_at: number;
-    }>('SELECT * FROM sync_queue ORDER BY created_at ASC');
+    await database.runAsync(
+      `UPDATE sync_queue
+       SET attempts = 0, last_error = NULL, next_attempt_at = 0, failed_at = NULL, conflict = NULL
+       WHERE id = ?`,
+      [id]
+    );
+  },
 
-    return results.map((r) => ({
-      ...r,
-      payload: JSON.parse(r.payload),
-    }));
+  async updateSyncQueueItem(id: number, payload: Record<string, unknown>): Promise<void> {
+    const database = await getDb();
+    await database.runAsync('UPDATE sync_queue SET payload = ? WHERE id = ?', [
+      JSON.stringify(payload),
+      id,
+    ]);
   },
 
   async removeSyncQueueItem(id: number): Promise<void> {
@@ -178,11 +689,113 @@ export const offlineCache = {
     await database.runAsync('DELETE FROM sync_queue');
   },
 
+  // Server IDs for records created offline, kept so late references still resolve
+  async saveSyncIdMapping(localId: string, serverId: string): Promise<void> {
+    const database = await getDb();
+    await database.runAsync(
+      'INSERT OR REPLACE INTO sync_id_map (local_id, server_id, created_at) VALUES (?, ?, ?)',
+      [localId, serverId, Date.now()]
+    );
+  },
+
+  async getSyncIdMapping(localId: string): Promise<string | null> {
+    const database = await getDb();
+    const result = await database.getFirstAsync<{ server_id: string }>(
+      'SELECT server_id FROM sync_id_map WHERE local_id = ?',
+      [localId]
+    );
+    return result?.server_id ?? null;
+  },
+
   async getSyncQueueCount(): Promise<number> {
     const database = await getDb();
     const result = await database.getFirstAsync<{ count: number }>(
-      'SELECT COUNT(*) as count FROM sync_queue'
+      'SELECT COUNT(*) as count FROM sync_queue WHERE failed_at IS NULL'
+    );
+    return result?.count ?? 0;
+  },
+
+  // When the earliest change held back by a retry delay comes due, if any
+  async getNextSyncAttemptAt(after: number): Promise<number | null> {
+    const database = await getDb();
+    const result = await database.getFirstAsync<{ next: number | null }>(
+      `SELECT MIN(next_attempt_at) as next FROM sync_queue
+       WHERE failed_at IS NULL AND next_attempt_at > ?`,
+      [after]
+    );
+    return result?.next ?? null;
+  },
+
+  async getFailedSyncCount(): Promise<number> {
+    const database = await getDb();
+    const result = await database.getFirstAsync<{ count: number }>(
+      'SELECT COUNT(*) as count FROM sync_queue WHERE failed_at IS NOT NULL'
     );
     return result?.count ?? 0;
   },
+
+  // Guides already queued keep their place
+  async addToDownloadQueue(guides: Array<{ id: string; title?: string | null }>): Promise<void> {
+    const database = await getDb();
+    const now = Date.now();
+    for (const guide of guides) {
+      await database.runAsync(
+        'INSERT OR IGNORE INTO download_queue (guide_id, title, created_at) VALUES (?, ?, ?)',
+        [guide.id, guide.title ?? null, now]
+      );
+    }
+  },
+
+  async getDownloadQueue(): Promise<DownloadQueueRow[]> {
+    const database = await getDb();
+    return database.getAllAsync<DownloadQueueRow>(
+      'SELECT * FROM download_queue ORDER BY created_at ASC, rowid ASC'
+    );
+  },
+
+  // Setting a download back to pending starts it over with a fresh set of attempts
+  async setDownloadStatus(guideId: string, status: DownloadQueueStatus): Promise<void> {
+    const database = await getDb();
+    if (status === 'pending') {
+      await database.runAsync(
+        `UPDATE download_queue
+         SET status = 'pending', attempts = 0, last_error = NULL, next_attempt_at = 0
+         WHERE guide_id = ?`,
+        [guideId]
+      );
+    } else {
+      await database.runAsync('UPDATE download_queue SET status = ? WHERE guide_id = ?', [
+        status,
+        guideId,
+      ]);
+    }
+  },
+
+  /**
+   * Record a failed attempt. The download is retried from nextAttemptAt, or
+   * marked as failed when that is null.
+   */
+  async recordDownloadFailure(
+    guideId: string,
+    error: string,
+    nextAttemptAt: number | null
+  ): Promise<void> {
+    const database = await getDb();
+    await database.runAsync(
+      `UPDATE download_queue
+       SET attempts = attempts + 1, last_error = ?, next_attempt_at = ?, status = ?
+       WHERE guide_id = ?`,
+      [error, nextAttemptAt ?? 0, nextAttemptAt === null ? 'error' : 'pending', guideId]
+    );
+  },
+
+  async removeFromDownloadQueue(guideId: string): Promise<void> {
+    const database = await getDb();
+    await database.runAsync('DELETE FROM download_queue WHERE guide_id = ?', [guideId]);
+  },
+
+  async clearDownloadQueue(): Promise<void> {
+    const database = await getDb();
+    await database.runAsync('DELETE FROM download_queue');
+  },
 };
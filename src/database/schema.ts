@@ -1,6 +1,6 @@
 // SQLite database schema definitions
 
-export const SCHEMA_VERSION = 2;
+export const SCHEMA_VERSION = 3;
 
 export const CREATE_TABLES = {
   guides: `
@@ -39,6 +39,8 @@ export const CREATE_TABLES = {
       id TEXT PRIMARY KEY,
       guide_id TEXT NOT NULL,
       position INTEGER NOT NULL,
+      line_index INTEGER,
+      fingerprint TEXT,
       name TEXT,
       page_reference TEXT,
       is_last_read INTEGER NOT NULL DEFAULT 0 CHECK(is_last_read IN (0, 1)),
@@ -124,7 +126,7 @@ export const FULL_TEXT_SEARCH = {
   `,
 
   guides_fts_update: `
-    CREATE TRIGGER IF NOT EXISTS guides_fts_update AFTER UPDATE ON guides
+    CREATE TRIGGER IF NOT EXISTS guides_fts_update AFTER UPDATE OF title, content ON guides
     BEGIN
       UPDATE guides_fts SET title = new.title, content = new.content
       WHERE guide_id = new.id;
@@ -138,3 +140,61 @@ export const FULL_TEXT_SEARCH = {
     END;
   `,
 };
+
+// Same index over guides downloaded from the server, for searching offline
+export const OFFLINE_FULL_TEXT_SEARCH = {
+  downloaded_guides_fts: `
+    CREATE VIRTUAL TABLE IF NOT EXISTS downloaded_guides_fts USING fts5(
+      guide_id UNINDEXED,
+      title,
+      content,
+      tokenize = 'porter unicode61'
+    );
+  `,
+
+  // Downloads are saved with INSERT OR REPLACE, which doesn't fire the delete trigger
+  downloaded_guides_fts_insert: `
+    CREATE TRIGGER IF NOT EXISTS downloaded_guides_fts_insert AFTER INSERT ON downloaded_guides
+    BEGIN
+      DELETE FROM downloaded_guides_fts WHERE guide_id = new.id;
+      INSERT INTO downloaded_guides_fts(guide_id, title, content)
+      VALUES (new.id, new.title, new.content);
+    END;
+  `,
+
+  downloaded_guides_fts_update: `
+    CREATE TRIGGER IF NOT EXISTS downloaded_guides_fts_update
+    AFTER UPDATE OF title, content ON downloaded_guides
+    BEGIN
+      UPDATE downloaded_guides_fts SET title = new.title, content = new.content
+      WHERE guide_id = new.id;
+    END;
+  `,
+
+  downloaded_guides_fts_delete: `
+    CREATE TRIGGER IF NOT EXISTS downloaded_guides_fts_delete AFTER DELETE ON downloaded_guides
+    BEGIN
+      DELETE FROM downloaded_guides_fts WHERE guide_id = old.id;
+    END;
+  `,
+
+  // Index guides downloaded before the index existed
+  downloaded_guides_fts_backfill: `
+    INSERT INTO downloaded_guides_fts(guide_id, title, content)
+    SELECT id, title, content FROM downloaded_guides
+    WHERE id NOT IN (SELECT guide_id FROM downloaded_guides_fts);
+  `,
+};
+
+/**
+ * Turn user input into an FTS5 prefix query, quoting each term so
+ * operators and punctuation in the input can't break the syntax
+ */
+export function toFtsQuery(query: string): string | null {
+  const terms = query
+    .split(/\s+/)
+    .map(term => term.replace(/"/g, ''))
+    .filter(Boolean);
+  if (terms.length === 0) return null;
+  return terms.map(term => `"${term}"*`).join(' ');
+}
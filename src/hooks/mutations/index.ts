@@ -3,3 +3,16 @@ export { useUpdateGameStatus } from './useUpdateGameStatus';
 export { useUpdateCompletion } from './useUpdateCompletion';
 export { useCreateBookmark, useDeleteBookmark } from './useBookmarkMutations';
 export { useCreateNote, useUpdateNote, useDeleteNote } from './useNoteMutations';
+export { useImportGuides } from './useImportGuides';
+export { useSetAchievementPinned } from './useAchievementMutations';
+export {
+  useLinkGuide,
+  useCreateGameForGuide,
+  useUnlinkGuide,
+  useAutoLinkGuides,
+} from './useGameMatchMutations';
+export {
+  useRetryFailedSync,
+  useResolveSyncConflict,
+  useDiscardFailedSync,
+} from './useFailedSyncMutations';
@@ -0,0 +1,22 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { achievementsSource } from '@/api/dataSource';
+import { queryKeys } from '@/api/queryKeys';
+
+interface SetPinnedVariables {
+  achievementId: string;
+  pinned: boolean;
+}
+
+export function useSetAchievementPinned() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ achievementId, pinned }: SetPinnedVariables) =>
+      achievementsSource.setPinned(achievementId, pinned),
+    onSuccess: () => {
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.achievements.all,
+      });
+    },
+  });
+}
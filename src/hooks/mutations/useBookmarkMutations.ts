@@ -1,7 +1,8 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { bookmarksApi } from '@/api/endpoints/bookmarks';
+import { bookmarksSource, isLocalLibrary } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
-import { SyncManager } from '@/services/SyncManager';
+import { SyncCoordinator } from '@/services/SyncCoordinator';
+import { createTempId, isTempId, offlineCache } from '@/database/offlineCache';
 import { useNetworkStatus } from '@/providers/NetworkProvider';
 import type { CreateBookmarkInput } from '@/api/types';
 import type { Bookmark } from '@/types';
@@ -22,25 +23,29 @@ export function useCreateBookmark() {
 
   return useMutation({
     mutationFn: async ({ guideId, data }: CreateBookmarkVariables) => {
-      if (isOnline) {
-        return bookmarksApi.create(guideId, data);
+      // The local library is always writable, so nothing needs queueing
+      if (isOnline || isLocalLibrary()) {
+        return bookmarksSource.create(guideId, data);
       }
-      // Queue for later sync
-      await SyncManager.queueChange({
-        type: 'bookmark',
-        action: 'create',
-        payload: { guideId, ...data },
-      });
-      // Return optimistic bookmark
+      // Store locally under a temporary ID until the server assigns one
       const optimisticBookmark: Bookmark = {
-        id: `temp_${Date.now()}`,
+        id: createTempId(),
         guide_id: guideId,
         position: data.position,
+        line_index: data.line_index ?? null,
+        fingerprint: data.fingerprint ?? null,
         name: data.name ?? null,
         page_reference: data.page_reference ?? null,
         is_last_read: data.is_last_read ?? false,
         created_at: Date.now(),
       };
+      await offlineCache.saveBookmark(optimisticBookmark);
+      // Queue for later sync
+      await SyncCoordinator.queueChange({
+        type: 'bookmark',
+        action: 'create',
+        payload: { guideId, localId: optimisticBookmark.id, ...data },
+      });
       return { data: optimisticBookmark };
     },
     onSuccess: (_, { guideId }) => {
@@ -57,11 +62,13 @@ export function useDeleteBookmark() {
 
   return useMutation({
     mutationFn: async ({ guideId, bookmarkId }: DeleteBookmarkVariables) => {
-      if (isOnline) {
-        return bookmarksApi.delete(guideId, bookmarkId);
+      // Records still waiting on their queued create can only change through the queue
+      if (isLocalLibrary() || (isOnline && !isTempId(bookmarkId))) {
+        return bookmarksSource.delete(guideId, bookmarkId);
       }
+      await offlineCache.deleteBookmark(bookmarkId);
       // Queue for later sync
-      await SyncManager.queueChange({
+      await SyncCoordinator.queueChange({
         type: 'bookmark',
         action: 'delete',
         payload: { guideId, bookmarkId },
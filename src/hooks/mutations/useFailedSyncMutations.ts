@@ -0,0 +1,62 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/api/queryKeys';
+import { SyncManager, type ConflictResolution } from '@/services/SyncManager';
+import { SyncCoordinator } from '@/services/SyncCoordinator';
+
+// A retried change can land on any guide's bookmarks or notes
+function useInvalidateSync() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.sync.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.bookmarks.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.notes.all });
+  };
+}
+
+export function useRetryFailedSync() {
+  const invalidate = useInvalidateSync();
+
+  return useMutation({
+    mutationFn: async (ids: number[]) => {
+      for (const id of ids) {
+        await SyncManager.retryFailedItem(id);
+      }
+      await SyncCoordinator.refreshCounts();
+      // Offline, the changes wait in the queue for the next sync
+      return SyncCoordinator.syncNow();
+    },
+    onSuccess: invalidate,
+  });
+}
+
+interface ResolveConflictVariables {
+  id: number;
+  resolution: ConflictResolution;
+}
+
+export function useResolveSyncConflict() {
+  const invalidate = useInvalidateSync();
+
+  return useMutation({
+    mutationFn: async ({ id, resolution }: ResolveConflictVariables) => {
+      await SyncManager.resolveConflict(id, resolution);
+      await SyncCoordinator.refreshCounts();
+      return SyncCoordinator.syncNow();
+    },
+    onSuccess: invalidate,
+  });
+}
+
+export function useDiscardFailedSync() {
+  const invalidate = useInvalidateSync();
+
+  return useMutation({
+    mutationFn: async (ids: number[]) => {
+      for (const id of ids) {
+        await SyncManager.discardFailedItem(id);
+      }
+      await SyncCoordinator.refreshCounts();
+    },
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,61 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/api/queryKeys';
+import { GameMatchingService } from '@/services/GameMatchingService';
+import type { GameCandidate, MatchableGuide } from '@/utils/gameMatching';
+
+interface LinkGuideVariables {
+  guideId: string;
+  candidate: GameCandidate;
+}
+
+interface CreateGameForGuideVariables {
+  guide: MatchableGuide;
+  title?: string;
+}
+
+// Links change guide lists, game guide counts and the matches themselves
+function useInvalidateLinks() {
+  const queryClient = useQueryClient();
+  return () => {
+    queryClient.invalidateQueries({ queryKey: queryKeys.guides.all });
+    queryClient.invalidateQueries({ queryKey: queryKeys.games.all });
+  };
+}
+
+export function useLinkGuide() {
+  const invalidate = useInvalidateLinks();
+
+  return useMutation({
+    mutationFn: ({ guideId, candidate }: LinkGuideVariables) =>
+      GameMatchingService.linkGuide(guideId, candidate),
+    onSuccess: invalidate,
+  });
+}
+
+export function useCreateGameForGuide() {
+  const invalidate = useInvalidateLinks();
+
+  return useMutation({
+    mutationFn: ({ guide, title }: CreateGameForGuideVariables) =>
+      GameMatchingService.createGameForGuide(guide, title),
+    onSuccess: invalidate,
+  });
+}
+
+export function useUnlinkGuide() {
+  const invalidate = useInvalidateLinks();
+
+  return useMutation({
+    mutationFn: (guideId: string) => GameMatchingService.unlinkGuide(guideId),
+    onSuccess: invalidate,
+  });
+}
+
+export function useAutoLinkGuides() {
+  const invalidate = useInvalidateLinks();
+
+  return useMutation({
+    mutationFn: () => GameMatchingService.autoLinkGuides(),
+    onSuccess: invalidate,
+  });
+}
@@ -0,0 +1,42 @@
+import { useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { queryKeys } from '@/api/queryKeys';
+import {
+  BulkImportService,
+  type ImportProgress,
+  type ImportSource,
+} from '@/services/BulkImportService';
+import { GameMatchingService } from '@/services/GameMatchingService';
+
+/**
+ * Import picked files, ZIP archives or a folder into the local library,
+ * then link new guides that confidently match a known game.
+ * progress is null when no import is running.
+ */
+export function useImportGuides() {
+  const queryClient = useQueryClient();
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: async (source: ImportSource) => {
+      const summary = await BulkImportService.importSource(source, setProgress);
+      if (summary.imported.length > 0) {
+        // Only the new guides, so ones unlinked on the review screen stay unlinked
+        const guideIds = summary.imported.map(entry => entry.guideId);
+        await GameMatchingService.autoLinkGuides(guideIds).catch(error => {
+          if (__DEV__) console.error('Failed to link imported guides to games:', error);
+        });
+      }
+      return summary;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.guides.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.all });
+    },
+    onSettled: () => {
+      setProgress(null);
+    },
+  });
+
+  return { ...mutation, progress };
+}
@@ -1,7 +1,8 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { notesApi } from '@/api/endpoints/notes';
+import { notesSource, isLocalLibrary } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
-import { SyncManager } from '@/services/SyncManager';
+import { SyncCoordinator } from '@/services/SyncCoordinator';
+import { createTempId, isTempId, offlineCache } from '@/database/offlineCache';
 import { useNetworkStatus } from '@/providers/NetworkProvider';
 import type { CreateNoteInput, UpdateNoteInput } from '@/api/types';
 import type { Note } from '@/types';
@@ -28,25 +29,27 @@ export function useCreateNote() {
 
   return useMutation({
     mutationFn: async ({ guideId, data }: CreateNoteVariables) => {
-      if (isOnline) {
-        return notesApi.create(guideId, data);
+      // The local library is always writable, so nothing needs queueing
+      if (isOnline || isLocalLibrary()) {
+        return notesSource.create(guideId, data);
       }
-      // Queue for later sync
-      await SyncManager.queueChange({
-        type: 'note',
-        action: 'create',
-        payload: { guideId, ...data },
-      });
-      // Return optimistic note
+      // Store locally under a temporary ID until the server assigns one
       const now = Date.now();
       const optimisticNote: Note = {
-        id: `temp_${now}`,
+        id: createTempId(),
         guide_id: guideId,
         position: data.position ?? null,
         content: data.content,
         created_at: now,
         updated_at: now,
       };
+      await offlineCache.saveNote(optimisticNote);
+      // Queue for later sync
+      await SyncCoordinator.queueChange({
+        type: 'note',
+        action: 'create',
+        payload: { guideId, localId: optimisticNote.id, ...data },
+      });
       return { data: optimisticNote };
     },
     onSuccess: (_, { guideId }) => {
@@ -63,17 +66,27 @@ export function useUpdateNote() {
 
   return useMutation({
     mutationFn: async ({ guideId, noteId, data }: UpdateNoteVariables) => {
-      if (isOnline) {
-        return notesApi.update(guideId, noteId, data);
+      // Records still waiting on their queued create can only change through the queue
+      if (isLocalLibrary() || (isOnline && !isTempId(noteId))) {
+        return notesSource.update(guideId, noteId, data);
       }
+      // The server version this edit is made against, to spot edits made elsewhere meanwhile
+      const baseUpdatedAt = await offlineCache.getNoteServerUpdatedAt(noteId);
+      const updated = await offlineCache.updateNote(noteId, data);
       // Queue for later sync
-      await SyncManager.queueChange({
+      await SyncCoordinator.queueChange({
         type: 'note',
         action: 'update',
-        payload: { guideId, noteId, ...data },
+        payload: {
+          guideId,
+          noteId,
+          ...data,
+          // Notes created offline have no server copy to clash with
+          baseUpdatedAt: isTempId(noteId) ? undefined : (baseUpdatedAt ?? undefined),
+        },
       });
-      // Return optimistic response (partial)
-      return { data: { id: noteId, ...data } as Note };
+      // Return optimistic response (partial if the note isn't stored locally)
+      return { data: updated ?? ({ id: noteId, ...data } as Note) };
     },
     onSuccess: (_, { guideId }) => {
       queryClient.invalidateQueries({
@@ -89,11 +102,12 @@ export function useDeleteNote() {
 
   return useMutation({
     mutationFn: async ({ guideId, noteId }: DeleteNoteVariables) => {
-      if (isOnline) {
-        return notesApi.delete(guideId, noteId);
+      if (isLocalLibrary() || (isOnline && !isTempId(noteId))) {
+        return notesSource.delete(guideId, noteId);
       }
+      await offlineCache.deleteNote(noteId);
       // Queue for later sync
-      await SyncManager.queueChange({
+      await SyncCoordinator.queueChange({
         type: 'note',
         action: 'delete',
         payload: { guideId, noteId },
@@ -1,5 +1,5 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { gamesApi } from '@/api/endpoints/games';
+import { gamesSource } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
 
 interface UpdateCompletionVariables {
@@ -12,7 +12,7 @@ export function useUpdateCompletion() {
 
   return useMutation({
     mutationFn: ({ gameId, percentage }: UpdateCompletionVariables) =>
-      gamesApi.updateCompletion(gameId, percentage),
+      gamesSource.updateCompletion(gameId, percentage),
     onSuccess: (_, { gameId }) => {
       queryClient.invalidateQueries({
         queryKey: queryKeys.games.detail(gameId),
@@ -20,6 +20,9 @@ export function useUpdateCompletion() {
       queryClient.invalidateQueries({
         queryKey: queryKeys.games.lists(),
       });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.games.withGuides(),
+      });
     },
   });
 }
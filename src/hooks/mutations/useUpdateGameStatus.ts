@@ -1,5 +1,5 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { gamesApi } from '@/api/endpoints/games';
+import { gamesSource } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
 
 interface UpdateStatusVariables {
@@ -12,7 +12,7 @@ export function useUpdateGameStatus() {
 
   return useMutation({
     mutationFn: ({ gameId, status }: UpdateStatusVariables) =>
-      gamesApi.updateStatus(gameId, status),
+      gamesSource.updateStatus(gameId, status),
     onSuccess: (_, { gameId }) => {
       queryClient.invalidateQueries({
         queryKey: queryKeys.games.detail(gameId),
@@ -20,6 +20,9 @@ export function useUpdateGameStatus() {
       queryClient.invalidateQueries({
         queryKey: queryKeys.games.lists(),
       });
+      queryClient.invalidateQueries({
+        queryKey: queryKeys.games.withGuides(),
+      });
     },
   });
 }
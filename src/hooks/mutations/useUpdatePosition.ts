@@ -1,12 +1,15 @@
 import { useMutation, useQueryClient } from '@tanstack/react-query';
-import { guidesApi } from '@/api/endpoints/guides';
+import { guidesSource, isLocalLibrary } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
-import { SyncManager } from '@/services/SyncManager';
+import { SyncCoordinator } from '@/services/SyncCoordinator';
+import { offlineCache } from '@/database/offlineCache';
 import { useNetworkStatus } from '@/providers/NetworkProvider';
 
 interface UpdatePositionVariables {
   guideId: string;
   position: number;
+  line_index: number;
+  fingerprint?: string | null;
 }
 
 export function useUpdatePosition() {
@@ -14,15 +17,22 @@ export function useUpdatePosition() {
   const { isOnline } = useNetworkStatus();
 
   return useMutation({
-    mutationFn: async ({ guideId, position }: UpdatePositionVariables) => {
+    mutationFn: async ({ guideId, position, line_index, fingerprint }: UpdatePositionVariables) => {
+      // The local library is always writable, so nothing needs queueing
+      if (isLocalLibrary()) {
+        return guidesSource.updatePosition(guideId, position, { line_index, fingerprint });
+      }
+      // Keep the last-read position readable offline
+      await offlineCache.saveLastReadPosition(guideId, position, line_index, fingerprint ?? null);
       if (isOnline) {
-        return guidesApi.updatePosition(guideId, position);
+        return guidesSource.updatePosition(guideId, position, { line_index, fingerprint });
       }
       // Queue for later sync
-      await SyncManager.queueChange({
+      await SyncCoordinator.queueChange({
         type: 'position',
         action: 'update',
-        payload: { guideId, position },
+        // When it was read, so a later position saved elsewhere wins
+        payload: { guideId, position, line_index, fingerprint, savedAt: Date.now() },
       });
       return { success: true };
     },
@@ -4,3 +4,6 @@ export { useGames, useGamesInfinite, useGamesWithGuides, useGamesSearch, useGame
 export { useGame } from './useGame';
 export { useBookmarksQuery } from './useBookmarks';
 export { useNotesQuery } from './useNotes';
+export { useAchievementsQuery } from './useAchievements';
+export { useGameMatches } from './useGameMatches';
+export { useFailedSyncItems } from './useFailedSync';
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import { achievementsSource } from '@/api/dataSource';
+import { queryKeys } from '@/api/queryKeys';
+import type { Achievement, Game } from '@/types';
+
+export function useAchievementsQuery(game: Game | undefined) {
+  return useQuery<{ data: Achievement[] }, Error>({
+    queryKey: queryKeys.achievements.byGame(game?.id ?? ''),
+    queryFn: () => achievementsSource.getByGame(game!),
+    enabled: !!game,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+  });
+}
@@ -1,12 +1,37 @@
 import { useQuery } from '@tanstack/react-query';
-import { bookmarksApi } from '@/api/endpoints/bookmarks';
+import { bookmarksSource, isLocalLibrary } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
+import { offlineCache } from '@/database/offlineCache';
+import { useNetworkStatus } from '@/providers/NetworkProvider';
 import type { Bookmark } from '@/types';
 
 export function useBookmarksQuery(guideId: string | undefined) {
+  const { isOnline } = useNetworkStatus();
+
   return useQuery<{ data: Bookmark[] }, Error>({
     queryKey: queryKeys.bookmarks.byGuide(guideId!),
-    queryFn: () => bookmarksApi.getByGuide(guideId!),
+    queryFn: async () => {
+      // Local library bookmarks never need the network
+      if (isLocalLibrary()) {
+        return bookmarksSource.getByGuide(guideId!);
+      }
+
+      // Mirror the server's bookmarks so they're readable offline
+      if (isOnline) {
+        try {
+          const response = await bookmarksSource.getByGuide(guideId!);
+          await offlineCache.saveBookmarks(guideId!, response.data);
+        } catch (error) {
+          // Fall back to the offline copy on network error
+          const cached = await offlineCache.getBookmarks(guideId!);
+          if (cached.length > 0) return { data: cached };
+          throw error;
+        }
+      }
+
+      // The mirror also holds bookmarks created offline that haven't synced yet
+      return { data: await offlineCache.getBookmarks(guideId!) };
+    },
     enabled: !!guideId,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
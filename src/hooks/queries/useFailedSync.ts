@@ -0,0 +1,11 @@
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/api/queryKeys';
+import { SyncManager } from '@/services/SyncManager';
+
+// Queued changes that were given up on, most recent first
+export function useFailedSyncItems() {
+  return useQuery({
+    queryKey: queryKeys.sync.failed(),
+    queryFn: () => SyncManager.getFailedItems(),
+  });
+}
@@ -0,0 +1,15 @@
+import { useQuery } from '@tanstack/react-query';
+import { queryKeys } from '@/api/queryKeys';
+import { GameMatchingService } from '@/services/GameMatchingService';
+
+// Every guide's match plus the candidates they were ranked against
+export function useGameMatches() {
+  return useQuery({
+    queryKey: queryKeys.games.matches(),
+    queryFn: async () => {
+      const candidates = await GameMatchingService.getCandidates();
+      const matches = await GameMatchingService.getGuideMatches(candidates);
+      return { matches, candidates };
+    },
+  });
+}
@@ -1,5 +1,6 @@
 import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
 import { gamesApi } from '@/api/endpoints/games';
+import { gamesSource } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
 import type { GamesResponse } from '@/api/types';
 import type { Game } from '@/types';
@@ -27,7 +28,7 @@ export function useGamesInfinite(limit = 20) {
 export function useGamesWithGuides() {
   return useQuery({
     queryKey: queryKeys.games.withGuides(),
-    queryFn: () => gamesApi.getWithGuides(),
+    queryFn: () => gamesSource.getWithGuides(),
   });
 }
 
@@ -43,7 +44,7 @@ export function useGamesSearch(query: string) {
 export function useGameGuides(gameId: string | undefined) {
   return useQuery({
     queryKey: queryKeys.games.guides(gameId!),
-    queryFn: () => gamesApi.getGuides(gameId!),
+    queryFn: () => gamesSource.getGuides(gameId!),
     enabled: !!gameId,
   });
 }
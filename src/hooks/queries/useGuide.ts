@@ -1,33 +1,45 @@
 import { useQuery } from '@tanstack/react-query';
 import { guidesApi } from '@/api/endpoints/guides';
+import { isLocalLibrary } from '@/api/dataSource';
+import { localLibrary } from '@/database/localLibrary';
 import { queryKeys } from '@/api/queryKeys';
 import { offlineCache } from '@/database/offlineCache';
 import { useNetworkStatus } from '@/providers/NetworkProvider';
 import type { Guide } from '@/types';
 
+/**
+ * Load a guide from the local library, the API, or the offline cache
+ */
+export async function fetchGuide(id: string, isOnline: boolean): Promise<{ data: Guide }> {
+  // Local library guides never need the network
+  if (isLocalLibrary()) {
+    return localLibrary.getGuide(id);
+  }
+
+  // Try API first if online
+  if (isOnline) {
+    try {
+      return await guidesApi.getById(id);
+    } catch (error) {
+      // Fall back to offline cache on network error
+      const cached = await offlineCache.getGuide(id);
+      if (cached) return { data: cached };
+      throw error;
+    }
+  }
+
+  // Offline: use cache only
+  const cached = await offlineCache.getGuide(id);
+  if (cached) return { data: cached };
+  throw new Error('Guide not available offline');
+}
+
 export function useGuide(id: string | undefined) {
   const { isOnline } = useNetworkStatus();
 
   return useQuery({
     queryKey: queryKeys.guides.detail(id!),
-    queryFn: async (): Promise<{ data: Guide }> => {
-      // Try API first if online
-      if (isOnline) {
-        try {
-          return await guidesApi.getById(id!);
-        } catch (error) {
-          // Fall back to offline cache on network error
-          const cached = await offlineCache.getGuide(id!);
-          if (cached) return { data: cached };
-          throw error;
-        }
-      }
-
-      // Offline: use cache only
-      const cached = await offlineCache.getGuide(id!);
-      if (cached) return { data: cached };
-      throw new Error('Guide not available offline');
-    },
+    queryFn: () => fetchGuide(id!, isOnline),
     enabled: !!id,
     staleTime: 10 * 60 * 1000, // 10 minutes
   });
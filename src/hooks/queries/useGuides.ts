@@ -1,12 +1,14 @@
 import { useQuery, useInfiniteQuery } from '@tanstack/react-query';
-import { guidesApi } from '@/api/endpoints/guides';
+import { guidesSource, isLocalLibrary } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
+import { offlineCache } from '@/database/offlineCache';
+import { useNetworkStatus } from '@/providers/NetworkProvider';
 import type { GuidesResponse, SearchResults, GuideFilters, GuidesFiltersResponse } from '@/api/types';
 
 export function useGuides(page = 1, limit = 20) {
   return useQuery({
     queryKey: queryKeys.guides.list(page, limit),
-    queryFn: () => guidesApi.getAll(page, limit),
+    queryFn: () => guidesSource.getAll(page, limit),
   });
 }
 
@@ -14,7 +16,7 @@ export function useGuidesInfinite(limit = 20, filters?: GuideFilters) {
   return useInfiniteQuery<GuidesResponse, Error>({
     queryKey: queryKeys.guides.filteredLists(filters),
     queryFn: ({ pageParam }) =>
-      guidesApi.getAll(pageParam as number, limit, filters),
+      guidesSource.getAll(pageParam as number, limit, filters),
     initialPageParam: 1,
     getNextPageParam: (lastPage) => {
       const { page, totalPages } = lastPage.pagination;
@@ -26,15 +28,31 @@ export function useGuidesInfinite(limit = 20, filters?: GuideFilters) {
 export function useGuidesFilters() {
   return useQuery<GuidesFiltersResponse, Error>({
     queryKey: queryKeys.guides.filters(),
-    queryFn: () => guidesApi.getFilters(),
+    queryFn: () => guidesSource.getFilters(),
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
 }
 
+// Offline, server guides are searched among the downloaded ones
 export function useGuidesSearch(query: string, limit = 50) {
+  const { isOnline } = useNetworkStatus();
+  const offline = !isOnline && !isLocalLibrary();
+
   return useQuery<SearchResults, Error>({
-    queryKey: queryKeys.guides.search(query, limit),
-    queryFn: () => guidesApi.search(query, limit),
+    queryKey: queryKeys.guides.search(query, limit, offline),
+    queryFn: async () => {
+      if (offline) return offlineCache.searchGuides(query, limit);
+
+      try {
+        return await guidesSource.search(query, limit);
+      } catch (error) {
+        // Server unreachable despite a connection: downloads are better than nothing
+        if (isLocalLibrary()) throw error;
+        const cached = await offlineCache.searchGuides(query, limit);
+        if (cached.total > 0) return cached;
+        throw error;
+      }
+    },
     enabled: query.length >= 2,
     staleTime: 60 * 1000, // 1 minute for search results
   });
@@ -1,12 +1,37 @@
 import { useQuery } from '@tanstack/react-query';
-import { notesApi } from '@/api/endpoints/notes';
+import { notesSource, isLocalLibrary } from '@/api/dataSource';
 import { queryKeys } from '@/api/queryKeys';
+import { offlineCache } from '@/database/offlineCache';
+import { useNetworkStatus } from '@/providers/NetworkProvider';
 import type { Note } from '@/types';
 
 export function useNotesQuery(guideId: string | undefined) {
+  const { isOnline } = useNetworkStatus();
+
   return useQuery<{ data: Note[] }, Error>({
     queryKey: queryKeys.notes.byGuide(guideId!),
-    queryFn: () => notesApi.getByGuide(guideId!),
+    queryFn: async () => {
+      // Local library notes never need the network
+      if (isLocalLibrary()) {
+        return notesSource.getByGuide(guideId!);
+      }
+
+      // Mirror the server's notes so they're readable offline
+      if (isOnline) {
+        try {
+          const response = await notesSource.getByGuide(guideId!);
+          await offlineCache.saveNotes(guideId!, response.data);
+        } catch (error) {
+          // Fall back to the offline copy on network error
+          const cached = await offlineCache.getNotes(guideId!);
+          if (cached.length > 0) return { data: cached };
+          throw error;
+        }
+      }
+
+      // The mirror also holds notes created offline that haven't synced yet
+      return { data: await offlineCache.getNotes(guideId!) };
+    },
     enabled: !!guideId,
     staleTime: 5 * 60 * 1000, // 5 minutes
   });
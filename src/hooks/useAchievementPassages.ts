@@ -0,0 +1,84 @@
+/**
+ * useAchievementPassages - Custom hook for locating an achievement in guides
+ *
+ * Ranks the passages that mention an achievement in the guide being read
+ * and in the other guides for the same game. Other guides are only loaded
+ * while an achievement is being located.
+ */
+
+import { useMemo } from 'react';
+import { useQueries, type UseQueryResult } from '@tanstack/react-query';
+import { useGameGuides } from './queries/useGames';
+import { fetchGuide } from './queries/useGuide';
+import { queryKeys } from '@/api/queryKeys';
+import { useNetworkStatus } from '@/providers/NetworkProvider';
+import { findAchievementPassages, type AchievementPassage } from '@/utils/achievementLocator';
+import { splitLines } from '@/utils/readingPosition';
+import type { Achievement, Guide } from '@/types';
+
+export interface AchievementPassageGroup {
+  guideId: string;
+  title: string;
+  isCurrentGuide: boolean;
+  data: AchievementPassage[];
+}
+
+// Module-level so query results stay referentially stable between renders
+function combineGuideContents(results: UseQueryResult<{ data: Guide }>[]) {
+  return {
+    contents: results.map(result => result.data?.data.content),
+    loading: results.some(result => result.isLoading),
+  };
+}
+
+export function useAchievementPassages(
+  achievement: Achievement | null,
+  guide: Guide | null,
+  lines: string[]
+) {
+  const { isOnline } = useNetworkStatus();
+  const gameId = achievement ? (guide?.game_id ?? undefined) : undefined;
+
+  const { data: gameGuidesResponse, isLoading: guidesLoading } = useGameGuides(gameId);
+  const otherGuides = useMemo(
+    () => (gameGuidesResponse?.data ?? []).filter(other => other.id !== guide?.id),
+    [gameGuidesResponse, guide?.id]
+  );
+
+  const { contents, loading: contentsLoading } = useQueries({
+    queries: otherGuides.map(other => ({
+      queryKey: queryKeys.guides.detail(other.id),
+      queryFn: () => fetchGuide(other.id, isOnline),
+      staleTime: 10 * 60 * 1000, // 10 minutes
+    })),
+    combine: combineGuideContents,
+  });
+
+  const groups = useMemo<AchievementPassageGroup[]>(() => {
+    if (!achievement || !guide) return [];
+
+    const current: AchievementPassageGroup = {
+      guideId: guide.id,
+      title: guide.title,
+      isCurrentGuide: true,
+      data: findAchievementPassages(lines, achievement),
+    };
+
+    const others = otherGuides
+      .map((other, index) => ({
+        guideId: other.id,
+        title: other.title,
+        isCurrentGuide: false,
+        data: findAchievementPassages(splitLines(contents[index] ?? ''), achievement),
+      }))
+      .filter(group => group.data.length > 0)
+      .sort((a, b) => b.data[0].score - a.data[0].score);
+
+    return current.data.length > 0 ? [current, ...others] : others;
+  }, [achievement, guide, lines, otherGuides, contents]);
+
+  return {
+    groups,
+    loading: !!achievement && (guidesLoading || contentsLoading),
+  };
+}
@@ -0,0 +1,56 @@
+/**
+ * useAchievements - Custom hook for a guide's game achievements
+ *
+ * Loads the RetroAchievements progress synced for the guide's game and
+ * pins a few achievements to keep in view while reading.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useGame } from './queries/useGame';
+import { useAchievementsQuery } from './queries/useAchievements';
+import { useSetAchievementPinned } from './mutations/useAchievementMutations';
+import type { Achievement } from '../types';
+
+export const MAX_PINNED_ACHIEVEMENTS = 3;
+
+export function useAchievements(gameId: string | null | undefined) {
+  const { data: gameResponse } = useGame(gameId ?? undefined);
+  const game = gameResponse?.data;
+
+  const { data: achievementsResponse, isLoading: loading } = useAchievementsQuery(game);
+  const achievements = useMemo(() => achievementsResponse?.data ?? [], [achievementsResponse]);
+
+  const pinnedAchievements = useMemo(
+    () => achievements.filter(achievement => achievement.is_pinned),
+    [achievements]
+  );
+  const unlockedCount = useMemo(
+    () => achievements.filter(achievement => achievement.is_unlocked).length,
+    [achievements]
+  );
+
+  const setPinnedMutation = useSetAchievementPinned();
+
+  const togglePin = useCallback(
+    async (achievement: Achievement) => {
+      if (!achievement.is_pinned && pinnedAchievements.length >= MAX_PINNED_ACHIEVEMENTS) {
+        throw new Error(`You can pin up to ${MAX_PINNED_ACHIEVEMENTS} achievements`);
+      }
+
+      return setPinnedMutation.mutateAsync({
+        achievementId: achievement.id,
+        pinned: !achievement.is_pinned,
+      });
+    },
+    [pinnedAchievements.length, setPinnedMutation]
+  );
+
+  return {
+    game,
+    achievements,
+    pinnedAchievements,
+    unlockedCount,
+    loading,
+    togglePin,
+  };
+}
@@ -2,39 +2,48 @@
  * useBookmarks - Custom hook for bookmark management
  *
  * Uses TanStack Query for API-first bookmark management with offline support.
+ * Bookmarks are anchored to guide lines and resolved against the current
+ * content, so they point at the same passage at any font size.
  */
 
-import { useCallback } from 'react';
+import { useCallback, useMemo } from 'react';
 import { useBookmarksQuery } from './queries/useBookmarks';
 import { useCreateBookmark, useDeleteBookmark } from './mutations/useBookmarkMutations';
-import type { Bookmark } from '../types';
+import { createAnchor, resolveStoredPosition, toStoredPosition } from '@/utils/readingPosition';
+import type { AnchoredBookmark } from '../types';
 
-export function useBookmarks(guideId: string | undefined) {
+export function useBookmarks(guideId: string | undefined, lines: string[]) {
   // Load bookmarks via API
   const { data: bookmarksResponse, isLoading: loading, refetch } = useBookmarksQuery(guideId);
 
-  // Filter out internal last-read bookmark (is_last_read = true)
-  const bookmarks: Bookmark[] = (bookmarksResponse?.data ?? []).filter((b) => !b.is_last_read);
+  // Filter out internal last-read bookmark (is_last_read = true) and resolve lines
+  const bookmarks: AnchoredBookmark[] = useMemo(
+    () =>
+      (bookmarksResponse?.data ?? [])
+        .filter(b => !b.is_last_read)
+        .map(b => ({ ...b, lineIndex: resolveStoredPosition(lines, b) })),
+    [bookmarksResponse, lines]
+  );
 
   // Mutations
   const createBookmarkMutation = useCreateBookmark();
   const deleteBookmarkMutation = useDeleteBookmark();
 
   const createBookmark = useCallback(
-    async (name: string, position: number, pageReference?: string) => {
+    async (name: string, lineIndex: number, pageReference?: string) => {
       if (!guideId) return;
 
       return createBookmarkMutation.mutateAsync({
         guideId,
         data: {
-          position: Math.round(position), // Always use integer position
+          ...toStoredPosition(createAnchor(lines, lineIndex)),
           name,
           page_reference: pageReference ?? null,
           is_last_read: false,
         },
       });
     },
-    [guideId, createBookmarkMutation]
+    [guideId, lines, createBookmarkMutation]
   );
 
   const deleteBookmark = useCallback(
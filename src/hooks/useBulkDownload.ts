@@ -0,0 +1,82 @@
+/**
+ * useBulkDownload - Queue every guide for a filter or a game at once
+ *
+ * Collects the guides, confirms with an estimate of their size, then hands
+ * the ones not downloaded yet to the download queue.
+ */
+
+import { useCallback, useState } from 'react';
+import { Alert } from 'react-native';
+import {
+  DownloadManager,
+  type BulkDownloadPlan,
+  type BulkDownloadSource,
+} from '@/services/DownloadManager';
+
+function formatSize(bytes: number): string {
+  const kb = bytes / 1024;
+  if (kb < 1024) return `${kb.toFixed(1)} KB`;
+  return `${(kb / 1024).toFixed(1)} MB`;
+}
+
+export function useBulkDownload() {
+  const [isPreparing, setIsPreparing] = useState(false);
+
+  const queueDownloads = useCallback(async (plan: BulkDownloadPlan) => {
+    try {
+      const queued = await DownloadManager.queueDownloads(plan.guides);
+      Alert.alert(
+        'Downloads Queued',
+        `${queued} ${queued === 1 ? 'guide' : 'guides'} added. Follow their progress in Downloads.`
+      );
+    } catch (error) {
+      if (__DEV__) console.error('Failed to queue downloads:', error);
+      Alert.alert('Error', 'Failed to queue downloads.');
+    }
+  }, []);
+
+  /**
+   * description completes "guides ...", e.g. "for Chrono Trigger"
+   */
+  const startBulkDownload = useCallback(
+    async (source: BulkDownloadSource, description: string) => {
+      setIsPreparing(true);
+      let plan: BulkDownloadPlan;
+      try {
+        plan = await DownloadManager.planBulkDownload(source);
+      } catch (error) {
+        if (__DEV__) console.error('Failed to collect guides to download:', error);
+        Alert.alert('Error', 'Failed to load the guides to download.');
+        return;
+      } finally {
+        setIsPreparing(false);
+      }
+
+      if (plan.guides.length === 0) {
+        Alert.alert(
+          'Nothing to Download',
+          plan.alreadyDownloaded > 0
+            ? `Every guide ${description} is already downloaded.`
+            : `No guides found ${description}.`
+        );
+        return;
+      }
+
+      const count = plan.guides.length;
+      const skipped =
+        plan.alreadyDownloaded > 0 ? ` ${plan.alreadyDownloaded} already downloaded.` : '';
+      Alert.alert(
+        'Download Guides',
+        `Download ${count} ${count === 1 ? 'guide' : 'guides'} ${description} ` +
+          `(about ${formatSize(plan.totalBytes)})?${skipped}`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Download', onPress: () => queueDownloads(plan) },
+        ]
+      );
+    },
+    [queueDownloads]
+  );
+
+  return { startBulkDownload, isPreparing };
+}
@@ -0,0 +1,38 @@
+/**
+ * useGuideOutline - Custom hook for the guide's table of contents
+ *
+ * Extracts the section outline from guide content and tracks which
+ * section contains the current reading line.
+ */
+
+import { useMemo } from 'react';
+import GuideParserService from '../services/GuideParserService';
+import type { Guide, GuideSection } from '../types';
+
+export function useGuideOutline(
+  content: string,
+  format: Guide['format'] | undefined,
+  currentLineIndex: number
+) {
+  const outline = useMemo<GuideSection[]>(
+    () => GuideParserService.extractOutline(content, format),
+    [content, format]
+  );
+
+  // Last section that starts at or before the current line
+  const currentSection = useMemo(() => {
+    let match: GuideSection | null = null;
+    for (const section of outline) {
+      if (section.lineIndex <= currentLineIndex) {
+        if (!match || section.lineIndex >= match.lineIndex) match = section;
+      }
+    }
+    return match;
+  }, [outline, currentLineIndex]);
+
+  return {
+    outline,
+    currentSection,
+    hasOutline: outline.length > 0,
+  };
+}
@@ -1,28 +1,43 @@
 /**
- * useGuideReader - Custom hook for guide loading and scroll position
+ * useGuideReader - Custom hook for guide loading and reading position
  *
  * Uses TanStack Query for API-first data fetching with offline support.
+ * The reading position is a line index, saved as a content anchor so it
+ * survives font size changes and resolves the same passage on any device.
  */
 
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useQueryClient } from '@tanstack/react-query';
 import { useGuide } from './queries/useGuide';
 import { useUpdatePosition } from './mutations/useUpdatePosition';
 import { useBookmarksQuery } from './queries/useBookmarks';
 import { useCreateBookmark } from './mutations/useBookmarkMutations';
 import { aiApi } from '@/api/endpoints/ai';
+import { isLocalLibrary } from '@/api/dataSource';
+import { localLibrary } from '@/database/localLibrary';
 import { queryKeys } from '@/api/queryKeys';
+import type { TextEncoding } from '@/types';
+import {
+  splitLines,
+  createAnchor,
+  resolveStoredPosition,
+  toStoredPosition,
+  isLegacyPosition,
+} from '@/utils/readingPosition';
 
 export function useGuideReader(guideId: string | undefined) {
   const queryClient = useQueryClient();
-  const [scrollPosition, setScrollPosition] = useState(0);
-  const [lastSavedPosition, setLastSavedPosition] = useState(0);
-  const lastSavedPositionRef = useRef(lastSavedPosition);
+  const [readingLine, setReadingLine] = useState(0);
+  const [restoredLine, setRestoredLine] = useState<number | null>(null);
+  const [lastSavedLine, setLastSavedLine] = useState(0);
+  const lastSavedLineRef = useRef(lastSavedLine);
+  // Guide whose legacy last-read position has already been re-saved as an anchor
+  const migratedGuideRef = useRef<string | null>(null);
 
   // Keep ref in sync
   useEffect(() => {
-    lastSavedPositionRef.current = lastSavedPosition;
-  }, [lastSavedPosition]);
+    lastSavedLineRef.current = lastSavedLine;
+  }, [lastSavedLine]);
 
   // Load guide via API
   const {
@@ -35,6 +50,10 @@ export function useGuideReader(guideId: string | undefined) {
   const guide = guideResponse?.data ?? null;
   const error = queryError?.message ?? null;
 
+  // Lines as rendered by GuideContent - positions are anchored against these
+  const content = guide?.content;
+  const lines = useMemo(() => splitLines(content ?? ''), [content]);
+
   // Load bookmarks to get last read position
   const { data: bookmarksResponse } = useBookmarksQuery(guideId);
 
@@ -42,57 +61,87 @@ export function useGuideReader(guideId: string | undefined) {
   const updatePositionMutation = useUpdatePosition();
   const createBookmarkMutation = useCreateBookmark();
 
-  // Set initial scroll position from last_read bookmark
+  const { mutate: updatePosition } = updatePositionMutation;
+
+  // Restore reading line from last_read bookmark. A legacy pixel position is
+  // saved back as an anchor so the line height guess is only made once.
+  // Named bookmarks can't be: the bookmarks API has no update, and recreating
+  // one would give it a new ID. useBookmarks converts those on every load.
   useEffect(() => {
-    if (bookmarksResponse?.data) {
+    if (bookmarksResponse?.data && content && guideId) {
       const lastRead = bookmarksResponse.data.find((b) => b.is_last_read);
       if (lastRead && lastRead.position) {
-        setScrollPosition(lastRead.position);
-        setLastSavedPosition(lastRead.position);
+        const line = resolveStoredPosition(lines, lastRead);
+        setReadingLine(line);
+        setRestoredLine(line);
+        setLastSavedLine(line);
+
+        if (isLegacyPosition(lastRead) && migratedGuideRef.current !== guideId) {
+          migratedGuideRef.current = guideId;
+          updatePosition(
+            { guideId, ...toStoredPosition(createAnchor(lines, line)) },
+            {
+              onError: (error) => {
+                if (__DEV__) console.error('Failed to migrate reading position:', error);
+              },
+            }
+          );
+        }
       }
     }
-  }, [bookmarksResponse]);
+  }, [bookmarksResponse, content, lines, guideId, updatePosition]);
 
-  // Save scroll position - use ref to avoid recreating callback
-  const { mutate: updatePosition } = updatePositionMutation;
-  const saveScrollPosition = useCallback(
-    async (position: number) => {
-      const roundedPosition = Math.round(position);
-      if (!guideId || roundedPosition === lastSavedPositionRef.current) return;
+  // Save reading position - use ref to avoid recreating callback
+  const saveReadingPosition = useCallback(
+    async (lineIndex: number) => {
+      if (!guideId || !content || lineIndex === lastSavedLineRef.current) return;
 
+      const anchor = createAnchor(lines, lineIndex);
       try {
         updatePosition(
-          { guideId, position: roundedPosition },
+          { guideId, ...toStoredPosition(anchor) },
           {
             onSuccess: () => {
-              setLastSavedPosition(roundedPosition);
-              lastSavedPositionRef.current = roundedPosition;
+              setLastSavedLine(anchor.lineIndex);
+              lastSavedLineRef.current = anchor.lineIndex;
             },
           }
         );
       } catch (error) {
-        if (__DEV__) console.error('Failed to save scroll position:', error);
+        if (__DEV__) console.error('Failed to save reading position:', error);
       }
     },
-    [guideId, updatePosition]
+    [guideId, content, lines, updatePosition]
   );
 
-  // Update metadata via AI save endpoint
+  // Update metadata via AI save endpoint (or the local library)
   const updateMetadata = useCallback(
-    async (updates: { title?: string; author?: string; platform?: string; tags?: string }) => {
+    async (updates: {
+      title?: string;
+      author?: string;
+      platform?: string;
+      tags?: string;
+      encoding?: TextEncoding;
+    }) => {
       if (!guideId) return;
 
       // Convert tags string to array if provided
-      const fields: Record<string, unknown> = {};
-      if (updates.title) fields.gameName = updates.title;
-      if (updates.author) fields.author = updates.author;
-      if (updates.platform) fields.platform = updates.platform;
-      if (updates.tags) {
-        fields.tags = updates.tags.split(',').map((t) => t.trim()).filter(Boolean);
+      const tags = updates.tags
+        ? updates.tags.split(',').map((t) => t.trim()).filter(Boolean)
+        : undefined;
+
+      if (isLocalLibrary()) {
+        await localLibrary.updateGuideMetadata(guideId, { ...updates, tags });
+      } else {
+        const fields: Record<string, unknown> = {};
+        if (updates.title) fields.gameName = updates.title;
+        if (updates.author) fields.author = updates.author;
+        if (updates.platform) fields.platform = updates.platform;
+        if (tags) fields.tags = tags;
+
+        await aiApi.saveAnalysis(guideId, fields);
       }
 
-      await aiApi.saveAnalysis(guideId, fields);
-
       // Invalidate the guide detail query to refresh data
       queryClient.invalidateQueries({ queryKey: queryKeys.guides.detail(guideId) });
 
@@ -133,9 +182,11 @@ export function useGuideReader(guideId: string | undefined) {
     guide,
     loading,
     error,
-    scrollPosition,
-    setScrollPosition,
-    saveScrollPosition,
+    lines,
+    readingLine,
+    setReadingLine,
+    restoredLine,
+    saveReadingPosition,
     updateMetadata,
     reload: refetch,
   };
@@ -1,38 +1,58 @@
 /**
  * useGuideSearch - Custom hook for in-guide search
  *
- * Manages search query, finding matches, and navigating between them.
+ * Manages search query and options (case sensitive, whole word, regex),
+ * finding matches, and navigating between them. Matches are offsets into
+ * the normalized content that GuideContent renders. Searching waits for a
+ * pause in typing, and stops early on queries with too many matches.
  */
 
 import { useState, useCallback, useMemo } from 'react';
+import { useDebounce } from './useDebounce';
+import { splitLines } from '../utils/readingPosition';
+import {
+  buildSearchPattern,
+  findMatches,
+  DEFAULT_SEARCH_OPTIONS,
+  type SearchOptions,
+} from '../utils/textSearch';
+
+// Pause in typing before a guide is searched
+export const SEARCH_DEBOUNCE_MS = 250;
 
 export function useGuideSearch(content: string) {
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setQuery] = useState('');
+  const [searchOptions, setOptions] = useState<SearchOptions>(DEFAULT_SEARCH_OPTIONS);
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0);
 
-  // Find all match positions in content
-  const searchMatches = useMemo(() => {
-    if (!searchQuery.trim() || !content) return [];
-
-    const matches: number[] = [];
-    const query = searchQuery.toLowerCase();
-    const lowerContent = content.toLowerCase();
-
-    let index = 0;
-    while (index < lowerContent.length) {
-      const matchIndex = lowerContent.indexOf(query, index);
-      if (matchIndex === -1) break;
+  const normalizedContent = useMemo(() => splitLines(content).join('\n'), [content]);
+  const debouncedQuery = useDebounce(searchQuery, SEARCH_DEBOUNCE_MS);
 
-      matches.push(matchIndex);
-      index = matchIndex + 1;
-    }
+  const { pattern, error: searchError } = useMemo(
+    () => buildSearchPattern(debouncedQuery, searchOptions),
+    [debouncedQuery, searchOptions]
+  );
 
-    return matches;
-  }, [searchQuery, content]);
+  // Find matches in content, up to the search limits
+  const { matches: searchMatches, truncated: searchTruncated } = useMemo(() => {
+    if (!pattern || !normalizedContent) return { matches: [], truncated: false };
+    return findMatches(normalizedContent, pattern);
+  }, [pattern, normalizedContent]);
 
   const hasMatches = searchMatches.length > 0;
   const totalMatches = searchMatches.length;
 
+  // A new query or mode starts again from the first match
+  const setSearchQuery = useCallback((query: string) => {
+    setQuery(query);
+    setCurrentMatchIndex(0);
+  }, []);
+
+  const toggleSearchOption = useCallback((option: keyof SearchOptions) => {
+    setOptions((prev) => ({ ...prev, [option]: !prev[option] }));
+    setCurrentMatchIndex(0);
+  }, []);
+
   const goToNextMatch = useCallback(() => {
     if (!hasMatches) return;
     setCurrentMatchIndex((prev) => (prev + 1) % totalMatches);
@@ -43,23 +63,32 @@ export function useGuideSearch(content: string) {
     setCurrentMatchIndex((prev) => (prev - 1 + totalMatches) % totalMatches);
   }, [hasMatches, totalMatches]);
 
+  const goToMatch = useCallback((index: number) => {
+    if (index >= 0 && index < totalMatches) setCurrentMatchIndex(index);
+  }, [totalMatches]);
+
   const clearSearch = useCallback(() => {
-    setSearchQuery('');
+    setQuery('');
     setCurrentMatchIndex(0);
   }, []);
 
-  const currentMatchPosition = hasMatches ? searchMatches[currentMatchIndex] : undefined;
+  const currentMatchPosition = hasMatches ? searchMatches[currentMatchIndex]?.start : undefined;
 
   return {
     searchQuery,
     setSearchQuery,
+    searchOptions,
+    toggleSearchOption,
+    searchError,
     searchMatches,
+    searchTruncated,
     currentMatchIndex,
     currentMatchPosition,
     hasMatches,
     totalMatches,
     goToNextMatch,
     goToPreviousMatch,
+    goToMatch,
     clearSearch,
   };
 }
@@ -0,0 +1,95 @@
+/**
+ * useNotes - Custom hook for guide note management
+ *
+ * Uses TanStack Query for API-first note management with offline support.
+ * Position notes are stored at the character offset of their line and
+ * resolved back to a line index against the current content.
+ */
+
+import { useCallback, useMemo } from 'react';
+import { useNotesQuery } from './queries/useNotes';
+import { useCreateNote, useUpdateNote, useDeleteNote } from './mutations/useNoteMutations';
+import { createAnchor, lineIndexForOffset } from '@/utils/readingPosition';
+import type { AnchoredNote } from '../types';
+
+export function useNotes(guideId: string | undefined, lines: string[]) {
+  // Load notes via API
+  const { data: notesResponse, isLoading: loading, refetch } = useNotesQuery(guideId);
+
+  // Resolve lines and order: guide-level notes first, then by line
+  const notes: AnchoredNote[] = useMemo(
+    () =>
+      (notesResponse?.data ?? [])
+        .map(note => ({
+          ...note,
+          lineIndex:
+            note.position === null || note.position === undefined
+              ? null
+              : lineIndexForOffset(lines, note.position),
+        }))
+        .sort((a, b) => (a.lineIndex ?? -1) - (b.lineIndex ?? -1) || a.created_at - b.created_at),
+    [notesResponse, lines]
+  );
+
+  // Lines with at least one note attached, for margin markers
+  const notedLines = useMemo(
+    () =>
+      new Set(notes.filter(note => note.lineIndex !== null).map(note => note.lineIndex as number)),
+    [notes]
+  );
+
+  // Mutations
+  const createNoteMutation = useCreateNote();
+  const updateNoteMutation = useUpdateNote();
+  const deleteNoteMutation = useDeleteNote();
+
+  const createNote = useCallback(
+    async (content: string, lineIndex: number | null) => {
+      if (!guideId) return;
+
+      return createNoteMutation.mutateAsync({
+        guideId,
+        data: {
+          content,
+          position: lineIndex === null ? null : createAnchor(lines, lineIndex).offset,
+        },
+      });
+    },
+    [guideId, lines, createNoteMutation]
+  );
+
+  const updateNote = useCallback(
+    async (noteId: string, content: string) => {
+      if (!guideId) return;
+
+      return updateNoteMutation.mutateAsync({
+        guideId,
+        noteId,
+        data: { content },
+      });
+    },
+    [guideId, updateNoteMutation]
+  );
+
+  const deleteNote = useCallback(
+    async (noteId: string) => {
+      if (!guideId) return;
+
+      return deleteNoteMutation.mutateAsync({
+        guideId,
+        noteId,
+      });
+    },
+    [guideId, deleteNoteMutation]
+  );
+
+  return {
+    notes,
+    notedLines,
+    loading,
+    createNote,
+    updateNote,
+    deleteNote,
+    reload: refetch,
+  };
+}
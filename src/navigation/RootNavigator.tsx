@@ -3,8 +3,13 @@ import { createBottomTabNavigator } from '@react-navigation/bottom-tabs';
 import { NavigationContainer } from '@react-navigation/native';
 import { RootTabParamList } from '../types/navigation';
 import { Ionicons } from '@expo/vector-icons';
+import { SyncStatusIndicator } from '../components/SyncStatusIndicator';
 
 import LibraryScreen from '../screens/LibraryScreen';
+import GamesScreen from '../screens/GamesScreen';
+import GameDetailScreen from '../screens/GameDetailScreen';
+import GameMatchingScreen from '../screens/GameMatchingScreen';
+import FailedSyncScreen from '../screens/FailedSyncScreen';
 import DownloadsScreen from '../screens/DownloadsScreen';
 import GuideReaderScreen from '../screens/GuideReaderScreen';
 import SettingsScreen from '../screens/SettingsScreen';
@@ -27,6 +32,7 @@ const HomeTabs = () => {
         headerTitleStyle: {
           fontWeight: '700',
         },
+        headerRight: ({ tintColor }) => <SyncStatusIndicator color={tintColor} />,
       }}
     >
       <Tab.Screen
@@ -38,6 +44,15 @@ const HomeTabs = () => {
           ),
         }}
       />
+      <Tab.Screen
+        name="Games"
+        component={GamesScreen}
+        options={{
+          tabBarIcon: ({ color, size }) => (
+            <Ionicons name="game-controller" size={size} color={color} />
+          ),
+        }}
+      />
       <Tab.Screen
         name="Downloads"
         component={DownloadsScreen}
@@ -84,6 +99,21 @@ export default function RootNavigator() {
           component={GuideReaderScreen}
           options={{ title: 'Guide Reader' }}
         />
+        <Stack.Screen
+          name="GameDetail"
+          component={GameDetailScreen}
+          options={{ title: 'Game' }}
+        />
+        <Stack.Screen
+          name="GameMatching"
+          component={GameMatchingScreen}
+          options={{ title: 'Match Guides' }}
+        />
+        <Stack.Screen
+          name="FailedSync"
+          component={FailedSyncScreen}
+          options={{ title: 'Failed Changes' }}
+        />
         <Stack.Screen
           name="PrivacyPolicy"
           component={PrivacyPolicyScreen}
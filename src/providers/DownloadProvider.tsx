@@ -0,0 +1,61 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { useNetworkStatus } from './NetworkProvider';
+import { useSettings } from '../contexts/SettingsContext';
+import { DownloadQueue, type DownloadQueueItem } from '../services/DownloadQueue';
+
+interface DownloadContextType {
+  items: DownloadQueueItem[];
+  enqueue: typeof DownloadQueue.enqueue;
+  pause: typeof DownloadQueue.pause;
+  resume: typeof DownloadQueue.resume;
+  cancel: typeof DownloadQueue.cancel;
+}
+
+const DownloadContext = createContext<DownloadContextType | undefined>(undefined);
+
+interface DownloadProviderProps {
+  children: ReactNode;
+}
+
+export function DownloadProvider({ children }: DownloadProviderProps) {
+  const { isOnline } = useNetworkStatus();
+  const { settings } = useSettings();
+  const [items, setItems] = useState<DownloadQueueItem[]>(DownloadQueue.getItems());
+
+  // Pick up downloads left over from the last session
+  useEffect(() => {
+    const unsubscribe = DownloadQueue.subscribe(() => setItems(DownloadQueue.getItems()));
+    DownloadQueue.initialize()
+      .then(() => setItems(DownloadQueue.getItems()))
+      .catch(error => {
+        if (__DEV__) console.error('Failed to load download queue:', error);
+      });
+    return unsubscribe;
+  }, []);
+
+  useEffect(() => {
+    DownloadQueue.setOnline(isOnline);
+  }, [isOnline]);
+
+  useEffect(() => {
+    DownloadQueue.setConcurrency(settings.downloadConcurrency);
+  }, [settings.downloadConcurrency]);
+
+  const value: DownloadContextType = {
+    items,
+    enqueue: guides => DownloadQueue.enqueue(guides),
+    pause: guideId => DownloadQueue.pause(guideId),
+    resume: guideId => DownloadQueue.resume(guideId),
+    cancel: guideId => DownloadQueue.cancel(guideId),
+  };
+
+  return <DownloadContext.Provider value={value}>{children}</DownloadContext.Provider>;
+}
+
+export function useDownloadQueue(): DownloadContextType {
+  const context = useContext(DownloadContext);
+  if (context === undefined) {
+    throw new Error('useDownloadQueue must be used within a DownloadProvider');
+  }
+  return context;
+}
@@ -1,5 +1,6 @@
-import React, { ReactNode } from 'react';
+import React, { ReactNode, useEffect } from 'react';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
+import { QueryCachePersister } from '../services/QueryCachePersister';
 
 const queryClient = new QueryClient({
   defaultOptions: {
@@ -20,6 +21,9 @@ interface QueryProviderProps {
 }
 
 export function QueryProvider({ children }: QueryProviderProps) {
+  // Save the cache as it changes; App restores it before mounting this
+  useEffect(() => QueryCachePersister.subscribe(queryClient), []);
+
   return (
     <QueryClientProvider client={queryClient}>{children}</QueryClientProvider>
   );
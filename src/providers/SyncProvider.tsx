@@ -0,0 +1,68 @@
+import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
+import { AppState } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
+import { useNetworkStatus } from './NetworkProvider';
+import { SyncCoordinator, type SyncStatus } from '../services/SyncCoordinator';
+import { queryKeys } from '../api/queryKeys';
+
+interface SyncContextType extends SyncStatus {
+  syncNow: typeof SyncCoordinator.syncNow;
+}
+
+const SyncContext = createContext<SyncContextType | undefined>(undefined);
+
+interface SyncProviderProps {
+  children: ReactNode;
+}
+
+export function SyncProvider({ children }: SyncProviderProps) {
+  const { isOnline } = useNetworkStatus();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<SyncStatus>(SyncCoordinator.getStatus());
+
+  useEffect(() => {
+    const unsubscribe = SyncCoordinator.subscribe(setStatus);
+    SyncCoordinator.refreshCounts();
+    return unsubscribe;
+  }, []);
+
+  // Reconnecting kicks off a sync
+  useEffect(() => {
+    SyncCoordinator.setOnline(isOnline);
+  }, [isOnline]);
+
+  // So does coming back to the app
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') SyncCoordinator.requestSync();
+    });
+    return () => subscription.remove();
+  }, []);
+
+  // Synced changes replace the offline copies the screens are showing
+  useEffect(() => {
+    return SyncCoordinator.onSyncComplete(result => {
+      for (const guideId of result.guideIds) {
+        queryClient.invalidateQueries({ queryKey: queryKeys.bookmarks.byGuide(guideId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.notes.byGuide(guideId) });
+        queryClient.invalidateQueries({ queryKey: queryKeys.guides.detail(guideId) });
+      }
+      queryClient.invalidateQueries({ queryKey: queryKeys.sync.all });
+    });
+  }, [queryClient]);
+
+  const value: SyncContextType = {
+    ...status,
+    syncNow: () => SyncCoordinator.syncNow(),
+  };
+
+  return <SyncContext.Provider value={value}>{children}</SyncContext.Provider>;
+}
+
+export function useSyncStatus(): SyncContextType {
+  const context = useContext(SyncContext);
+  if (context === undefined) {
+    throw new Error('useSyncStatus must be used within a SyncProvider');
+  }
+  return context;
+}
@@ -1,2 +1,3 @@
 export { QueryProvider, queryClient } from './QueryProvider';
 export { NetworkProvider, useNetworkStatus } from './NetworkProvider';
+export { SyncProvider, useSyncStatus } from './SyncProvider';
@@ -1,5 +1,8 @@
 /**
  * DownloadsScreen - Manage offline downloaded guides
+ *
+ * Guides still in the download queue are listed above the downloaded ones,
+ * with live progress and controls to pause, resume or cancel each.
  */
 
 import React, { useState, useEffect, useCallback } from 'react';
@@ -11,6 +14,7 @@ import {
   TouchableOpacity,
   RefreshControl,
   Alert,
+  ActivityIndicator,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
@@ -19,17 +23,34 @@ import { useTheme } from '../contexts/ThemeContext';
 import { LoadingState } from '../components/LoadingState';
 import { EmptyState } from '../components/EmptyState';
 import { DownloadManager } from '../services/DownloadManager';
+import { DownloadQueue, type DownloadQueueItem } from '../services/DownloadQueue';
 import { useNetworkStatus } from '../providers/NetworkProvider';
+import { useDownloadQueue } from '../providers/DownloadProvider';
 import type { Guide } from '../types';
 
 interface DownloadedGuide extends Guide {
   downloaded_at: number;
 }
 
+function describeQueueStatus(item: DownloadQueueItem, isOnline: boolean): string {
+  switch (item.status) {
+    case 'downloading':
+      return 'Downloading...';
+    case 'paused':
+      return 'Paused';
+    case 'error':
+      return `Failed: ${item.error ?? 'Download failed'}`;
+    default:
+      if (!isOnline) return 'Waiting for connection';
+      return item.error ? `Retrying after error: ${item.error}` : 'Waiting';
+  }
+}
+
 export default function DownloadsScreen() {
   const navigation = useNavigation<any>();
   const { theme } = useTheme();
   const { isOnline } = useNetworkStatus();
+  const { items: queue, pause, resume, cancel } = useDownloadQueue();
 
   const [guides, setGuides] = useState<DownloadedGuide[]>([]);
   const [loading, setLoading] = useState(true);
@@ -39,6 +60,18 @@ export default function DownloadsScreen() {
     loadDownloadedGuides();
   }, []);
 
+  // Finished downloads move from the queue to the list
+  useEffect(() => {
+    return DownloadQueue.subscribe((progress) => {
+      if (progress.status !== 'complete') return;
+      DownloadManager.getDownloadedGuides()
+        .then(setGuides)
+        .catch((error) => {
+          if (__DEV__) console.error('Failed to load downloaded guides:', error);
+        });
+    });
+  }, []);
+
   const loadDownloadedGuides = async () => {
     try {
       setLoading(true);
@@ -170,6 +203,94 @@ export default function DownloadsScreen() {
 
   const keyExtractor = useCallback((item: DownloadedGuide) => item.id, []);
 
+  const handleQueueAction = useCallback((action: () => Promise<void>) => {
+    action().catch(() => Alert.alert('Error', 'Failed to update download'));
+  }, []);
+
+  const renderQueueItem = (item: DownloadQueueItem) => {
+    const label = item.title ?? item.guideId;
+    const canPause = item.status === 'pending' || item.status === 'downloading';
+    const toggle = canPause
+      ? { label: 'Pause', icon: 'pause' as const }
+      : item.status === 'error'
+        ? { label: 'Retry', icon: 'refresh' as const }
+        : { label: 'Resume', icon: 'play' as const };
+
+    return (
+      <View
+        key={item.guideId}
+        style={[
+          styles.queueItem,
+          { backgroundColor: theme.colors.background, borderColor: theme.colors.border },
+        ]}
+      >
+        {item.status === 'downloading' ? (
+          <ActivityIndicator size="small" color={theme.colors.primary} />
+        ) : (
+          <Ionicons
+            name={item.status === 'error' ? 'alert-circle-outline' : 'time-outline'}
+            size={20}
+            color={item.status === 'error' ? theme.colors.error : theme.colors.textSecondary}
+          />
+        )}
+        <View style={styles.guideInfo}>
+          <Text
+            style={[
+              styles.queueTitle,
+              { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+            ]}
+            numberOfLines={1}
+          >
+            {label}
+          </Text>
+          <Text
+            style={{
+              color: item.status === 'error' ? theme.colors.error : theme.colors.textSecondary,
+              fontSize: theme.typography.fontSize.xs,
+            }}
+            numberOfLines={2}
+          >
+            {describeQueueStatus(item, isOnline)}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={styles.queueButton}
+          onPress={() =>
+            handleQueueAction(() => (canPause ? pause(item.guideId) : resume(item.guideId)))
+          }
+          accessibilityRole="button"
+          accessibilityLabel={`${toggle.label} download of ${label}`}
+        >
+          <Ionicons name={toggle.icon} size={20} color={theme.colors.primary} />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.queueButton}
+          onPress={() => handleQueueAction(() => cancel(item.guideId))}
+          accessibilityRole="button"
+          accessibilityLabel={`Cancel download of ${label}`}
+        >
+          <Ionicons name="close" size={20} color={theme.colors.error} />
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const downloadingCount = queue.filter((item) => item.status === 'downloading').length;
+  const queueHeader =
+    queue.length > 0 ? (
+      <View style={styles.queue}>
+        <Text
+          style={[
+            styles.queueHeading,
+            { color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.sm },
+          ]}
+        >
+          Queue · {downloadingCount} downloading, {queue.length - downloadingCount} waiting
+        </Text>
+        {queue.map(renderQueueItem)}
+      </View>
+    ) : null;
+
   if (loading) {
     return (
       <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -178,7 +299,7 @@ export default function DownloadsScreen() {
     );
   }
 
-  if (guides.length === 0) {
+  if (guides.length === 0 && queue.length === 0) {
     return (
       <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
         <EmptyState
@@ -240,6 +361,7 @@ export default function DownloadsScreen() {
         data={guides}
         renderItem={renderItem}
         keyExtractor={keyExtractor}
+        ListHeaderComponent={queueHeader}
         refreshControl={
           <RefreshControl
             refreshing={refreshing}
@@ -323,4 +445,34 @@ const styles = StyleSheet.create({
     padding: 8,
     marginLeft: 8,
   },
+  queue: {
+    paddingBottom: 8,
+  },
+  queueHeading: {
+    fontWeight: '600',
+    marginHorizontal: 16,
+    marginVertical: 4,
+  },
+  queueItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    paddingVertical: 8,
+    paddingHorizontal: 16,
+    marginHorizontal: 12,
+    marginVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  queueTitle: {
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  queueButton: {
+    padding: 8,
+    minWidth: 44,
+    minHeight: 44,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
 });
@@ -0,0 +1,314 @@
+/**
+ * FailedSyncScreen - Offline changes the server would not accept
+ *
+ * Shows why each change failed, and lets it be queued again or discarded.
+ * Notes also edited on another device can keep either version or a merge.
+ */
+
+import React, { useCallback, useState } from 'react';
+import { View, Text, StyleSheet, FlatList, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../contexts/ThemeContext';
+import { LoadingState } from '../components/LoadingState';
+import { ErrorState } from '../components/ErrorState';
+import { EmptyState } from '../components/EmptyState';
+import { NoteMergeDialog } from '../components/NoteMergeDialog';
+import { useFailedSyncItems } from '../hooks/queries/useFailedSync';
+import {
+  useDiscardFailedSync,
+  useResolveSyncConflict,
+  useRetryFailedSync,
+} from '../hooks/mutations/useFailedSyncMutations';
+import type { SyncQueueRow } from '../database/offlineCache';
+import type { ConflictResolution } from '../services/SyncManager';
+
+const CHANGE_LABELS: Record<string, string> = {
+  'position:update': 'Reading position',
+  'bookmark:create': 'New bookmark',
+  'bookmark:delete': 'Deleted bookmark',
+  'note:create': 'New note',
+  'note:update': 'Edited note',
+  'note:delete': 'Deleted note',
+};
+
+function describeChange(item: SyncQueueRow): string {
+  const label = CHANGE_LABELS[`${item.type}:${item.action}`] ?? `${item.type} ${item.action}`;
+  const detail = item.payload.name ?? item.payload.content;
+  return typeof detail === 'string' && detail.trim() ? `${label}: ${detail.trim()}` : label;
+}
+
+function noteContent(value: { content?: unknown } | null): string {
+  return typeof value?.content === 'string' ? value.content : '';
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleDateString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+  });
+}
+
+export default function FailedSyncScreen() {
+  const { theme } = useTheme();
+
+  const { data: items = [], isLoading, error, refetch } = useFailedSyncItems();
+  const retry = useRetryFailedSync();
+  const discard = useDiscardFailedSync();
+  const resolve = useResolveSyncConflict();
+  const [mergeItem, setMergeItem] = useState<SyncQueueRow | null>(null);
+
+  const isBusy = retry.isPending || discard.isPending || resolve.isPending;
+
+  const handleRetry = useCallback(
+    (ids: number[]) => {
+      retry.mutate(ids, {
+        onSuccess: result => {
+          if (result && result.deadLettered > 0) {
+            Alert.alert('Sync Failed', `${result.deadLettered} change(s) failed again.`);
+          }
+        },
+        onError: () => Alert.alert('Error', 'Failed to retry changes'),
+      });
+    },
+    [retry]
+  );
+
+  const handleDiscard = useCallback(
+    (ids: number[]) => {
+      Alert.alert(
+        ids.length === 1 ? 'Discard Change' : 'Discard All Changes',
+        'Discarded changes are lost and will not reach the server.',
+        [
+          { text: 'Cancel', style: 'cancel' },
+          {
+            text: 'Discard',
+            style: 'destructive',
+            onPress: () =>
+              discard.mutate(ids, {
+                onError: () => Alert.alert('Error', 'Failed to discard changes'),
+              }),
+          },
+        ]
+      );
+    },
+    [discard]
+  );
+
+  const handleResolve = useCallback(
+    (id: number, resolution: ConflictResolution) => {
+      resolve.mutate(
+        { id, resolution },
+        {
+          onSuccess: () => setMergeItem(null),
+          onError: () => Alert.alert('Error', 'Failed to resolve conflict'),
+        }
+      );
+    },
+    [resolve]
+  );
+
+  const renderAction = (label: string, onPress: () => void, variant?: 'danger') => (
+    <TouchableOpacity
+      style={[
+        styles.action,
+        { borderColor: variant === 'danger' ? theme.colors.error : theme.colors.border },
+      ]}
+      onPress={onPress}
+      disabled={isBusy}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ disabled: isBusy }}
+    >
+      <Text
+        style={{
+          color: variant === 'danger' ? theme.colors.error : theme.colors.link,
+          fontSize: theme.typography.fontSize.xs,
+          fontWeight: '600',
+        }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderConflict = (item: SyncQueueRow) => (
+    <>
+      <Text style={{ color: theme.colors.error, fontSize: theme.typography.fontSize.xs }}>
+        {item.last_error ?? 'Edited on another device'}
+      </Text>
+      {[
+        { label: 'Your version', content: noteContent(item.payload) },
+        { label: 'Other version', content: noteContent(item.conflict) },
+      ].map(version => (
+        <View key={version.label} style={[styles.version, { borderColor: theme.colors.border }]}>
+          <Text
+            style={{
+              color: theme.colors.textSecondary,
+              fontSize: theme.typography.fontSize.xs,
+              fontWeight: '600',
+            }}
+          >
+            {version.label}
+          </Text>
+          <Text
+            style={{ color: theme.colors.text, fontSize: theme.typography.fontSize.xs }}
+            numberOfLines={6}
+          >
+            {version.content || '(empty)'}
+          </Text>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        {renderAction('Keep Mine', () => handleResolve(item.id, 'mine'))}
+        {renderAction('Keep Theirs', () => handleResolve(item.id, 'theirs'))}
+        {renderAction('Merge', () => setMergeItem(item))}
+        {renderAction('Discard', () => handleDiscard([item.id]), 'danger')}
+      </View>
+    </>
+  );
+
+  const renderItem = ({ item }: { item: SyncQueueRow }) => (
+    <View style={[styles.item, { borderColor: theme.colors.border }]}>
+      <Text
+        style={[
+          styles.itemTitle,
+          { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+        ]}
+        numberOfLines={2}
+      >
+        {describeChange(item)}
+      </Text>
+      {item.conflict ? (
+        renderConflict(item)
+      ) : (
+        <>
+          <Text style={{ color: theme.colors.error, fontSize: theme.typography.fontSize.xs }}>
+            {item.last_error ?? 'Unknown error'}
+          </Text>
+          <Text
+            style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}
+          >
+            Made {formatDate(item.created_at)} · {item.attempts}{' '}
+            {item.attempts === 1 ? 'attempt' : 'attempts'}
+          </Text>
+
+          <View style={styles.actions}>
+            {renderAction('Retry', () => handleRetry([item.id]))}
+            {renderAction('Discard', () => handleDiscard([item.id]), 'danger')}
+          </View>
+        </>
+      )}
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <LoadingState message="Loading failed changes..." />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <ErrorState
+          title="Failed to load changes"
+          message={error instanceof Error ? error.message : undefined}
+          onRetry={refetch}
+        />
+      </View>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <EmptyState title="No Failed Changes" message="Every offline change has synced" />
+      </View>
+    );
+  }
+
+  // Conflicts need a decision, so Retry All leaves them alone
+  const allIds = items.map(item => item.id);
+  const retryIds = items.filter(item => !item.conflict).map(item => item.id);
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['bottom']}
+    >
+      <FlatList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={item => String(item.id)}
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text
+              style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}
+            >
+              These changes were made offline but the server rejected them or kept failing. Retrying
+              queues them again. Notes also edited on another device need a version chosen.
+            </Text>
+            <View style={styles.actions}>
+              {retryIds.length > 0 && renderAction('Retry All', () => handleRetry(retryIds))}
+              {renderAction('Discard All', () => handleDiscard(allIds), 'danger')}
+            </View>
+          </View>
+        }
+        contentContainerStyle={styles.listContent}
+      />
+
+      <NoteMergeDialog
+        visible={mergeItem !== null}
+        mine={noteContent(mergeItem?.payload ?? null)}
+        theirs={noteContent(mergeItem?.conflict ?? null)}
+        onSave={content => mergeItem && handleResolve(mergeItem.id, { content })}
+        onClose={() => setMergeItem(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  header: {
+    padding: 12,
+  },
+  item: {
+    padding: 12,
+    marginHorizontal: 12,
+    marginVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 2,
+  },
+  itemTitle: {
+    fontWeight: '600',
+  },
+  version: {
+    borderLeftWidth: 2,
+    paddingLeft: 8,
+    marginTop: 6,
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  action: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+    minHeight: 36,
+  },
+});
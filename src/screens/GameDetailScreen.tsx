@@ -0,0 +1,372 @@
+/**
+ * GameDetailScreen - A game's progress and guides
+ *
+ * Change backlog status and completion percentage, and open or download
+ * the game's guides.
+ */
+
+import React, { useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  Alert,
+  ActivityIndicator,
+} from 'react-native';
+import { RouteProp, useNavigation, useRoute } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { useNetworkStatus } from '../providers/NetworkProvider';
+import { LoadingState } from '../components/LoadingState';
+import { ErrorState } from '../components/ErrorState';
+import { CompletionBar } from '../components/CompletionBar';
+import { GameArtwork } from '../components/GameArtwork';
+import { useGame } from '../hooks/queries/useGame';
+import { useGameGuides } from '../hooks/queries/useGames';
+import { useUpdateGameStatus } from '../hooks/mutations/useUpdateGameStatus';
+import { useUpdateCompletion } from '../hooks/mutations/useUpdateCompletion';
+import { useBulkDownload } from '../hooks/useBulkDownload';
+import {
+  GAME_STATUS_LABELS,
+  GAME_STATUS_ORDER,
+  formatCompletion,
+  type GameStatus,
+} from '../utils/games';
+import type { RootStackParamList } from '../types/navigation';
+
+type GameDetailScreenRouteProp = RouteProp<RootStackParamList, 'GameDetail'>;
+type GameDetailScreenNavigationProp = StackNavigationProp<RootStackParamList, 'GameDetail'>;
+
+const COMPLETION_STEP = 5;
+const COMPLETION_PRESETS = [0, 25, 50, 75, 100];
+
+export default function GameDetailScreen() {
+  const { gameId } = useRoute<GameDetailScreenRouteProp>().params;
+  const navigation = useNavigation<GameDetailScreenNavigationProp>();
+  const { theme } = useTheme();
+  const { settings } = useSettings();
+  const { isOnline } = useNetworkStatus();
+
+  const { data: gameResponse, isLoading, error, refetch } = useGame(gameId);
+  const { data: guidesResponse, isLoading: guidesLoading } = useGameGuides(gameId);
+  const updateStatus = useUpdateGameStatus();
+  const updateCompletion = useUpdateCompletion();
+  const { startBulkDownload, isPreparing: isPreparingDownload } = useBulkDownload();
+
+  const game = gameResponse?.data;
+  const guides = guidesResponse?.data ?? [];
+
+  useEffect(() => {
+    if (game) navigation.setOptions({ title: game.title });
+  }, [game, navigation]);
+
+  const handleStatusChange = useCallback(
+    (status: GameStatus) => {
+      updateStatus.mutate(
+        { gameId, status },
+        { onError: () => Alert.alert('Error', 'Failed to update game status') }
+      );
+    },
+    [gameId, updateStatus]
+  );
+
+  const handleCompletionChange = useCallback(
+    (percentage: number) => {
+      updateCompletion.mutate(
+        { gameId, percentage: Math.min(Math.max(percentage, 0), 100) },
+        { onError: () => Alert.alert('Error', 'Failed to update completion') }
+      );
+    },
+    [gameId, updateCompletion]
+  );
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <LoadingState message="Loading game..." />
+      </View>
+    );
+  }
+
+  if (error || !game) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <ErrorState
+          title="Failed to load game"
+          message={error instanceof Error ? error.message : undefined}
+          onRetry={refetch}
+        />
+      </View>
+    );
+  }
+
+  const completion = game.completion_percentage;
+  const isUpdating = updateStatus.isPending || updateCompletion.isPending;
+  const sectionTitleStyle = [
+    styles.sectionTitle,
+    { color: theme.colors.text, fontSize: theme.typography.fontSize.md },
+  ];
+
+  return (
+    <ScrollView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      contentContainerStyle={styles.content}
+    >
+      {/* Header */}
+      <View style={styles.header}>
+        <GameArtwork uri={game.artwork_url} size={96} />
+        <View style={styles.headerInfo}>
+          <Text
+            style={[
+              styles.title,
+              { color: theme.colors.text, fontSize: theme.typography.fontSize.lg },
+            ]}
+            accessibilityRole="header"
+          >
+            {game.title}
+          </Text>
+          {game.platform ? (
+            <Text
+              style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.sm }}
+            >
+              {game.platform}
+            </Text>
+          ) : null}
+        </View>
+      </View>
+
+      {/* Status */}
+      <Text style={sectionTitleStyle}>Status</Text>
+      <View style={[styles.segmented, { borderColor: theme.colors.primary }]}>
+        {GAME_STATUS_ORDER.map(status => {
+          const selected = game.status === status;
+          return (
+            <TouchableOpacity
+              key={status}
+              style={[
+                styles.segment,
+                { backgroundColor: selected ? theme.colors.primary : 'transparent' },
+              ]}
+              onPress={() => handleStatusChange(status)}
+              disabled={selected || isUpdating}
+              accessibilityRole="radio"
+              accessibilityState={{ selected, disabled: isUpdating }}
+              accessibilityLabel={GAME_STATUS_LABELS[status]}
+            >
+              <Text
+                style={{
+                  color: selected ? '#FFFFFF' : theme.colors.primary,
+                  fontSize: theme.typography.fontSize.sm,
+                  fontWeight: '600',
+                }}
+              >
+                {GAME_STATUS_LABELS[status]}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {/* Completion */}
+      <Text style={sectionTitleStyle}>Completion</Text>
+      <View style={styles.completionRow}>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: theme.colors.border }]}
+          onPress={() => handleCompletionChange(completion - COMPLETION_STEP)}
+          disabled={completion <= 0 || isUpdating}
+          accessibilityRole="button"
+          accessibilityLabel={`Decrease completion by ${COMPLETION_STEP}%`}
+        >
+          <Ionicons name="remove" size={20} color={theme.colors.text} />
+        </TouchableOpacity>
+        <View style={styles.completionBarContainer}>
+          <CompletionBar percentage={completion} height={10} />
+          <Text
+            style={[
+              styles.completionText,
+              { color: theme.colors.text, fontSize: theme.typography.fontSize.md },
+            ]}
+          >
+            {formatCompletion(completion)}
+          </Text>
+        </View>
+        <TouchableOpacity
+          style={[styles.stepButton, { borderColor: theme.colors.border }]}
+          onPress={() => handleCompletionChange(completion + COMPLETION_STEP)}
+          disabled={completion >= 100 || isUpdating}
+          accessibilityRole="button"
+          accessibilityLabel={`Increase completion by ${COMPLETION_STEP}%`}
+        >
+          <Ionicons name="add" size={20} color={theme.colors.text} />
+        </TouchableOpacity>
+      </View>
+      <View style={styles.presets}>
+        {COMPLETION_PRESETS.map(preset => (
+          <TouchableOpacity
+            key={preset}
+            style={[styles.preset, { borderColor: theme.colors.border }]}
+            onPress={() => handleCompletionChange(preset)}
+            disabled={isUpdating}
+            accessibilityRole="button"
+            accessibilityLabel={`Set completion to ${preset}%`}
+          >
+            <Text style={{ color: theme.colors.link, fontSize: theme.typography.fontSize.xs }}>
+              {preset}%
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+
+      {/* Guides; imported ones are already on the device */}
+      <View style={styles.sectionHeader}>
+        <Text style={sectionTitleStyle}>Guides ({guides.length})</Text>
+        {settings.libraryMode === 'server' && isOnline && guides.length > 0 && (
+          <TouchableOpacity
+            style={styles.downloadAll}
+            onPress={() => startBulkDownload({ gameId }, `for ${game.title}`)}
+            disabled={isPreparingDownload}
+            accessibilityRole="button"
+            accessibilityLabel={`Download all guides for ${game.title}`}
+            accessibilityState={{ busy: isPreparingDownload }}
+          >
+            {isPreparingDownload ? (
+              <ActivityIndicator size="small" color={theme.colors.link} />
+            ) : (
+              <Ionicons name="cloud-download-outline" size={18} color={theme.colors.link} />
+            )}
+            <Text style={{ color: theme.colors.link, fontSize: theme.typography.fontSize.sm }}>
+              Download All
+            </Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      {guidesLoading ? (
+        <LoadingState size="small" />
+      ) : guides.length === 0 ? (
+        <Text style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.sm }}>
+          No guides for this game yet
+        </Text>
+      ) : (
+        guides.map(guide => (
+          <TouchableOpacity
+            key={guide.id}
+            style={[styles.guideRow, { borderBottomColor: theme.colors.border }]}
+            onPress={() => navigation.navigate('GuideReader', { guideId: guide.id })}
+            accessibilityRole="button"
+            accessibilityLabel={`Open ${guide.title}`}
+          >
+            <Ionicons name="document-text-outline" size={18} color={theme.colors.link} />
+            <Text
+              style={[
+                styles.guideTitle,
+                { color: theme.colors.link, fontSize: theme.typography.fontSize.sm },
+              ]}
+              numberOfLines={2}
+            >
+              {guide.title}
+            </Text>
+            <Ionicons name="chevron-forward" size={18} color={theme.colors.textSecondary} />
+          </TouchableOpacity>
+        ))
+      )}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  content: {
+    padding: 16,
+    paddingBottom: 32,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 16,
+    marginBottom: 8,
+  },
+  headerInfo: {
+    flex: 1,
+  },
+  title: {
+    fontWeight: '700',
+    marginBottom: 4,
+  },
+  sectionTitle: {
+    fontWeight: '700',
+    marginTop: 20,
+    marginBottom: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    justifyContent: 'space-between',
+  },
+  downloadAll: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    minHeight: 44,
+  },
+  segmented: {
+    flexDirection: 'row',
+    borderWidth: 1,
+    borderRadius: 4,
+    overflow: 'hidden',
+  },
+  segment: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    minHeight: 44,
+  },
+  completionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  completionBarContainer: {
+    flex: 1,
+  },
+  completionText: {
+    fontWeight: '700',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  stepButton: {
+    width: 44,
+    height: 44,
+    borderWidth: 1,
+    borderRadius: 4,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  presets: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 8,
+  },
+  preset: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+  },
+  guideRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    minHeight: 44,
+  },
+  guideTitle: {
+    flex: 1,
+  },
+});
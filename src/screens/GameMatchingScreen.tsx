@@ -0,0 +1,375 @@
+/**
+ * GameMatchingScreen - Review which game each guide belongs to
+ *
+ * Confirm or change suggested matches, create games for guides nothing
+ * matched, and unlink guides that were linked to the wrong game.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { View, Text, StyleSheet, SectionList, TouchableOpacity, Alert } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useTheme } from '../contexts/ThemeContext';
+import { LoadingState } from '../components/LoadingState';
+import { ErrorState } from '../components/ErrorState';
+import { EmptyState } from '../components/EmptyState';
+import { GamePickerDialog } from '../components/GamePickerDialog';
+import { useGameMatches } from '../hooks/queries/useGameMatches';
+import {
+  useAutoLinkGuides,
+  useCreateGameForGuide,
+  useLinkGuide,
+  useUnlinkGuide,
+} from '../hooks/mutations/useGameMatchMutations';
+import {
+  AUTO_LINK_CONFIDENCE,
+  formatConfidence,
+  type GameCandidate,
+  type MatchableGuide,
+} from '../utils/gameMatching';
+import type { GuideMatch } from '../services/GameMatchingService';
+
+type MatchSectionKind = 'suggested' | 'unmatched' | 'linked';
+
+interface MatchSection {
+  kind: MatchSectionKind;
+  title: string;
+  data: GuideMatch[];
+}
+
+const SECTION_TITLES: Record<MatchSectionKind, string> = {
+  suggested: 'Suggested Matches',
+  unmatched: 'No Match Found',
+  linked: 'Linked',
+};
+
+function sectionKind(match: GuideMatch): MatchSectionKind {
+  if (match.linkedGame) return 'linked';
+  return match.suggestions.length > 0 ? 'suggested' : 'unmatched';
+}
+
+export default function GameMatchingScreen() {
+  const { theme } = useTheme();
+  const [pickerGuide, setPickerGuide] = useState<MatchableGuide | null>(null);
+
+  const { data, isLoading, error, refetch } = useGameMatches();
+  const linkGuide = useLinkGuide();
+  const createGame = useCreateGameForGuide();
+  const unlinkGuide = useUnlinkGuide();
+  const autoLink = useAutoLinkGuides();
+
+  const isBusy =
+    linkGuide.isPending || createGame.isPending || unlinkGuide.isPending || autoLink.isPending;
+
+  const sections = useMemo(() => {
+    const grouped: Record<MatchSectionKind, GuideMatch[]> = {
+      suggested: [],
+      unmatched: [],
+      linked: [],
+    };
+    for (const match of data?.matches ?? []) {
+      grouped[sectionKind(match)].push(match);
+    }
+    // Most confident suggestions first
+    grouped.suggested.sort((a, b) => b.suggestions[0].confidence - a.suggestions[0].confidence);
+
+    return (Object.keys(grouped) as MatchSectionKind[])
+      .map(kind => ({ kind, title: SECTION_TITLES[kind], data: grouped[kind] }))
+      .filter(section => section.data.length > 0);
+  }, [data]);
+
+  const autoLinkCount = useMemo(
+    () =>
+      (data?.matches ?? []).filter(
+        match =>
+          !match.linkedGame &&
+          match.suggestions.length > 0 &&
+          match.suggestions[0].confidence >= AUTO_LINK_CONFIDENCE
+      ).length,
+    [data]
+  );
+
+  const handleLink = useCallback(
+    (guideId: string, candidate: GameCandidate) => {
+      setPickerGuide(null);
+      linkGuide.mutate(
+        { guideId, candidate },
+        { onError: () => Alert.alert('Error', 'Failed to link guide') }
+      );
+    },
+    [linkGuide]
+  );
+
+  const handleCreate = useCallback(
+    (guide: MatchableGuide, title?: string) => {
+      setPickerGuide(null);
+      createGame.mutate(
+        { guide, title },
+        { onError: () => Alert.alert('Error', 'Failed to create game') }
+      );
+    },
+    [createGame]
+  );
+
+  const handleUnlink = useCallback(
+    (guideId: string) => {
+      unlinkGuide.mutate(guideId, {
+        onError: () => Alert.alert('Error', 'Failed to unlink guide'),
+      });
+    },
+    [unlinkGuide]
+  );
+
+  const handleAutoLink = useCallback(() => {
+    autoLink.mutate(undefined, {
+      onSuccess: linked => Alert.alert('Guides Linked', `Linked ${linked} guides to games.`),
+      onError: () => Alert.alert('Error', 'Failed to link guides'),
+    });
+  }, [autoLink]);
+
+  const renderAction = (label: string, onPress: () => void, variant?: 'danger') => (
+    <TouchableOpacity
+      style={[
+        styles.action,
+        { borderColor: variant === 'danger' ? theme.colors.error : theme.colors.border },
+      ]}
+      onPress={onPress}
+      disabled={isBusy}
+      accessibilityRole="button"
+      accessibilityLabel={label}
+      accessibilityState={{ disabled: isBusy }}
+    >
+      <Text
+        style={{
+          color: variant === 'danger' ? theme.colors.error : theme.colors.link,
+          fontSize: theme.typography.fontSize.xs,
+          fontWeight: '600',
+        }}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderItem = ({ item, section }: { item: GuideMatch; section: MatchSection }) => {
+    const best = item.suggestions[0];
+    const inferred = [item.matchable.gameName, item.matchable.platform].filter(Boolean).join(' · ');
+
+    return (
+      <View style={[styles.item, { borderColor: theme.colors.border }]}>
+        <Text
+          style={[
+            styles.guideTitle,
+            { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+          ]}
+          numberOfLines={2}
+        >
+          {item.guide.title}
+        </Text>
+        {inferred ? (
+          <Text
+            style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}
+          >
+            Looks like {inferred}
+          </Text>
+        ) : null}
+
+        {section.kind === 'linked' && item.linkedGame && (
+          <Text
+            style={[
+              styles.matchText,
+              { color: theme.colors.text, fontSize: theme.typography.fontSize.xs },
+            ]}
+          >
+            Linked to {item.linkedGame.title}
+          </Text>
+        )}
+        {section.kind === 'suggested' && best && (
+          <Text
+            style={[
+              styles.matchText,
+              { color: theme.colors.text, fontSize: theme.typography.fontSize.xs },
+            ]}
+          >
+            {best.candidate.title} · {formatConfidence(best.confidence)} match
+            {best.candidate.source === 'retroachievements' ? ' · RetroAchievements' : ''}
+          </Text>
+        )}
+
+        <View style={styles.actions}>
+          {section.kind === 'suggested' &&
+            best &&
+            renderAction('Confirm', () => handleLink(item.guide.id, best.candidate))}
+          {section.kind === 'unmatched' &&
+            renderAction('Create Game', () => handleCreate(item.matchable))}
+          {renderAction(section.kind === 'unmatched' ? 'Choose' : 'Change', () =>
+            setPickerGuide(item.matchable)
+          )}
+          {section.kind === 'linked' &&
+            renderAction('Unlink', () => handleUnlink(item.guide.id), 'danger')}
+        </View>
+      </View>
+    );
+  };
+
+  const renderSectionHeader = ({ section }: { section: MatchSection }) => (
+    <View
+      style={[
+        styles.sectionHeader,
+        { backgroundColor: theme.colors.surface, borderBottomColor: theme.colors.border },
+      ]}
+    >
+      <Text
+        style={[
+          styles.sectionTitle,
+          { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+        ]}
+        accessibilityRole="header"
+      >
+        {section.title}
+      </Text>
+      <Text style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}>
+        {section.data.length}
+      </Text>
+    </View>
+  );
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <LoadingState message="Matching guides..." />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <ErrorState
+          title="Failed to match guides"
+          message={error instanceof Error ? error.message : undefined}
+          onRetry={refetch}
+        />
+      </View>
+    );
+  }
+
+  if (sections.length === 0) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <EmptyState title="No Guides" message="Import guides to match them to games" />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['bottom']}
+    >
+      <SectionList
+        sections={sections}
+        renderItem={renderItem}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={item => item.guide.id}
+        stickySectionHeadersEnabled
+        ListHeaderComponent={
+          <View style={styles.header}>
+            <Text
+              style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}
+            >
+              Matches of {formatConfidence(AUTO_LINK_CONFIDENCE)} or more can be linked without
+              review.
+            </Text>
+            <TouchableOpacity
+              style={[
+                styles.autoLinkButton,
+                { backgroundColor: autoLinkCount > 0 ? theme.colors.primary : theme.colors.border },
+              ]}
+              onPress={handleAutoLink}
+              disabled={autoLinkCount === 0 || isBusy}
+              accessibilityRole="button"
+              accessibilityLabel={`Link ${autoLinkCount} confident matches`}
+              accessibilityState={{ disabled: autoLinkCount === 0 || isBusy }}
+            >
+              <Text style={[styles.autoLinkText, { fontSize: theme.typography.fontSize.sm }]}>
+                Link {autoLinkCount} Confident {autoLinkCount === 1 ? 'Match' : 'Matches'}
+              </Text>
+            </TouchableOpacity>
+          </View>
+        }
+        contentContainerStyle={styles.listContent}
+      />
+
+      <GamePickerDialog
+        visible={pickerGuide !== null}
+        guide={pickerGuide}
+        candidates={data?.candidates ?? []}
+        onSelect={candidate => pickerGuide && handleLink(pickerGuide.id, candidate)}
+        onCreate={title => pickerGuide && handleCreate(pickerGuide, title)}
+        onClose={() => setPickerGuide(null)}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 16,
+  },
+  header: {
+    padding: 12,
+    gap: 8,
+  },
+  autoLinkButton: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    borderRadius: 4,
+    minHeight: 44,
+  },
+  autoLinkText: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  sectionTitle: {
+    fontWeight: '700',
+  },
+  item: {
+    padding: 12,
+    marginHorizontal: 12,
+    marginVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  guideTitle: {
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  matchText: {
+    marginTop: 6,
+    fontWeight: '500',
+  },
+  actions: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginTop: 8,
+  },
+  action: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 12,
+    justifyContent: 'center',
+    minHeight: 36,
+  },
+});
@@ -0,0 +1,316 @@
+/**
+ * GamesScreen - Game backlog grouped by status
+ *
+ * Lists games in progress, completed and not started with their
+ * completion percentage, artwork and number of guides.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  SectionList,
+  TouchableOpacity,
+  RefreshControl,
+} from 'react-native';
+import { CompositeNavigationProp, useNavigation } from '@react-navigation/native';
+import { BottomTabNavigationProp } from '@react-navigation/bottom-tabs';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Ionicons } from '@expo/vector-icons';
+import { useTheme } from '../contexts/ThemeContext';
+import { useSettings } from '../contexts/SettingsContext';
+import { LoadingState } from '../components/LoadingState';
+import { ErrorState } from '../components/ErrorState';
+import { EmptyState } from '../components/EmptyState';
+import { CompletionBar } from '../components/CompletionBar';
+import { GameArtwork } from '../components/GameArtwork';
+import { useGamesWithGuides } from '../hooks/queries/useGames';
+import { formatCompletion, groupGamesByStatus, type GameStatusGroup } from '../utils/games';
+import type { GameWithGuideCount } from '../api/types';
+import type { RootStackParamList, RootTabParamList } from '../types/navigation';
+
+type GamesScreenNavigationProp = CompositeNavigationProp<
+  BottomTabNavigationProp<RootTabParamList, 'Games'>,
+  StackNavigationProp<RootStackParamList>
+>;
+
+export default function GamesScreen() {
+  const navigation = useNavigation<GamesScreenNavigationProp>();
+  const { theme } = useTheme();
+  const { settings } = useSettings();
+  const isLocalLibrary = settings.libraryMode === 'local';
+  const [refreshing, setRefreshing] = useState(false);
+
+  const { data, isLoading, error, refetch } = useGamesWithGuides();
+
+  const sections = useMemo(() => groupGamesByStatus(data?.data ?? []), [data]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await refetch();
+    setRefreshing(false);
+  }, [refetch]);
+
+  const handleGamePress = useCallback(
+    (gameId: string) => {
+      navigation.navigate('GameDetail', { gameId });
+    },
+    [navigation]
+  );
+
+  const handleMatchGuides = useCallback(() => {
+    navigation.navigate('GameMatching');
+  }, [navigation]);
+
+  const renderItem = useCallback(
+    ({ item }: { item: GameWithGuideCount }) => (
+      <TouchableOpacity
+        style={[
+          styles.gameItem,
+          {
+            backgroundColor: theme.colors.background,
+            borderColor: theme.colors.border,
+          },
+        ]}
+        onPress={() => handleGamePress(item.id)}
+        accessibilityRole="button"
+        accessibilityLabel={`${item.title}, ${formatCompletion(item.completion_percentage)} complete, ${item.guide_count} ${item.guide_count === 1 ? 'guide' : 'guides'}`}
+      >
+        <GameArtwork uri={item.artwork_url} />
+        <View style={styles.gameInfo}>
+          <Text
+            style={[
+              styles.gameTitle,
+              { color: theme.colors.text, fontSize: theme.typography.fontSize.md },
+            ]}
+            numberOfLines={2}
+          >
+            {item.title}
+          </Text>
+          <View style={styles.gameMeta}>
+            {item.platform ? (
+              <Text
+                style={[
+                  styles.metaText,
+                  { color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.sm },
+                ]}
+              >
+                {item.platform}
+              </Text>
+            ) : null}
+            <View style={styles.metaItem}>
+              <Ionicons name="document-text-outline" size={14} color={theme.colors.textSecondary} />
+              <Text
+                style={[
+                  styles.metaText,
+                  { color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.sm },
+                ]}
+              >
+                {item.guide_count}
+              </Text>
+            </View>
+          </View>
+          <View style={styles.completionRow}>
+            <CompletionBar percentage={item.completion_percentage} style={styles.completionBar} />
+            <Text
+              style={[
+                styles.completionText,
+                { color: theme.colors.text, fontSize: theme.typography.fontSize.xs },
+              ]}
+            >
+              {formatCompletion(item.completion_percentage)}
+            </Text>
+          </View>
+        </View>
+        <Ionicons name="chevron-forward" size={20} color={theme.colors.textSecondary} />
+      </TouchableOpacity>
+    ),
+    [theme, handleGamePress]
+  );
+
+  const renderSectionHeader = useCallback(
+    ({ section }: { section: GameStatusGroup<GameWithGuideCount> }) => (
+      <View
+        style={[
+          styles.sectionHeader,
+          {
+            backgroundColor: theme.colors.surface,
+            borderBottomColor: theme.colors.border,
+          },
+        ]}
+      >
+        <Text
+          style={[
+            styles.sectionTitle,
+            { color: theme.colors.text, fontSize: theme.typography.fontSize.sm },
+          ]}
+          accessibilityRole="header"
+        >
+          {section.title}
+        </Text>
+        <Text style={{ color: theme.colors.textSecondary, fontSize: theme.typography.fontSize.xs }}>
+          {section.data.length}
+        </Text>
+      </View>
+    ),
+    [theme]
+  );
+
+  const keyExtractor = useCallback((item: GameWithGuideCount) => item.id, []);
+
+  if (isLoading) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <LoadingState message="Loading games..." />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <ErrorState
+          title="Failed to load games"
+          message={error instanceof Error ? error.message : undefined}
+          onRetry={refetch}
+        />
+      </View>
+    );
+  }
+
+  if (sections.length === 0) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <EmptyState
+          title="No Games Yet"
+          message="Games appear here once guides in your library are linked to them"
+          actionTitle={isLocalLibrary ? 'Match Guides' : 'Go to Library'}
+          onAction={isLocalLibrary ? handleMatchGuides : () => navigation.navigate('Library')}
+        />
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView
+      style={[styles.container, { backgroundColor: theme.colors.background }]}
+      edges={['bottom']}
+    >
+      <SectionList
+        sections={sections}
+        renderItem={renderItem}
+        renderSectionHeader={renderSectionHeader}
+        keyExtractor={keyExtractor}
+        stickySectionHeadersEnabled
+        ListHeaderComponent={
+          isLocalLibrary ? (
+            <TouchableOpacity
+              style={[styles.matchButton, { borderColor: theme.colors.border }]}
+              onPress={handleMatchGuides}
+              accessibilityRole="button"
+              accessibilityLabel="Match guides to games"
+            >
+              <Ionicons name="link-outline" size={18} color={theme.colors.link} />
+              <Text
+                style={[
+                  styles.matchButtonText,
+                  { color: theme.colors.link, fontSize: theme.typography.fontSize.sm },
+                ]}
+              >
+                Match Guides to Games
+              </Text>
+            </TouchableOpacity>
+          ) : null
+        }
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={theme.colors.primary}
+          />
+        }
+        contentContainerStyle={styles.listContent}
+      />
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  listContent: {
+    paddingBottom: 8,
+  },
+  matchButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    margin: 12,
+    marginBottom: 4,
+    borderWidth: 1,
+    borderRadius: 8,
+    minHeight: 44,
+  },
+  matchButtonText: {
+    fontWeight: '600',
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  sectionTitle: {
+    fontWeight: '700',
+  },
+  gameItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    marginHorizontal: 12,
+    marginVertical: 4,
+    borderRadius: 8,
+    borderWidth: 1,
+    gap: 12,
+  },
+  gameInfo: {
+    flex: 1,
+  },
+  gameTitle: {
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  gameMeta: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    marginBottom: 6,
+  },
+  metaItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  metaText: {
+    fontWeight: '500',
+  },
+  completionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  completionBar: {
+    flex: 1,
+  },
+  completionText: {
+    minWidth: 36,
+    textAlign: 'right',
+    fontWeight: '600',
+  },
+});
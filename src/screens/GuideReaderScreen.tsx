@@ -5,9 +5,12 @@
  * custom hooks and components.
  *
  * Features:
- * - Guide loading with scroll position auto-save
+ * - Guide loading with content-anchored reading position auto-save
  * - Bookmarks with sidebar
+ * - Guide and line notes with margin markers
+ * - Table of contents from GameFAQs section codes
  * - In-guide search with highlighting
+ * - Achievement tracker for the guide's game, with passages that mention each achievement
  * - Font size adjustment
  * - Metadata editing
  * - Classic GameFAQs styling
@@ -26,37 +29,59 @@ import { FontControls } from '../components/reader/FontControls';
 import { ReaderToolbar } from '../components/reader/ReaderToolbar';
 import { BookmarkBottomSheet } from '../components/reader/BookmarkBottomSheet';
 import { SearchBar } from '../components/reader/SearchBar';
+import { SearchResultsList } from '../components/reader/SearchResultsList';
+import { ReaderScrubber } from '../components/reader/ReaderScrubber';
 import { BookmarkDialog } from '../components/reader/BookmarkDialog';
 import { MetadataDialog } from '../components/reader/MetadataDialog';
+import { TableOfContentsSheet } from '../components/reader/TableOfContentsSheet';
+import { NotesBottomSheet } from '../components/reader/NotesBottomSheet';
+import { AchievementPanel } from '../components/reader/AchievementPanel';
+import { AchievementPassagesSheet } from '../components/reader/AchievementPassagesSheet';
 import { Toast } from '../components/Toast';
+import { ExportDialog } from '../components/ExportDialog';
 import { DownloadManager } from '../services/DownloadManager';
+import { isLocalLibrary } from '../api/dataSource';
+import { ExportService, ExportFormat } from '../services/ExportService';
 import { useGuideReader } from '../hooks/useGuideReader';
 import { useBookmarks } from '../hooks/useBookmarks';
+import { useNotes } from '../hooks/useNotes';
 import { useGuideSearch } from '../hooks/useGuideSearch';
+import { useGuideOutline } from '../hooks/useGuideOutline';
+import { useAchievements } from '../hooks/useAchievements';
+import { useAchievementPassages } from '../hooks/useAchievementPassages';
 import { useToast } from '../hooks/useToast';
-import { RootTabParamList } from '../types/navigation';
+import { lineIndexForOffset, getLineOffsets } from '../utils/readingPosition';
+import { groupSearchResults, getMatchLines, type SearchResult } from '../utils/textSearch';
+import { RootStackParamList, RootTabParamList } from '../types/navigation';
+import type { Achievement, TextEncoding } from '../types';
 
 type GuideReaderScreenRouteProp = RouteProp<RootTabParamList, 'Reader'>;
-type GuideReaderScreenNavigationProp = StackNavigationProp<RootTabParamList, 'Reader'>;
+type GuideReaderScreenNavigationProp = StackNavigationProp<RootStackParamList, 'GuideReader'>;
 
 interface GuideReaderScreenProps {
   route?: GuideReaderScreenRouteProp;
 }
 
+// Bookmarks within this many lines of the reading line count as "here"
+const BOOKMARK_LINE_THRESHOLD = 2;
+
 export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
   const guideId = route?.params?.guideId;
+  const initialLine = route?.params?.lineIndex;
   const navigation = useNavigation<GuideReaderScreenNavigationProp>();
   const { theme } = useTheme();
   const { showSuccess, showError, toastProps } = useToast();
 
-  // Guide loading and scroll position
+  // Guide loading and reading position
   const {
     guide,
     loading,
     error,
-    scrollPosition,
-    setScrollPosition,
-    saveScrollPosition,
+    lines,
+    readingLine,
+    setReadingLine,
+    restoredLine,
+    saveReadingPosition,
     updateMetadata,
     reload: reloadGuide,
   } = useGuideReader(guideId);
@@ -67,40 +92,93 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     createBookmark,
     deleteBookmark,
     reload: reloadBookmarks,
-  } = useBookmarks(guideId);
+  } = useBookmarks(guideId, lines);
+
+  // Notes management
+  const { notes, notedLines, createNote, updateNote, deleteNote } = useNotes(guideId, lines);
 
   // In-guide search
   const {
     searchQuery,
     setSearchQuery,
+    searchOptions,
+    toggleSearchOption,
+    searchError,
+    searchMatches,
+    searchTruncated,
     currentMatchIndex,
     currentMatchPosition,
     hasMatches,
     totalMatches,
     goToNextMatch,
     goToPreviousMatch,
+    goToMatch,
     clearSearch,
   } = useGuideSearch(guide?.content || '');
 
+  // Achievements for the guide's game
+  const { achievements, unlockedCount, togglePin } = useAchievements(guide?.game_id);
+
   // Local UI state
   const [fontSize, setFontSize] = useState(8);
   const [showBookmarkSidebar, setShowBookmarkSidebar] = useState(false);
+  const [showContents, setShowContents] = useState(false);
+  const [showNotes, setShowNotes] = useState(false);
+  const [selectedNoteId, setSelectedNoteId] = useState<string | null>(null);
+  const [showExportDialog, setShowExportDialog] = useState(false);
   const [showSearch, setShowSearch] = useState(false);
+  const [showSearchResults, setShowSearchResults] = useState(false);
   const [showBookmarkDialog, setShowBookmarkDialog] = useState(false);
   const [showMetadataDialog, setShowMetadataDialog] = useState(false);
+  const [showAchievements, setShowAchievements] = useState(false);
+  const [showAchievementPassages, setShowAchievementPassages] = useState(false);
+  const [locatedAchievement, setLocatedAchievement] = useState<Achievement | null>(null);
   const [isDownloaded, setIsDownloaded] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
 
+  // Table of contents
+  const { outline, currentSection } = useGuideOutline(
+    guide?.content || '',
+    guide?.format,
+    readingLine
+  );
+
+  // Passages mentioning the achievement being located
+  const { groups: achievementPassages, loading: achievementPassagesLoading } =
+    useAchievementPassages(locatedAchievement, guide, lines);
+
+  const lineOffsets = useMemo(() => getLineOffsets(lines), [lines]);
+
+  // Search results by section, only built while the list is open
+  const searchResults = useMemo(
+    () =>
+      showSearchResults && hasMatches
+        ? groupSearchResults(searchMatches, lines, lineOffsets, outline)
+        : [],
+    [showSearchResults, hasMatches, searchMatches, lines, lineOffsets, outline]
+  );
+
+  // Scrubber markers
+  const searchMatchLines = useMemo(
+    () => getMatchLines(searchMatches, lineOffsets),
+    [searchMatches, lineOffsets]
+  );
+  const bookmarkLines = useMemo(() => bookmarks.map((b) => b.lineIndex), [bookmarks]);
+  const noteLines = useMemo(() => Array.from(notedLines), [notedLines]);
+
   // GuideContent ref for programmatic scrolling
   const guideContentRef = useRef<GuideContentRef>(null);
 
-  // Track programmatic scrolls to prevent onScroll from overwriting target position
+  // Track programmatic scrolls to prevent line updates from overwriting target position
   const isProgrammaticScrollRef = useRef(false);
   const programmaticScrollTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const hasRestoredPositionRef = useRef(false);
 
-  // Check if guide is downloaded on load
+  // Check if guide is downloaded on load (local library guides always are)
   useEffect(() => {
-    if (guideId) {
+    if (guideId && isLocalLibrary()) {
+      setIsDownloaded(true);
+    } else if (guideId) {
       DownloadManager.isDownloaded(guideId)
         .then(setIsDownloaded)
         .catch((error) => {
@@ -109,35 +187,32 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     }
   }, [guideId]);
 
-  // Check if a bookmark exists near the current scroll position
+  // Check if a bookmark exists near the current reading line
   const bookmarkAtPosition = useMemo(() => {
     if (!bookmarks || bookmarks.length === 0) return null;
-    // Find bookmark within 50px of current position
-    const threshold = 50;
     return bookmarks.find(
-      (b) => Math.abs(b.position - scrollPosition) < threshold && !b.is_last_read
+      (b) => Math.abs(b.lineIndex - readingLine) <= BOOKMARK_LINE_THRESHOLD && !b.is_last_read
     ) || null;
-  }, [bookmarks, scrollPosition]);
+  }, [bookmarks, readingLine]);
 
-  // Find previous and next bookmarks relative to current scroll position
+  // Find previous and next bookmarks relative to current reading line
   const { previousBookmark, nextBookmark } = useMemo(() => {
     if (!bookmarks || bookmarks.length === 0) {
       return { previousBookmark: null, nextBookmark: null };
     }
 
-    // Sort bookmarks by position
-    const sortedBookmarks = [...bookmarks].sort((a, b) => a.position - b.position);
+    // Sort bookmarks by line
+    const sortedBookmarks = [...bookmarks].sort((a, b) => a.lineIndex - b.lineIndex);
 
-    // Find bookmarks before and after current position (with some threshold to avoid current position)
-    const threshold = 50;
-    const before = sortedBookmarks.filter((b) => b.position < scrollPosition - threshold);
-    const after = sortedBookmarks.filter((b) => b.position > scrollPosition + threshold);
+    // Find bookmarks before and after current line (with some threshold to avoid current line)
+    const before = sortedBookmarks.filter((b) => b.lineIndex < readingLine - BOOKMARK_LINE_THRESHOLD);
+    const after = sortedBookmarks.filter((b) => b.lineIndex > readingLine + BOOKMARK_LINE_THRESHOLD);
 
     return {
       previousBookmark: before.length > 0 ? before[before.length - 1] : null,
       nextBookmark: after.length > 0 ? after[0] : null,
     };
-  }, [bookmarks, scrollPosition]);
+  }, [bookmarks, readingLine]);
 
 
   // Update navigation header with guide title
@@ -151,31 +226,31 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
   }, [guide, navigation]);
 
   // Refs to hold latest values for unmount cleanup
-  const scrollPositionRef = useRef(scrollPosition);
-  const saveScrollPositionRef = useRef(saveScrollPosition);
+  const readingLineRef = useRef(readingLine);
+  const saveReadingPositionRef = useRef(saveReadingPosition);
   useEffect(() => {
-    scrollPositionRef.current = scrollPosition;
-  }, [scrollPosition]);
+    readingLineRef.current = readingLine;
+  }, [readingLine]);
   useEffect(() => {
-    saveScrollPositionRef.current = saveScrollPosition;
-  }, [saveScrollPosition]);
+    saveReadingPositionRef.current = saveReadingPosition;
+  }, [saveReadingPosition]);
 
-  // Auto-save scroll position with debounce
+  // Auto-save reading position with debounce
   useEffect(() => {
-    if (!guideId || scrollPosition === 0) return;
+    if (!guideId || readingLine === 0) return;
 
     const timeoutId = setTimeout(() => {
-      saveScrollPosition(scrollPosition);
+      saveReadingPosition(readingLine);
     }, 2000); // Save 2 seconds after scrolling stops
 
     return () => clearTimeout(timeoutId);
-  }, [scrollPosition, guideId, saveScrollPosition]);
+  }, [readingLine, guideId, saveReadingPosition]);
 
   // Save on unmount only (use refs to avoid re-running effect)
   useEffect(() => {
     return () => {
-      if (guideId && scrollPositionRef.current > 0) {
-        saveScrollPositionRef.current(scrollPositionRef.current);
+      if (guideId && readingLineRef.current > 0) {
+        saveReadingPositionRef.current(readingLineRef.current);
       }
       // Clean up programmatic scroll timeout
       if (programmaticScrollTimeoutRef.current) {
@@ -185,7 +260,7 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [guideId]);
 
-  // Scroll to search match when it changes
+  // Scroll to search match when it changes (match position is a character offset)
   useEffect(() => {
     if (currentMatchPosition !== undefined) {
       // Clear any existing timeout
@@ -193,18 +268,33 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
         clearTimeout(programmaticScrollTimeoutRef.current);
       }
 
-      // Set position and mark as programmatic scroll
-      setScrollPosition(currentMatchPosition);
+      // Set line and mark as programmatic scroll
+      const matchLine = lineIndexForOffset(lines, currentMatchPosition);
+      setReadingLine(matchLine);
       isProgrammaticScrollRef.current = true;
 
-      guideContentRef.current?.scrollToPosition(currentMatchPosition, true);
+      guideContentRef.current?.scrollToLine(matchLine, true);
 
       // Re-enable scroll updates after animation
       programmaticScrollTimeoutRef.current = setTimeout(() => {
         isProgrammaticScrollRef.current = false;
       }, 500);
     }
-  }, [currentMatchPosition, setScrollPosition]);
+  }, [currentMatchPosition, lines, setReadingLine]);
+
+  // Opening at a passage takes precedence over resuming
+  useEffect(() => {
+    if (initialLine === undefined || lines.length === 0 || hasRestoredPositionRef.current) return;
+    hasRestoredPositionRef.current = true;
+    scrollToLineProgrammatically(Math.min(initialLine, lines.length - 1), false);
+  }, [initialLine, lines]);
+
+  // Resume at the last-read line once it has been resolved
+  useEffect(() => {
+    if (restoredLine === null || hasRestoredPositionRef.current) return;
+    hasRestoredPositionRef.current = true;
+    guideContentRef.current?.scrollToLine(restoredLine, false);
+  }, [restoredLine]);
 
   // Font size controls
   const handleIncreaseFontSize = () => {
@@ -222,7 +312,7 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
 
   const handleSaveBookmark = async (title: string, notes?: string) => {
     try {
-      await createBookmark(title, scrollPosition, notes);
+      await createBookmark(title, readingLine, notes);
       showSuccess('Bookmark created');
       handleCloseBookmarkDialog();
     } catch (error) {
@@ -235,19 +325,19 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     setShowBookmarkDialog(false);
   };
 
-  // Helper for programmatic scrolling - suppresses onScroll updates during animation
-  const scrollToPositionProgrammatically = (position: number, animated = true) => {
+  // Helper for programmatic scrolling - suppresses line updates during animation
+  const scrollToLineProgrammatically = (lineIndex: number, animated = true) => {
     // Clear any existing timeout
     if (programmaticScrollTimeoutRef.current) {
       clearTimeout(programmaticScrollTimeoutRef.current);
     }
 
-    // Set the position immediately and mark as programmatic scroll
-    setScrollPosition(position);
+    // Set the line immediately and mark as programmatic scroll
+    setReadingLine(lineIndex);
     isProgrammaticScrollRef.current = true;
 
     // Perform the scroll
-    guideContentRef.current?.scrollToPosition(position, animated);
+    guideContentRef.current?.scrollToLine(lineIndex, animated);
 
     // Re-enable scroll updates after animation completes (500ms should cover most animations)
     programmaticScrollTimeoutRef.current = setTimeout(() => {
@@ -255,23 +345,37 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     }, 500);
   };
 
-  const handleNavigateToBookmark = (position: number) => {
-    scrollToPositionProgrammatically(position);
+  const handleNavigateToBookmark = (lineIndex: number) => {
+    scrollToLineProgrammatically(lineIndex);
     setShowBookmarkSidebar(false);
   };
 
+  // Scrubber drags scroll without animation so the content tracks the finger
+  const handleScrub = (lineIndex: number) => {
+    guideContentRef.current?.scrollToLine(lineIndex, false);
+  };
+
+  const handleScrubEnd = (lineIndex: number) => {
+    scrollToLineProgrammatically(lineIndex, false);
+  };
+
+  const handleNavigateToSection = (lineIndex: number) => {
+    scrollToLineProgrammatically(lineIndex);
+    setShowContents(false);
+  };
+
   const handlePreviousBookmark = () => {
     if (previousBookmark) {
-      scrollToPositionProgrammatically(previousBookmark.position);
+      scrollToLineProgrammatically(previousBookmark.lineIndex);
     } else {
       // No previous bookmark - jump to beginning
-      scrollToPositionProgrammatically(0);
+      scrollToLineProgrammatically(0);
     }
   };
 
   const handleNextBookmark = () => {
     if (nextBookmark) {
-      scrollToPositionProgrammatically(nextBookmark.position);
+      scrollToLineProgrammatically(nextBookmark.lineIndex);
     } else {
       // No next bookmark - jump to end
       // Clear any existing timeout
@@ -288,7 +392,7 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
 
   // Jump to start/end of document for bookmarking
   const handleJumpToStart = () => {
-    scrollToPositionProgrammatically(0);
+    scrollToLineProgrammatically(0);
   };
 
   const handleJumpToEnd = () => {
@@ -305,6 +409,72 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     }
   };
 
+  // Note handlers
+  const handleOpenNote = (lineIndex: number) => {
+    const note = notes.find((n) => n.lineIndex === lineIndex);
+    setSelectedNoteId(note?.id ?? null);
+    setShowNotes(true);
+  };
+
+  const handleNavigateToNote = (lineIndex: number) => {
+    scrollToLineProgrammatically(lineIndex);
+    handleCloseNotes();
+  };
+
+  const handleCloseNotes = () => {
+    setShowNotes(false);
+    setSelectedNoteId(null);
+  };
+
+  const handleCreateNote = async (content: string, lineIndex: number | null) => {
+    try {
+      await createNote(content, lineIndex);
+      showSuccess('Note added');
+    } catch (error) {
+      showError('Failed to add note');
+      if (__DEV__) console.error('Failed to create note:', error);
+    }
+  };
+
+  const handleUpdateNote = async (noteId: string, content: string) => {
+    try {
+      await updateNote(noteId, content);
+      showSuccess('Note updated');
+    } catch (error) {
+      showError('Failed to update note');
+      if (__DEV__) console.error('Failed to update note:', error);
+    }
+  };
+
+  const handleDeleteNote = async (noteId: string) => {
+    try {
+      await deleteNote(noteId);
+      showSuccess('Note deleted');
+    } catch (error) {
+      showError('Failed to delete note');
+      if (__DEV__) console.error('Failed to delete note:', error);
+    }
+  };
+
+  // Export handlers
+  const handleOpenExportDialog = () => {
+    handleCloseNotes();
+    setShowExportDialog(true);
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    if (!guideId) return;
+
+    setShowExportDialog(false);
+    try {
+      const result = await ExportService.exportGuide(guideId, format);
+      showSuccess(`Exported ${result.bookmarkCount} bookmarks and ${result.noteCount} notes`);
+    } catch (error) {
+      showError('Failed to export annotations');
+      if (__DEV__) console.error('Failed to export annotations:', error);
+    }
+  };
+
   // Search handlers
   const handleOpenSearch = () => {
     setShowSearch(true);
@@ -312,9 +482,17 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
 
   const handleCloseSearch = () => {
     setShowSearch(false);
+    setShowSearchResults(false);
     clearSearch();
   };
 
+  // Scroll directly too, since picking the current match again doesn't change its position
+  const handleSearchResultPress = (result: SearchResult) => {
+    goToMatch(result.matchIndex);
+    scrollToLineProgrammatically(result.lineIndex);
+    setShowSearchResults(false);
+  };
+
   // Metadata handlers
   const handleOpenMetadataDialog = () => {
     setShowMetadataDialog(true);
@@ -325,6 +503,7 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     author?: string;
     platform?: string;
     tags?: string;
+    encoding?: TextEncoding;
   }) => {
     try {
       await updateMetadata(updates);
@@ -337,6 +516,10 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
   };
 
   // Toolbar handlers
+  const handleContentsPress = () => {
+    setShowContents(true);
+  };
+
   const handleSearchPress = () => {
     handleOpenSearch();
   };
@@ -349,6 +532,11 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     setShowBookmarkSidebar(true);
   };
 
+  const handleNotesPress = () => {
+    setSelectedNoteId(null);
+    setShowNotes(true);
+  };
+
   const handleDownloadPress = async () => {
     if (!guideId || isDownloaded || isDownloading) return;
 
@@ -365,11 +553,34 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     }
   };
 
-  // Handle scroll events - always use integer positions
-  // Skip updates during programmatic scrolls to prevent overwriting target position
-  const handleScroll = (position: number) => {
+  const handleToggleAchievementPin = async (achievement: Achievement) => {
+    try {
+      await togglePin(achievement);
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Failed to pin achievement');
+    }
+  };
+
+  const handleLocateAchievement = (achievement: Achievement) => {
+    setLocatedAchievement(achievement);
+    setShowAchievementPassages(true);
+  };
+
+  // Passages in other guides open on top so back returns here
+  const handleAchievementPassagePress = (passageGuideId: string, lineIndex: number) => {
+    setShowAchievementPassages(false);
+    if (passageGuideId === guideId) {
+      scrollToLineProgrammatically(lineIndex);
+    } else {
+      navigation.push('GuideReader', { guideId: passageGuideId, lineIndex });
+    }
+  };
+
+  // Track the first visible line as the reading position
+  // Skip updates during programmatic scrolls to prevent overwriting target line
+  const handleVisibleLineChange = (lineIndex: number) => {
     if (isProgrammaticScrollRef.current) return;
-    setScrollPosition(Math.round(position));
+    setReadingLine(lineIndex);
   };
 
   // Loading state
@@ -419,9 +630,11 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
     >
       {/* Toolbar */}
       <ReaderToolbar
+        onContentsPress={handleContentsPress}
         onSearchPress={handleSearchPress}
         onEditPress={handleEditPress}
         onBookmarksPress={handleBookmarksPress}
+        onNotesPress={handleNotesPress}
         onDownloadPress={handleDownloadPress}
         isDownloaded={isDownloaded}
         isDownloading={isDownloading}
@@ -439,6 +652,21 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
           currentMatchIndex={currentMatchIndex}
           totalMatches={totalMatches}
           hasMatches={hasMatches}
+          searchOptions={searchOptions}
+          onToggleOption={toggleSearchOption}
+          searchError={searchError}
+          searchTruncated={searchTruncated}
+          resultsExpanded={showSearchResults}
+          onToggleResults={() => setShowSearchResults((prev) => !prev)}
+        />
+      )}
+
+      {/* Search Results */}
+      {showSearch && showSearchResults && hasMatches && (
+        <SearchResultsList
+          results={searchResults}
+          currentMatchIndex={currentMatchIndex}
+          onResultPress={handleSearchResultPress}
         />
       )}
 
@@ -453,6 +681,18 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
         hasNextBookmark={true}
       />
 
+      {/* Achievements */}
+      {achievements.length > 0 && (
+        <AchievementPanel
+          achievements={achievements}
+          unlockedCount={unlockedCount}
+          expanded={showAchievements}
+          onToggleExpanded={() => setShowAchievements((prev) => !prev)}
+          onTogglePin={handleToggleAchievementPin}
+          onLocate={handleLocateAchievement}
+        />
+      )}
+
       {/* Guide Content */}
       <View style={styles.readerContainer}>
         {/* Left-side bookmark button - tap to create bookmark at current position */}
@@ -496,9 +736,24 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
           ref={guideContentRef}
           content={guide.content}
           fontSize={fontSize}
-          searchQuery={searchQuery}
+          searchMatches={searchMatches}
           currentMatchIndex={currentMatchIndex}
-          onScroll={handleScroll}
+          onVisibleLineChange={handleVisibleLineChange}
+          noteLines={notedLines}
+          onNoteMarkerPress={handleOpenNote}
+          showsScrollIndicator={false}
+        />
+
+        <ReaderScrubber
+          totalLines={lines.length}
+          currentLine={readingLine}
+          sections={outline}
+          bookmarkLines={bookmarkLines}
+          noteLines={noteLines}
+          lastReadLine={restoredLine}
+          searchMatchLines={searchMatchLines}
+          onScrub={handleScrub}
+          onScrubEnd={handleScrubEnd}
         />
       </View>
 
@@ -511,6 +766,46 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
         onDeleteBookmark={handleDeleteBookmark}
       />
 
+      {/* Table of Contents */}
+      <TableOfContentsSheet
+        visible={showContents}
+        sections={outline}
+        currentSection={currentSection}
+        onClose={() => setShowContents(false)}
+        onSectionPress={handleNavigateToSection}
+      />
+
+      {/* Notes */}
+      <NotesBottomSheet
+        visible={showNotes}
+        notes={notes}
+        currentLine={readingLine}
+        selectedNoteId={selectedNoteId}
+        onClose={handleCloseNotes}
+        onCreateNote={handleCreateNote}
+        onUpdateNote={handleUpdateNote}
+        onDeleteNote={handleDeleteNote}
+        onNotePress={handleNavigateToNote}
+        onExportPress={handleOpenExportDialog}
+      />
+
+      {/* Achievement Passages */}
+      <AchievementPassagesSheet
+        visible={showAchievementPassages}
+        achievement={locatedAchievement}
+        groups={achievementPassages}
+        loading={achievementPassagesLoading}
+        onClose={() => setShowAchievementPassages(false)}
+        onPassagePress={handleAchievementPassagePress}
+      />
+
+      {/* Export Dialog */}
+      <ExportDialog
+        visible={showExportDialog}
+        onClose={() => setShowExportDialog(false)}
+        onSelectFormat={handleExport}
+      />
+
       {/* Bookmark Dialog */}
       <BookmarkDialog
         visible={showBookmarkDialog}
@@ -524,6 +819,7 @@ export default function GuideReaderScreen({ route }: GuideReaderScreenProps) {
         guide={guide}
         onClose={() => setShowMetadataDialog(false)}
         onSave={handleSaveMetadata}
+        allowEncodingOverride={isLocalLibrary()}
       />
 
       {/* Toast Notifications */}
@@ -13,7 +13,10 @@ import {
   FlatList,
   TouchableOpacity,
   ActivityIndicator,
+  Alert,
 } from 'react-native';
+import * as DocumentPicker from 'expo-document-picker';
+import { Directory } from 'expo-file-system/next';
 import { useNavigation } from '@react-navigation/native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Swipeable } from 'react-native-gesture-handler';
@@ -23,10 +26,15 @@ import { LoadingState } from '../components/LoadingState';
 import { ErrorState } from '../components/ErrorState';
 import { EmptyState } from '../components/EmptyState';
 import { Tag } from '../components/Tag';
+import { ImportProgressDialog } from '../components/ImportProgressDialog';
 import { useDebounce } from '../hooks/useDebounce';
 import { useGuidesInfinite, useGuidesSearch, useGuidesFilters } from '../hooks/queries/useGuides';
+import { useImportGuides } from '../hooks/mutations/useImportGuides';
+import { useBulkDownload } from '../hooks/useBulkDownload';
 import { useNetworkStatus } from '../providers/NetworkProvider';
+import { useSettings } from '../contexts/SettingsContext';
 import type { GuideSummary, GuideFilters } from '../api/types';
+import type { ImportSource, ImportSummary } from '../services/BulkImportService';
 
 interface ParsedGuideMetadata {
   author: string;
@@ -143,10 +151,24 @@ function parseMetadata(metadataStr: string | null | undefined): ParsedGuideMetad
   }
 }
 
+function formatCatalogDate(timestamp: number): string {
+  return new Date(timestamp).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
 export default function LibraryScreen() {
   const navigation = useNavigation<any>();
   const { theme } = useTheme();
   const { isOnline } = useNetworkStatus();
+  const { settings } = useSettings();
+  const isLocalLibrary = settings.libraryMode === 'local';
+  const importGuides = useImportGuides();
+  const { startBulkDownload, isPreparing: isPreparingDownload } = useBulkDownload();
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
 
   const [selectedPlatform, setSelectedPlatform] = useState<string | null>(null);
   const [selectedTag, setSelectedTag] = useState<string | null>(null);
@@ -177,7 +199,9 @@ export default function LibraryScreen() {
     data: guidesData,
     isLoading,
     isError,
+    isRefetchError,
     error,
+    dataUpdatedAt,
     refetch,
     fetchNextPage,
     hasNextPage,
@@ -261,6 +285,50 @@ export default function LibraryScreen() {
     [navigation]
   );
 
+  const runImport = useCallback(
+    async (source: ImportSource) => {
+      try {
+        setImportSummary(await importGuides.mutateAsync(source));
+      } catch (error) {
+        if (__DEV__) console.error('Failed to import guides:', error);
+        Alert.alert('Import Failed', 'Failed to read the selected files.');
+      }
+    },
+    [importGuides]
+  );
+
+  const handleImportFiles = useCallback(async () => {
+    const picked = await DocumentPicker.getDocumentAsync({
+      type: ['text/plain', 'text/html', 'text/markdown', 'text/x-markdown', 'application/zip'],
+      multiple: true,
+      copyToCacheDirectory: true,
+    });
+    if (picked.canceled) return;
+    await runImport({
+      type: 'files',
+      files: picked.assets.map(asset => ({ uri: asset.uri, name: asset.name })),
+    });
+  }, [runImport]);
+
+  const handleImportFolder = useCallback(async () => {
+    try {
+      const picked = await Directory.pickDirectoryAsync();
+      await runImport({ type: 'folder', directory: new Directory(picked.uri) });
+    } catch (error) {
+      // Dismissing the picker rejects as well
+      if (__DEV__) console.log('Folder import cancelled:', error);
+    }
+  }, [runImport]);
+
+  const handleImportPress = useCallback(() => {
+    if (importGuides.isPending) return;
+    Alert.alert('Import Guides', 'Import guide files and ZIP archives, or a whole folder.', [
+      { text: 'Files or ZIP', onPress: handleImportFiles },
+      { text: 'Folder', onPress: handleImportFolder },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  }, [importGuides.isPending, handleImportFiles, handleImportFolder]);
+
   const handleLoadMore = useCallback(() => {
     // Only fetch more if we have a next page, aren't already fetching,
     // aren't searching, and have some data already loaded
@@ -306,8 +374,8 @@ export default function LibraryScreen() {
     );
   }
 
-  // Error state
-  if (isError) {
+  // Error state, unless there is a cached catalog to fall back on
+  if (isError && !isRefetchError) {
     return (
       <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
         <ErrorState
@@ -320,6 +388,24 @@ export default function LibraryScreen() {
   }
 
   // Empty state
+  if (allGuides.length === 0 && isLocalLibrary) {
+    return (
+      <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
+        <EmptyState
+          title="Your library is empty"
+          message="Import text, HTML or Markdown guides, ZIP archives or whole folders"
+          actionTitle="Import Guides"
+          onAction={handleImportPress}
+        />
+        <ImportProgressDialog
+          progress={importGuides.progress}
+          summary={importSummary}
+          onClose={() => setImportSummary(null)}
+        />
+      </View>
+    );
+  }
+
   if (allGuides.length === 0) {
     return (
       <View style={[styles.container, { backgroundColor: theme.colors.background }]}>
@@ -338,12 +424,22 @@ export default function LibraryScreen() {
       style={[styles.container, { backgroundColor: theme.colors.background }]}
       edges={['bottom']}
     >
-      {/* Network Status Banner */}
-      {!isOnline && (
-        <View style={[styles.offlineBanner, { backgroundColor: theme.colors.warning }]}>
-          <Ionicons name="cloud-offline" size={16} color="#000" />
-          <Text style={styles.offlineBannerText}>Offline - Viewing cached data</Text>
-        </View>
+      {/* Network Status Banner: the catalog is the last one saved */}
+      {(!isOnline || isRefetchError) && !isLocalLibrary && (
+        <TouchableOpacity
+          style={[styles.offlineBanner, { backgroundColor: theme.colors.warning }]}
+          onPress={() => refetch()}
+          disabled={!isOnline}
+          accessibilityRole="button"
+          accessibilityHint={isOnline ? 'Double tap to try refreshing again' : undefined}
+          accessibilityState={{ disabled: !isOnline }}
+        >
+          <Ionicons name={isOnline ? 'refresh' : 'cloud-offline'} size={16} color="#000" />
+          <Text style={styles.offlineBannerText}>
+            {isOnline ? "Couldn't refresh" : 'Offline'} - Catalog from{' '}
+            {formatCatalogDate(dataUpdatedAt)}
+          </Text>
+        </TouchableOpacity>
       )}
 
       {/* Compact Filter Bar */}
@@ -371,7 +467,9 @@ export default function LibraryScreen() {
               ]}
               value={searchQuery}
               onChangeText={setSearchQuery}
-              placeholder="Search guides..."
+              placeholder={
+                !isOnline && !isLocalLibrary ? 'Search downloaded guides...' : 'Search guides...'
+              }
               placeholderTextColor={theme.colors.textSecondary}
               autoFocus
               returnKeyType="search"
@@ -507,8 +605,50 @@ export default function LibraryScreen() {
               )}
             </View>
 
-            {/* Right side: Search button */}
+            {/* Right side: Import, download and search buttons */}
             <View style={styles.filterRight}>
+              {/* Download everything the filters match, e.g. every SNES RPG guide */}
+              {!isLocalLibrary && isOnline && filterParams && (
+                <TouchableOpacity
+                  onPress={() =>
+                    startBulkDownload(
+                      { filters: filterParams },
+                      `matching ${[selectedPlatform, selectedTag].filter(Boolean).join(', ')}`
+                    )
+                  }
+                  style={styles.iconButton}
+                  disabled={isPreparingDownload}
+                  accessibilityRole="button"
+                  accessibilityLabel="Download all matching guides"
+                  accessibilityState={{ busy: isPreparingDownload }}
+                >
+                  {isPreparingDownload ? (
+                    <ActivityIndicator size="small" color={theme.colors.primary} />
+                  ) : (
+                    <Ionicons
+                      name="cloud-download-outline"
+                      size={20}
+                      color={theme.colors.primary}
+                    />
+                  )}
+                </TouchableOpacity>
+              )}
+              {isLocalLibrary && (
+                <TouchableOpacity
+                  onPress={handleImportPress}
+                  style={styles.iconButton}
+                  disabled={importGuides.isPending}
+                  accessibilityRole="button"
+                  accessibilityLabel="Import guides"
+                  accessibilityState={{ busy: importGuides.isPending }}
+                >
+                  {importGuides.isPending ? (
+                    <ActivityIndicator size="small" color={theme.colors.primary} />
+                  ) : (
+                    <Ionicons name="add" size={22} color={theme.colors.primary} />
+                  )}
+                </TouchableOpacity>
+              )}
               <TouchableOpacity
                 onPress={() => setShowSearch(true)}
                 style={styles.iconButton}
@@ -757,6 +897,12 @@ export default function LibraryScreen() {
           </View>
         </TouchableOpacity>
       )}
+
+      <ImportProgressDialog
+        progress={importGuides.progress}
+        summary={importSummary}
+        onClose={() => setImportSummary(null)}
+      />
     </SafeAreaView>
   );
 }
@@ -1,7 +1,8 @@
 /**
  * SearchScreen - Full-text search for guides (API-first)
  *
- * Uses server-side search via TanStack Query.
+ * Uses server-side search via TanStack Query. Offline, it searches the
+ * downloaded guides instead and shows a snippet of each match.
  */
 
 import React, { useState, useEffect } from 'react';
@@ -22,8 +23,10 @@ import { EmptyState, TableRow, LinkButton } from '../components';
 import { useDebounce } from '../hooks/useDebounce';
 import { useGuidesSearch } from '../hooks/queries/useGuides';
 import { useNetworkStatus } from '../providers/NetworkProvider';
+import { isLocalLibrary } from '../api/dataSource';
+import { parseSnippet } from '../utils/textSearch';
 import type { RootStackParamList } from '../types/navigation';
-import type { GuideSummary } from '../api/types';
+import type { SearchResultGuide } from '../api/types';
 
 type NavigationProp = StackNavigationProp<RootStackParamList, 'GuideReader'>;
 
@@ -34,17 +37,18 @@ export default function SearchScreen() {
   const navigation = useNavigation<NavigationProp>();
   const { theme } = useTheme();
   const { isOnline } = useNetworkStatus();
+  const searchingDownloads = !isOnline && !isLocalLibrary();
 
   const [searchQuery, setSearchQuery] = useState('');
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
 
   const debouncedQuery = useDebounce(searchQuery, 300);
 
-  // Use API search
+  // Use API search (downloaded guides when offline)
   const { data: searchData, isLoading: loading } = useGuidesSearch(debouncedQuery, 50);
 
   // Combine guides and content results
-  const results: GuideSummary[] = searchData
+  const results: SearchResultGuide[] = searchData
     ? [...searchData.guides, ...searchData.content]
     : [];
 
@@ -130,11 +134,10 @@ export default function SearchScreen() {
           ]}
           value={searchQuery}
           onChangeText={setSearchQuery}
-          placeholder={isOnline ? 'Search guides by title or content...' : 'Search requires internet connection'}
+          placeholder={searchingDownloads ? 'Search downloaded guides...' : 'Search guides by title or content...'}
           placeholderTextColor={theme.colors.textSecondary}
           returnKeyType="search"
           autoCorrect={false}
-          editable={isOnline}
           accessibilityLabel="Search guides by title or content"
           accessibilityRole="search"
         />
@@ -159,7 +162,7 @@ export default function SearchScreen() {
     </View>
   );
 
-  const renderResult = ({ item }: { item: GuideSummary }) => {
+  const renderResult = ({ item }: { item: SearchResultGuide }) => {
     let author = 'Unknown';
     try {
       if (item.metadata) {
@@ -200,6 +203,32 @@ export default function SearchScreen() {
         >
           by {author}
         </Text>
+        {item.snippet ? (
+          <Text
+            style={[
+              styles.resultSnippet,
+              {
+                color: theme.colors.text,
+                fontSize: theme.typography.fontSize.xs,
+                marginTop: theme.spacing.xs,
+              },
+            ]}
+            numberOfLines={2}
+          >
+            {parseSnippet(item.snippet).map((segment, index) =>
+              segment.match ? (
+                <Text
+                  key={index}
+                  style={[styles.snippetMatch, { backgroundColor: theme.colors.highlight }]}
+                >
+                  {segment.text}
+                </Text>
+              ) : (
+                segment.text
+              )
+            )}
+          </Text>
+        ) : null}
       </TableRow>
     );
   };
@@ -238,16 +267,6 @@ export default function SearchScreen() {
   };
 
   const renderContent = () => {
-    // Offline state
-    if (!isOnline) {
-      return (
-        <EmptyState
-          title="Search Unavailable"
-          message="Connect to the internet to search guides"
-        />
-      );
-    }
-
     // Show recent searches if no search query
     if (searchQuery.trim().length === 0) {
       return renderRecentSearches();
@@ -298,7 +317,11 @@ export default function SearchScreen() {
       return (
         <EmptyState
           title="No results found"
-          message={`No guides match "${debouncedQuery}"`}
+          message={
+            searchingDownloads
+              ? `No downloaded guides match "${debouncedQuery}"`
+              : `No guides match "${debouncedQuery}"`
+          }
         />
       );
     }
@@ -328,6 +351,7 @@ export default function SearchScreen() {
                 accessibilityLiveRegion="polite"
               >
                 {results.length} {results.length === 1 ? 'result' : 'results'} found
+                {searchingDownloads ? ' in downloaded guides' : ''}
               </Text>
             </View>
           ) : null
@@ -378,6 +402,10 @@ const styles = StyleSheet.create({
   resultSnippet: {
     lineHeight: 20,
   },
+  snippetMatch: {
+    color: '#000000',
+    fontWeight: '600',
+  },
   sectionTitle: {},
   centerContainer: {
     flex: 1,
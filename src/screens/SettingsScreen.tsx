@@ -12,7 +12,9 @@ import {
   ActivityIndicator,
   TextInput,
   Linking,
+  Switch,
 } from 'react-native';
+import { useQueryClient } from '@tanstack/react-query';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import { Ionicons } from '@expo/vector-icons';
 import { version as appVersion } from '../../package.json';
@@ -21,6 +23,13 @@ import { useNetworkStatus } from '../providers/NetworkProvider';
 import { healthApi } from '../api/endpoints/health';
 import { DownloadManager } from '../services/DownloadManager';
 import { SyncManager } from '../services/SyncManager';
+import { SyncCoordinator } from '../services/SyncCoordinator';
+import { MAX_DOWNLOAD_CONCURRENCY } from '../services/DownloadQueue';
+import { ExportService, ExportFormat } from '../services/ExportService';
+import { ExportDialog } from '../components/ExportDialog';
+import { localLibrary } from '../database/localLibrary';
+import { RetroAchievementsService } from '../services/RetroAchievementsService';
+import { queryKeys } from '../api/queryKeys';
 
 export default function SettingsScreen() {
   const colorScheme = useColorScheme();
@@ -28,6 +37,7 @@ export default function SettingsScreen() {
   const navigation = useNavigation<any>();
   const { settings, updateSettings } = useSettings();
   const { isOnline } = useNetworkStatus();
+  const queryClient = useQueryClient();
 
   const [showServerModal, setShowServerModal] = useState(false);
   const [serverUrlInput, setServerUrlInput] = useState(settings.serverUrl);
@@ -37,6 +47,18 @@ export default function SettingsScreen() {
   const [isSyncing, setIsSyncing] = useState(false);
   const [downloadedCount, setDownloadedCount] = useState<number | null>(null);
   const [pendingSyncCount, setPendingSyncCount] = useState<number | null>(null);
+  const [failedSyncCount, setFailedSyncCount] = useState(0);
+  const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportProgress, setExportProgress] = useState<{ completed: number; total: number } | null>(
+    null
+  );
+  const [raUsername, setRaUsername] = useState<string | null>(null);
+  const [showRaModal, setShowRaModal] = useState(false);
+  const [raUsernameInput, setRaUsernameInput] = useState('');
+  const [raApiKeyInput, setRaApiKeyInput] = useState('');
+  const [raError, setRaError] = useState<string | null>(null);
+  const [isConnectingRa, setIsConnectingRa] = useState(false);
+  const [isSyncingRa, setIsSyncingRa] = useState(false);
 
   // Load counts when screen is focused
   useFocusEffect(
@@ -47,15 +69,19 @@ export default function SettingsScreen() {
 
   const loadCounts = async () => {
     try {
-      const [downloaded, pending] = await Promise.all([
+      const [downloaded, pending, failed] = await Promise.all([
         DownloadManager.getDownloadedCount(),
         SyncManager.getPendingCount(),
+        SyncManager.getFailedCount(),
       ]);
       setDownloadedCount(downloaded);
       setPendingSyncCount(pending);
+      setFailedSyncCount(failed);
     } catch (error) {
       if (__DEV__) console.error('Failed to load counts:', error);
     }
+    const credentials = await RetroAchievementsService.getCredentials();
+    setRaUsername(credentials?.username ?? null);
   };
 
   const handleTestConnection = async () => {
@@ -110,10 +136,22 @@ export default function SettingsScreen() {
 
     setIsSyncing(true);
     try {
-      const result = await SyncManager.syncAll();
+      // Joins an automatic sync that is already running
+      const result = await SyncCoordinator.syncNow();
       await loadCounts();
-      if (result.failed > 0) {
-        Alert.alert('Sync Complete', `Synced ${result.success} items. ${result.failed} failed.`);
+      if (!result) {
+        Alert.alert('Sync Complete', 'Nothing to sync.');
+      } else if (result.deadLettered > 0) {
+        Alert.alert(
+          'Sync Complete',
+          `Synced ${result.success} items. ${result.deadLettered} could not be synced and ` +
+            'are listed under Failed Changes.'
+        );
+      } else if (result.failed > 0) {
+        Alert.alert(
+          'Sync Complete',
+          `Synced ${result.success} items. ${result.failed} failed and will be retried.`
+        );
       } else {
         Alert.alert('Sync Complete', `Synced ${result.success} items.`);
       }
@@ -124,6 +162,122 @@ export default function SettingsScreen() {
     }
   };
 
+  const handleToggleLocalLibrary = async (enabled: boolean) => {
+    try {
+      if (enabled) await localLibrary.initialize();
+      await updateSettings({ libraryMode: enabled ? 'local' : 'server' });
+      // Cached guides, bookmarks and notes belong to the previous source
+      queryClient.clear();
+    } catch (error) {
+      if (__DEV__) console.error('Failed to switch library mode:', error);
+      Alert.alert('Error', 'Failed to switch library source.');
+    }
+  };
+
+  const handleOpenExport = () => {
+    if (!isOnline && settings.libraryMode !== 'local') {
+      Alert.alert('Offline', 'You need to be online to export your library.');
+      return;
+    }
+    setShowExportDialog(true);
+  };
+
+  const handleExportLibrary = async (format: ExportFormat) => {
+    setShowExportDialog(false);
+    setExportProgress({ completed: 0, total: 0 });
+    try {
+      const result = await ExportService.exportLibrary(format, (completed, total) =>
+        setExportProgress({ completed, total })
+      );
+      if (result.guideCount === 0) {
+        Alert.alert('Nothing to Export', 'None of your guides have notes or bookmarks yet.');
+      }
+    } catch (error) {
+      if (__DEV__) console.error('Failed to export library:', error);
+      Alert.alert('Export Failed', 'Failed to export notes and bookmarks.');
+    } finally {
+      setExportProgress(null);
+    }
+  };
+
+  const handleOpenRaModal = () => {
+    setRaUsernameInput(raUsername ?? '');
+    setRaApiKeyInput('');
+    setRaError(null);
+    setShowRaModal(true);
+  };
+
+  const handleConnectRa = async () => {
+    setIsConnectingRa(true);
+    setRaError(null);
+    try {
+      const user = await RetroAchievementsService.connect(raUsernameInput, raApiKeyInput);
+      setRaUsername(user.username);
+      setShowRaModal(false);
+      Alert.alert('Connected', `Signed in as ${user.username} (${user.points} points)`);
+    } catch (error) {
+      setRaError(error instanceof Error ? error.message : 'Failed to connect');
+    } finally {
+      setIsConnectingRa(false);
+    }
+  };
+
+  const handleSyncRa = async () => {
+    if (!isOnline) {
+      Alert.alert('Offline', 'You need to be online to sync achievements.');
+      return;
+    }
+
+    setIsSyncingRa(true);
+    try {
+      const result = await RetroAchievementsService.syncRecentGames();
+      queryClient.invalidateQueries({ queryKey: queryKeys.games.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.achievements.all });
+      Alert.alert(
+        'Sync Complete',
+        `Synced ${result.achievements} achievements from ${result.games} games.` +
+          (result.failed.length > 0 ? ` ${result.failed.length} games failed.` : '')
+      );
+    } catch (error) {
+      if (__DEV__) console.error('Failed to sync achievements:', error);
+      Alert.alert('Sync Failed', 'Failed to sync RetroAchievements progress.');
+    } finally {
+      setIsSyncingRa(false);
+    }
+  };
+
+  const handleDisconnectRa = () => {
+    Alert.alert(
+      'Disconnect RetroAchievements',
+      'Remove your username and API key from this device?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Disconnect',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await RetroAchievementsService.disconnect();
+              setRaUsername(null);
+            } catch {
+              Alert.alert('Error', 'Failed to disconnect.');
+            }
+          },
+        },
+      ]
+    );
+  };
+
+  // Cycles through the allowed number of simultaneous downloads
+  const handleChangeDownloadConcurrency = async () => {
+    const next = (settings.downloadConcurrency % MAX_DOWNLOAD_CONCURRENCY) + 1;
+    try {
+      await updateSettings({ downloadConcurrency: next });
+    } catch {
+      Alert.alert('Error', 'Failed to save setting.');
+    }
+  };
+
   const handleClearDownloads = async () => {
     Alert.alert(
       'Clear Downloads',
@@ -168,6 +322,31 @@ export default function SettingsScreen() {
           <Text style={styles.statusBannerText}>{isOnline ? 'Connected' : 'Offline Mode'}</Text>
         </View>
 
+        {/* Library Source */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: isDark ? '#8E8E93' : '#666' }]}>
+            Library Source
+          </Text>
+
+          <View style={[styles.settingItem, { backgroundColor: isDark ? '#1C1C1E' : '#fff' }]}>
+            <View style={styles.flex1}>
+              <Text style={[styles.settingLabel, { color: isDark ? '#FFFFFF' : '#000' }]}>
+                Local Library
+              </Text>
+              <Text style={[styles.settingDescription, { color: isDark ? '#8E8E93' : '#666' }]}>
+                {settings.libraryMode === 'local'
+                  ? 'Reading guides imported on this device'
+                  : 'Reading guides from the companion server'}
+              </Text>
+            </View>
+            <Switch
+              value={settings.libraryMode === 'local'}
+              onValueChange={handleToggleLocalLibrary}
+              accessibilityLabel="Use local library"
+            />
+          </View>
+        </View>
+
         {/* Server Configuration */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: isDark ? '#8E8E93' : '#666' }]}>
@@ -212,6 +391,26 @@ export default function SettingsScreen() {
             </View>
           </View>
 
+          <TouchableOpacity
+            style={[styles.settingItem, { backgroundColor: isDark ? '#1C1C1E' : '#fff' }]}
+            onPress={handleChangeDownloadConcurrency}
+            accessibilityRole="button"
+            accessibilityLabel={`Simultaneous downloads, ${settings.downloadConcurrency}`}
+            accessibilityHint="Double tap to change"
+          >
+            <View style={styles.flex1}>
+              <Text style={[styles.settingLabel, { color: isDark ? '#FFFFFF' : '#000' }]}>
+                Simultaneous Downloads
+              </Text>
+              <Text style={[styles.settingDescription, { color: isDark ? '#8E8E93' : '#666' }]}>
+                Guides downloaded at once from the queue
+              </Text>
+            </View>
+            <Text style={[styles.settingValue, { color: isDark ? '#FFFFFF' : '#000' }]}>
+              {settings.downloadConcurrency}
+            </Text>
+          </TouchableOpacity>
+
           {pendingSyncCount !== null && pendingSyncCount > 0 && (
             <TouchableOpacity
               style={[
@@ -238,6 +437,21 @@ export default function SettingsScreen() {
             </TouchableOpacity>
           )}
 
+          {failedSyncCount > 0 && (
+            <TouchableOpacity
+              style={[styles.settingItem, { backgroundColor: isDark ? '#1C1C1E' : '#fff' }]}
+              onPress={() => navigation.navigate('FailedSync')}
+            >
+              <View style={styles.flex1}>
+                <Text style={[styles.settingLabel, styles.dangerText]}>Failed Changes</Text>
+                <Text style={[styles.settingDescription, { color: isDark ? '#8E8E93' : '#666' }]}>
+                  {failedSyncCount} change(s) could not be synced
+                </Text>
+              </View>
+              <Text style={styles.settingChevron}>›</Text>
+            </TouchableOpacity>
+          )}
+
           <TouchableOpacity
             style={[
               styles.settingItem,
@@ -256,6 +470,100 @@ export default function SettingsScreen() {
           </TouchableOpacity>
         </View>
 
+        {/* Notes & Bookmarks */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: isDark ? '#8E8E93' : '#666' }]}>
+            Notes & Bookmarks
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.settingItem, { backgroundColor: isDark ? '#1C1C1E' : '#fff' }]}
+            onPress={handleOpenExport}
+            disabled={exportProgress !== null}
+          >
+            <View style={styles.flex1}>
+              <Text style={[styles.settingLabel, { color: isDark ? '#FFFFFF' : '#000' }]}>
+                Export All Annotations
+              </Text>
+              <Text style={[styles.settingDescription, { color: isDark ? '#8E8E93' : '#666' }]}>
+                {exportProgress === null
+                  ? 'Markdown, plain text or JSON for every guide'
+                  : exportProgress.total > 0
+                    ? `Collecting ${exportProgress.completed} of ${exportProgress.total} guides...`
+                    : 'Loading library...'}
+              </Text>
+            </View>
+            {exportProgress !== null ? (
+              <ActivityIndicator color="#007AFF" />
+            ) : (
+              <Ionicons name="share-outline" size={22} color="#007AFF" />
+            )}
+          </TouchableOpacity>
+        </View>
+
+        {/* RetroAchievements */}
+        <View style={styles.section}>
+          <Text style={[styles.sectionTitle, { color: isDark ? '#8E8E93' : '#666' }]}>
+            RetroAchievements
+          </Text>
+
+          <TouchableOpacity
+            style={[styles.settingItem, { backgroundColor: isDark ? '#1C1C1E' : '#fff' }]}
+            onPress={handleOpenRaModal}
+          >
+            <View style={styles.flex1}>
+              <Text style={[styles.settingLabel, { color: isDark ? '#FFFFFF' : '#000' }]}>
+                Account
+              </Text>
+              <Text style={[styles.settingDescription, { color: isDark ? '#8E8E93' : '#666' }]}>
+                {raUsername ? `Signed in as ${raUsername}` : 'Not connected'}
+              </Text>
+            </View>
+            <Text style={styles.settingChevron}>›</Text>
+          </TouchableOpacity>
+
+          {raUsername && (
+            <>
+              <TouchableOpacity
+                style={[styles.settingItem, { backgroundColor: isDark ? '#1C1C1E' : '#fff' }]}
+                onPress={handleSyncRa}
+                disabled={isSyncingRa}
+              >
+                <View style={styles.flex1}>
+                  <Text style={[styles.settingLabel, { color: isDark ? '#FFFFFF' : '#000' }]}>
+                    Sync Achievements
+                  </Text>
+                  <Text style={[styles.settingDescription, { color: isDark ? '#8E8E93' : '#666' }]}>
+                    Progress for your recently played games
+                  </Text>
+                </View>
+                {isSyncingRa ? (
+                  <ActivityIndicator color="#007AFF" />
+                ) : (
+                  <Ionicons name="trophy-outline" size={22} color="#007AFF" />
+                )}
+              </TouchableOpacity>
+
+              <TouchableOpacity
+                style={[
+                  styles.settingItem,
+                  styles.dangerItem,
+                  { backgroundColor: isDark ? '#1C1C1E' : '#fff' },
+                ]}
+                onPress={handleDisconnectRa}
+              >
+                <View style={styles.flex1}>
+                  <Text style={[styles.settingLabel, styles.dangerText]}>Disconnect</Text>
+                  <Text style={[styles.settingDescription, { color: isDark ? '#8E8E93' : '#666' }]}>
+                    Remove your credentials from this device
+                  </Text>
+                </View>
+                <Text style={[styles.settingChevron, styles.dangerText]}>›</Text>
+              </TouchableOpacity>
+            </>
+          )}
+        </View>
+
         {/* About */}
         <View style={styles.section}>
           <Text style={[styles.sectionTitle, { color: isDark ? '#8E8E93' : '#666' }]}>About</Text>
@@ -308,6 +616,14 @@ export default function SettingsScreen() {
         </View>
       </View>
 
+      <ExportDialog
+        visible={showExportDialog}
+        title="Export Library"
+        message="Export notes and bookmarks from every guide in your library"
+        onClose={() => setShowExportDialog(false)}
+        onSelectFormat={handleExportLibrary}
+      />
+
       {/* Server URL Modal */}
       <Modal
         visible={showServerModal}
@@ -395,6 +711,98 @@ export default function SettingsScreen() {
           </View>
         </SafeAreaView>
       </Modal>
+
+      {/* RetroAchievements Account Modal */}
+      <Modal
+        visible={showRaModal}
+        animationType="slide"
+        presentationStyle="pageSheet"
+        onRequestClose={() => setShowRaModal(false)}
+      >
+        <SafeAreaView
+          style={[styles.modalContainer, { backgroundColor: isDark ? '#000' : '#fff' }]}
+          edges={['top']}
+        >
+          <View style={styles.modalHeader}>
+            <TouchableOpacity onPress={() => setShowRaModal(false)}>
+              <Text style={styles.modalCloseButton}>Cancel</Text>
+            </TouchableOpacity>
+            <Text style={[styles.modalTitle, { color: isDark ? '#fff' : '#000' }]}>
+              RetroAchievements
+            </Text>
+            <View />
+          </View>
+
+          <View style={styles.modalContent}>
+            <Text style={[styles.inputLabel, { color: isDark ? '#8E8E93' : '#666' }]}>
+              Username
+            </Text>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: isDark ? '#1C1C1E' : '#f5f5f5',
+                  color: isDark ? '#fff' : '#000',
+                },
+              ]}
+              value={raUsernameInput}
+              onChangeText={setRaUsernameInput}
+              placeholder="Username"
+              placeholderTextColor={isDark ? '#8E8E93' : '#999'}
+              autoCapitalize="none"
+              autoCorrect={false}
+            />
+
+            <Text style={[styles.inputLabel, { color: isDark ? '#8E8E93' : '#666' }]}>
+              Web API Key
+            </Text>
+            <TextInput
+              style={[
+                styles.textInput,
+                {
+                  backgroundColor: isDark ? '#1C1C1E' : '#f5f5f5',
+                  color: isDark ? '#fff' : '#000',
+                },
+              ]}
+              value={raApiKeyInput}
+              onChangeText={setRaApiKeyInput}
+              placeholder="API key"
+              placeholderTextColor={isDark ? '#8E8E93' : '#999'}
+              autoCapitalize="none"
+              autoCorrect={false}
+              secureTextEntry
+            />
+            <Text style={[styles.inputHint, { color: isDark ? '#8E8E93' : '#999' }]}>
+              Find your Web API key in your RetroAchievements control panel. It is stored securely
+              on this device.
+            </Text>
+
+            {raError && (
+              <View style={styles.statusMessage}>
+                <Ionicons name="alert-circle" size={20} color="#FF3B30" />
+                <Text style={[styles.statusText, { color: '#FF3B30' }]}>{raError}</Text>
+              </View>
+            )}
+
+            <TouchableOpacity
+              style={[
+                styles.testButton,
+                {
+                  backgroundColor: isConnectingRa ? '#ccc' : '#007AFF',
+                },
+              ]}
+              onPress={handleConnectRa}
+              disabled={isConnectingRa}
+            >
+              {isConnectingRa ? (
+                <ActivityIndicator color="#fff" />
+              ) : (
+                <Text style={styles.testButtonText}>Connect</Text>
+              )}
+            </TouchableOpacity>
+          </View>
+        </SafeAreaView>
+      </Modal>
     </ScrollView>
   );
 }
@@ -471,6 +879,10 @@ const styles = StyleSheet.create({
     fontSize: 24,
     color: '#C7C7CC',
   },
+  settingValue: {
+    fontSize: 17,
+    fontWeight: '600',
+  },
   flex1: {
     flex: 1,
   },
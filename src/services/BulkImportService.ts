@@ -0,0 +1,192 @@
+import { Directory, File } from 'expo-file-system/next';
+import { unzipSync } from 'fflate';
+import GuideParserService, { type ParsedGuide } from './GuideParserService';
+import { localLibrary } from '@/database/localLibrary';
+import type { GuideMetadata } from '@/types';
+import { decodeGuideBytes } from '@/utils/textEncoding';
+import { toArchiveEntryUri } from '@/utils/archiveEntries';
+
+/**
+ * A file found while walking a folder or archive.
+ * path is relative to the picked folder/archive (including its name), e.g.
+ * "GameFAQs/snes/563538-chrono-trigger/faqs/walkthrough.txt".
+ * uri is where the file was read from, stored as the guide's file_path.
+ */
+export interface ImportEntry {
+  path: string;
+  uri: string;
+  read: () => Promise<Uint8Array>;
+}
+
+export type ImportSource =
+  | { type: 'files'; files: Array<{ uri: string; name: string }> }
+  | { type: 'folder'; directory: Directory };
+
+export interface ImportProgress {
+  completed: number;
+  total: number;
+  currentPath: string | null;
+}
+
+export interface ImportSummary {
+  imported: Array<{ path: string; guideId: string; title: string }>;
+  skipped: Array<{ path: string; reason: string }>;
+  failed: Array<{ path: string; error: string }>;
+}
+
+const GUIDE_EXTENSIONS = ['txt', 'html', 'htm', 'md', 'markdown'];
+
+function getExtension(path: string): string {
+  const name = path.split('/').pop() ?? '';
+  return name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+}
+
+function stripExtension(name: string): string {
+  return name.replace(/\.[^.]+$/, '');
+}
+
+// OS metadata that ends up in archives and synced folders
+function isSystemFile(path: string): boolean {
+  return path
+    .split('/')
+    .some(part => part.startsWith('.') || part === '__MACOSX' || part === 'Thumbs.db');
+}
+
+export const BulkImportService = {
+  /**
+   * List files in a ZIP archive without inflating them; each entry is
+   * decompressed on read so only one guide is held in memory at a time
+   */
+  listZipEntries(bytes: Uint8Array, archiveName: string, archiveUri: string): ImportEntry[] {
+    const names: string[] = [];
+    unzipSync(bytes, {
+      filter: file => {
+        if (!file.name.endsWith('/')) names.push(file.name);
+        return false;
+      },
+    });
+
+    return names.map(name => ({
+      path: `${archiveName}/${name}`,
+      uri: toArchiveEntryUri(archiveUri, name),
+      read: async () => unzipSync(bytes, { filter: file => file.name === name })[name],
+    }));
+  },
+
+  listFolderEntries(directory: Directory): ImportEntry[] {
+    const entries: ImportEntry[] = [];
+
+    const walk = (current: Directory, prefix: string) => {
+      for (const item of current.list()) {
+        const path = `${prefix}/${item.name}`;
+        if (item instanceof Directory) {
+          walk(item, path);
+        } else {
+          entries.push({ path, uri: item.uri, read: () => item.bytes() });
+        }
+      }
+    };
+
+    walk(directory, directory.name);
+    return entries;
+  },
+
+  /**
+   * Expand picked files into entries; ZIP archives contribute their contents
+   */
+  async collectEntries(source: ImportSource): Promise<ImportEntry[]> {
+    if (source.type === 'folder') {
+      return this.listFolderEntries(source.directory);
+    }
+
+    const entries: ImportEntry[] = [];
+    for (const { uri, name } of source.files) {
+      if (getExtension(name) === 'zip') {
+        const bytes = await new File(uri).bytes();
+        entries.push(...this.listZipEntries(bytes, stripExtension(name), uri));
+      } else {
+        entries.push({ path: name, uri, read: () => new File(uri).bytes() });
+      }
+    }
+    return entries;
+  },
+
+  /**
+   * Combine parsed metadata with game info from the archive folder layout and auto-tags
+   */
+  buildMetadata(parsed: ParsedGuide, path: string): GuideMetadata {
+    const gameInfo = GuideParserService.extractGameInfoFromPath(path);
+    const fileName = path.split('/').pop() ?? path;
+    const tags = new Set([
+      ...(parsed.metadata.tags ?? []),
+      ...GuideParserService.generateAutoTags(parsed.content, fileName),
+    ]);
+
+    return {
+      ...parsed.metadata,
+      platform: parsed.metadata.platform ?? gameInfo.platform ?? undefined,
+      gameName: gameInfo.gameName,
+      gamefaqsId: gameInfo.gameId ?? undefined,
+      tags: Array.from(tags),
+    };
+  },
+
+  /**
+   * Import entries into the local library one at a time.
+   * Non-guide files and files already in the library are skipped; parse errors don't stop the run.
+   */
+  async importEntries(
+    entries: ImportEntry[],
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportSummary> {
+    const summary: ImportSummary = { imported: [], skipped: [], failed: [] };
+    const importedUris = await localLibrary.getImportedFilePaths();
+    const candidates = entries.filter(entry => !isSystemFile(entry.path));
+
+    for (let i = 0; i < candidates.length; i++) {
+      const { path, uri, read } = candidates[i];
+      onProgress?.({ completed: i, total: candidates.length, currentPath: path });
+
+      if (!GUIDE_EXTENSIONS.includes(getExtension(path))) {
+        summary.skipped.push({ path, reason: 'Unsupported file type' });
+        continue;
+      }
+      if (importedUris.has(uri)) {
+        summary.skipped.push({ path, reason: 'Already in library' });
+        continue;
+      }
+
+      try {
+        // Bytes rather than text so legacy encodings can be detected
+        const { text, encoding } = decodeGuideBytes(await read());
+        if (!text.trim()) {
+          summary.skipped.push({ path, reason: 'Empty file' });
+          continue;
+        }
+
+        const parsed = GuideParserService.parseGuideContent(text, path);
+        parsed.metadata.encoding = encoding;
+        const guide = await localLibrary.addGuide(parsed, uri, this.buildMetadata(parsed, path));
+        importedUris.add(uri);
+        summary.imported.push({ path, guideId: guide.id, title: guide.title });
+      } catch (error) {
+        if (__DEV__) console.error(`Failed to import ${path}:`, error);
+        summary.failed.push({
+          path,
+          error: error instanceof Error ? error.message : 'Failed to import guide',
+        });
+      }
+    }
+
+    onProgress?.({ completed: candidates.length, total: candidates.length, currentPath: null });
+    return summary;
+  },
+
+  async importSource(
+    source: ImportSource,
+    onProgress?: (progress: ImportProgress) => void
+  ): Promise<ImportSummary> {
+    const entries = await this.collectEntries(source);
+    return this.importEntries(entries, onProgress);
+  },
+};
@@ -1,15 +1,30 @@
 import { guidesApi } from '@/api/endpoints/guides';
+import { gamesApi } from '@/api/endpoints/games';
 import { offlineCache } from '@/database/offlineCache';
+import { DownloadQueue } from './DownloadQueue';
+import type { GuideFilters, GuideSummary } from '@/api/types';
 import type { Guide } from '@/types';
 
 export interface DownloadProgress {
   guideId: string;
-  status: 'pending' | 'downloading' | 'complete' | 'error';
+  status: 'pending' | 'downloading' | 'paused' | 'complete' | 'cancelled' | 'error';
   error?: string;
 }
 
 type DownloadProgressCallback = (progress: DownloadProgress) => void;
 
+// Guides fetched per request when collecting a bulk download
+export const BULK_DOWNLOAD_PAGE_SIZE = 100;
+
+// Every guide matching the filters, or every guide for a game
+export type BulkDownloadSource = { filters: GuideFilters } | { gameId: string };
+
+export interface BulkDownloadPlan {
+  guides: GuideSummary[]; // Not downloaded yet
+  alreadyDownloaded: number;
+  totalBytes: number; // Estimated from content_length
+}
+
 export const DownloadManager = {
   async downloadGuide(
     guideId: string,
@@ -40,25 +55,51 @@ export const DownloadManager = {
     }
   },
 
-  async downloadMultiple(
-    guideIds: string[],
-    onProgress?: (completed: number, total: number) => void
-  ): Promise<{ success: string[]; failed: string[] }> {
-    const success: string[] = [];
-    const failed: string[] = [];
-
-    for (let i = 0; i < guideIds.length; i++) {
-      const guideId = guideIds[i];
-      try {
-        await this.downloadGuide(guideId);
-        success.push(guideId);
-      } catch {
-        failed.push(guideId);
-      }
-      onProgress?.(i + 1, guideIds.length);
+  async collectGuides(source: BulkDownloadSource): Promise<GuideSummary[]> {
+    if ('gameId' in source) {
+      const response = await gamesApi.getGuides(source.gameId);
+      return response.data;
     }
 
-    return { success, failed };
+    const guides: GuideSummary[] = [];
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const response = await guidesApi.getAll(page, BULK_DOWNLOAD_PAGE_SIZE, source.filters);
+      guides.push(...response.data);
+      totalPages = response.pagination.totalPages;
+      page++;
+    } while (page <= totalPages);
+    return guides;
+  },
+
+  /**
+   * Work out which guides a bulk download would fetch and roughly how much
+   * space they take, so it can be confirmed before anything is queued
+   */
+  async planBulkDownload(source: BulkDownloadSource): Promise<BulkDownloadPlan> {
+    const [guides, downloadedIds] = await Promise.all([
+      this.collectGuides(source),
+      offlineCache.getDownloadedGuideIds(),
+    ]);
+
+    // Pages can shift while being fetched, repeating a guide
+    const unique = [...new Map(guides.map((guide) => [guide.id, guide])).values()];
+    const downloaded = new Set(downloadedIds);
+    const remaining = unique.filter((guide) => !downloaded.has(guide.id));
+
+    return {
+      guides: remaining,
+      alreadyDownloaded: unique.length - remaining.length,
+      totalBytes: remaining.reduce((total, guide) => total + (guide.content_length ?? 0), 0),
+    };
+  },
+
+  /**
+   * Hand guides to the download queue. Resolves to the number queued.
+   */
+  async queueDownloads(guides: Array<{ id: string; title?: string | null }>): Promise<number> {
+    return DownloadQueue.enqueue(guides);
   },
 
   async removeGuide(guideId: string): Promise<void> {
@@ -0,0 +1,217 @@
+/**
+ * DownloadQueue - Downloads guides in the background
+ *
+ * Queued guides are kept in the offline cache, so a batch carries on after
+ * the app restarts. Several downloads run at once while online; failed ones
+ * are retried with backoff before being marked as failed. Each download can
+ * be paused, resumed or cancelled, and listeners get a DownloadProgress event
+ * whenever one changes.
+ */
+
+import { offlineCache, type DownloadQueueRow } from '@/database/offlineCache';
+import { DownloadManager, type DownloadProgress } from './DownloadManager';
+
+export const DEFAULT_DOWNLOAD_CONCURRENCY = 2;
+export const MAX_DOWNLOAD_CONCURRENCY = 4;
+
+export const MAX_DOWNLOAD_ATTEMPTS = 3;
+
+// Wait before the first retry; doubles with each failed attempt
+export const DOWNLOAD_RETRY_DELAY = 5 * 1000;
+
+export interface DownloadQueueItem {
+  guideId: string;
+  title: string | null;
+  status: DownloadQueueRow['status'] | 'downloading';
+  attempts: number;
+  error: string | null;
+}
+
+type ProgressListener = (progress: DownloadProgress) => void;
+
+let items: DownloadQueueRow[] = [];
+let online = false;
+let concurrency = DEFAULT_DOWNLOAD_CONCURRENCY;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+const active = new Set<string>();
+const listeners = new Set<ProgressListener>();
+
+function emit(progress: DownloadProgress): void {
+  listeners.forEach(listener => listener(progress));
+}
+
+function updateItem(guideId: string, update: Partial<DownloadQueueRow>): void {
+  items = items.map(item => (item.guide_id === guideId ? { ...item, ...update } : item));
+}
+
+function findItem(guideId: string): DownloadQueueRow | undefined {
+  return items.find(item => item.guide_id === guideId);
+}
+
+export const DownloadQueue = {
+  /**
+   * Load the queue saved by the last session and carry on with it, keeping
+   * anything queued while it loaded
+   */
+  async initialize(): Promise<void> {
+    const saved = await offlineCache.getDownloadQueue();
+    items = [...saved.filter(row => !findItem(row.guide_id)), ...items];
+    this.pump();
+  },
+
+  getItems(): DownloadQueueItem[] {
+    return items.map(item => ({
+      guideId: item.guide_id,
+      title: item.title,
+      status: active.has(item.guide_id) ? 'downloading' : item.status,
+      attempts: item.attempts,
+      error: item.last_error,
+    }));
+  },
+
+  subscribe(listener: ProgressListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  /**
+   * Downloads only run while online; coming online starts them
+   */
+  setOnline(isOnline: boolean): void {
+    online = isOnline;
+    this.pump();
+  },
+
+  setConcurrency(limit: number): void {
+    concurrency = Math.min(Math.max(Math.round(limit), 1), MAX_DOWNLOAD_CONCURRENCY);
+    this.pump();
+  },
+
+  /**
+   * Queue guides for download, skipping ones already downloaded or queued.
+   * Resolves to the number of guides added.
+   */
+  async enqueue(guides: Array<{ id: string; title?: string | null }>): Promise<number> {
+    const downloaded = new Set(await offlineCache.getDownloadedGuideIds());
+    const added = guides.filter(guide => !downloaded.has(guide.id) && !findItem(guide.id));
+    if (added.length === 0) return 0;
+
+    await offlineCache.addToDownloadQueue(added);
+    items = await offlineCache.getDownloadQueue();
+    added.forEach(guide => emit({ guideId: guide.id, status: 'pending' }));
+    this.pump();
+    return added.length;
+  },
+
+  /**
+   * Hold a download. One already in progress finishes and is kept.
+   */
+  async pause(guideId: string): Promise<void> {
+    if (findItem(guideId)?.status !== 'pending') return;
+    await offlineCache.setDownloadStatus(guideId, 'paused');
+    updateItem(guideId, { status: 'paused' });
+    emit({ guideId, status: 'paused' });
+  },
+
+  /**
+   * Resume a paused download, or retry a failed one from scratch
+   */
+  async resume(guideId: string): Promise<void> {
+    const item = findItem(guideId);
+    if (!item || item.status === 'pending') return;
+    await offlineCache.setDownloadStatus(guideId, 'pending');
+    updateItem(guideId, { status: 'pending', attempts: 0, last_error: null, next_attempt_at: 0 });
+    emit({ guideId, status: 'pending' });
+    this.pump();
+  },
+
+  async cancel(guideId: string): Promise<void> {
+    if (!findItem(guideId)) return;
+    await offlineCache.removeFromDownloadQueue(guideId);
+    items = items.filter(item => item.guide_id !== guideId);
+    emit({ guideId, status: 'cancelled' });
+  },
+
+  /**
+   * Start due downloads up to the concurrency limit, and wake up again when
+   * the next retry is due
+   */
+  pump(): void {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    if (!online) return;
+
+    const now = Date.now();
+    const waiting = items.filter(item => item.status === 'pending' && !active.has(item.guide_id));
+    for (const item of waiting) {
+      if (active.size >= concurrency) return;
+      if (item.next_attempt_at <= now) this.download(item.guide_id);
+    }
+
+    const nextAttemptAt = Math.min(
+      ...waiting.map(item => item.next_attempt_at).filter(time => time > now)
+    );
+    if (Number.isFinite(nextAttemptAt)) {
+      retryTimer = setTimeout(() => this.pump(), nextAttemptAt - now);
+    }
+  },
+
+  async download(guideId: string): Promise<void> {
+    active.add(guideId);
+    emit({ guideId, status: 'downloading' });
+
+    try {
+      await DownloadManager.downloadGuide(guideId);
+      // Cancelled while the request was in flight
+      if (!findItem(guideId)) {
+        await DownloadManager.removeGuide(guideId);
+        return;
+      }
+
+      await offlineCache.removeFromDownloadQueue(guideId);
+      items = items.filter(item => item.guide_id !== guideId);
+      emit({ guideId, status: 'complete' });
+    } catch (error) {
+      const item = findItem(guideId);
+      if (item?.status !== 'pending') return;
+
+      const message = error instanceof Error ? error.message : 'Download failed';
+      const attempts = item.attempts + 1;
+      const nextAttemptAt =
+        attempts >= MAX_DOWNLOAD_ATTEMPTS
+          ? null
+          : Date.now() + DOWNLOAD_RETRY_DELAY * 2 ** (attempts - 1);
+
+      try {
+        await offlineCache.recordDownloadFailure(guideId, message, nextAttemptAt);
+      } catch (recordError) {
+        if (__DEV__) console.error('Failed to record download failure:', recordError);
+      }
+      updateItem(guideId, {
+        attempts,
+        last_error: message,
+        next_attempt_at: nextAttemptAt ?? 0,
+        status: nextAttemptAt === null ? 'error' : 'pending',
+      });
+      emit({ guideId, status: nextAttemptAt === null ? 'error' : 'pending', error: message });
+    } finally {
+      active.delete(guideId);
+      this.pump();
+    }
+  },
+
+  /**
+   * Forget all state; for tests
+   */
+  reset(): void {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    items = [];
+    online = false;
+    concurrency = DEFAULT_DOWNLOAD_CONCURRENCY;
+    active.clear();
+    listeners.clear();
+  },
+};
@@ -0,0 +1,314 @@
+import { File, Paths } from 'expo-file-system/next';
+import * as Sharing from 'expo-sharing';
+import { guidesSource, bookmarksSource, notesSource } from '@/api/dataSource';
+import { offlineCache } from '@/database/offlineCache';
+import { splitLines, lineIndexForOffset, resolveStoredPosition } from '@/utils/readingPosition';
+import type { Bookmark, Note } from '@/types';
+
+export type ExportFormat = 'md' | 'txt' | 'json';
+
+export interface ExportedBookmark {
+  id: string;
+  name: string | null;
+  line: number | null; // 1-based line, null when the guide's content wasn't available
+  quote: string | null;
+  created_at: number;
+}
+
+export interface ExportedNote {
+  id: string;
+  content: string;
+  line: number | null; // 1-based line, null for whole-guide notes
+  quote: string | null;
+  created_at: number;
+  updated_at: number;
+}
+
+export interface GuideAnnotations {
+  guideId: string;
+  title: string;
+  bookmarks: ExportedBookmark[];
+  notes: ExportedNote[];
+}
+
+export interface ExportResult {
+  uri: string;
+  guideCount: number;
+  bookmarkCount: number;
+  noteCount: number;
+}
+
+// Lines quoted from the guide when a bookmark has no page_reference
+const QUOTE_LINES = 3;
+
+// Location of a bookmark in a guide whose content wasn't available
+const UNKNOWN_LINE = 'Line unknown';
+
+// Guides requested per page when exporting the whole library
+const LIBRARY_PAGE_SIZE = 100;
+
+const MIME_TYPES: Record<ExportFormat, { mimeType: string; UTI: string }> = {
+  md: { mimeType: 'text/markdown', UTI: 'net.daringfireball.markdown' },
+  txt: { mimeType: 'text/plain', UTI: 'public.plain-text' },
+  json: { mimeType: 'application/json', UTI: 'public.json' },
+};
+
+/**
+ * Quote the anchored line and the lines after it, trimmed of blank edges
+ */
+function getQuote(lines: string[], lineIndex: number): string | null {
+  const quoted = lines.slice(lineIndex, lineIndex + QUOTE_LINES).map(line => line.trimEnd());
+  while (quoted.length > 0 && !quoted[0].trim()) quoted.shift();
+  while (quoted.length > 0 && !quoted[quoted.length - 1].trim()) quoted.pop();
+  return quoted.length > 0 ? quoted.join('\n') : null;
+}
+
+// unplaced describes a missing line: a whole-guide note, or a bookmark without content
+function formatLocation(line: number | null, unplaced = 'Whole guide'): string {
+  return line === null ? unplaced : `Line ${line}`;
+}
+
+function indent(text: string, prefix: string): string {
+  return text
+    .split('\n')
+    .map(line => `${prefix}${line}`)
+    .join('\n');
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp).toISOString().slice(0, 10);
+}
+
+function toFileName(title: string): string {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60);
+  return slug || 'guide';
+}
+
+export const ExportService = {
+  /**
+   * Resolve a guide's bookmarks and notes to lines and quoted passages.
+   * Without content, bookmark lines are unknown and only page_reference quotes remain.
+   */
+  buildGuideAnnotations(
+    guide: { id: string; title: string; content?: string | null },
+    bookmarks: Bookmark[],
+    notes: Note[]
+  ): GuideAnnotations {
+    const lines = guide.content ? splitLines(guide.content) : null;
+
+    const exportedBookmarks = bookmarks
+      .filter(bookmark => !bookmark.is_last_read)
+      .map(bookmark => {
+        const lineIndex = lines ? resolveStoredPosition(lines, bookmark) : null;
+        return {
+          id: bookmark.id,
+          name: bookmark.name ?? null,
+          line: lineIndex !== null ? lineIndex + 1 : null,
+          quote:
+            bookmark.page_reference ||
+            (lines && lineIndex !== null ? getQuote(lines, lineIndex) : null),
+          created_at: bookmark.created_at,
+        };
+      })
+      .sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || a.created_at - b.created_at);
+
+    const exportedNotes = notes
+      .map(note => {
+        const hasPosition = note.position !== null && note.position !== undefined;
+        const lineIndex = hasPosition && lines ? lineIndexForOffset(lines, note.position!) : null;
+        return {
+          id: note.id,
+          content: note.content,
+          line: hasPosition ? (lineIndex ?? 0) + 1 : null,
+          quote: lineIndex !== null && lines ? getQuote(lines, lineIndex) : null,
+          created_at: note.created_at,
+          updated_at: note.updated_at,
+        };
+      })
+      .sort((a, b) => (a.line ?? 0) - (b.line ?? 0) || a.created_at - b.created_at);
+
+    return {
+      guideId: guide.id,
+      title: guide.title,
+      bookmarks: exportedBookmarks,
+      notes: exportedNotes,
+    };
+  },
+
+  /**
+   * Fetch a guide's annotations, using the downloaded copy for content when available
+   */
+  async collectGuide(guideId: string, title?: string): Promise<GuideAnnotations> {
+    const [bookmarksResponse, notesResponse] = await Promise.all([
+      bookmarksSource.getByGuide(guideId),
+      notesSource.getByGuide(guideId),
+    ]);
+
+    const bookmarks = bookmarksResponse.data.filter(bookmark => !bookmark.is_last_read);
+    const notes = notesResponse.data;
+
+    // Content is only needed to quote passages
+    let guide = await offlineCache.getGuide(guideId);
+    if (!guide && (bookmarks.length > 0 || notes.length > 0 || !title)) {
+      try {
+        guide = (await guidesSource.getById(guideId)).data;
+      } catch (error) {
+        if (__DEV__) console.error(`Failed to load guide ${guideId} for export:`, error);
+      }
+    }
+
+    return this.buildGuideAnnotations(
+      { id: guideId, title: guide?.title ?? title ?? 'Untitled Guide', content: guide?.content },
+      bookmarks,
+      notes
+    );
+  },
+
+  /**
+   * Collect annotations for every guide in the library, skipping guides without any
+   */
+  async collectLibrary(
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<GuideAnnotations[]> {
+    const guides: Array<{ id: string; title: string }> = [];
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const response = await guidesSource.getAll(page, LIBRARY_PAGE_SIZE);
+      guides.push(...response.data.map(guide => ({ id: guide.id, title: guide.title })));
+      totalPages = response.pagination.totalPages;
+      page++;
+    } while (page <= totalPages);
+
+    const results: GuideAnnotations[] = [];
+    for (let i = 0; i < guides.length; i++) {
+      const annotations = await this.collectGuide(guides[i].id, guides[i].title);
+      if (annotations.bookmarks.length > 0 || annotations.notes.length > 0) {
+        results.push(annotations);
+      }
+      onProgress?.(i + 1, guides.length);
+    }
+
+    return results.sort((a, b) => a.title.localeCompare(b.title));
+  },
+
+  formatMarkdown(guides: GuideAnnotations[]): string {
+    const sections = guides.map(guide => {
+      const parts = [`## ${guide.title}`];
+
+      if (guide.bookmarks.length > 0) {
+        parts.push('### Bookmarks');
+        for (const bookmark of guide.bookmarks) {
+          const lines = [
+            `- **${bookmark.name || 'Unnamed Bookmark'}** ` +
+              `(${formatLocation(bookmark.line, UNKNOWN_LINE)})`,
+          ];
+          if (bookmark.quote) lines.push('', indent(bookmark.quote, '  > '));
+          parts.push(lines.join('\n'));
+        }
+      }
+
+      if (guide.notes.length > 0) {
+        parts.push('### Notes');
+        for (const note of guide.notes) {
+          const lines = [`- **${formatLocation(note.line)}** (${formatDate(note.updated_at)})`];
+          if (note.quote) lines.push('', indent(note.quote, '  > '));
+          lines.push('', indent(note.content, '  '));
+          parts.push(lines.join('\n'));
+        }
+      }
+
+      return parts.join('\n\n');
+    });
+
+    return ['# GameFAQs Reader Annotations', ...sections].join('\n\n') + '\n';
+  },
+
+  formatPlainText(guides: GuideAnnotations[]): string {
+    const sections = guides.map(guide => {
+      const parts = [guide.title, '='.repeat(Math.min(guide.title.length, 79))];
+
+      if (guide.bookmarks.length > 0) {
+        parts.push('', 'BOOKMARKS');
+        for (const bookmark of guide.bookmarks) {
+          const location = formatLocation(bookmark.line, UNKNOWN_LINE);
+          parts.push(`* ${bookmark.name || 'Unnamed Bookmark'} [${location}]`);
+          if (bookmark.quote) parts.push(indent(bookmark.quote, '    | '));
+        }
+      }
+
+      if (guide.notes.length > 0) {
+        parts.push('', 'NOTES');
+        for (const note of guide.notes) {
+          parts.push(`* [${formatLocation(note.line)}] ${formatDate(note.updated_at)}`);
+          if (note.quote) parts.push(indent(note.quote, '    | '));
+          parts.push(indent(note.content, '    '));
+        }
+      }
+
+      return parts.join('\n');
+    });
+
+    return sections.join('\n\n\n') + '\n';
+  },
+
+  formatJson(guides: GuideAnnotations[]): string {
+    return JSON.stringify({ exported_at: new Date().toISOString(), guides }, null, 2);
+  },
+
+  format(guides: GuideAnnotations[], format: ExportFormat): string {
+    switch (format) {
+      case 'md':
+        return this.formatMarkdown(guides);
+      case 'txt':
+        return this.formatPlainText(guides);
+      case 'json':
+        return this.formatJson(guides);
+    }
+  },
+
+  /**
+   * Write the export to the cache directory and open the share sheet
+   */
+  async writeAndShare(
+    guides: GuideAnnotations[],
+    format: ExportFormat,
+    baseName: string
+  ): Promise<ExportResult> {
+    const file = new File(Paths.cache, `${baseName}-annotations.${format}`);
+    file.create({ overwrite: true });
+    file.write(this.format(guides, format));
+
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(file.uri, {
+        ...MIME_TYPES[format],
+        dialogTitle: 'Export annotations',
+      });
+    }
+
+    return {
+      uri: file.uri,
+      guideCount: guides.length,
+      bookmarkCount: guides.reduce((sum, guide) => sum + guide.bookmarks.length, 0),
+      noteCount: guides.reduce((sum, guide) => sum + guide.notes.length, 0),
+    };
+  },
+
+  async exportGuide(guideId: string, format: ExportFormat): Promise<ExportResult> {
+    const annotations = await this.collectGuide(guideId);
+    return this.writeAndShare([annotations], format, toFileName(annotations.title));
+  },
+
+  async exportLibrary(
+    format: ExportFormat,
+    onProgress?: (completed: number, total: number) => void
+  ): Promise<ExportResult> {
+    const guides = await this.collectLibrary(onProgress);
+    return this.writeAndShare(guides, format, 'library');
+  },
+};
@@ -0,0 +1,176 @@
+/**
+ * GameMatchingService - Links local library guides to games
+ *
+ * Candidates are the library's games plus, when an account is connected,
+ * the user's recently played RetroAchievements games. Confident matches are
+ * linked automatically; the rest are proposed for review.
+ */
+
+import { localLibrary } from '@/database/localLibrary';
+import { RetroAchievementsService } from '@/services/RetroAchievementsService';
+import {
+  AUTO_LINK_CONFIDENCE,
+  rankCandidates,
+  type GameCandidate,
+  type MatchableGuide,
+  type ScoredCandidate,
+} from '@/utils/gameMatching';
+import type { GuideSummary } from '@/api/types';
+import type { Game, GameMetadata, GuideMetadata } from '@/types';
+
+// How many recently played RetroAchievements games to consider
+const RA_CANDIDATE_COUNT = 50;
+
+export interface GuideMatch {
+  guide: GuideSummary;
+  matchable: MatchableGuide;
+  linkedGame: Game | null;
+  suggestions: ScoredCandidate[];
+}
+
+function parseJson<T>(value: string | null | undefined): T {
+  if (!value) return {} as T;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return {} as T;
+  }
+}
+
+export function toMatchableGuide(guide: GuideSummary): MatchableGuide {
+  const metadata = parseJson<GuideMetadata>(guide.metadata);
+  return {
+    id: guide.id,
+    title: guide.title,
+    filePath: guide.file_path,
+    platform: metadata.platform ?? null,
+    gameName: metadata.gameName ?? null,
+    gamefaqsId: metadata.gamefaqsId ?? null,
+  };
+}
+
+function toLibraryCandidate(game: Game): GameCandidate {
+  return {
+    key: `library:${game.id}`,
+    gameId: game.id,
+    raGameId: game.ra_game_id ?? null,
+    title: game.title,
+    platform: game.platform ?? null,
+    gamefaqsId: parseJson<GameMetadata>(game.metadata).external_id ?? null,
+    source: 'library',
+  };
+}
+
+export const GameMatchingService = {
+  async getCandidates(): Promise<GameCandidate[]> {
+    const { data: games } = await localLibrary.getGames();
+    const candidates = games.map(toLibraryCandidate);
+
+    if (await RetroAchievementsService.isConnected()) {
+      try {
+        const linked = new Set(games.map(game => game.ra_game_id).filter(Boolean));
+        const recent = await RetroAchievementsService.getRecentlyPlayedGames(RA_CANDIDATE_COUNT);
+        for (const game of recent) {
+          if (linked.has(game.id)) continue;
+          candidates.push({
+            key: `retroachievements:${game.id}`,
+            gameId: null,
+            raGameId: game.id,
+            title: game.title,
+            platform: game.console,
+            source: 'retroachievements',
+          });
+        }
+      } catch (error) {
+        // Matching still works against the library without RetroAchievements
+        if (__DEV__) console.error('Failed to load RetroAchievements candidates:', error);
+      }
+    }
+
+    return candidates;
+  },
+
+  /**
+   * Every guide with its linked game and ranked suggestions
+   */
+  async getGuideMatches(candidates?: GameCandidate[]): Promise<GuideMatch[]> {
+    const [{ data: guides }, { data: games }, resolved] = await Promise.all([
+      localLibrary.getAllGuides(),
+      localLibrary.getGames(),
+      candidates ? Promise.resolve(candidates) : this.getCandidates(),
+    ]);
+    const gamesById = new Map(games.map(game => [game.id, game]));
+
+    return guides.map(guide => {
+      const matchable = toMatchableGuide(guide);
+      const linkedGame = guide.game_id ? (gamesById.get(guide.game_id) ?? null) : null;
+      return {
+        guide,
+        matchable,
+        linkedGame,
+        suggestions: rankCandidates(
+          matchable,
+          resolved.filter(candidate => !linkedGame || candidate.gameId !== linkedGame.id)
+        ),
+      };
+    });
+  },
+
+  /**
+   * Link a guide to a candidate, adding RetroAchievements games to the library first
+   */
+  async linkGuide(guideId: string, candidate: GameCandidate): Promise<Game> {
+    let game: Game;
+    if (candidate.gameId) {
+      game = (await localLibrary.getGame(candidate.gameId)).data;
+    } else if (candidate.raGameId) {
+      const { game: info } = await RetroAchievementsService.getGameProgress(candidate.raGameId);
+      game = await localLibrary.upsertRetroAchievementsGame(info);
+    } else {
+      throw new Error('Game candidate has no game to link');
+    }
+
+    await localLibrary.setGuideGame(guideId, game.id);
+    return game;
+  },
+
+  /**
+   * Create a game from what the guide says about itself and link it
+   */
+  async createGameForGuide(guide: MatchableGuide, title?: string): Promise<Game> {
+    const { data: game } = await localLibrary.createGame({
+      title: title?.trim() || guide.gameName || guide.title,
+      platform: guide.platform,
+      metadata: guide.gamefaqsId ? { external_id: guide.gamefaqsId } : undefined,
+    });
+    await localLibrary.setGuideGame(guide.id, game.id);
+    return game;
+  },
+
+  async unlinkGuide(guideId: string): Promise<void> {
+    await localLibrary.setGuideGame(guideId, null);
+  },
+
+  /**
+   * Link unlinked guides whose best match reaches AUTO_LINK_CONFIDENCE,
+   * only among guideIds when given. Returns how many guides were linked.
+   */
+  async autoLinkGuides(guideIds?: string[]): Promise<number> {
+    const matches = await this.getGuideMatches();
+    let linked = 0;
+
+    for (const { guide, linkedGame, suggestions } of matches) {
+      if (guideIds && !guideIds.includes(guide.id)) continue;
+      const best = suggestions[0];
+      if (linkedGame || !best || best.confidence < AUTO_LINK_CONFIDENCE) continue;
+      try {
+        await this.linkGuide(guide.id, best.candidate);
+        linked++;
+      } catch (error) {
+        if (__DEV__) console.error(`Failed to auto-link guide ${guide.id}:`, error);
+      }
+    }
+
+    return linked;
+  },
+};
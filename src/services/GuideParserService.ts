@@ -1,27 +1,77 @@
 import { File } from 'expo-file-system/next';
-import type { GuideMetadata } from '../types';
+import type { GuideMetadata, GuideSection, TextEncoding } from '../types';
+import { decodeGuideBytes } from '../utils/textEncoding';
 
 export interface ParsedGuide {
   title: string;
   content: string;
   format: 'txt' | 'html' | 'md';
   metadata: GuideMetadata;
+  outline: GuideSection[];
 }
 
+interface HeadingCandidate {
+  key: string;
+  title: string;
+  searchCode: string | null;
+  numbering: string | null;
+  indent: number;
+  lineIndex: number;
+}
+
+// Search codes sit at the start or end of a heading line: "[WLK01]", "{BOSS}"
+const SEARCH_CODE_PATTERN = /^[[{]([A-Z0-9][A-Z0-9.\-_]{1,11})[\]}]|[[{]([A-Z0-9][A-Z0-9.\-_]{1,11})[\]}]$/;
+
+// "4.2 Boss Strategies", "IV. Items", "2) Controls"
+const NUMBERED_HEADING_PATTERN = /^(\d{1,3}(?:\.\d{1,3})*[.)]?|[IVXL]{1,6}[.)])\s+(.+)$/;
+
+const DECORATIVE_LINE_PATTERN = /^[=\-*_#~+|<>\s]{5,}$/;
+
+// Max gap (in lines) between two entries of the same contents block
+const TOC_MAX_GAP = 10;
+
 class GuideParserService {
   /**
    * Parse a guide file and extract content and metadata
    */
   async parseGuide(filePath: string): Promise<ParsedGuide> {
-    const format = this.detectFormat(filePath);
+    // Rejects unsupported formats (PDF) before reading the file
+    this.detectFormat(filePath);
+    const file = new File(filePath);
+    return this.parseGuideBytes(await file.bytes(), filePath);
+  }
 
+  /**
+   * Parse raw guide bytes, detecting the character encoding unless one is given.
+   * The encoding used is recorded in metadata.encoding.
+   */
+  parseGuideBytes(bytes: Uint8Array, filePath: string, encoding?: TextEncoding): ParsedGuide {
+    const decoded = decodeGuideBytes(bytes, encoding);
+    const parsed = this.parseGuideContent(decoded.text, filePath);
+    parsed.metadata.encoding = decoded.encoding;
+    return parsed;
+  }
+
+  /**
+   * Parse guide text that was already read, e.g. from an archive entry.
+   * The path is only used for format detection and title fallbacks.
+   */
+  parseGuideContent(content: string, filePath: string): ParsedGuide {
+    return this.parseContent(content, filePath, this.detectFormat(filePath));
+  }
+
+  private parseContent(
+    content: string,
+    filePath: string,
+    format: 'txt' | 'html' | 'md'
+  ): ParsedGuide {
     switch (format) {
       case 'txt':
-        return await this.parseTxtGuide(filePath);
+        return this.parseTxtGuide(content, filePath);
       case 'html':
-        return await this.parseHtmlGuide(filePath);
+        return this.parseHtmlGuide(content, filePath);
       case 'md':
-        return await this.parseMarkdownGuide(filePath);
+        return this.parseMarkdownGuide(content, filePath);
       default:
         throw new Error(`Unsupported file format: ${format}`);
     }
@@ -57,10 +107,7 @@ class GuideParserService {
    * Parse plain text guide
    * Preserves ASCII art and formatting
    */
-  private async parseTxtGuide(filePath: string): Promise<ParsedGuide> {
-    const file = new File(filePath);
-    const content = await file.text();
-
+  private parseTxtGuide(content: string, filePath: string): ParsedGuide {
     // Check if content is empty or just whitespace
     const trimmedContent = content.trim();
     if (trimmedContent.length === 0) {
@@ -70,6 +117,7 @@ class GuideParserService {
         content: '[This guide appears to be empty or contains no readable content]',
         format: 'txt',
         metadata: {},
+        outline: [],
       };
     }
 
@@ -81,6 +129,7 @@ class GuideParserService {
       content,
       format: 'txt',
       metadata,
+      outline: this.extractOutline(content, 'txt'),
     };
   }
 
@@ -88,10 +137,7 @@ class GuideParserService {
    * Parse HTML guide
    * Strips HTML tags and preserves text content
    */
-  private async parseHtmlGuide(filePath: string): Promise<ParsedGuide> {
-    const file = new File(filePath);
-    const htmlContent = await file.text();
-
+  private parseHtmlGuide(htmlContent: string, filePath: string): ParsedGuide {
     // Extract title from <title> tag or <h1>
     let title = this.extractHtmlTitle(htmlContent) || this.extractTitleFromFilename(filePath);
 
@@ -144,16 +190,14 @@ class GuideParserService {
       content,
       format: 'html',
       metadata,
+      outline: this.extractOutline(content, 'html'),
     };
   }
 
   /**
    * Parse Markdown guide
    */
-  private async parseMarkdownGuide(filePath: string): Promise<ParsedGuide> {
-    const file = new File(filePath);
-    const content = await file.text();
-
+  private parseMarkdownGuide(content: string, filePath: string): ParsedGuide {
     // Extract title from first # heading
     const titleMatch = content.match(/^#\s+(.+)$/m);
     const title = titleMatch ? titleMatch[1].trim() : this.extractTitleFromFilename(filePath);
@@ -165,6 +209,7 @@ class GuideParserService {
       content,
       format: 'md',
       metadata,
+      outline: this.extractOutline(content, 'md'),
     };
   }
 
@@ -331,6 +376,220 @@ class GuideParserService {
     return metadata;
   }
 
+  /**
+   * Extract a structured outline (table of contents) from guide content
+   * Line indexes match the lines rendered by GuideContent, and point at the
+   * section body rather than the contents entry that lists it
+   */
+  extractOutline(content: string, format: 'txt' | 'html' | 'md' | 'pdf' = 'txt'): GuideSection[] {
+    if (!content) return [];
+
+    const lines = content.replace(/\r\n/g, '\n').replace(/\r/g, '\n').split('\n');
+
+    if (format === 'md') {
+      const markdownOutline = this.extractMarkdownOutline(lines);
+      if (markdownOutline.length > 0) return markdownOutline;
+    }
+
+    const candidates: HeadingCandidate[] = [];
+    lines.forEach((line, lineIndex) => {
+      const candidate = this.parseHeadingCandidate(line, lineIndex);
+      if (candidate) candidates.push(candidate);
+    });
+
+    if (candidates.length === 0) return [];
+
+    // Group occurrences by key - a section listed in the contents block
+    // appears at least twice (once in the contents, once in the body)
+    const occurrences = new Map<string, HeadingCandidate[]>();
+    for (const candidate of candidates) {
+      const existing = occurrences.get(candidate.key);
+      if (existing) {
+        existing.push(candidate);
+      } else {
+        occurrences.set(candidate.key, [candidate]);
+      }
+    }
+
+    const tocEntries = this.findContentsBlock(
+      Array.from(occurrences.values())
+        .filter(group => group.length > 1)
+        .map(group => group[0])
+    );
+
+    if (tocEntries.length >= 2) {
+      const tocEnd = tocEntries[tocEntries.length - 1].lineIndex;
+      const indentLevels = this.buildIndentLevels(tocEntries);
+
+      return tocEntries.map(entry => {
+        const body = occurrences
+          .get(entry.key)!
+          .find(candidate => candidate.lineIndex > tocEnd);
+
+        return {
+          title: entry.title,
+          level: this.getSectionLevel(entry, indentLevels),
+          searchCode: entry.searchCode,
+          lineIndex: body ? body.lineIndex : entry.lineIndex,
+          tocLineIndex: entry.lineIndex,
+        };
+      });
+    }
+
+    // No contents block - fall back to headings found in the body
+    const seen = new Set<string>();
+    const bodyHeadings = candidates.filter(candidate => {
+      if (seen.has(candidate.key)) return false;
+      if (!candidate.searchCode && !this.isDecoratedHeading(lines, candidate)) return false;
+      seen.add(candidate.key);
+      return true;
+    });
+    const indentLevels = this.buildIndentLevels(bodyHeadings);
+
+    return bodyHeadings.map(heading => ({
+      title: heading.title,
+      level: this.getSectionLevel(heading, indentLevels),
+      searchCode: heading.searchCode,
+      lineIndex: heading.lineIndex,
+      tocLineIndex: null,
+    }));
+  }
+
+  /**
+   * Extract outline from Markdown ATX headings, skipping fenced code blocks
+   */
+  private extractMarkdownOutline(lines: string[]): GuideSection[] {
+    const sections: GuideSection[] = [];
+    let inCodeBlock = false;
+
+    lines.forEach((line, lineIndex) => {
+      if (/^\s*(```|~~~)/.test(line)) {
+        inCodeBlock = !inCodeBlock;
+        return;
+      }
+      if (inCodeBlock) return;
+
+      const match = line.match(/^(#{1,6})\s+(.+?)\s*#*\s*$/);
+      if (match) {
+        sections.push({
+          title: match[2].trim(),
+          level: match[1].length,
+          searchCode: null,
+          lineIndex,
+          tocLineIndex: null,
+        });
+      }
+    });
+
+    return sections;
+  }
+
+  /**
+   * Parse a single line into a heading candidate, if it looks like one
+   */
+  private parseHeadingCandidate(line: string, lineIndex: number): HeadingCandidate | null {
+    const trimmed = line.trim();
+    if (trimmed.length < 3 || trimmed.length > 100) return null;
+    if (DECORATIVE_LINE_PATTERN.test(trimmed)) return null;
+
+    // Strip box-drawing borders ("| 4.2 Bosses [BSS] |") before looking for codes
+    const unboxed = trimmed.replace(/^[|*#=]+\s*/, '').replace(/\s*[|*#=]+$/, '');
+    const codeMatch = unboxed.match(SEARCH_CODE_PATTERN);
+    const searchCode = codeMatch ? (codeMatch[1] || codeMatch[2]).toUpperCase() : null;
+
+    let text = codeMatch ? unboxed.replace(codeMatch[0], '') : unboxed;
+
+    // Remove dot leaders and trailing page numbers ("Bosses ........ 45")
+    text = text.replace(/\s*(?:\.\s*){3,}\d*\s*$/, '');
+    // Remove decorative characters around the title
+    text = text.replace(/^[\s=\-*_#~:|<>]+/, '').replace(/[\s=\-*_#~:|<>]+$/, '');
+
+    let numbering: string | null = null;
+    const numberedMatch = text.match(NUMBERED_HEADING_PATTERN);
+    if (numberedMatch) {
+      numbering = numberedMatch[1].replace(/[.)]$/, '');
+      text = numberedMatch[2].replace(/^[\s.\-:]+/, '').trim();
+    }
+
+    if (!/[A-Za-z]/.test(text)) return null;
+
+    if (!searchCode) {
+      // Without a search code, only accept short numbered lines that read like titles
+      if (!numbering) return null;
+      if (text.length > 60 || /[.,;:!?]$/.test(text)) return null;
+      if (text.split(/\s+/).length > 8) return null;
+      if (!/^[A-Za-z"'(]/.test(text)) return null;
+    }
+
+    const normalizedTitle = text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+    return {
+      key: searchCode ?? `${numbering}|${normalizedTitle}`,
+      title: text,
+      searchCode,
+      numbering,
+      indent: line.length - line.trimStart().length,
+      lineIndex,
+    };
+  }
+
+  /**
+   * Find the contents block: the largest run of first occurrences that sit
+   * close together near the top of the guide
+   */
+  private findContentsBlock(firstOccurrences: HeadingCandidate[]): HeadingCandidate[] {
+    const sorted = [...firstOccurrences].sort((a, b) => a.lineIndex - b.lineIndex);
+
+    let best: HeadingCandidate[] = [];
+    let current: HeadingCandidate[] = [];
+
+    for (const candidate of sorted) {
+      const previous = current[current.length - 1];
+      if (previous && candidate.lineIndex - previous.lineIndex > TOC_MAX_GAP) {
+        if (current.length > best.length) best = current;
+        current = [];
+      }
+      current.push(candidate);
+    }
+    if (current.length > best.length) best = current;
+
+    return best;
+  }
+
+  /**
+   * Map distinct indentation widths to nesting levels (used when entries
+   * have no numbering to derive depth from)
+   */
+  private buildIndentLevels(entries: HeadingCandidate[]): Map<number, number> {
+    const indents = Array.from(new Set(entries.map(e => e.indent))).sort((a, b) => a - b);
+    return new Map(indents.map((indent, index) => [indent, Math.min(index + 1, 3)]));
+  }
+
+  /**
+   * Determine nesting level from numbering ("4.2" -> 2) or indentation
+   */
+  private getSectionLevel(entry: HeadingCandidate, indentLevels: Map<number, number>): number {
+    if (entry.numbering && /^\d/.test(entry.numbering)) {
+      return entry.numbering.split('.').length;
+    }
+    if (entry.numbering) {
+      return 1; // Roman numerals are top-level sections
+    }
+    return indentLevels.get(entry.indent) ?? 1;
+  }
+
+  /**
+   * Check whether a numbered line is styled like a heading (uppercase, or
+   * framed by a decorative separator line)
+   */
+  private isDecoratedHeading(lines: string[], candidate: HeadingCandidate): boolean {
+    if (candidate.title === candidate.title.toUpperCase()) return true;
+
+    const previous = lines[candidate.lineIndex - 1]?.trim() ?? '';
+    const next = lines[candidate.lineIndex + 1]?.trim() ?? '';
+    return DECORATIVE_LINE_PATTERN.test(previous) || DECORATIVE_LINE_PATTERN.test(next);
+  }
+
   /**
    * Generate auto-tags from guide content and filename
    * Rule-based tagging for categorization
@@ -0,0 +1,128 @@
+/**
+ * QueryCachePersister - Keeps the query cache across app launches
+ *
+ * Catalog data (guide lists, filters, games, bookmarks, notes) is written to
+ * AsyncStorage as it changes and restored before the first screen renders,
+ * so the Library shows the last known catalog straight away, even offline.
+ * Restored queries keep their original fetch time, so they are refetched as
+ * usual once stale.
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  dehydrate,
+  hydrate,
+  type DehydratedState,
+  type Query,
+  type QueryClient,
+} from '@tanstack/react-query';
+import { getLibraryMode } from '@/api/dataSource';
+
+export const QUERY_CACHE_STORAGE_KEY = '@query_cache';
+
+// Bump when the shape of cached responses changes to drop old caches
+export const QUERY_CACHE_VERSION = 1;
+
+// Caches older than this are not restored
+export const QUERY_CACHE_MAX_AGE = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Writes are batched so a burst of fetches is saved once
+export const PERSIST_THROTTLE_MS = 1000;
+
+const PERSISTED_ROOTS = ['guides', 'games', 'bookmarks', 'notes'];
+
+// Guide content is large and already kept by downloads; searches are one-off
+const SKIPPED_SEGMENTS = ['detail', 'search'];
+
+interface PersistedQueryCache {
+  buster: string;
+  timestamp: number;
+  state: DehydratedState;
+}
+
+// Caches from another app version or library source are not reused
+function getBuster(): string {
+  return `${QUERY_CACHE_VERSION}:${getLibraryMode()}`;
+}
+
+export function shouldPersistQuery(query: Query): boolean {
+  const [root, segment] = query.queryKey;
+  return (
+    query.state.status === 'success' &&
+    typeof root === 'string' &&
+    PERSISTED_ROOTS.includes(root) &&
+    !(typeof segment === 'string' && SKIPPED_SEGMENTS.includes(segment))
+  );
+}
+
+let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const QueryCachePersister = {
+  /**
+   * Load the saved cache into the client. Outdated caches are removed.
+   */
+  async restore(client: QueryClient): Promise<boolean> {
+    try {
+      const stored = await AsyncStorage.getItem(QUERY_CACHE_STORAGE_KEY);
+      if (!stored) return false;
+
+      const cache: PersistedQueryCache = JSON.parse(stored);
+      if (cache.buster !== getBuster() || Date.now() - cache.timestamp > QUERY_CACHE_MAX_AGE) {
+        await this.clear();
+        return false;
+      }
+
+      // Restored data is kept until it expires rather than the usual gcTime
+      hydrate(client, cache.state, {
+        defaultOptions: { queries: { gcTime: QUERY_CACHE_MAX_AGE } },
+      });
+      return true;
+    } catch (error) {
+      if (__DEV__) console.error('Failed to restore query cache:', error);
+      await this.clear();
+      return false;
+    }
+  },
+
+  async persist(client: QueryClient): Promise<void> {
+    try {
+      const cache: PersistedQueryCache = {
+        buster: getBuster(),
+        timestamp: Date.now(),
+        state: dehydrate(client, { shouldDehydrateQuery: shouldPersistQuery }),
+      };
+      await AsyncStorage.setItem(QUERY_CACHE_STORAGE_KEY, JSON.stringify(cache));
+    } catch (error) {
+      if (__DEV__) console.error('Failed to persist query cache:', error);
+    }
+  },
+
+  /**
+   * Save the cache whenever it changes, at most once per throttle period
+   */
+  subscribe(client: QueryClient): () => void {
+    const unsubscribe = client.getQueryCache().subscribe(event => {
+      const changed =
+        event.type === 'removed' || (event.type === 'updated' && event.action.type === 'success');
+      if (!changed || persistTimer) return;
+      persistTimer = setTimeout(() => {
+        persistTimer = null;
+        this.persist(client);
+      }, PERSIST_THROTTLE_MS);
+    });
+
+    return () => {
+      unsubscribe();
+      if (persistTimer) clearTimeout(persistTimer);
+      persistTimer = null;
+    };
+  },
+
+  async clear(): Promise<void> {
+    try {
+      await AsyncStorage.removeItem(QUERY_CACHE_STORAGE_KEY);
+    } catch (error) {
+      if (__DEV__) console.error('Failed to clear query cache:', error);
+    }
+  },
+};
@@ -0,0 +1,292 @@
+/**
+ * RetroAchievementsService - RetroAchievements account and progress sync
+ *
+ * The username and Web API key are kept in the secure store. Syncing fetches
+ * the user's recently played games and their achievement progress and saves
+ * them to the local games and achievements tables.
+ */
+
+import * as SecureStore from 'expo-secure-store';
+import { localLibrary } from '@/database/localLibrary';
+import type { AchievementInput } from '@/api/types';
+import type { RetroAchievementsGameInfo, RetroAchievementsUser } from '@/types';
+
+const USERNAME_KEY = 'raUsername';
+const API_KEY_KEY = 'raApiKey';
+const BASE_URL_KEY = 'raBaseUrl';
+
+export const RA_DEFAULT_BASE_URL = 'https://retroachievements.org/API';
+const RA_MEDIA_URL = 'https://media.retroachievements.org';
+
+export interface RetroAchievementsCredentials {
+  username: string;
+  apiKey: string;
+}
+
+export interface RetroAchievementsGameProgress {
+  game: RetroAchievementsGameInfo;
+  achievements: AchievementInput[];
+}
+
+export interface RetroAchievementsSyncResult {
+  games: number;
+  achievements: number;
+  failed: string[];
+}
+
+export class RetroAchievementsError extends Error {
+  constructor(
+    public status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'RetroAchievementsError';
+  }
+}
+
+// Response shapes of the RetroAchievements Web API
+interface RawUserSummary {
+  User: string;
+  TotalPoints: number;
+  Rank: number | null;
+}
+
+interface RawRecentGame {
+  GameID: number;
+  Title: string;
+  ConsoleName: string;
+  ImageIcon: string;
+  NumPossibleAchievements: number;
+  NumAchieved: number;
+}
+
+interface RawAchievement {
+  ID: number;
+  Title: string;
+  Description: string;
+  Points: number;
+  BadgeName: string;
+  DateEarned?: string;
+  DateEarnedHardcore?: string;
+}
+
+interface RawGameProgress {
+  ID: number;
+  Title: string;
+  ConsoleName: string;
+  ImageIcon: string;
+  NumAchievements: number;
+  NumAwardedToUser: number;
+  UserCompletion: string;
+  // An empty PHP array when the game has no achievements
+  Achievements: Record<string, RawAchievement> | RawAchievement[];
+}
+
+let cachedBaseUrl: string | null = null;
+
+function mediaUrl(path: string): string {
+  if (!path) return '';
+  return /^https?:\/\//.test(path) ? path : `${RA_MEDIA_URL}${path}`;
+}
+
+// Dates come back as "YYYY-MM-DD HH:MM:SS" in UTC
+function parseDate(value?: string): number | null {
+  if (!value) return null;
+  const time = Date.parse(`${value.replace(' ', 'T')}Z`);
+  return Number.isNaN(time) ? null : time;
+}
+
+function formatCompletion(awarded: number, total: number): string {
+  return total > 0 ? `${((awarded / total) * 100).toFixed(2)}%` : '0.00%';
+}
+
+function toAchievementInput(raw: RawAchievement): AchievementInput {
+  const unlockTime = parseDate(raw.DateEarnedHardcore) ?? parseDate(raw.DateEarned);
+  return {
+    ra_achievement_id: String(raw.ID),
+    title: raw.Title,
+    description: raw.Description,
+    points: raw.Points ?? null,
+    badge_url: raw.BadgeName ? `${RA_MEDIA_URL}/Badge/${raw.BadgeName}.png` : null,
+    is_unlocked: unlockTime !== null,
+    unlock_time: unlockTime,
+  };
+}
+
+async function request<T>(
+  endpoint: string,
+  params: Record<string, string | number>,
+  credentials: RetroAchievementsCredentials
+): Promise<T> {
+  const baseUrl = await RetroAchievementsService.getBaseUrl();
+  const query = new URLSearchParams({
+    ...Object.fromEntries(Object.entries(params).map(([key, value]) => [key, String(value)])),
+    z: credentials.username,
+    y: credentials.apiKey,
+  });
+
+  const response = await fetch(`${baseUrl}/${endpoint}?${query}`);
+
+  if (response.status === 401 || response.status === 403) {
+    throw new RetroAchievementsError(
+      response.status,
+      'Invalid RetroAchievements username or API key'
+    );
+  }
+  if (!response.ok) {
+    throw new RetroAchievementsError(response.status, 'RetroAchievements request failed');
+  }
+
+  return response.json();
+}
+
+async function requireCredentials(): Promise<RetroAchievementsCredentials> {
+  const credentials = await RetroAchievementsService.getCredentials();
+  if (!credentials) {
+    throw new RetroAchievementsError(401, 'RetroAchievements account is not connected');
+  }
+  return credentials;
+}
+
+async function fetchUserSummary(
+  credentials: RetroAchievementsCredentials
+): Promise<RetroAchievementsUser> {
+  const raw = await request<RawUserSummary>(
+    'API_GetUserSummary.php',
+    { u: credentials.username, g: 0, a: 0 },
+    credentials
+  );
+  return { username: raw.User, points: raw.TotalPoints ?? 0, rank: raw.Rank ?? 0 };
+}
+
+export const RetroAchievementsService = {
+  async getBaseUrl(): Promise<string> {
+    if (cachedBaseUrl) return cachedBaseUrl;
+    try {
+      const stored = await SecureStore.getItemAsync(BASE_URL_KEY);
+      cachedBaseUrl = (stored || RA_DEFAULT_BASE_URL).replace(/\/+$/, '');
+    } catch {
+      cachedBaseUrl = RA_DEFAULT_BASE_URL;
+    }
+    return cachedBaseUrl;
+  },
+
+  // Point the client at another server, e.g. a local fixture server; null restores the default
+  async setBaseUrl(url: string | null): Promise<void> {
+    if (url) {
+      await SecureStore.setItemAsync(BASE_URL_KEY, url.trim());
+    } else {
+      await SecureStore.deleteItemAsync(BASE_URL_KEY);
+    }
+    cachedBaseUrl = null;
+  },
+
+  clearCache(): void {
+    cachedBaseUrl = null;
+  },
+
+  async getCredentials(): Promise<RetroAchievementsCredentials | null> {
+    try {
+      const [username, apiKey] = await Promise.all([
+        SecureStore.getItemAsync(USERNAME_KEY),
+        SecureStore.getItemAsync(API_KEY_KEY),
+      ]);
+      return username && apiKey ? { username, apiKey } : null;
+    } catch (error) {
+      if (__DEV__) console.error('Failed to read RetroAchievements credentials:', error);
+      return null;
+    }
+  },
+
+  async isConnected(): Promise<boolean> {
+    return (await this.getCredentials()) !== null;
+  },
+
+  /**
+   * Verify the credentials against the API before storing them
+   */
+  async connect(username: string, apiKey: string): Promise<RetroAchievementsUser> {
+    const credentials = { username: username.trim(), apiKey: apiKey.trim() };
+    if (!credentials.username || !credentials.apiKey) {
+      throw new RetroAchievementsError(400, 'Username and API key are required');
+    }
+
+    const user = await fetchUserSummary(credentials);
+    await SecureStore.setItemAsync(USERNAME_KEY, credentials.username);
+    await SecureStore.setItemAsync(API_KEY_KEY, credentials.apiKey);
+    return user;
+  },
+
+  async disconnect(): Promise<void> {
+    await SecureStore.deleteItemAsync(USERNAME_KEY);
+    await SecureStore.deleteItemAsync(API_KEY_KEY);
+  },
+
+  async getUserSummary(): Promise<RetroAchievementsUser> {
+    return fetchUserSummary(await requireCredentials());
+  },
+
+  async getRecentlyPlayedGames(count = 10): Promise<RetroAchievementsGameInfo[]> {
+    const credentials = await requireCredentials();
+    const raw = await request<RawRecentGame[]>(
+      'API_GetUserRecentlyPlayedGames.php',
+      { u: credentials.username, c: count },
+      credentials
+    );
+    return raw.map(game => ({
+      id: String(game.GameID),
+      title: game.Title,
+      console: game.ConsoleName,
+      imageIcon: mediaUrl(game.ImageIcon),
+      numAchievements: game.NumPossibleAchievements ?? 0,
+      numAwardedToUser: game.NumAchieved ?? 0,
+      userCompletion: formatCompletion(game.NumAchieved ?? 0, game.NumPossibleAchievements ?? 0),
+    }));
+  },
+
+  async getGameProgress(raGameId: string): Promise<RetroAchievementsGameProgress> {
+    const credentials = await requireCredentials();
+    const raw = await request<RawGameProgress>(
+      'API_GetGameInfoAndUserProgress.php',
+      { g: raGameId, u: credentials.username },
+      credentials
+    );
+    return {
+      game: {
+        id: String(raw.ID),
+        title: raw.Title,
+        console: raw.ConsoleName,
+        imageIcon: mediaUrl(raw.ImageIcon),
+        numAchievements: raw.NumAchievements ?? 0,
+        numAwardedToUser: raw.NumAwardedToUser ?? 0,
+        userCompletion: raw.UserCompletion || '0.00%',
+      },
+      achievements: Object.values(raw.Achievements ?? {}).map(toAchievementInput),
+    };
+  },
+
+  /**
+   * Save progress for the user's recently played games. A game that fails
+   * to fetch is reported in `failed` without stopping the others.
+   */
+  async syncRecentGames(count = 10): Promise<RetroAchievementsSyncResult> {
+    const recent = await this.getRecentlyPlayedGames(count);
+    const result: RetroAchievementsSyncResult = { games: 0, achievements: 0, failed: [] };
+
+    for (const recentGame of recent) {
+      try {
+        const { game, achievements } = await this.getGameProgress(recentGame.id);
+        const saved = await localLibrary.upsertRetroAchievementsGame(game);
+        await localLibrary.saveAchievements(saved.id, achievements);
+        result.games++;
+        result.achievements += achievements.length;
+      } catch (error) {
+        if (__DEV__)
+          console.error(`Failed to sync RetroAchievements game ${recentGame.id}:`, error);
+        result.failed.push(recentGame.id);
+      }
+    }
+
+    return result;
+  },
+};
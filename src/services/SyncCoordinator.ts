@@ -0,0 +1,197 @@
+/**
+ * SyncCoordinator - Runs queued offline changes without being asked
+ *
+ * Sync requests (reconnecting, returning to the app, queueing a change) are
+ * debounced into a single run, and only one run is in flight at a time; a
+ * request made during a run schedules another once it finishes. A change
+ * waiting out a retry delay requests one when it comes due. Listeners are
+ * told about status changes and about each completed run.
+ */
+
+import { SyncManager, type SyncQueueItem, type SyncResult } from './SyncManager';
+
+// Quiet period before a requested sync starts, so bursts become one run
+export const SYNC_DEBOUNCE_MS = 2000;
+
+export type SyncState = 'idle' | 'syncing' | 'error';
+
+export interface SyncStatus {
+  state: SyncState;
+  pendingCount: number;
+  failedCount: number;
+  lastSyncedAt: number | null;
+  lastError: string | null;
+}
+
+type StatusListener = (status: SyncStatus) => void;
+type CompleteListener = (result: SyncResult) => void;
+
+const initialStatus: SyncStatus = {
+  state: 'idle',
+  pendingCount: 0,
+  failedCount: 0,
+  lastSyncedAt: null,
+  lastError: null,
+};
+
+let status: SyncStatus = initialStatus;
+let online = false;
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+let inFlight: Promise<SyncResult | null> | null = null;
+let rerunRequested = false;
+
+const statusListeners = new Set<StatusListener>();
+const completeListeners = new Set<CompleteListener>();
+
+function setStatus(update: Partial<SyncStatus>): void {
+  status = { ...status, ...update };
+  statusListeners.forEach(listener => listener(status));
+}
+
+export const SyncCoordinator = {
+  getStatus(): SyncStatus {
+    return status;
+  },
+
+  subscribe(listener: StatusListener): () => void {
+    statusListeners.add(listener);
+    return () => {
+      statusListeners.delete(listener);
+    };
+  },
+
+  onSyncComplete(listener: CompleteListener): () => void {
+    completeListeners.add(listener);
+    return () => {
+      completeListeners.delete(listener);
+    };
+  },
+
+  /**
+   * Syncs only run while online; coming online requests one
+   */
+  setOnline(isOnline: boolean): void {
+    const cameOnline = isOnline && !online;
+    online = isOnline;
+    if (cameOnline) this.requestSync();
+  },
+
+  async refreshCounts(): Promise<void> {
+    try {
+      const [pendingCount, failedCount] = await Promise.all([
+        SyncManager.getPendingCount(),
+        SyncManager.getFailedCount(),
+      ]);
+      setStatus({ pendingCount, failedCount });
+    } catch (error) {
+      if (__DEV__) console.error('Failed to load sync counts:', error);
+    }
+  },
+
+  /**
+   * Queue an offline change and send it once things settle
+   */
+  async queueChange(item: SyncQueueItem): Promise<void> {
+    await SyncManager.queueChange(item);
+    await this.refreshCounts();
+    this.requestSync();
+  },
+
+  /**
+   * Sync after a quiet period. Repeated requests push the start back.
+   */
+  requestSync(): void {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = setTimeout(() => {
+      debounceTimer = null;
+      // Changes queued during a run may have missed it
+      if (inFlight) {
+        rerunRequested = true;
+        return;
+      }
+      this.syncNow().catch(() => {
+        // Failures are reported through the status
+      });
+    }, SYNC_DEBOUNCE_MS);
+  },
+
+  /**
+   * Sync straight away, or join the run already in progress. Resolves to
+   * null when offline or when there is nothing to send.
+   */
+  syncNow(): Promise<SyncResult | null> {
+    if (inFlight) return inFlight;
+    if (!online) return Promise.resolve(null);
+
+    inFlight = this.run().finally(() => {
+      inFlight = null;
+      if (rerunRequested) {
+        rerunRequested = false;
+        this.requestSync();
+      }
+    });
+    return inFlight;
+  },
+
+  async run(): Promise<SyncResult | null> {
+    await this.refreshCounts();
+    if (status.pendingCount === 0) return null;
+
+    setStatus({ state: 'syncing' });
+    try {
+      const result = await SyncManager.syncAll();
+      setStatus({
+        state: result.failed > 0 ? 'error' : 'idle',
+        lastSyncedAt: Date.now(),
+        lastError: result.errors[0] ?? null,
+      });
+      completeListeners.forEach(listener => listener(result));
+      return result;
+    } catch (error) {
+      setStatus({
+        state: 'error',
+        lastError: error instanceof Error ? error.message : 'Unknown error',
+      });
+      throw error;
+    } finally {
+      await this.refreshCounts();
+      await this.scheduleRetry();
+    }
+  },
+
+  /**
+   * Sync again when the earliest change held back by a retry delay comes due
+   */
+  async scheduleRetry(): Promise<void> {
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+
+    try {
+      const nextAttemptAt = await SyncManager.getNextAttemptAt();
+      if (nextAttemptAt === null) return;
+      retryTimer = setTimeout(() => {
+        retryTimer = null;
+        this.requestSync();
+      }, nextAttemptAt - Date.now());
+    } catch (error) {
+      if (__DEV__) console.error('Failed to schedule sync retry:', error);
+    }
+  },
+
+  /**
+   * Forget all state; for tests
+   */
+  reset(): void {
+    if (debounceTimer) clearTimeout(debounceTimer);
+    debounceTimer = null;
+    if (retryTimer) clearTimeout(retryTimer);
+    retryTimer = null;
+    inFlight = null;
+    rerunRequested = false;
+    online = false;
+    status = initialStatus;
+    statusListeners.clear();
+    completeListeners.clear();
+  },
+};
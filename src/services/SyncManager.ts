@@ -1,7 +1,17 @@
-import { offlineCache } from '@/database/offlineCache';
+import { offlineCache, isTempId, type SyncQueueRow } from '@/database/offlineCache';
+import { ApiError } from '@/api/client';
 import { guidesApi } from '@/api/endpoints/guides';
 import { bookmarksApi } from '@/api/endpoints/bookmarks';
 import { notesApi } from '@/api/endpoints/notes';
+import {
+  splitLines,
+  isLegacyPosition,
+  migrateLegacyPosition,
+  toStoredPosition,
+  type StoredPosition,
+} from '@/utils/readingPosition';
+import { coalesceSyncQueue, getRetryDelay, MAX_SYNC_ATTEMPTS } from '@/utils/syncQueue';
+import type { Note } from '@/types';
 
 export interface SyncQueueItem {
   type: 'position' | 'bookmark' | 'note';
@@ -12,40 +22,322 @@ export interface SyncQueueItem {
 export interface SyncResult {
   success: number;
   failed: number;
+  // Failures that will not be retried automatically
+  deadLettered: number;
+  // Note edits that clashed with edits made elsewhere
+  conflicts: number;
   errors: string[];
+  // Guides with changes that reached the server
+  guideIds: string[];
+}
+
+// Statuses that mean the server will never accept the change as queued
+const PERMANENT_FAILURE_STATUSES = [404, 409, 422];
+
+/**
+ * Thrown for a change that has to wait for an earlier one to sync first.
+ * Waiting does not count as a failed attempt.
+ */
+export class SyncDependencyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncDependencyError';
+  }
+}
+
+/**
+ * Thrown for a change to a record whose create was given up on. The change
+ * is set aside with the create, and goes again when the create is retried.
+ */
+export class SyncDependencyFailedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SyncDependencyFailedError';
+  }
+}
+
+/**
+ * Thrown for a note edit made against an older copy than the server's
+ */
+export class SyncConflictError extends Error {
+  constructor(public serverNote: Note) {
+    super('Edited on another device');
+    this.name = 'SyncConflictError';
+  }
+}
+
+// How to settle a note conflict; a string is merged content
+export type ConflictResolution = 'mine' | 'theirs' | { content: string };
+
+// A queued payload that carries a stored position, anchored or legacy
+function hasStoredPosition(
+  payload: Record<string, unknown>
+): payload is Record<string, unknown> & StoredPosition {
+  const { position, line_index: lineIndex } = payload;
+  return (
+    typeof position === 'number' &&
+    (lineIndex === undefined || lineIndex === null || typeof lineIndex === 'number')
+  );
+}
+
+function isPermanentFailure(error: unknown): boolean {
+  if (error instanceof SyncDependencyFailedError) return true;
+  return error instanceof ApiError && PERMANENT_FAILURE_STATUSES.includes(error.status);
+}
+
+// Payload field holding the ID of the record a queued change applies to
+const RECORD_ID_FIELDS: Partial<Record<SyncQueueItem['type'], string>> = {
+  bookmark: 'bookmarkId',
+  note: 'noteId',
+};
+
+function recordId(type: string, payload: Record<string, unknown>): string | undefined {
+  const field = RECORD_ID_FIELDS[type as SyncQueueItem['type']];
+  const id = field ? payload[field] : undefined;
+  return typeof id === 'string' ? id : undefined;
 }
 
 export const SyncManager = {
   async queueChange(item: SyncQueueItem): Promise<void> {
+    const id = recordId(item.type, item.payload);
+    // Deleting something the server has not seen yet cancels its queued create
+    if (item.action === 'delete' && id && isTempId(id)) {
+      if (await this.cancelPendingCreate(item.type, id)) return;
+    }
     await offlineCache.addToSyncQueue(item.type, item.action, item.payload);
   },
 
+  /**
+   * Drop a queued create and every queued change to the same record.
+   * Returns false when the create is no longer queued.
+   */
+  async cancelPendingCreate(type: string, localId: string): Promise<boolean> {
+    const queue = await offlineCache.getSyncQueue();
+    const hasCreate = queue.some(
+      (item) =>
+        item.type === type &&
+        item.action === 'create' &&
+        item.payload.localId === localId
+    );
+    if (!hasCreate) return false;
+
+    for (const item of queue) {
+      if (item.type !== type) continue;
+      if (item.payload.localId === localId || recordId(type, item.payload) === localId) {
+        await offlineCache.removeSyncQueueItem(item.id);
+      }
+    }
+    return true;
+  },
+
+  /**
+   * Point queued changes at the server ID of a record created offline
+   */
+  async remapQueuedIds(type: string, localId: string, serverId: string): Promise<void> {
+    await offlineCache.saveSyncIdMapping(localId, serverId);
+
+    const field = RECORD_ID_FIELDS[type as SyncQueueItem['type']];
+    if (!field) return;
+    const queue = await offlineCache.getSyncQueue();
+    for (const item of queue) {
+      if (item.type === type && item.payload[field] === localId) {
+        await offlineCache.updateSyncQueueItem(item.id, {
+          ...item.payload,
+          [field]: serverId,
+        });
+      }
+    }
+  },
+
+  /**
+   * The server ID for a record, or null when it was created offline and its
+   * create is gone from the queue, so there is nothing on the server to change
+   */
+  async resolveRecordId(type: string, id: string): Promise<string | null> {
+    if (!isTempId(id)) return id;
+
+    const serverId = await offlineCache.getSyncIdMapping(id);
+    if (serverId) return serverId;
+
+    const queue = await offlineCache.getSyncQueue();
+    const create = queue.find(
+      (item) =>
+        item.type === type &&
+        item.action === 'create' &&
+        item.payload.localId === id
+    );
+    if (create?.failed_at) {
+      throw new SyncDependencyFailedError(`The ${type} this changes could not be created`);
+    }
+    if (create) {
+      throw new SyncDependencyError(`Waiting for ${type} ${id} to be created`);
+    }
+    return null;
+  },
+
   async getPendingCount(): Promise<number> {
     return offlineCache.getSyncQueueCount();
   },
 
+  async getNextAttemptAt(): Promise<number | null> {
+    return offlineCache.getNextSyncAttemptAt(Date.now());
+  },
+
+  async getFailedItems(): Promise<SyncQueueRow[]> {
+    return offlineCache.getFailedSyncItems();
+  },
+
+  async getFailedCount(): Promise<number> {
+    return offlineCache.getFailedSyncCount();
+  },
+
+  /**
+   * Retrying a create also retries the changes set aside with it
+   */
+  async retryFailedItem(id: number): Promise<void> {
+    const failed = await offlineCache.getFailedSyncItems();
+    await offlineCache.resetSyncQueueItem(id);
+
+    const item = failed.find((candidate) => candidate.id === id);
+    const localId = item?.payload.localId;
+    const field = item && RECORD_ID_FIELDS[item.type as SyncQueueItem['type']];
+    if (item?.action !== 'create' || typeof localId !== 'string' || !field) return;
+    for (const dependent of failed) {
+      if (dependent.type === item.type && dependent.payload[field] === localId) {
+        await offlineCache.resetSyncQueueItem(dependent.id);
+      }
+    }
+  },
+
+  /**
+   * Settle a note edit that clashed with an edit made elsewhere. Keeping
+   * theirs drops the edit; keeping mine or a merge sends it again on top of
+   * their copy.
+   */
+  async resolveConflict(id: number, resolution: ConflictResolution): Promise<void> {
+    const item = (await offlineCache.getFailedSyncItems()).find((failed) => failed.id === id);
+    if (!item?.conflict) return;
+    const theirs = item.conflict;
+
+    if (resolution === 'theirs') {
+      await offlineCache.removeSyncQueueItem(id);
+      await offlineCache.saveNote(theirs);
+      return;
+    }
+
+    const payload: Record<string, unknown> = { ...item.payload, baseUpdatedAt: theirs.updated_at };
+    if (resolution !== 'mine') {
+      payload.content = resolution.content;
+      await offlineCache.updateNote(theirs.id, { content: resolution.content });
+    }
+    await offlineCache.setNoteServerUpdatedAt(theirs.id, theirs.updated_at);
+    await offlineCache.updateSyncQueueItem(id, payload);
+    await offlineCache.resetSyncQueueItem(id);
+  },
+
+  /**
+   * Drop a failed change. Discarding a create also drops the changes queued
+   * after it and the offline copy, since the record will never exist.
+   */
+  async discardFailedItem(id: number): Promise<void> {
+    const item = (await offlineCache.getFailedSyncItems()).find((failed) => failed.id === id);
+    const localId = item?.payload.localId;
+    if (item?.action !== 'create' || typeof localId !== 'string') {
+      await offlineCache.removeSyncQueueItem(id);
+      return;
+    }
+
+    await this.cancelPendingCreate(item.type, localId);
+    if (item.type === 'bookmark') await offlineCache.deleteBookmark(localId);
+    if (item.type === 'note') await offlineCache.deleteNote(localId);
+  },
+
+  /**
+   * Replay queued changes that are due. Failures are retried with
+   * exponential backoff; permanent ones and those out of attempts are
+   * set aside as failed until retried or discarded.
+   */
   async syncAll(): Promise<SyncResult> {
-    const queue = await offlineCache.getSyncQueue();
-    const result: SyncResult = {
-      success: 0,
-      failed: 0,
-      errors: [],
-    };
+    // Edits made from here on are queued apart from the rows read below
+    offlineCache.setSyncInProgress(true);
+    try {
+      const now = Date.now();
+      const due = (await offlineCache.getSyncQueue()).filter(
+        (item) => item.failed_at === null && item.next_attempt_at <= now
+      );
+      const { items: queue, superseded, merged } = coalesceSyncQueue(due);
+      // Store the folded queue first so a failed sync resumes from it
+      for (const item of merged) {
+        await offlineCache.updateSyncQueueItem(item.id, item.payload);
+      }
+      for (const id of superseded) {
+        await offlineCache.removeSyncQueueItem(id);
+      }
 
-    for (const item of queue) {
-      try {
-        await this.processQueueItem(item);
-        await offlineCache.removeSyncQueueItem(item.id);
-        result.success++;
-      } catch (error) {
-        result.failed++;
-        result.errors.push(
-          error instanceof Error ? error.message : 'Unknown error'
-        );
+      const result: SyncResult = {
+        success: 0,
+        failed: 0,
+        deadLettered: 0,
+        conflicts: 0,
+        errors: [],
+        guideIds: [],
+      };
+
+      for (const item of queue) {
+        try {
+          await this.processQueueItem(item);
+          await offlineCache.removeSyncQueueItem(item.id);
+          result.success++;
+          const { guideId } = item.payload;
+          if (typeof guideId === 'string' && !result.guideIds.includes(guideId)) {
+            result.guideIds.push(guideId);
+          }
+        } catch (error) {
+          // Waiting on an earlier change is not a failure
+          if (error instanceof SyncDependencyError) continue;
+
+          const message = error instanceof Error ? error.message : 'Unknown error';
+          result.failed++;
+          result.errors.push(message);
+
+          if (error instanceof SyncConflictError) {
+            result.conflicts++;
+            await offlineCache.recordSyncConflict(item.id, message, error.serverNote);
+            continue;
+          }
+
+          const attempts = item.attempts + 1;
+          const giveUp = isPermanentFailure(error) || attempts >= MAX_SYNC_ATTEMPTS;
+          if (giveUp) result.deadLettered++;
+          await offlineCache.recordSyncFailure(
+            item.id,
+            message,
+            giveUp ? null : Date.now() + getRetryDelay(attempts)
+          );
+        }
       }
+
+      return result;
+    } finally {
+      offlineCache.setSyncInProgress(false);
     }
+  },
+
+  /**
+   * Upgrade a queued legacy pixel position to a content anchor using the
+   * downloaded copy of the guide. Left as-is when the guide isn't cached;
+   * readers convert legacy positions when they load them.
+   */
+  async upgradeLegacyPosition(
+    payload: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    if (!hasStoredPosition(payload) || !isLegacyPosition(payload)) return payload;
 
-    return result;
+    const guide = await offlineCache.getGuide(payload.guideId as string);
+    if (!guide) return payload;
+
+    const anchor = migrateLegacyPosition(splitLines(guide.content), payload.position);
+    return { ...payload, ...toStoredPosition(anchor) };
   },
 
   async processQueueItem(item: {
@@ -54,26 +346,57 @@ export const SyncManager = {
     action: string;
     payload: Record<string, unknown>;
   }): Promise<void> {
-    const { type, action, payload } = item;
+    const { type, action } = item;
+    let { payload } = item;
+
+    if ((type === 'position' || type === 'bookmark') && action !== 'delete') {
+      payload = await this.upgradeLegacyPosition(payload);
+    }
+
+    // Changes to records created offline wait for, then follow, the server ID
+    const idField = RECORD_ID_FIELDS[type as SyncQueueItem['type']];
+    if (idField && typeof payload[idField] === 'string' && action !== 'create') {
+      const serverId = await this.resolveRecordId(type, payload[idField]);
+      if (serverId === null) return;
+      payload = { ...payload, [idField]: serverId };
+    }
 
     switch (type) {
       case 'position':
         if (action === 'update') {
+          const anchor =
+            typeof payload.line_index === 'number'
+              ? {
+                  line_index: payload.line_index,
+                  fingerprint: payload.fingerprint as string | null | undefined,
+                }
+              : undefined;
+          // Latest wins: the server keeps a position saved elsewhere after this one
+          const savedAt = typeof payload.savedAt === 'number' ? payload.savedAt : undefined;
           await guidesApi.updatePosition(
             payload.guideId as string,
-            payload.position as number
+            payload.position as number,
+            anchor,
+            savedAt
           );
         }
         break;
 
       case 'bookmark':
         if (action === 'create') {
-          await bookmarksApi.create(payload.guideId as string, {
+          const created = await bookmarksApi.create(payload.guideId as string, {
             position: payload.position as number,
+            line_index: payload.line_index as number | null | undefined,
+            fingerprint: payload.fingerprint as string | null | undefined,
             name: payload.name as string | undefined,
             page_reference: payload.page_reference as string | undefined,
             is_last_read: payload.is_last_read as boolean | undefined,
           });
+          // Swap the offline copy for the server's so its ID can be used from now on
+          if (typeof payload.localId === 'string' && created?.data) {
+            await offlineCache.replaceBookmarkId(payload.localId, created.data);
+            await this.remapQueuedIds(type, payload.localId, created.data.id);
+          }
         } else if (action === 'delete') {
           await bookmarksApi.delete(
             payload.guideId as string,
@@ -84,19 +407,43 @@ export const SyncManager = {
 
       case 'note':
         if (action === 'create') {
-          await notesApi.create(payload.guideId as string, {
+          const created = await notesApi.create(payload.guideId as string, {
             position: payload.position as number | undefined,
             content: payload.content as string,
           });
+          if (typeof payload.localId === 'string' && created?.data) {
+            await offlineCache.replaceNoteId(payload.localId, created.data);
+            await this.remapQueuedIds(type, payload.localId, created.data.id);
+          }
         } else if (action === 'update') {
-          await notesApi.update(
-            payload.guideId as string,
-            payload.noteId as string,
-            {
-              position: payload.position as number | undefined,
-              content: payload.content as string | undefined,
+          if (typeof payload.baseUpdatedAt === 'number') {
+            const serverNote = await this.getServerNote(payload);
+            if (serverNote && serverNote.updated_at > payload.baseUpdatedAt) {
+              throw new SyncConflictError(serverNote);
             }
-          );
+          }
+          try {
+            const updated = await notesApi.update(
+              payload.guideId as string,
+              payload.noteId as string,
+              {
+                position: payload.position as number | undefined,
+                content: payload.content as string | undefined,
+              }
+            );
+            // Later offline edits are made against the server's copy
+            if (updated?.data) {
+              await offlineCache.saveNote(updated.data);
+              await this.rebaseQueuedNoteEdits(item.id, payload, updated.data.updated_at);
+            }
+          } catch (error) {
+            // The server spotted the clash itself
+            const serverNote =
+              error instanceof ApiError && error.status === 409
+                ? await this.getServerNote(payload)
+                : null;
+            throw serverNote ? new SyncConflictError(serverNote) : error;
+          }
         } else if (action === 'delete') {
           await notesApi.delete(
             payload.guideId as string,
@@ -110,6 +457,38 @@ export const SyncManager = {
     }
   },
 
+  /**
+   * Edits queued while a note edit was being sent were made on top of it, so
+   * move them onto the server's copy it produced
+   */
+  async rebaseQueuedNoteEdits(
+    sentId: number,
+    sent: Record<string, unknown>,
+    updatedAt: number
+  ): Promise<void> {
+    const queue = await offlineCache.getSyncQueue();
+    for (const item of queue) {
+      if (
+        item.id !== sentId &&
+        item.type === 'note' &&
+        item.action === 'update' &&
+        item.failed_at === null &&
+        item.payload.noteId === sent.noteId &&
+        item.payload.baseUpdatedAt === sent.baseUpdatedAt
+      ) {
+        await offlineCache.updateSyncQueueItem(item.id, {
+          ...item.payload,
+          baseUpdatedAt: updatedAt,
+        });
+      }
+    }
+  },
+
+  async getServerNote(payload: Record<string, unknown>): Promise<Note | null> {
+    const { data: notes } = await notesApi.getByGuide(payload.guideId as string);
+    return notes.find((note) => note.id === payload.noteId) ?? null;
+  },
+
   async clearQueue(): Promise<void> {
     await offlineCache.clearSyncQueue();
   },
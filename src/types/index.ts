@@ -29,22 +29,30 @@ export interface Game {
 export interface Bookmark {
   id: string;
   guide_id: string;
-  position: number; // Character position or line number
+  position: number; // Character offset of the anchored line (legacy: pixel scroll offset)
+  line_index?: number | null; // Anchored line index (null for legacy pixel positions)
+  fingerprint?: string | null; // Start of the anchored line's text, used to relocate it
   name?: string | null; // Named bookmark (null for auto last-read position)
   page_reference?: string | null; // Preview of content at bookmark position
   is_last_read: boolean; // True for the auto-saved position
   created_at: number;
 }
 
+// Bookmark resolved to a line of the loaded guide content
+export type AnchoredBookmark = Bookmark & { lineIndex: number };
+
 export interface Note {
   id: string;
   guide_id: string;
-  position?: number | null; // Null means note is for entire guide
+  position?: number | null; // Character offset of the anchored line (null = entire guide)
   content: string;
   created_at: number;
   updated_at: number;
 }
 
+// Note resolved to a line of the loaded guide content (null = entire guide)
+export type AnchoredNote = Note & { lineIndex: number | null };
+
 export interface Achievement {
   id: string;
   ra_achievement_id: string; // RetroAchievements achievement ID
@@ -67,6 +75,26 @@ export interface GuideMetadata {
   author?: string;
   version?: string;
   tags?: string[];
+  gameName?: string; // Inferred from the archive path or filename on import
+  gamefaqsId?: string; // GameFAQs game ID from archive folder names
+  encoding?: TextEncoding; // Character encoding the file was decoded with on import
+}
+
+export type TextEncoding =
+  | 'utf-8'
+  | 'utf-16le'
+  | 'utf-16be'
+  | 'cp437'
+  | 'windows-1252'
+  | 'shift_jis';
+
+// Guide structure types
+export interface GuideSection {
+  title: string;
+  level: number; // 1 = top-level section
+  searchCode?: string | null; // GameFAQs search code, e.g. "WLK01"
+  lineIndex: number; // Line where the section body starts
+  tocLineIndex?: number | null; // Line of the matching contents entry, if any
 }
 
 export interface GameMetadata {
@@ -1,13 +1,17 @@
 export type RootTabParamList = {
   Library: undefined;
+  Games: undefined;
   Downloads: undefined;
-  Reader: { guideId: string } | undefined;
+  Reader: { guideId: string; lineIndex?: number } | undefined;
   Settings: undefined;
 };
 
 export type RootStackParamList = {
   Main: undefined;
   HomeTabs: undefined;
-  GuideReader: { guideId: string };
+  GuideReader: { guideId: string; lineIndex?: number }; // lineIndex opens at a passage
+  GameDetail: { gameId: string };
+  GameMatching: undefined;
+  FailedSync: undefined;
   PrivacyPolicy: undefined;
 };
@@ -0,0 +1,197 @@
+/**
+ * Achievement-to-passage locator
+ *
+ * Finds the lines of a guide that talk about an achievement: where its title
+ * appears, or where several key terms from its description appear close
+ * together. Passages are scored between 0 and 1 and ranked best first.
+ */
+
+import type { Achievement } from '../types';
+
+// Description words that say nothing about where in the game an achievement is
+const STOP_WORDS = new Set([
+  'a',
+  'about',
+  'after',
+  'all',
+  'an',
+  'and',
+  'any',
+  'are',
+  'as',
+  'at',
+  'be',
+  'before',
+  'by',
+  'can',
+  'complete',
+  'completing',
+  'during',
+  'each',
+  'earn',
+  'every',
+  'for',
+  'from',
+  'game',
+  'get',
+  'getting',
+  'has',
+  'have',
+  'in',
+  'into',
+  'is',
+  'it',
+  'its',
+  'least',
+  'more',
+  'mode',
+  'obtain',
+  'of',
+  'on',
+  'one',
+  'only',
+  'or',
+  'than',
+  'that',
+  'the',
+  'their',
+  'then',
+  'this',
+  'to',
+  'under',
+  'until',
+  'up',
+  'using',
+  'was',
+  'when',
+  'while',
+  'with',
+  'within',
+  'without',
+  'you',
+  'your',
+]);
+
+// Terms kept per achievement; long descriptions dilute the score otherwise
+const MAX_TERMS = 8;
+
+// Lines either side of a hit that count towards the same passage
+const PASSAGE_RADIUS = 2;
+
+// Passages closer than this to a better one are the same passage
+const PASSAGE_SPACING = 5;
+
+// Share of the score from the title appearing; the rest is term coverage
+const TITLE_WEIGHT = 0.5;
+
+// Titles shorter than this match too many unrelated lines
+const MIN_TITLE_LENGTH = 4;
+
+export interface AchievementTerms {
+  title: string;
+  terms: string[];
+}
+
+export interface AchievementPassage {
+  lineIndex: number;
+  line: string;
+  score: number;
+  titleMatch: boolean;
+  matchedTerms: string[];
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * The title and distinctive description words to look for, lowercased
+ */
+export function getAchievementTerms(
+  achievement: Pick<Achievement, 'title' | 'description'>
+): AchievementTerms {
+  const title = achievement.title.trim().toLowerCase();
+  const titleWords = new Set(title.split(/[^a-z0-9]+/));
+
+  const terms: string[] = [];
+  for (const word of achievement.description.toLowerCase().split(/[^a-z0-9']+/)) {
+    const term = word.replace(/'s?$/, '').replace(/'/g, '');
+    const distinctive = term.length >= 3 || /^\d+$/.test(term);
+    if (!distinctive || STOP_WORDS.has(term) || terms.includes(term)) continue;
+    // Words already in the title are covered by the title match
+    if (titleWords.has(term) && title.length >= MIN_TITLE_LENGTH) continue;
+    terms.push(term);
+  }
+
+  return { title, terms: terms.slice(0, MAX_TERMS) };
+}
+
+/**
+ * Rank the passages of a guide that mention an achievement
+ */
+export function findAchievementPassages(
+  lines: string[],
+  achievement: Pick<Achievement, 'title' | 'description'>,
+  limit = 5
+): AchievementPassage[] {
+  const { title, terms } = getAchievementTerms(achievement);
+  const searchTitle = title.length >= MIN_TITLE_LENGTH;
+  if (!searchTitle && terms.length === 0) return [];
+
+  // Terms match at word starts so "boss" also finds "bosses"
+  const termPatterns = terms.map(term => new RegExp(`(?<![a-z0-9])${escapeRegExp(term)}`, 'i'));
+  // The title must be whole words, so "Ring" doesn't find "bring" or "spring"
+  const titlePattern = new RegExp(`(?<![a-z0-9])${escapeRegExp(title)}(?![a-z0-9])`, 'i');
+
+  const titleLines: boolean[] = [];
+  const lineTerms: number[][] = [];
+  lines.forEach((line, index) => {
+    titleLines[index] = searchTitle && titlePattern.test(line);
+    lineTerms[index] = termPatterns.flatMap((pattern, term) => (pattern.test(line) ? [term] : []));
+  });
+
+  // A passage needs the title, or more than one term when there are several
+  const minTerms = Math.min(2, terms.length);
+
+  const candidates: { passage: AchievementPassage; rank: number }[] = [];
+  lines.forEach((line, index) => {
+    if (!titleLines[index] && lineTerms[index].length === 0) return;
+
+    const matched = new Set<number>();
+    let titleMatch = false;
+    const end = Math.min(index + PASSAGE_RADIUS, lines.length - 1);
+    for (let i = Math.max(index - PASSAGE_RADIUS, 0); i <= end; i++) {
+      lineTerms[i].forEach(term => matched.add(term));
+      titleMatch = titleMatch || titleLines[i];
+    }
+    if (!titleMatch && (matched.size === 0 || matched.size < minTerms)) return;
+
+    const coverage = terms.length > 0 ? matched.size / terms.length : 0;
+    const score = searchTitle
+      ? (titleMatch ? TITLE_WEIGHT : 0) + (1 - TITLE_WEIGHT) * coverage
+      : coverage;
+
+    candidates.push({
+      passage: {
+        lineIndex: index,
+        line,
+        score,
+        titleMatch,
+        matchedTerms: [...matched].sort((a, b) => a - b).map(term => terms[term]),
+      },
+      // Among equal passages, the line carrying the hits itself is the one to jump to
+      rank: score + (titleLines[index] ? 0.01 : 0) + lineTerms[index].length * 0.001,
+    });
+  });
+
+  candidates.sort((a, b) => b.rank - a.rank || a.passage.lineIndex - b.passage.lineIndex);
+
+  const passages: AchievementPassage[] = [];
+  for (const { passage } of candidates) {
+    if (passages.length >= limit) break;
+    if (passages.some(p => Math.abs(p.lineIndex - passage.lineIndex) < PASSAGE_SPACING)) continue;
+    passages.push(passage);
+  }
+
+  return passages;
+}
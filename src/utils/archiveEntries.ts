@@ -0,0 +1,26 @@
+/**
+ * Addresses of files imported from inside ZIP archives
+ *
+ * An archive member has no file of its own, so it is addressed by the
+ * archive's URI and its entry name, joined the way jar: URLs join them.
+ */
+
+export const ARCHIVE_ENTRY_SEPARATOR = '!/';
+
+export function toArchiveEntryUri(archiveUri: string, entryName: string): string {
+  return `${archiveUri}${ARCHIVE_ENTRY_SEPARATOR}${entryName}`;
+}
+
+/**
+ * Split an archive member's address, or null for a plain file URI
+ */
+export function parseArchiveEntryUri(
+  uri: string
+): { archiveUri: string; entryName: string } | null {
+  const index = uri.indexOf(ARCHIVE_ENTRY_SEPARATOR);
+  if (index === -1) return null;
+  return {
+    archiveUri: uri.slice(0, index),
+    entryName: uri.slice(index + ARCHIVE_ENTRY_SEPARATOR.length),
+  };
+}
@@ -0,0 +1,268 @@
+/**
+ * Guide-to-game matching
+ *
+ * Fuzzy-matches what a guide says about its game (the name inferred on
+ * import, its title and filename, platform and GameFAQs ID) against known
+ * games, scoring each candidate between 0 and 1.
+ */
+
+/**
+ * Matches at or above this confidence are linked without review
+ */
+export const AUTO_LINK_CONFIDENCE = 0.85;
+
+/**
+ * Candidates below this confidence aren't proposed at all
+ */
+export const MIN_MATCH_CONFIDENCE = 0.5;
+
+// Words that describe the document rather than the game
+const NOISE_WORDS = new Set([
+  'the',
+  'a',
+  'an',
+  'faq',
+  'faqs',
+  'guide',
+  'guides',
+  'walkthrough',
+  'walkthroughs',
+  'map',
+  'maps',
+  'cheats',
+  'txt',
+  'html',
+  'htm',
+  'md',
+]);
+
+// Sequel numerals; single letters (I, V, X) are too often part of a title
+const ROMAN_NUMERALS: Record<string, string> = {
+  ii: '2',
+  iii: '3',
+  iv: '4',
+  vi: '6',
+  vii: '7',
+  viii: '8',
+  ix: '9',
+  xi: '11',
+  xii: '12',
+  xiii: '13',
+};
+
+// "Super Metroid FAQ by Someone". Only after a guide word, since "by" can be
+// part of a game's name ("Bound by Flame").
+const AUTHOR_CREDIT_PATTERN = /\b(faqs?|guides?|walkthroughs?|maps?|cheats)\s+by\b.*$/i;
+
+// Platform name variants, including RetroAchievements console names, by the
+// name they are compared as. Names are compared without case or punctuation.
+const PLATFORM_ALIASES: Record<string, string[]> = {
+  nes: ['famicom', 'nintendoentertainmentsystem'],
+  snes: ['superfamicom', 'supernintendo', 'supernes', 'supernintendoentertainmentsystem'],
+  n64: ['nintendo64'],
+  gamecube: ['gc', 'ngc', 'nintendogamecube'],
+  wii: ['nintendowii'],
+  switch: ['nintendoswitch'],
+  genesis: ['megadrive', 'segagenesis', 'segamegadrive'],
+  sms: ['mastersystem', 'segamastersystem'],
+  saturn: ['segasaturn'],
+  dreamcast: ['segadreamcast'],
+  gamegear: ['gg', 'segagamegear'],
+  ps1: ['psx', 'ps', 'psone', 'playstation', 'playstation1'],
+  ps2: ['playstation2'],
+  ps3: ['playstation3'],
+  ps4: ['playstation4'],
+  ps5: ['playstation5'],
+  psp: ['playstationportable'],
+  vita: ['psvita', 'playstationvita'],
+  gameboy: ['gb'],
+  gbc: ['gameboycolor'],
+  gba: ['gameboyadvance'],
+  ds: ['nds', 'nintendods'],
+  '3ds': ['n3ds', 'nintendo3ds'],
+  xbox360: ['x360'],
+  pcengine: ['turbografx16', 'tg16'],
+};
+
+const PLATFORM_NAMES = new Map(
+  Object.entries(PLATFORM_ALIASES).flatMap(([name, aliases]) => [
+    [name, name] as const,
+    ...aliases.map(alias => [alias, name] as const),
+  ])
+);
+
+// Confidence multiplier when both titles carry different sequel numbers
+const SEQUEL_MISMATCH_FACTOR = 0.6;
+const PLATFORM_MATCH_BONUS = 0.05;
+const PLATFORM_MISMATCH_PENALTY = 0.2;
+
+export interface MatchableGuide {
+  id: string;
+  title: string;
+  filePath?: string | null;
+  platform?: string | null;
+  gameName?: string | null;
+  gamefaqsId?: string | null;
+}
+
+export interface GameCandidate {
+  key: string; // Unique across sources
+  gameId: string | null; // Library game, or null until a RetroAchievements game is added
+  raGameId?: string | null;
+  title: string;
+  platform?: string | null;
+  gamefaqsId?: string | null;
+  source: 'library' | 'retroachievements';
+}
+
+export interface ScoredCandidate {
+  candidate: GameCandidate;
+  confidence: number;
+}
+
+function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // Combining accents split off by NFKD
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/'/g, '')
+    .split(/[^a-z0-9]+/)
+    .filter(token => token && !NOISE_WORDS.has(token))
+    .map(token => ROMAN_NUMERALS[token] ?? token);
+}
+
+/**
+ * Lowercase title with punctuation, articles, guide words and accents
+ * removed and sequel numerals made numeric
+ */
+export function normalizeTitle(text: string): string {
+  return tokenize(text).join(' ');
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.substring(i, i + 2);
+    counts.set(pair, (counts.get(pair) ?? 0) + 1);
+  }
+  return counts;
+}
+
+function bigramDice(a: string, b: string): number {
+  if (a.length < 2 || b.length < 2) return a === b ? 1 : 0;
+  const aPairs = bigrams(a);
+  const bPairs = bigrams(b);
+  let overlap = 0;
+  for (const [pair, count] of aPairs) {
+    overlap += Math.min(count, bPairs.get(pair) ?? 0);
+  }
+  return (2 * overlap) / (a.length - 1 + (b.length - 1));
+}
+
+function tokenDice(a: string[], b: string[]): number {
+  const bSet = new Set(b);
+  const shared = new Set(a.filter(token => bSet.has(token))).size;
+  return (2 * shared) / (new Set(a).size + bSet.size);
+}
+
+/**
+ * Similarity of two game titles between 0 and 1
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const aTokens = tokenize(a);
+  const bTokens = tokenize(b);
+  if (aTokens.length === 0 || bTokens.length === 0) return 0;
+
+  const aJoined = aTokens.join('');
+  const bJoined = bTokens.join('');
+  if (aJoined === bJoined) return 1;
+
+  let score = (bigramDice(aJoined, bJoined) + tokenDice(aTokens, bTokens)) / 2;
+
+  // "Final Fantasy 6" is not "Final Fantasy 7"
+  const aNumbers = aTokens.filter(token => /^\d+$/.test(token));
+  const bNumbers = bTokens.filter(token => /^\d+$/.test(token));
+  if (
+    aNumbers.length > 0 &&
+    bNumbers.length > 0 &&
+    !aNumbers.some(number => bNumbers.includes(number))
+  ) {
+    score *= SEQUEL_MISMATCH_FACTOR;
+  }
+
+  return score;
+}
+
+// A guide's title or filename without its author credit
+function withoutAuthor(text: string): string {
+  return text.replace(AUTHOR_CREDIT_PATTERN, '$1');
+}
+
+function filenameTitle(filePath: string): string {
+  const filename = filePath.split('/').pop() ?? '';
+  return filename
+    .replace(/\.[^.]+$/, '')
+    .replace(/^\d+-/, '')
+    .replace(/[-_]+/g, ' ');
+}
+
+// The platforms a name covers; RetroAchievements names some consoles by two
+// names ("SNES/Super Famicom")
+function platformNames(platform: string): string[] {
+  return platform.split('/').map(part => {
+    const key = part.replace(/[^a-z0-9]/gi, '').toLowerCase();
+    return PLATFORM_NAMES.get(key) ?? key;
+  });
+}
+
+function samePlatform(a: string, b: string): boolean {
+  const bNames = platformNames(b);
+  return platformNames(a).some(name => bNames.includes(name));
+}
+
+/**
+ * Confidence that a guide is for a candidate game
+ */
+export function scoreCandidate(guide: MatchableGuide, candidate: GameCandidate): number {
+  if (guide.gamefaqsId && candidate.gamefaqsId === guide.gamefaqsId) return 1;
+
+  const names = [
+    guide.gameName,
+    withoutAuthor(guide.title),
+    guide.filePath ? withoutAuthor(filenameTitle(guide.filePath)) : null,
+  ];
+  let score = Math.max(
+    0,
+    ...names
+      .filter((name): name is string => !!name)
+      .map(name => titleSimilarity(name, candidate.title))
+  );
+
+  if (guide.platform && candidate.platform) {
+    score = samePlatform(guide.platform, candidate.platform)
+      ? score + PLATFORM_MATCH_BONUS
+      : score - PLATFORM_MISMATCH_PENALTY;
+  }
+
+  return Math.min(Math.max(score, 0), 1);
+}
+
+/**
+ * Candidates at or above MIN_MATCH_CONFIDENCE, best first
+ */
+export function rankCandidates(
+  guide: MatchableGuide,
+  candidates: GameCandidate[],
+  limit = 3
+): ScoredCandidate[] {
+  return candidates
+    .map(candidate => ({ candidate, confidence: scoreCandidate(guide, candidate) }))
+    .filter(({ confidence }) => confidence >= MIN_MATCH_CONFIDENCE)
+    .sort((a, b) => b.confidence - a.confidence)
+    .slice(0, limit);
+}
+
+export function formatConfidence(confidence: number): string {
+  return `${Math.round(confidence * 100)}%`;
+}
@@ -0,0 +1,40 @@
+/**
+ * Game backlog helpers shared by the Games tab and game detail screen
+ */
+
+import type { Game } from '../types';
+
+export type GameStatus = Game['status'];
+
+// Order sections appear in on the Games tab
+export const GAME_STATUS_ORDER: GameStatus[] = ['in_progress', 'completed', 'not_started'];
+
+export const GAME_STATUS_LABELS: Record<GameStatus, string> = {
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  not_started: 'Not Started',
+};
+
+export interface GameStatusGroup<T extends Game> {
+  status: GameStatus;
+  title: string;
+  data: T[];
+}
+
+/**
+ * Group games into status sections, skipping empty ones. In-progress games
+ * closest to done come first; other sections keep their incoming order.
+ */
+export function groupGamesByStatus<T extends Game>(games: T[]): GameStatusGroup<T>[] {
+  return GAME_STATUS_ORDER.map(status => {
+    const data = games.filter(game => game.status === status);
+    if (status === 'in_progress') {
+      data.sort((a, b) => b.completion_percentage - a.completion_percentage);
+    }
+    return { status, title: GAME_STATUS_LABELS[status], data };
+  }).filter(group => group.data.length > 0);
+}
+
+export function formatCompletion(percentage: number): string {
+  return `${Math.round(percentage)}%`;
+}
@@ -0,0 +1,186 @@
+/**
+ * Reading Position Utilities
+ *
+ * Content-anchored reading positions. A position is stored as a line index,
+ * the character offset of that line, and a short fingerprint of its text, so
+ * it resolves to the same passage regardless of font size, padding or device.
+ *
+ * Positions saved before anchoring existed are raw pixel scroll offsets and
+ * carry no line index; they are converted with the reader's old line height.
+ */
+
+/**
+ * Number of characters kept in a text fingerprint
+ */
+export const FINGERPRINT_LENGTH = 40;
+
+/**
+ * Line height (px) legacy pixel positions were recorded at:
+ * the reader's former default font size (8) * LINE_HEIGHT_MULTIPLIER (1.4)
+ */
+export const LEGACY_LINE_HEIGHT = 11;
+
+// How far (in lines) to look for a moved fingerprint before giving up
+const RELOCATE_RADIUS = 500;
+
+// How many lines to skip forward past blank lines when fingerprinting
+const FINGERPRINT_LOOKAHEAD = 10;
+
+export interface ContentAnchor {
+  lineIndex: number;
+  offset: number; // Character offset of the line start in normalized content
+  fingerprint: string | null;
+}
+
+/**
+ * A stored position as persisted on bookmarks and position updates
+ */
+export interface StoredPosition {
+  position: number;
+  line_index?: number | null;
+  fingerprint?: string | null;
+}
+
+/**
+ * Split content into lines exactly as GuideContent renders them
+ */
+export function splitLines(content: string): string[] {
+  const normalized = content?.replace(/\r\n/g, '\n').replace(/\r/g, '\n') || '';
+  return normalized.split('\n');
+}
+
+/**
+ * Character offset of the start of each line
+ */
+export function getLineOffsets(lines: string[]): number[] {
+  const offsets: number[] = new Array(lines.length);
+  let offset = 0;
+  for (let i = 0; i < lines.length; i++) {
+    offsets[i] = offset;
+    offset += lines[i].length + 1; // +1 for the newline
+  }
+  return offsets;
+}
+
+function clampLine(lines: string[], lineIndex: number): number {
+  if (lines.length === 0) return 0;
+  return Math.min(Math.max(0, Math.floor(lineIndex)), lines.length - 1);
+}
+
+function normalizeText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Fingerprint of the first non-blank line at or after lineIndex
+ */
+export function getFingerprint(lines: string[], lineIndex: number): string | null {
+  const end = Math.min(lines.length, lineIndex + FINGERPRINT_LOOKAHEAD);
+  for (let i = Math.max(0, lineIndex); i < end; i++) {
+    const text = normalizeText(lines[i]);
+    if (text.length > 0) return text.slice(0, FINGERPRINT_LENGTH);
+  }
+  return null;
+}
+
+/**
+ * Find the line containing a character offset
+ */
+export function lineIndexForOffset(lines: string[], offset: number): number {
+  const offsets = getLineOffsets(lines);
+  let low = 0;
+  let high = offsets.length - 1;
+
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= offset) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return clampLine(lines, low);
+}
+
+/**
+ * Create an anchor for a line
+ */
+export function createAnchor(lines: string[], lineIndex: number): ContentAnchor {
+  const line = clampLine(lines, lineIndex);
+  return {
+    lineIndex: line,
+    offset: getLineOffsets(lines)[line] ?? 0,
+    fingerprint: getFingerprint(lines, line),
+  };
+}
+
+/**
+ * Resolve an anchor to a line index in the given content.
+ * Prefers the stored line when its fingerprint still matches, then the
+ * nearest line with the same fingerprint, then the character offset.
+ */
+export function resolveAnchor(lines: string[], anchor: ContentAnchor): number {
+  const line = clampLine(lines, anchor.lineIndex);
+  if (!anchor.fingerprint) return line;
+
+  if (getFingerprint(lines, line) === anchor.fingerprint) return line;
+
+  // Only compare non-blank lines so a blank line never claims the text after it
+  const matches = (index: number) =>
+    lines[index].trim().length > 0 && getFingerprint(lines, index) === anchor.fingerprint;
+
+  for (let distance = 1; distance <= RELOCATE_RADIUS; distance++) {
+    const before = line - distance;
+    const after = line + distance;
+    if (before < 0 && after >= lines.length) break;
+    if (before >= 0 && matches(before)) return before;
+    if (after < lines.length && matches(after)) return after;
+  }
+
+  return lineIndexForOffset(lines, anchor.offset);
+}
+
+/**
+ * Whether a stored position predates anchoring (raw pixel scroll offset)
+ */
+export function isLegacyPosition(stored: StoredPosition): boolean {
+  return stored.line_index === null || stored.line_index === undefined;
+}
+
+/**
+ * Convert a legacy pixel scroll offset to an anchor
+ */
+export function migrateLegacyPosition(lines: string[], pixelPosition: number): ContentAnchor {
+  return createAnchor(lines, Math.floor(pixelPosition / LEGACY_LINE_HEIGHT));
+}
+
+/**
+ * Resolve any stored position (anchored or legacy) to a line index
+ */
+export function resolveStoredPosition(lines: string[], stored: StoredPosition): number {
+  if (isLegacyPosition(stored)) {
+    return migrateLegacyPosition(lines, stored.position).lineIndex;
+  }
+
+  return resolveAnchor(lines, {
+    lineIndex: stored.line_index!,
+    offset: stored.position,
+    fingerprint: stored.fingerprint ?? null,
+  });
+}
+
+/**
+ * Convert an anchor to the fields persisted with bookmarks and positions
+ */
+export function toStoredPosition(anchor: ContentAnchor): {
+  position: number;
+  line_index: number;
+  fingerprint: string | null;
+} {
+  return {
+    position: anchor.offset,
+    line_index: anchor.lineIndex,
+    fingerprint: anchor.fingerprint,
+  };
+}
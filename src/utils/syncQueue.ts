@@ -0,0 +1,106 @@
+/**
+ * Sync queue coalescing
+ *
+ * Offline changes are queued one row per save. Before replaying them, changes
+ * that later ones make redundant are folded away: only the latest position
+ * per guide is sent, and back-to-back updates to the same note become one.
+ */
+
+export interface QueuedChange {
+  id: number;
+  type: string;
+  action: string;
+  payload: Record<string, unknown>;
+}
+
+export interface CoalescedQueue<T extends QueuedChange> {
+  // Changes to replay, in queue order; merged ones carry the combined payload
+  items: T[];
+  // Rows folded into a later change
+  superseded: number[];
+  // Rows whose stored payload no longer matches what will be replayed
+  merged: T[];
+}
+
+function noteId(change: QueuedChange): string | undefined {
+  const id = change.payload.noteId ?? change.payload.localId;
+  return typeof id === 'string' ? id : undefined;
+}
+
+/**
+ * Fold redundant changes into the ones that replace them
+ */
+export function coalesceSyncQueue<T extends QueuedChange>(queue: T[]): CoalescedQueue<T> {
+  const superseded = new Set<number>();
+  const merged = new Map<number, T>();
+
+  // Only the last position update for each guide matters
+  const latestPosition = new Map<unknown, number>();
+  for (const change of queue) {
+    if (change.type === 'position' && change.action === 'update') {
+      const previous = latestPosition.get(change.payload.guideId);
+      if (previous !== undefined) superseded.add(previous);
+      latestPosition.set(change.payload.guideId, change.id);
+    }
+  }
+
+  // An update folds into the note's previous change when that was an update too
+  const lastNoteChange = new Map<string, T>();
+  for (const change of queue) {
+    const id = change.type === 'note' ? noteId(change) : undefined;
+    if (id === undefined) continue;
+
+    const previous = lastNoteChange.get(id);
+    if (change.action === 'update' && previous?.action === 'update') {
+      const combined = {
+        ...change,
+        payload: {
+          ...previous.payload,
+          ...change.payload,
+          // The edits were all made on top of the first one's server copy
+          baseUpdatedAt: previous.payload.baseUpdatedAt ?? change.payload.baseUpdatedAt,
+        },
+      };
+      superseded.add(previous.id);
+      merged.delete(previous.id);
+      merged.set(change.id, combined);
+      lastNoteChange.set(id, combined);
+    } else {
+      lastNoteChange.set(id, change);
+    }
+  }
+
+  return {
+    items: queue
+      .filter(change => !superseded.has(change.id))
+      .map(change => merged.get(change.id) ?? change),
+    superseded: [...superseded],
+    merged: [...merged.values()],
+  };
+}
+
+// Delay before the first retry of a failed change
+export const BASE_RETRY_DELAY = 30 * 1000; // 30 seconds
+
+// Retries back off no further than this
+export const MAX_RETRY_DELAY = 60 * 60 * 1000; // 1 hour
+
+// Attempts after which a change is given up on
+export const MAX_SYNC_ATTEMPTS = 8;
+
+/**
+ * How long to wait before retrying a change that has failed `attempts` times
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY);
+}
+
+/**
+ * Starting point for merging two versions of a note: the longer one when it
+ * already contains the other, otherwise both, theirs first
+ */
+export function mergeNoteContents(mine: string, theirs: string): string {
+  if (mine.includes(theirs)) return mine;
+  if (theirs.includes(mine)) return theirs;
+  return `${theirs.trimEnd()}\n\n${mine.trimStart()}`;
+}
@@ -0,0 +1,288 @@
+/**
+ * Character encoding detection and decoding for legacy guide files
+ *
+ * Old FAQs are often CP437 (DOS box-drawing art), Windows-1252/Latin-1 or
+ * Shift-JIS rather than UTF-8. Detection checks for a BOM, then strict UTF-8,
+ * then scores the high bytes for Shift-JIS pairs and CP437 box characters.
+ */
+
+import * as Encoding from 'encoding-japanese';
+import type { TextEncoding } from '../types';
+
+export const TEXT_ENCODINGS: Array<{ value: TextEncoding; label: string }> = [
+  { value: 'utf-8', label: 'UTF-8' },
+  { value: 'cp437', label: 'DOS (CP437)' },
+  { value: 'windows-1252', label: 'Latin-1' },
+  { value: 'shift_jis', label: 'Shift-JIS' },
+  { value: 'utf-16le', label: 'UTF-16 LE' },
+  { value: 'utf-16be', label: 'UTF-16 BE' },
+];
+
+// CP437 0x80-0xFF: accented letters, then box drawing (0xB0-0xDF), then Greek and math
+const CP437_HIGH =
+  'ÇüéâäàåçêëèïîìÄÅÉæÆôöòûùÿÖÜ¢£¥₧ƒáíóúñÑªº¿⌐¬½¼¡«»' +
+  '░▒▓│┤╡╢╖╕╣║╗╝╜╛┐└┴┬├─┼╞╟╚╔╩╦╠═╬╧╨╤╥╙╘╒╓╫╪┘┌█▄▌▐▀' +
+  'αßΓπΣσµτΦΘΩδ∞φε∩≡±≥≤⌠⌡÷≈°∙·√ⁿ²■\u00a0';
+
+// Windows-1252 0x80-0x9F; undefined bytes keep their Latin-1 code point so decoding is reversible
+const WINDOWS_1252_C1 = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+// How much of a sample to inspect; guides are large and the heuristics settle quickly
+const SAMPLE_SIZE = 64 * 1024;
+
+const BOX_DRAWING_START = 0xb0;
+const BOX_DRAWING_END = 0xdf;
+
+/**
+ * Length of the valid UTF-8 sequence starting at i, or 0 if invalid
+ */
+function utf8SequenceLength(bytes: Uint8Array, i: number): number {
+  const byte = bytes[i];
+  let length: number;
+  if (byte < 0x80) return 1;
+  else if (byte >= 0xc2 && byte <= 0xdf) length = 2;
+  else if (byte >= 0xe0 && byte <= 0xef) length = 3;
+  else if (byte >= 0xf0 && byte <= 0xf4) length = 4;
+  else return 0;
+
+  for (let j = 1; j < length; j++) {
+    // A sequence cut off by the end of the sample still counts as valid
+    if (i + j >= bytes.length) return bytes.length - i;
+    if ((bytes[i + j] & 0xc0) !== 0x80) return 0;
+  }
+  return length;
+}
+
+function isValidUtf8(bytes: Uint8Array): boolean {
+  let i = 0;
+  while (i < bytes.length) {
+    const length = utf8SequenceLength(bytes, i);
+    if (length === 0) return false;
+    i += length;
+  }
+  return true;
+}
+
+/**
+ * Count Shift-JIS double-byte characters; null if the bytes can't be Shift-JIS
+ */
+function countShiftJisPairs(bytes: Uint8Array): number | null {
+  let pairs = 0;
+  let i = 0;
+  while (i < bytes.length) {
+    const byte = bytes[i];
+    const isLead = (byte >= 0x81 && byte <= 0x9f) || (byte >= 0xe0 && byte <= 0xfc);
+    if (byte < 0x80 || (byte >= 0xa1 && byte <= 0xdf)) {
+      // ASCII or half-width katakana
+      i++;
+    } else if (isLead) {
+      const trail = bytes[i + 1];
+      if (trail === undefined) break;
+      if (trail < 0x40 || trail > 0xfc || trail === 0x7f) return null;
+      pairs++;
+      i += 2;
+    } else {
+      return null;
+    }
+  }
+  return pairs;
+}
+
+function detectUtf16WithoutBom(bytes: Uint8Array): TextEncoding | null {
+  const length = bytes.length - (bytes.length % 2);
+  if (length < 4) return null;
+
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (bytes[i] === 0) evenZeros++;
+    if (bytes[i + 1] === 0) oddZeros++;
+  }
+
+  // Mostly-ASCII UTF-16 has a zero in every other byte
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return 'utf-16le';
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return 'utf-16be';
+  return null;
+}
+
+/**
+ * Guess the encoding of raw guide bytes
+ */
+export function detectEncoding(data: Uint8Array): TextEncoding {
+  if (data[0] === 0xef && data[1] === 0xbb && data[2] === 0xbf) return 'utf-8';
+  if (data[0] === 0xff && data[1] === 0xfe) return 'utf-16le';
+  if (data[0] === 0xfe && data[1] === 0xff) return 'utf-16be';
+
+  const bytes = data.subarray(0, SAMPLE_SIZE);
+
+  const utf16 = detectUtf16WithoutBom(bytes);
+  if (utf16) return utf16;
+
+  if (isValidUtf8(bytes)) return 'utf-8';
+
+  let highBytes = 0;
+  let boxBytes = 0;
+  let boxRuns = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    if (bytes[i] < 0x80) continue;
+    highBytes++;
+    if (bytes[i] >= BOX_DRAWING_START && bytes[i] <= BOX_DRAWING_END) {
+      boxBytes++;
+      const next = bytes[i + 1];
+      if (next >= BOX_DRAWING_START && next <= BOX_DRAWING_END) boxRuns++;
+    }
+  }
+
+  // Japanese text is dominated by double-byte pairs
+  const shiftJisPairs = countShiftJisPairs(bytes);
+  if (shiftJisPairs !== null && shiftJisPairs * 2 >= highBytes * 0.6) return 'shift_jis';
+
+  // Box-drawing bytes are uppercase accented letters in Latin-1, which rarely come in runs
+  if (boxBytes >= highBytes * 0.5 && boxRuns > 0) return 'cp437';
+
+  return 'windows-1252';
+}
+
+function decodeUtf8(bytes: Uint8Array): string {
+  const start = bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf ? 3 : 0;
+  let result = '';
+  let i = start;
+
+  while (i < bytes.length) {
+    const length = utf8SequenceLength(bytes, i);
+    const byte = bytes[i];
+
+    if (length === 0 || i + length > bytes.length) {
+      result += '�';
+      i++;
+      continue;
+    }
+
+    let codePoint: number;
+    if (length === 1) codePoint = byte;
+    else if (length === 2) codePoint = ((byte & 0x1f) << 6) | (bytes[i + 1] & 0x3f);
+    else if (length === 3)
+      codePoint = ((byte & 0x0f) << 12) | ((bytes[i + 1] & 0x3f) << 6) | (bytes[i + 2] & 0x3f);
+    else
+      codePoint =
+        ((byte & 0x07) << 18) |
+        ((bytes[i + 1] & 0x3f) << 12) |
+        ((bytes[i + 2] & 0x3f) << 6) |
+        (bytes[i + 3] & 0x3f);
+
+    result += String.fromCodePoint(codePoint);
+    i += length;
+  }
+
+  return result;
+}
+
+function decodeUtf16(bytes: Uint8Array, littleEndian: boolean): string {
+  const hasBom = littleEndian
+    ? bytes[0] === 0xff && bytes[1] === 0xfe
+    : bytes[0] === 0xfe && bytes[1] === 0xff;
+  const codeUnits: number[] = [];
+  for (let i = hasBom ? 2 : 0; i + 1 < bytes.length; i += 2) {
+    codeUnits.push(littleEndian ? bytes[i] | (bytes[i + 1] << 8) : (bytes[i] << 8) | bytes[i + 1]);
+  }
+
+  // Chunked to stay under the engine's argument limit
+  let result = '';
+  for (let i = 0; i < codeUnits.length; i += 8192) {
+    result += String.fromCharCode(...codeUnits.slice(i, i + 8192));
+  }
+  return result;
+}
+
+function decodeSingleByte(bytes: Uint8Array, high: (byte: number) => string): string {
+  let result = '';
+  for (let i = 0; i < bytes.length; i++) {
+    result += bytes[i] < 0x80 ? String.fromCharCode(bytes[i]) : high(bytes[i]);
+  }
+  return result;
+}
+
+export function decodeText(bytes: Uint8Array, encoding: TextEncoding): string {
+  switch (encoding) {
+    case 'utf-8':
+      return decodeUtf8(bytes);
+    case 'utf-16le':
+      return decodeUtf16(bytes, true);
+    case 'utf-16be':
+      return decodeUtf16(bytes, false);
+    case 'cp437':
+      return decodeSingleByte(bytes, byte => CP437_HIGH[byte - 0x80]);
+    case 'windows-1252':
+      return decodeSingleByte(bytes, byte =>
+        byte < 0xa0 ? WINDOWS_1252_C1[byte - 0x80] : String.fromCharCode(byte)
+      );
+    case 'shift_jis':
+      return Encoding.convert(bytes, { to: 'UNICODE', from: 'SJIS', type: 'string' });
+  }
+}
+
+function encodeSingleByte(text: string, highChars: string, offset: number): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) {
+    const code = text.charCodeAt(i);
+    if (code < 0x80) {
+      bytes[i] = code;
+    } else {
+      const index = highChars.indexOf(text[i]);
+      // Characters the encoding can't represent become '?'
+      bytes[i] = index >= 0 ? index + offset : 0x3f;
+    }
+  }
+  return bytes;
+}
+
+/**
+ * Turn decoded text back into the bytes it was decoded from, so a guide can be
+ * re-decoded with a different encoding without the original file
+ */
+export function encodeText(text: string, encoding: TextEncoding): Uint8Array {
+  switch (encoding) {
+    case 'utf-8':
+      return Uint8Array.from(
+        Encoding.convert(Encoding.stringToCode(text), { to: 'UTF8', from: 'UNICODE' })
+      );
+    case 'utf-16le':
+    case 'utf-16be': {
+      const bytes = new Uint8Array(text.length * 2);
+      for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        const [first, second] =
+          encoding === 'utf-16le' ? [code & 0xff, code >> 8] : [code >> 8, code & 0xff];
+        bytes[i * 2] = first;
+        bytes[i * 2 + 1] = second;
+      }
+      return bytes;
+    }
+    case 'cp437':
+      return encodeSingleByte(text, CP437_HIGH, 0x80);
+    case 'windows-1252': {
+      let latin1 = WINDOWS_1252_C1;
+      for (let code = 0xa0; code <= 0xff; code++) latin1 += String.fromCharCode(code);
+      return encodeSingleByte(text, latin1, 0x80);
+    }
+    case 'shift_jis':
+      return Uint8Array.from(
+        Encoding.convert(Encoding.stringToCode(text), { to: 'SJIS', from: 'UNICODE' })
+      );
+  }
+}
+
+/**
+ * Detect the encoding (unless given) and decode
+ */
+export function decodeGuideBytes(
+  bytes: Uint8Array,
+  encoding: TextEncoding = detectEncoding(bytes)
+): { text: string; encoding: TextEncoding } {
+  return { text: decodeText(bytes, encoding), encoding };
+}
+
+export function isTextEncoding(value: unknown): value is TextEncoding {
+  return TEXT_ENCODINGS.some(option => option.value === value);
+}
@@ -0,0 +1,258 @@
+/**
+ * In-guide text search
+ *
+ * Builds a single RegExp for every search mode (plain, whole word, case
+ * sensitive, regular expression) so finding matches and highlighting them
+ * always agree.
+ */
+
+import type { GuideSection } from '../types';
+
+export interface SearchOptions {
+  caseSensitive: boolean;
+  wholeWord: boolean;
+  regex: boolean;
+}
+
+export const DEFAULT_SEARCH_OPTIONS: SearchOptions = {
+  caseSensitive: false,
+  wholeWord: false,
+  regex: false,
+};
+
+// Beyond this many matches a search stops; the query needs narrowing
+export const MAX_SEARCH_MATCHES = 5000;
+
+// A search still running after this long stops with the matches found so far
+export const SEARCH_TIME_BUDGET_MS = 200;
+
+/**
+ * A match as character offsets into normalized content; end is exclusive
+ */
+export interface SearchMatch {
+  start: number;
+  end: number;
+}
+
+/**
+ * Matches found by a search. truncated is set when it stopped early, at the
+ * match limit or out of time, so there may be more.
+ */
+export interface MatchResults {
+  matches: SearchMatch[];
+  truncated: boolean;
+}
+
+/**
+ * A highlighted range within a single line
+ */
+export interface LineHighlight {
+  start: number;
+  end: number;
+  matchIndex: number;
+}
+
+export type SearchPatternResult =
+  | { pattern: RegExp; error: null }
+  | { pattern: null; error: string | null };
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile the query for the given options. Returns an error message for an
+ * invalid regular expression and no pattern for an empty query.
+ */
+export function buildSearchPattern(query: string, options: SearchOptions): SearchPatternResult {
+  if (!query.trim()) return { pattern: null, error: null };
+
+  let source = options.regex ? query : escapeRegExp(query);
+  // Lookarounds rather than \b so queries like "[WLK01]" can still match as whole words
+  if (options.wholeWord) source = `(?<!\\w)(?:${source})(?!\\w)`;
+
+  // m: ^ and $ match at line boundaries, which is what guide readers expect
+  const flags = options.caseSensitive ? 'gm' : 'gim';
+
+  try {
+    return { pattern: new RegExp(source, flags), error: null };
+  } catch (error) {
+    return {
+      pattern: null,
+      error: error instanceof Error ? error.message : 'Invalid regular expression',
+    };
+  }
+}
+
+/**
+ * Find the non-empty matches of a global pattern, stopping at maxMatches or
+ * once timeBudgetMs has passed. The budget is checked between matches, so a
+ * single pathological match attempt still runs to completion.
+ */
+export function findMatches(
+  content: string,
+  pattern: RegExp,
+  maxMatches = MAX_SEARCH_MATCHES,
+  timeBudgetMs = SEARCH_TIME_BUDGET_MS
+): MatchResults {
+  const matches: SearchMatch[] = [];
+  const regex = new RegExp(pattern.source, pattern.flags);
+  const deadline = Date.now() + timeBudgetMs;
+
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(content)) !== null) {
+    if (matches.length >= maxMatches || Date.now() > deadline) {
+      return { matches, truncated: true };
+    }
+    if (match[0].length === 0) {
+      // Patterns like "a*" can match nothing; step past to avoid looping forever
+      regex.lastIndex++;
+      continue;
+    }
+    matches.push({ start: match.index, end: match.index + match[0].length });
+  }
+
+  return { matches, truncated: false };
+}
+
+/**
+ * Line index of each match start, in match order
+ */
+export function getMatchLines(matches: SearchMatch[], lineOffsets: number[]): number[] {
+  let line = 0;
+  return matches.map(match => {
+    while (line + 1 < lineOffsets.length && lineOffsets[line + 1] <= match.start) line++;
+    return line;
+  });
+}
+
+/**
+ * Split matches into per-line highlight ranges. Matches spanning a line
+ * break are highlighted on each line they cover.
+ */
+export function getLineHighlights(
+  matches: SearchMatch[],
+  lineOffsets: number[],
+  lines: string[]
+): Map<number, LineHighlight[]> {
+  const highlights = new Map<number, LineHighlight[]>();
+  let line = 0;
+
+  matches.forEach((match, matchIndex) => {
+    // Matches are in order, so the line only moves forward
+    while (line + 1 < lineOffsets.length && lineOffsets[line + 1] <= match.start) line++;
+
+    for (let i = line; i < lines.length && lineOffsets[i] < match.end; i++) {
+      const start = Math.max(match.start - lineOffsets[i], 0);
+      const end = Math.min(match.end - lineOffsets[i], lines[i].length);
+      if (end <= start) continue;
+
+      const lineHighlights = highlights.get(i) ?? [];
+      lineHighlights.push({ start, end, matchIndex });
+      highlights.set(i, lineHighlights);
+    }
+  });
+
+  return highlights;
+}
+
+/**
+ * A match with the lines around it for the search results list
+ */
+export interface SearchResult {
+  matchIndex: number;
+  lineIndex: number;
+  line: string;
+  before: string | null;
+  after: string | null;
+  highlightStart: number; // Within line; a match spanning lines is cut at the line end
+  highlightEnd: number;
+}
+
+/**
+ * Search results grouped by the section that contains them
+ */
+export interface SearchResultGroup {
+  section: GuideSection | null; // null for matches before the first section
+  title: string;
+  data: SearchResult[];
+}
+
+function contextLine(lines: string[], lineIndex: number): string | null {
+  const line = lines[lineIndex];
+  return line && line.trim() ? line : null;
+}
+
+/**
+ * Group matches by enclosing outline section, with one line of context on each side
+ */
+export function groupSearchResults(
+  matches: SearchMatch[],
+  lines: string[],
+  lineOffsets: number[],
+  outline: GuideSection[]
+): SearchResultGroup[] {
+  const sections = [...outline].sort((a, b) => a.lineIndex - b.lineIndex);
+  const groups: SearchResultGroup[] = [];
+  let line = 0;
+  let sectionIndex = -1;
+
+  matches.forEach((match, matchIndex) => {
+    while (line + 1 < lineOffsets.length && lineOffsets[line + 1] <= match.start) line++;
+    while (sectionIndex + 1 < sections.length && sections[sectionIndex + 1].lineIndex <= line) {
+      sectionIndex++;
+    }
+
+    const section = sections[sectionIndex] ?? null;
+    let group = groups[groups.length - 1];
+    if (!group || group.section !== section) {
+      group = { section, title: section?.title ?? 'Introduction', data: [] };
+      groups.push(group);
+    }
+
+    const text = lines[line] ?? '';
+    group.data.push({
+      matchIndex,
+      lineIndex: line,
+      line: text,
+      before: contextLine(lines, line - 1),
+      after: contextLine(lines, line + 1),
+      highlightStart: match.start - lineOffsets[line],
+      highlightEnd: Math.min(match.end - lineOffsets[line], text.length),
+    });
+  });
+
+  return groups;
+}
+
+// Delimit matched terms in search snippets; guide text never contains these control characters
+export const SNIPPET_MATCH_START = '\u0002';
+export const SNIPPET_MATCH_END = '\u0003';
+
+export interface SnippetSegment {
+  text: string;
+  match: boolean;
+}
+
+/**
+ * Split a search snippet into plain and matched runs of text
+ */
+export function parseSnippet(snippet: string): SnippetSegment[] {
+  const segments: SnippetSegment[] = [];
+  const pattern = new RegExp(
+    `${SNIPPET_MATCH_START}([^${SNIPPET_MATCH_END}]*)${SNIPPET_MATCH_END}`,
+    'g'
+  );
+  let last = 0;
+
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(snippet)) !== null) {
+    if (match.index > last) segments.push({ text: snippet.slice(last, match.index), match: false });
+    if (match[1]) segments.push({ text: match[1], match: true });
+    last = match.index + match[0].length;
+  }
+  if (last < snippet.length) segments.push({ text: snippet.slice(last), match: false });
+
+  // Collapse whitespace so multi-line snippets read as one line
+  return segments.map(segment => ({ ...segment, text: segment.text.replace(/\s+/g, ' ') }));
+}